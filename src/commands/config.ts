@@ -2,20 +2,45 @@ import { findProjectRoot } from '../utils/project.js';
 import { DocumentManager } from '../lib/documents.js';
 import { StateManager } from '../lib/state/state-manager.js';
 import * as terminal from '../lib/ui/terminal.js';
-import { DEFAULT_CONFIG } from '../types/index.js';
+import { ConfigError } from '../types/errors.js';
+import {
+  buildConfigUpdate,
+  explainConfigValue,
+  getConfigEnvVar,
+  getConfigKeys,
+  getConfigValue,
+  getGlobalConfigPath,
+  loadConfigLayers,
+  parseConfigValue,
+  resolveProjectConfig,
+  saveGlobalConfigValue,
+  type ConfigExplanation,
+  type ConfigLayers,
+  type ConfigSource,
+  type ConfigValue,
+} from '../lib/config.js';
 
 export interface ConfigOptions {
   dir?: string;
   set?: string;
   get?: string;
+  explain?: string;
+  global?: boolean;
 }
 
-// Configurable keys and their types
-const CONFIG_KEYS: Record<string, { type: 'number' | 'boolean' | 'string'; path: string[] }> = {
-  'agent.timeout_minutes': { type: 'number', path: ['agent', 'timeout_minutes'] },
-};
-
 export async function configCommand(options: ConfigOptions): Promise<void> {
+  // Setting a user default does not need a project
+  if (options.set && options.global) {
+    const [key, value] = parseAssignment(options.set);
+    try {
+      await saveGlobalConfigValue(key, value);
+    } catch (error) {
+      exitWithConfigError(error);
+    }
+    terminal.printSuccess(`Set ${key} = ${value} in ${getGlobalConfigPath()}`);
+    return;
+  }
+
   const projectDir = findProjectRoot(options.dir);
   if (!projectDir) {
     terminal.printError('Not in an orchestrator project.');
@@ -28,71 +53,53 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
 
   const project = stateManager.getProject();
 
+  let layers: ConfigLayers;
+  try {
+    layers = await loadConfigLayers();
+  } catch (error) {
+    exitWithConfigError(error);
+  }
+
   // Handle set option: "key=value"
   if (options.set) {
-    const [key, ...valueParts] = options.set.split('=');
-    const value = valueParts.join('=');
-
-    if (!key || value === undefined) {
-      terminal.printError('Invalid format. Use: --set key=value');
-      process.exit(1);
-    }
-
-    const configDef = CONFIG_KEYS[key];
-    if (!configDef) {
-      terminal.printError(`Unknown config key: ${key}`);
-      terminal.printInfo(`Available keys: ${Object.keys(CONFIG_KEYS).join(', ')}`);
-      process.exit(1);
-    }
+    const [key, value] = parseAssignment(options.set);
+    await documentManager.updateProjectMeta(buildConfigUpdate(key, value));
 
-    // Parse and validate value
-    let parsedValue: number | boolean | string;
-    switch (configDef.type) {
-      case 'number':
-        parsedValue = Number(value);
-        if (isNaN(parsedValue)) {
-          terminal.printError(`Invalid number: ${value}`);
-          process.exit(1);
-        }
-        break;
-      case 'boolean':
-        parsedValue = value.toLowerCase() === 'true';
-        break;
-      default:
-        parsedValue = value;
+    terminal.printSuccess(`Set ${key} = ${value}`);
+    if (layers.env?.[key] !== undefined) {
+      terminal.printWarning(`${getConfigEnvVar(key)} is set and still overrides this value.`);
     }
-
-    // Update meta (only agent config for now)
-    if (key === 'agent.timeout_minutes') {
-      await documentManager.updateProjectMeta({
-        agent: {
-          ...project.meta.agent,
-          timeout_minutes: parsedValue as number,
-        },
-      });
-    }
-
-    terminal.printSuccess(`Set ${key} = ${parsedValue}`);
     return;
   }
 
   // Handle get option
   if (options.get) {
-    const key = options.get;
-    const configDef = CONFIG_KEYS[key];
-    if (!configDef) {
-      terminal.printError(`Unknown config key: ${key}`);
-      terminal.printInfo(`Available keys: ${Object.keys(CONFIG_KEYS).join(', ')}`);
-      process.exit(1);
+    let value: unknown;
+    try {
+      value = getConfigValue(project.meta, options.get, layers);
+    } catch (error) {
+      exitWithConfigError(error);
     }
 
-    // Get nested value
-    let value: unknown = project.meta;
-    for (const pathPart of configDef.path) {
-      value = (value as Record<string, unknown>)?.[pathPart];
+    console.log(value);
+    return;
+  }
+
+  // Handle explain option
+  if (options.explain) {
+    const key = options.explain;
+    let explanation: ConfigExplanation;
+    try {
+      explanation = explainConfigValue(project.meta, key, layers);
+    } catch (error) {
+      exitWithConfigError(error);
     }
 
-    console.log(value);
+    console.log(`${key} = ${formatValue(explanation.value)} (from ${explanation.source})`);
+    for (const layer of explanation.layers) {
+      const marker = layer.source === explanation.source ? '*' : ' ';
+      console.log(`  ${marker} ${LAYER_LABELS[layer.source](key).padEnd(48)} ${formatValue(layer.value)}`);
+    }
     return;
   }
 
@@ -106,9 +113,39 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
     `Status: ${project.meta.phase_status}`,
   ].join('\n'));
 
+  const config = resolveProjectConfig(project.meta, layers);
+
   terminal.printSection('Agent', [
-    `Primary: ${project.meta.agent.primary}`,
-    `Timeout: ${project.meta.agent.timeout_minutes} minutes`,
+    `Primary: ${config.agent.primary}`,
+    `Timeout: ${config.agent.timeout_minutes} minutes`,
+  ].join('\n'));
+
+  terminal.printSection('Git', [
+    `Enabled: ${config.git.enabled}`,
+    `Auto-commit: ${config.git.auto_commit}`,
+    `Branch prefix: ${config.git.branch_prefix}`,
+  ].join('\n'));
+
+  terminal.printSection('LLM', [
+    `Provider: ${config.llm.provider}`,
+    `Model: ${config.llm.model}`,
+    `Max tokens: ${config.llm.max_tokens}`,
+  ].join('\n'));
+
+  terminal.printSection('Execution', [
+    `Max retries: ${config.execution.max_retries}`,
+    `Retry strategy: ${config.execution.retry_strategy}`,
+    `Parallel: ${config.execution.parallel}`,
+    `Max parallel: ${config.execution.max_parallel}`,
+    `Validate results: ${config.execution.validate_results}`,
+  ].join('\n'));
+
+  const formatCommand = (command: string) => command || '(off)';
+  terminal.printSection('Verification', [
+    `Typecheck: ${formatCommand(config.verification.typecheck)}`,
+    `Lint: ${formatCommand(config.verification.lint)}`,
+    `Test: ${formatCommand(config.verification.test)}`,
+    `Timeout: ${config.verification.timeout_minutes} minutes`,
   ].join('\n'));
 
   terminal.printSection('Cost', [
@@ -116,15 +153,53 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
     `Total cost: $${project.meta.cost.total_cost_usd.toFixed(4)}`,
   ].join('\n'));
 
-  terminal.printSection('Defaults (not persisted)', [
-    `Git enabled: ${DEFAULT_CONFIG.git.enabled}`,
-    `Git auto-commit: ${DEFAULT_CONFIG.git.auto_commit}`,
-    `Git branch prefix: ${DEFAULT_CONFIG.git.branch_prefix}`,
-    `LLM provider: ${DEFAULT_CONFIG.llm.provider}`,
-    `LLM model: ${DEFAULT_CONFIG.llm.model}`,
-    `LLM max tokens: ${DEFAULT_CONFIG.llm.max_tokens}`,
+  const budget = config.budget;
+  const formatLimit = (limit?: number) => (limit && limit > 0 ? `$${limit.toFixed(2)}` : 'none');
+  terminal.printSection('Budget', [
+    `Project: ${formatLimit(budget.project_usd)}`,
+    `Per phase: ${formatLimit(budget.phase_usd)}`,
+    `Per task: ${formatLimit(budget.task_usd)}`,
   ].join('\n'));
 
-  terminal.printInfo('\nUse --set key=value to update config.');
-  terminal.printInfo(`Available keys: ${Object.keys(CONFIG_KEYS).join(', ')}`);
+  terminal.printInfo('\nUse --set key=value to update config, or --set key=value --global for all projects.');
+  terminal.printInfo('Use --explain <key> to see where a value comes from.');
+  terminal.printInfo(`Available keys: ${getConfigKeys().join(', ')}`);
+}
+
+const LAYER_LABELS: Record<ConfigSource, (key: string) => string> = {
+  default: () => 'default',
+  global: () => `global (${getGlobalConfigPath()})`,
+  project: () => 'project (PROJECT.md)',
+  env: (key) => `env (${getConfigEnvVar(key)})`,
+  flag: () => 'flag (init/resume options)',
+};
+
+function formatValue(value: ConfigValue | undefined): string {
+  return value === undefined ? 'not set' : String(value);
+}
+
+function parseAssignment(assignment: string): [string, ConfigValue] {
+  const [key, ...valueParts] = assignment.split('=');
+  if (!key || valueParts.length === 0) {
+    terminal.printError('Invalid format. Use: --set key=value');
+    process.exit(1);
+  }
+
+  try {
+    return [key, parseConfigValue(key, valueParts.join('='))];
+  } catch (error) {
+    exitWithConfigError(error);
+  }
+}
+
+function exitWithConfigError(error: unknown): never {
+  if (error instanceof ConfigError) {
+    terminal.printError(error.message);
+    const available = error.context?.available;
+    if (Array.isArray(available)) {
+      terminal.printInfo(`Available keys: ${available.join(', ')}`);
+    }
+    process.exit(1);
+  }
+  throw error;
 }
@@ -0,0 +1,82 @@
+import { findProjectRoot } from '../utils/project.js';
+import { DocumentManager } from '../lib/documents.js';
+import type { HistoryPhase } from '../lib/phase-history.js';
+import { diffSnapshots, renderPhaseDiff } from '../lib/phase-diff.js';
+import * as terminal from '../lib/ui/terminal.js';
+
+export interface DiffOptions {
+  dir?: string;
+  from?: string;
+  to?: string;
+  json?: boolean;
+}
+
+export async function diffCommand(phase: string, options: DiffOptions): Promise<void> {
+  const projectDir = findProjectRoot(options.dir);
+  if (!projectDir) {
+    terminal.printError('Not in an orchestrator project.');
+    process.exit(1);
+  }
+
+  const phaseNum = parsePhaseArg(phase);
+  if (phaseNum === null) {
+    terminal.printError(`Invalid phase: ${phase}. Use phase-1, phase-2 or phase-3`);
+    process.exit(1);
+  }
+
+  const documentManager = new DocumentManager(projectDir);
+  const revisions = await documentManager.getPhaseRevisions(phaseNum);
+  if (revisions.length === 0) {
+    terminal.printError(`Phase ${phaseNum} has no recorded revisions yet.`);
+    process.exit(1);
+  }
+
+  // Default to the latest revision and the one before it
+  const to = parseRevision(options.to, '--to') ?? revisions.at(-1)!;
+  const from = parseRevision(options.from, '--from') ?? revisions[revisions.indexOf(to) - 1];
+  for (const revision of [from, to]) {
+    if (revision !== undefined && !revisions.includes(revision)) {
+      terminal.printError(
+        `Phase ${phaseNum} has no revision ${revision} (revisions: ${revisions.join(', ')}).`
+      );
+      process.exit(1);
+    }
+  }
+  if (from === undefined) {
+    terminal.printError(
+      `Revision ${to} is the first one of phase ${phaseNum}; nothing to compare.`
+    );
+    process.exit(1);
+  }
+
+  const before = await documentManager.getPhaseSnapshot(phaseNum, from);
+  const after = await documentManager.getPhaseSnapshot(phaseNum, to);
+  if (!before || !after) {
+    terminal.printError(`Phase ${phaseNum} history is incomplete.`);
+    process.exit(1);
+  }
+
+  const diff = diffSnapshots(before, after);
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+  console.log(renderPhaseDiff(diff));
+}
+
+function parsePhaseArg(phase: string): HistoryPhase | null {
+  if (phase === 'phase-1' || phase === '1') return 1;
+  if (phase === 'phase-2' || phase === '2') return 2;
+  if (phase === 'phase-3' || phase === '3') return 3;
+  return null;
+}
+
+function parseRevision(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const revision = Number(value);
+  if (!Number.isInteger(revision) || revision < 1) {
+    terminal.printError(`${flag} must be a revision number, got "${value}"`);
+    process.exit(1);
+  }
+  return revision;
+}
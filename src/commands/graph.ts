@@ -0,0 +1,56 @@
+import { findProjectRoot } from '../utils/project.js';
+import { DocumentManager } from '../lib/documents.js';
+import { StateManager } from '../lib/state/state-manager.js';
+import {
+  GRAPH_FORMATS,
+  buildDependencyGraph,
+  renderDependencyGraph,
+  type GraphFormat,
+} from '../lib/state/dependency-graph.js';
+import * as terminal from '../lib/ui/terminal.js';
+
+export interface GraphOptions {
+  dir?: string;
+  format?: string;
+  phase?: string;
+}
+
+export async function graphCommand(options: GraphOptions): Promise<void> {
+  const projectDir = findProjectRoot(options.dir);
+  if (!projectDir) {
+    terminal.printError('Not in an orchestrator project.');
+    process.exit(1);
+  }
+
+  const format = (options.format ?? 'mermaid') as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    terminal.printError(
+      `Unknown format "${options.format}". Use one of: ${GRAPH_FORMATS.join(', ')}.`
+    );
+    process.exit(1);
+  }
+
+  const documentManager = new DocumentManager(projectDir);
+  const stateManager = new StateManager(documentManager, projectDir);
+  await stateManager.load();
+
+  const phases = stateManager.getProject().implementation_phases;
+  if (phases.length === 0) {
+    terminal.printError('No implementation phases yet. Complete planning (phase 3) first.');
+    process.exit(1);
+  }
+
+  let phaseNumber: number | undefined;
+  if (options.phase !== undefined) {
+    phaseNumber = Number(options.phase);
+    if (!phases.some((p) => p.phase_number === phaseNumber)) {
+      const numbers = phases.map((p) => p.phase_number).join(', ');
+      terminal.printError(`No implementation phase ${options.phase} (phases: ${numbers}).`);
+      process.exit(1);
+    }
+  }
+
+  // Plain stdout so the output can be piped into mermaid-cli or dot
+  const graph = buildDependencyGraph(phases, { phase: phaseNumber });
+  console.log(renderDependencyGraph(graph, format));
+}
@@ -2,15 +2,23 @@ import * as path from 'path';
 import { logger } from '../utils/logger.js';
 import { initProjectDir, projectExists } from '../utils/project.js';
 import { slugify } from '../utils/templates.js';
-import { DocumentManager } from '../lib/documents.js';
-import { StateManager } from '../lib/state/state-manager.js';
-import { LLMService } from '../lib/llm/llm-service.js';
-import { IdeationPhase } from '../lib/phases/ideation-phase.js';
+import { loadConfigLayers, type ConfigFlagOptions, type ConfigLayers } from '../lib/config.js';
+import { Pipeline } from '../lib/pipeline.js';
+import { resolveCassetteOptions, type CassetteOptions } from '../lib/llm/cassette-client.js';
+import { loadAnswersFile, type AnswersFile } from '../lib/answers.js';
+import { formatBudgetPause } from '../lib/state/budget.js';
+import { BudgetExceededError } from '../types/errors.js';
 import * as terminal from '../lib/ui/terminal.js';
 
-export interface InitOptions {
+export interface InitOptions extends ConfigFlagOptions {
   dir?: string;
   name?: string;
+  auto?: boolean;
+  answers?: string;
+  fixtures?: string;
+  record?: string;
+  replay?: string;
+  dashboard?: boolean;
 }
 
 /**
@@ -49,6 +57,34 @@ export async function initCommand(idea: string, options: InitOptions): Promise<v
   if (projectName.includes(' ')) {
     terminal.printWarning('Project name contains spaces. Consider using kebab-case (e.g., "my-project").');
   }
+
+  let cassette: CassetteOptions | undefined;
+  try {
+    cassette = resolveCassetteOptions(options.record, options.replay);
+  } catch (error) {
+    terminal.printError(error instanceof Error ? error.message : 'Invalid cassette options');
+    process.exit(1);
+  }
+
+  let configLayers: ConfigLayers;
+  try {
+    configLayers = await loadConfigLayers(options);
+  } catch (error) {
+    terminal.printError(error instanceof Error ? error.message : 'Invalid configuration');
+    process.exit(1);
+  }
+
+  // An answers file runs the pipeline headless, like --auto
+  let answers: AnswersFile | undefined;
+  if (options.answers) {
+    try {
+      answers = await loadAnswersFile(path.resolve(options.answers));
+    } catch (error) {
+      terminal.printError(error instanceof Error ? error.message : 'Invalid answers file');
+      process.exit(1);
+    }
+  }
+
   // If no --dir specified, create a subdirectory with slugified name
   const projectDir = options.dir
     ? path.resolve(options.dir)
@@ -64,9 +100,14 @@ export async function initCommand(idea: string, options: InitOptions): Promise<v
     process.exit(1);
   }
 
+  if (options.auto || answers) {
+    await runAuto(idea, projectName, projectDir, options, configLayers, cassette, answers);
+    return;
+  }
+
   try {
     // Create project structure
-    const paths = await initProjectDir(projectDir, projectName);
+    const paths = await initProjectDir(projectDir, projectName, idea);
 
     terminal.printSuccess('Project initialized successfully!');
     terminal.printInfo('');
@@ -81,8 +122,8 @@ export async function initCommand(idea: string, options: InitOptions): Promise<v
     process.exit(1);
   }
 
-  // Check for API key
-  if (!process.env.ANTHROPIC_API_KEY) {
+  // Check for API key (not needed when replaying a cassette)
+  if (cassette?.mode !== 'replay' && !process.env.ANTHROPIC_API_KEY) {
     terminal.printWarning('ANTHROPIC_API_KEY environment variable not set');
     terminal.printInfo('Set it with: export ANTHROPIC_API_KEY=your-key');
     terminal.printInfo('Or add it to .env.local file');
@@ -91,30 +132,97 @@ export async function initCommand(idea: string, options: InitOptions): Promise<v
     return;
   }
 
-  // Set up services
-  const documentManager = new DocumentManager(projectDir);
-  const stateManager = new StateManager(documentManager, projectDir);
-  await stateManager.load();
-
-  const llmService = new LLMService({});
-
-  // Run Phase 1
-  const ideationPhase = new IdeationPhase({
-    llmService,
-    stateManager,
-    documentManager,
+  // Phase 1 runs through the pipeline, which stops at its gate for review
+  const pipeline = new Pipeline({
+    projectDir,
+    interactive: false,
+    autoApprove: false,
+    cassette,
+    configLayers,
+    dashboard: options.dashboard,
   });
 
-  const result = await ideationPhase.run({ idea, projectName: slugify(projectName) });
-
-  if (!result.success) {
+  let summary;
+  try {
+    summary = await pipeline.resume({ until: 'phase-1' });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      formatBudgetPause(error).forEach((line) => terminal.printWarning(line));
+      process.exit(1);
+    }
     terminal.printError('Phase 1 failed. Project created but incomplete.');
     terminal.printInfo('Run "orchestrator resume" to try again.');
     process.exit(1);
   }
 
-  terminal.printInfo(`Cost so far: ${terminal.formatCost(result.cost)}`);
-  terminal.printInfo('');
-  terminal.printInfo('Next: Review PROJECT.md, then run:');
-  terminal.printInfo('  orchestrator approve phase-1');
+  terminal.printInfo(`Cost so far: ${terminal.formatCost(summary.totalCost)}`);
+}
+
+/**
+ * Run every phase without prompts, approving each gate the answers file does not stop at
+ */
+async function runAuto(
+  idea: string,
+  projectName: string,
+  projectDir: string,
+  options: InitOptions,
+  configLayers: ConfigLayers,
+  cassette?: CassetteOptions,
+  answers?: AnswersFile
+): Promise<void> {
+  const offline = !!options.fixtures || cassette?.mode === 'replay';
+  if (!offline && !process.env.ANTHROPIC_API_KEY) {
+    terminal.printError('ANTHROPIC_API_KEY environment variable not set');
+    terminal.printInfo('Set it, or pass --fixtures <dir> to replay recorded responses offline.');
+    process.exit(1);
+  }
+
+  const pipeline = new Pipeline({
+    projectDir,
+    interactive: false,
+    autoComplete: true,
+    autoApprove: true,
+    fixturesDir: options.fixtures ? path.resolve(options.fixtures) : undefined,
+    cassette,
+    configLayers,
+    dashboard: options.dashboard,
+    answers,
+  });
+
+  try {
+    const summary = await pipeline.initAndRun(idea, projectName);
+    if (summary.stoppedAt) {
+      terminal.printSuccess(`Project ${summary.projectName} is waiting for review`);
+      terminal.printInfo(`Phases completed: ${summary.phasesCompleted.join(', ')}`);
+      terminal.printInfo(`Total cost: ${terminal.formatCost(summary.totalCost)}`);
+      terminal.printInfo('Next: Review PROJECT.md, then run:');
+      terminal.printInfo(`  orchestrator approve ${summary.stoppedAt}`);
+      return;
+    }
+
+    const finished = summary.phasesCompleted.includes('implementation');
+
+    if (finished) {
+      terminal.printSuccess(`Project ${summary.projectName} finished`);
+    } else {
+      terminal.printError(`Project ${summary.projectName} did not finish implementation`);
+    }
+    terminal.printInfo(`Phases completed: ${summary.phasesCompleted.join(', ')}`);
+    terminal.printInfo(
+      `Tasks: ${summary.tasksCompleted} completed, ${summary.tasksFailed} failed`
+    );
+    terminal.printInfo(`Total cost: ${terminal.formatCost(summary.totalCost)}`);
+
+    if (!finished) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      formatBudgetPause(error).forEach((line) => terminal.printWarning(line));
+      process.exit(1);
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    terminal.printError(`Auto run failed: ${message}`);
+    process.exit(1);
+  }
 }
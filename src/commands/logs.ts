@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { findProjectRoot } from '../utils/project.js';
+import {
+  ATTEMPT_ARTIFACTS,
+  TaskResultManager,
+  type AttemptArtifactName,
+} from '../lib/task-results.js';
+import type { AttemptLogEntry } from '../types/index.js';
+import * as terminal from '../lib/ui/terminal.js';
+
+export interface LogsOptions {
+  dir?: string;
+  attempt?: string;
+}
+
+const ARTIFACT_TITLES: Record<AttemptArtifactName, string> = {
+  prompt: 'Prompt',
+  stdout: 'Stdout',
+  stderr: 'Stderr',
+  validation: 'Validation',
+};
+
+export async function logsCommand(taskId: string, options: LogsOptions): Promise<void> {
+  const projectDir = findProjectRoot(options.dir);
+  if (!projectDir) {
+    terminal.printError('Not in an orchestrator project.');
+    process.exit(1);
+  }
+
+  const results = new TaskResultManager(projectDir);
+  const attempts = await results.listAttempts(taskId);
+  if (attempts.length === 0) {
+    terminal.printInfo(`No attempts logged for task ${taskId}.`);
+    return;
+  }
+
+  // Without --attempt, summarise every attempt
+  if (options.attempt === undefined) {
+    terminal.printHeader(`Task ${taskId}: ${attempts.length} attempt(s)`);
+    for (const entry of attempts) {
+      terminal.printSection(`Attempt ${entry.attempt}`, describeAttempt(entry));
+    }
+    terminal.printInfo(
+      `Run "orchestrator logs ${taskId} --attempt N" to see an attempt's prompt and output.`
+    );
+    return;
+  }
+
+  const entry = attempts.find((e) => String(e.attempt) === options.attempt);
+  if (!entry) {
+    const numbers = attempts.map((e) => e.attempt).join(', ');
+    terminal.printError(`Task ${taskId} has no attempt ${options.attempt} (logged: ${numbers}).`);
+    process.exit(1);
+  }
+
+  terminal.printHeader(`Task ${taskId}, attempt ${entry.attempt}`);
+  terminal.printSection('Outcome', describeAttempt(entry));
+  for (const name of ATTEMPT_ARTIFACTS) {
+    const content = await results.readAttemptArtifact(taskId, entry.attempt, name);
+    if (content) {
+      terminal.printSection(ARTIFACT_TITLES[name], content.trimEnd());
+    }
+  }
+  terminal.printInfo(`Files are in ${path.relative(projectDir, results.getAttemptDir(taskId))}/`);
+}
+
+function describeAttempt(entry: AttemptLogEntry): string {
+  const status = entry.failure_type ? `${entry.status} (${entry.failure_type})` : entry.status;
+  const exit = entry.timed_out ? `${entry.exit_code} (timed out)` : String(entry.exit_code);
+  const lines = [
+    `Status: ${status}`,
+    `Started: ${entry.started_at}`,
+    `Duration: ${terminal.formatDuration(entry.duration_ms / 1000)}`,
+    `Exit code: ${exit}`,
+  ];
+  if (entry.strategy) {
+    lines.push(`Strategy: ${entry.strategy}`);
+  }
+  if (entry.failure_reason) {
+    lines.push(`Reason: ${entry.failure_reason}`);
+  } else if (entry.summary) {
+    lines.push(`Summary: ${entry.summary}`);
+  }
+  return lines.join('\n');
+}
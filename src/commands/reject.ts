@@ -0,0 +1,58 @@
+import { findProjectRoot } from '../utils/project.js';
+import { DocumentManager } from '../lib/documents.js';
+import { StateManager } from '../lib/state/state-manager.js';
+import * as terminal from '../lib/ui/terminal.js';
+
+export interface RejectOptions {
+  dir?: string;
+  feedback?: string;
+}
+
+export async function rejectCommand(phase: string, options: RejectOptions): Promise<void> {
+  const projectDir = findProjectRoot(options.dir);
+  if (!projectDir) {
+    terminal.printError('Not in an orchestrator project.');
+    process.exit(1);
+  }
+
+  // Parse phase argument
+  const phaseNum = parsePhaseArg(phase);
+  if (phaseNum === null) {
+    terminal.printError(`Invalid phase: ${phase}. Use phase-1, phase-2 or phase-3`);
+    process.exit(1);
+  }
+
+  const documentManager = new DocumentManager(projectDir);
+  const stateManager = new StateManager(documentManager, projectDir);
+  await stateManager.load();
+
+  // Without --feedback, ask for it
+  const feedback =
+    options.feedback ??
+    (await terminal.promptMultiline(`What should change in phase ${phaseNum}?`));
+  if (!feedback.trim()) {
+    terminal.printError('Feedback is required to reject a phase.');
+    process.exit(1);
+  }
+
+  try {
+    stateManager.rejectPhase(phaseNum, feedback);
+    await stateManager.save();
+  } catch (error) {
+    terminal.printError(error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+
+  terminal.printSuccess(`Phase ${phaseNum} rejected.`);
+  if (phaseNum < 3) {
+    terminal.printInfo('Later phases were built on it and will be redone as well.');
+  }
+  terminal.printInfo('Run "orchestrator resume" to rework it with your feedback.');
+}
+
+function parsePhaseArg(phase: string): 1 | 2 | 3 | null {
+  if (phase === 'phase-1' || phase === '1') return 1;
+  if (phase === 'phase-2' || phase === '2') return 2;
+  if (phase === 'phase-3' || phase === '3') return 3;
+  return null;
+}
@@ -1,14 +1,19 @@
 import { findProjectRoot } from '../utils/project.js';
-import { DocumentManager } from '../lib/documents.js';
-import { StateManager } from '../lib/state/state-manager.js';
-import { LLMService } from '../lib/llm/llm-service.js';
-import { IdeationPhase } from '../lib/phases/ideation-phase.js';
-import { SpecPhase } from '../lib/phases/spec-phase.js';
-import { PlanningPhase } from '../lib/phases/planning-phase.js';
+import { loadConfigLayers, type ConfigFlagOptions, type ConfigLayers } from '../lib/config.js';
+import { resolveCassetteOptions, type CassetteOptions } from '../lib/llm/cassette-client.js';
+import { PIPELINE_STEPS, Pipeline, type PipelineStep } from '../lib/pipeline.js';
+import { formatBudgetPause } from '../lib/state/budget.js';
+import { BudgetExceededError } from '../types/errors.js';
 import * as terminal from '../lib/ui/terminal.js';
 
-export interface ResumeOptions {
+export interface ResumeOptions extends ConfigFlagOptions {
   dir?: string;
+  record?: string;
+  replay?: string;
+  dashboard?: boolean;
+  until?: string;
+  only?: string;
+  autoApprove?: boolean;
 }
 
 export async function resumeCommand(options: ResumeOptions): Promise<void> {
@@ -19,118 +24,78 @@ export async function resumeCommand(options: ResumeOptions): Promise<void> {
     process.exit(1);
   }
 
-  // Check for API key
-  if (!process.env.ANTHROPIC_API_KEY) {
-    terminal.printError('ANTHROPIC_API_KEY environment variable not set');
-    terminal.printInfo('Set it with: export ANTHROPIC_API_KEY=your-key');
-    terminal.printInfo('Or add it to .env.local file');
+  for (const [flag, value] of [
+    ['--until', options.until],
+    ['--only', options.only],
+  ] as const) {
+    if (value !== undefined && !PIPELINE_STEPS.includes(value as PipelineStep)) {
+      const steps = PIPELINE_STEPS.join(', ');
+      terminal.printError(`Unknown ${flag} step "${value}". Use one of: ${steps}.`);
+      process.exit(1);
+    }
+  }
+  if (options.until && options.only) {
+    terminal.printError('Use either --until or --only, not both.');
     process.exit(1);
   }
 
-  const documentManager = new DocumentManager(projectDir);
-  const stateManager = new StateManager(documentManager, projectDir);
-  await stateManager.load();
-
-  const meta = stateManager.getMeta();
-  const llmService = new LLMService({});
-
-  const config = { llmService, stateManager, documentManager };
-
-  // Check for failed tasks that need attention
-  const failedTasks = stateManager.getFailedTasks();
-  if (failedTasks.length > 0) {
-    terminal.printWarning(`${failedTasks.length} failed task(s) found:`);
-    failedTasks.forEach((t) => {
-      terminal.printWarning(`  ${t.id}: ${t.description}`);
-      if (t.failure_reason) {
-        terminal.printWarning(`    Reason: ${t.failure_reason}`);
-      }
-    });
-    terminal.printInfo('');
-    terminal.printInfo('Options:');
-    terminal.printInfo('  orchestrator retry <task-id>  - Retry a failed task');
-    terminal.printInfo('  orchestrator skip <task-id> --reason "..."  - Skip a task');
-    return;
+  let cassette: CassetteOptions | undefined;
+  try {
+    cassette = resolveCassetteOptions(options.record, options.replay);
+  } catch (error) {
+    terminal.printError(error instanceof Error ? error.message : 'Invalid cassette options');
+    process.exit(1);
   }
 
-  // Phase 1 not complete?
-  if (!meta.gates.ideation_complete) {
-    terminal.printInfo('Resuming Phase 1: Idea Refinement');
-    const doc = stateManager.getProject();
-    const idea = doc.meta.project_name;
-
-    const result = await new IdeationPhase(config).run({ idea });
-    if (!result.success) {
-      terminal.printError(`Phase 1 failed: ${result.error}`);
-      process.exit(1);
-    }
-
-    terminal.printInfo('Run: orchestrator approve phase-1');
-    return;
+  let configLayers: ConfigLayers;
+  try {
+    configLayers = await loadConfigLayers(options);
+  } catch (error) {
+    terminal.printError(error instanceof Error ? error.message : 'Invalid configuration');
+    process.exit(1);
   }
 
-  // Phase 1 not approved?
-  if (!meta.gates.ideation_approved) {
-    terminal.printInfo('Phase 1 complete but not approved.');
-    terminal.printInfo('Review PROJECT.md, then run: orchestrator approve phase-1');
-    return;
+  // Check for API key (not needed when replaying a cassette)
+  if (cassette?.mode !== 'replay' && !process.env.ANTHROPIC_API_KEY) {
+    terminal.printError('ANTHROPIC_API_KEY environment variable not set');
+    terminal.printInfo('Set it with: export ANTHROPIC_API_KEY=your-key');
+    terminal.printInfo('Or add it to .env.local file');
+    process.exit(1);
   }
 
-  // Phase 2 not complete?
-  if (!meta.gates.spec_complete) {
-    terminal.printInfo('Running Phase 2: Specification');
-    const doc = stateManager.getProject();
-    if (!doc.ideation) {
-      terminal.printError('Ideation content missing. Cannot proceed.');
-      process.exit(1);
-    }
+  // Conversations stay interactive; gates wait for "orchestrator approve" unless auto-approved
+  const pipeline = new Pipeline({
+    projectDir,
+    interactive: false,
+    autoApprove: options.autoApprove ?? false,
+    cassette,
+    configLayers,
+    dashboard: options.dashboard,
+  });
+
+  try {
+    const summary = await pipeline.resume({
+      until: options.until as PipelineStep | undefined,
+      only: options.only as PipelineStep | undefined,
+    });
 
-    const result = await new SpecPhase(config).run({ ideation: doc.ideation });
-    if (!result.success) {
-      terminal.printError(`Phase 2 failed: ${result.error}`);
-      process.exit(1);
+    const target = options.only ?? options.until;
+    if (summary.stoppedAt || (target && target !== 'implementation')) {
+      terminal.printInfo(`Cost so far: ${terminal.formatCost(summary.totalCost)}`);
+      return;
     }
 
-    terminal.printInfo('Run: orchestrator approve phase-2');
-    return;
-  }
-
-  // Phase 2 not approved?
-  if (!meta.gates.spec_approved) {
-    terminal.printInfo('Phase 2 complete but not approved.');
-    terminal.printInfo('Run: orchestrator approve phase-2');
-    return;
-  }
-
-  // Phase 3 not complete?
-  if (!meta.gates.planning_complete) {
-    terminal.printInfo('Running Phase 3: Implementation Planning');
-    const doc = stateManager.getProject();
-    if (!doc.specification) {
-      terminal.printError('Specification content missing. Cannot proceed.');
+    terminal.printInfo(`Tasks: ${summary.tasksCompleted} completed, ${summary.tasksFailed} failed`);
+    if (!summary.phasesCompleted.includes('implementation')) {
+      terminal.printInfo('Run "orchestrator status" to see failed tasks.');
       process.exit(1);
     }
-
-    const result = await new PlanningPhase(config).run({
-      specification: doc.specification,
-    });
-    if (!result.success) {
-      terminal.printError(`Phase 3 failed: ${result.error}`);
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      formatBudgetPause(error).forEach((line) => terminal.printWarning(line));
       process.exit(1);
     }
-
-    terminal.printInfo('Run: orchestrator approve phase-3');
-    return;
-  }
-
-  // Phase 3 not approved?
-  if (!meta.gates.planning_approved) {
-    terminal.printInfo('Phase 3 complete but not approved.');
-    terminal.printInfo('Run: orchestrator approve phase-3');
-    return;
+    terminal.printError(error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
   }
-
-  // All planning approved - proceed to implementation
-  terminal.printInfo('All planning phases approved. Starting implementation...');
-  terminal.printInfo('(Implementation execution will be added in Phase F)');
 }
@@ -2,6 +2,14 @@ import * as fs from 'fs/promises';
 import { logger } from '../utils/logger.js';
 import { findProjectRoot, getProjectPaths } from '../utils/project.js';
 import { GitClient } from '../lib/git/git-client.js';
+import { DocumentManager } from '../lib/documents.js';
+import { StateManager } from '../lib/state/state-manager.js';
+import {
+  getProjectStatus,
+  type ProjectStatus,
+  type TaskStatusEntry,
+} from '../lib/state/project-status.js';
+import * as terminal from '../lib/ui/terminal.js';
 
 export interface StatusOptions {
   dir?: string;
@@ -83,6 +91,20 @@ async function getBasicStatus(projectDir: string): Promise<BasicStatus> {
   };
 }
 
+/**
+ * Load phase and task state; null when PROJECT.md is missing or cannot be parsed
+ */
+async function getDetailedStatus(projectDir: string): Promise<ProjectStatus | null> {
+  try {
+    const documentManager = new DocumentManager(projectDir);
+    const stateManager = new StateManager(documentManager, projectDir);
+    await stateManager.load();
+    return getProjectStatus(stateManager);
+  } catch {
+    return null;
+  }
+}
+
 export async function statusCommand(options: StatusOptions): Promise<void> {
   // Find project root
   const projectDir = findProjectRoot(options.dir);
@@ -98,15 +120,16 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
   }
 
   const status = await getBasicStatus(projectDir);
+  const details = status.hasProjectMd ? await getDetailedStatus(projectDir) : null;
 
   if (options.json) {
-    console.log(JSON.stringify(status, null, 2));
+    console.log(JSON.stringify({ ...status, ...details }, null, 2));
     return;
   }
 
   // Pretty print status
   logger.info('');
-  logger.log(`Project: ${status.projectName}`);
+  logger.log(`Project: ${details?.projectName ?? status.projectName}`);
   logger.log(`Directory: ${status.projectDir}`);
   logger.info('');
   logger.log('Files:');
@@ -123,6 +146,100 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
     logger.info('');
   }
 
-  // Note: Full status with phase info will be added when we have the parser
+  if (details) {
+    printDetailedStatus(details);
+  }
+
   logger.info('Note: Run "orchestrator resume" to continue the project.');
 }
+
+function printDetailedStatus(details: ProjectStatus): void {
+  const current = details.currentPhase;
+  const currentLabel =
+    current.phase === 'implementation' ? current.name : `Phase ${current.phase}: ${current.name}`;
+  logger.log(`Current phase: ${currentLabel} (${formatPhaseStatus(current.status)})`);
+  logger.info('');
+
+  terminal.printSection(
+    'Phases',
+    details.phases
+      .map((phase) => {
+        const label =
+          phase.phase === 'implementation' ? phase.name : `${phase.phase}. ${phase.name}`;
+        return `${label}: ${formatPhaseStatus(phase.status)}`;
+      })
+      .join('\n')
+  );
+
+  const gates = details.gates;
+  terminal.printSection(
+    'Gates',
+    [
+      `Ideation: ${formatGate(gates.ideation_complete, gates.ideation_approved)}`,
+      `Specification: ${formatGate(gates.spec_complete, gates.spec_approved)}`,
+      `Planning: ${formatGate(gates.planning_complete, gates.planning_approved)}`,
+    ].join('\n')
+  );
+
+  for (const phase of details.implementationPhases) {
+    terminal.printSection(
+      `Phase ${phase.phaseNumber}: ${phase.name} (${formatPhaseStatus(phase.status)})`,
+      phase.tasks.map(formatTaskLine).join('\n') || 'No tasks'
+    );
+  }
+
+  if (details.blockedTasks.length > 0) {
+    terminal.printSection(
+      'Blocked',
+      details.blockedTasks
+        .map((task) => `${task.id} waiting on ${task.blockedBy.join(', ')}`)
+        .join('\n')
+    );
+  }
+
+  if (details.failedTasks.length > 0) {
+    terminal.printSection(
+      'Failures',
+      details.failedTasks
+        .map((task) => {
+          const type = task.failureType ? ` [${task.failureType}]` : '';
+          return `${task.id}${type}: ${task.failureReason || 'Unknown failure'}`;
+        })
+        .join('\n')
+    );
+    logger.info('Run "orchestrator retry <task-id>" to retry a failed task.');
+    logger.info('');
+  }
+
+  const totals = details.totals;
+  const done = totals.byStatus.complete + totals.byStatus.skipped;
+  terminal.printSection(
+    'Totals',
+    [
+      `Tasks: ${done}/${totals.tasks} done, ${totals.byStatus.failed} failed, ${totals.byStatus.pending} pending`,
+      `Duration: ${terminal.formatDuration(totals.durationSeconds)}`,
+      `Cost: ${terminal.formatCost(totals.costUsd)} (${totals.tokens.toLocaleString()} tokens)`,
+    ].join('\n')
+  );
+}
+
+function formatTaskLine(task: TaskStatusEntry): string {
+  const extras: string[] = [];
+  if (task.durationSeconds !== undefined) {
+    extras.push(terminal.formatDuration(task.durationSeconds));
+  }
+  if (task.costUsd !== undefined) {
+    extras.push(terminal.formatCost(task.costUsd));
+  }
+  const suffix = extras.length > 0 ? ` (${extras.join(', ')})` : '';
+  return `${task.id.padEnd(6)} ${terminal.formatTaskStatus(task.status)}  ${task.description}${suffix}`;
+}
+
+function formatPhaseStatus(status: ProjectStatus['currentPhase']['status']): string {
+  return status.replace('_', ' ');
+}
+
+function formatGate(complete: boolean, approved: boolean): string {
+  if (approved) return 'approved';
+  return complete ? 'complete, awaiting approval' : 'not complete';
+}
@@ -8,9 +8,13 @@ import { initCommand, type InitOptions } from './commands/init.js';
 import { resumeCommand, type ResumeOptions } from './commands/resume.js';
 import { statusCommand, type StatusOptions } from './commands/status.js';
 import { approveCommand, type ApproveOptions } from './commands/approve.js';
+import { rejectCommand, type RejectOptions } from './commands/reject.js';
 import { skipCommand, type SkipOptions } from './commands/skip.js';
 import { retryCommand, type RetryOptions } from './commands/retry.js';
 import { configCommand, type ConfigOptions } from './commands/config.js';
+import { logsCommand, type LogsOptions } from './commands/logs.js';
+import { graphCommand, type GraphOptions } from './commands/graph.js';
+import { diffCommand, type DiffOptions } from './commands/diff.js';
 
 export { VERSION };
 
@@ -35,6 +39,18 @@ program
   .argument('<idea>', 'The initial idea for your project')
   .option('-d, --dir <path>', 'Project directory (default: current)')
   .option('-n, --name <name>', 'Project name (default: slugified idea)')
+  .option('--auto', 'Run all phases and implementation without prompts')
+  .option('--answers <file>', 'Run without prompts, replying and approving from a YAML file')
+  .option('--fixtures <dir>', 'Replay LLM and agent responses from a fixture directory (offline)')
+  .option('--record <file>', 'Record LLM conversations to a cassette file')
+  .option('--replay <file>', 'Replay LLM conversations from a cassette file')
+  .option('--model <model>', 'LLM model for phases 1-3 (overrides llm.model)')
+  .option('--max-tokens <n>', 'Output token limit per LLM response (overrides llm.max_tokens)')
+  .option('--timeout <minutes>', 'Time limit per agent run (overrides agent.timeout_minutes)')
+  .option('--max-retries <n>', 'Retries per failed task (overrides execution.max_retries)')
+  .option('--branch-prefix <prefix>', 'Prefix for phase branches (overrides git.branch_prefix)')
+  .option('--no-git', 'Disable git branches and commits (overrides git.enabled)')
+  .option('--no-dashboard', 'Show plain output instead of the live dashboard during implementation')
   .action(async (idea: string, options: InitOptions) => {
     await initCommand(idea, options);
   });
@@ -44,6 +60,18 @@ program
   .command('resume')
   .description('Resume an existing project')
   .option('-d, --dir <path>', 'Project directory')
+  .option('--record <file>', 'Record LLM conversations to a cassette file')
+  .option('--replay <file>', 'Replay LLM conversations from a cassette file')
+  .option('--model <model>', 'LLM model for phases 1-3 (overrides llm.model)')
+  .option('--max-tokens <n>', 'Output token limit per LLM response (overrides llm.max_tokens)')
+  .option('--timeout <minutes>', 'Time limit per agent run (overrides agent.timeout_minutes)')
+  .option('--max-retries <n>', 'Retries per failed task (overrides execution.max_retries)')
+  .option('--branch-prefix <prefix>', 'Prefix for phase branches (overrides git.branch_prefix)')
+  .option('--no-git', 'Disable git branches and commits (overrides git.enabled)')
+  .option('--no-dashboard', 'Show plain output instead of the live dashboard during implementation')
+  .option('--until <step>', 'Stop after this step: phase-1, phase-2, phase-3 or implementation')
+  .option('--only <step>', 'Run just this step; earlier phases must already be approved')
+  .option('--auto-approve', 'Approve each completed phase instead of stopping for review')
   .action(async (options: ResumeOptions) => {
     await resumeCommand(options);
   });
@@ -69,6 +97,30 @@ program
     await approveCommand(phase, options);
   });
 
+// reject command
+program
+  .command('reject')
+  .description('Send a completed phase back for rework')
+  .argument('<phase>', 'Phase to reject (phase-1, phase-2 or phase-3)')
+  .option('-d, --dir <path>', 'Project directory')
+  .option('--feedback <text>', 'What should change (prompted for when left out)')
+  .action(async (phase: string, options: RejectOptions) => {
+    await rejectCommand(phase, options);
+  });
+
+// diff command
+program
+  .command('diff')
+  .description('Show what changed in a phase between two revisions of its output')
+  .argument('<phase>', 'Phase to compare (phase-1, phase-2 or phase-3)')
+  .option('-d, --dir <path>', 'Project directory')
+  .option('--from <revision>', 'Older revision (default: the one before --to)')
+  .option('--to <revision>', 'Newer revision (default: the latest)')
+  .option('--json', 'Output as JSON')
+  .action(async (phase: string, options: DiffOptions) => {
+    await diffCommand(phase, options);
+  });
+
 // skip command
 program
   .command('skip')
@@ -90,6 +142,28 @@ program
     await retryCommand(taskId, options);
   });
 
+// logs command
+program
+  .command('logs')
+  .description('Show the logged attempts of a task')
+  .argument('<task-id>', 'Task ID (e.g., "2.3")')
+  .option('-d, --dir <path>', 'Project directory')
+  .option('--attempt <n>', 'Show the prompt and output of one attempt')
+  .action(async (taskId: string, options: LogsOptions) => {
+    await logsCommand(taskId, options);
+  });
+
+// graph command
+program
+  .command('graph')
+  .description('Print the task dependency graph')
+  .option('-d, --dir <path>', 'Project directory')
+  .option('-f, --format <format>', 'Output format: mermaid, dot or json', 'mermaid')
+  .option('--phase <n>', 'Only show one implementation phase')
+  .action(async (options: GraphOptions) => {
+    await graphCommand(options);
+  });
+
 // config command
 program
   .command('config')
@@ -97,6 +171,8 @@ program
   .option('-d, --dir <path>', 'Project directory')
   .option('--set <key=value>', 'Set a config value')
   .option('--get <key>', 'Get a config value')
+  .option('--explain <key>', 'Show which layer a config value comes from')
+  .option('--global', 'With --set, write to the user config file instead of PROJECT.md')
   .action(async (options: ConfigOptions) => {
     await configCommand(options);
   });
@@ -0,0 +1,242 @@
+/**
+ * Answers File
+ * Scripted replies and approval decisions for running phases 1-3 without prompts
+ *
+ * fallback: defaults          # defaults | complete | fail, when a turn has no answer
+ * approvals:
+ *   phase-1: approve          # approve | stop (leave the gate for manual review)
+ * ideation:
+ *   max_turns: 4
+ *   answers:                  # replies in order, one per turn
+ *     - "Small teams of 2-10 people"
+ *   questions:                # replies to the questions that contain `match`
+ *     - match: "offline"
+ *       answer: "No, it always has a connection"
+ * specification: ...
+ * planning: ...
+ */
+
+import * as fs from 'fs/promises';
+import * as yaml from 'yaml';
+import { parseIdeationQuestions } from './llm/prompts/ideation.js';
+import { ConfigError } from '../types/errors.js';
+
+export type AnswerFallback = 'defaults' | 'complete' | 'fail';
+
+export type ApprovalPolicy = 'approve' | 'stop';
+
+export type ConversationPhase = 'ideation' | 'specification' | 'planning';
+
+export type ApprovalGate = 'phase-1' | 'phase-2' | 'phase-3';
+
+export interface QuestionAnswer {
+  match: string; // Case-insensitive text the question must contain
+  answer: string;
+}
+
+export interface PhaseAnswers {
+  answers: string[];
+  questions: QuestionAnswer[];
+  max_turns: number;
+}
+
+export interface AnswersFile {
+  fallback: AnswerFallback;
+  approvals: Record<ApprovalGate, ApprovalPolicy>;
+  ideation: PhaseAnswers;
+  specification: PhaseAnswers;
+  planning: PhaseAnswers;
+}
+
+export const CONVERSATION_PHASES: ConversationPhase[] = ['ideation', 'specification', 'planning'];
+
+export const APPROVAL_GATES: ApprovalGate[] = ['phase-1', 'phase-2', 'phase-3'];
+
+const ANSWER_FALLBACKS: AnswerFallback[] = ['defaults', 'complete', 'fail'];
+const APPROVAL_POLICIES: ApprovalPolicy[] = ['approve', 'stop'];
+const DEFAULT_MAX_TURNS = 10;
+
+/**
+ * Read and validate an answers file
+ * @throws {ConfigError} if the file is missing, not valid YAML or holds unknown settings
+ */
+export async function loadAnswersFile(filePath: string): Promise<AnswersFile> {
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(await fs.readFile(filePath, 'utf-8')) ?? {};
+  } catch (error) {
+    throw ConfigError.invalidAnswers(filePath, (error as Error).message);
+  }
+
+  try {
+    return parseAnswers(parsed);
+  } catch (error) {
+    throw ConfigError.invalidAnswers(filePath, (error as Error).message);
+  }
+}
+
+/**
+ * Validate parsed answers, filling in defaults for everything left out
+ */
+export function parseAnswers(data: unknown): AnswersFile {
+  const root = asMapping(data, 'the answers file');
+  const known = ['fallback', 'approvals', ...CONVERSATION_PHASES];
+  for (const key of Object.keys(root)) {
+    if (!known.includes(key)) {
+      throw new Error(`unknown section "${key}" (expected ${known.join(', ')})`);
+    }
+  }
+
+  const fallback = root.fallback ?? 'defaults';
+  if (!ANSWER_FALLBACKS.includes(fallback as AnswerFallback)) {
+    throw new Error(`fallback must be one of ${ANSWER_FALLBACKS.join(', ')}`);
+  }
+
+  const approvalsData = asMapping(root.approvals ?? {}, 'approvals');
+  const approvals = {} as Record<ApprovalGate, ApprovalPolicy>;
+  for (const [gate, policy] of Object.entries(approvalsData)) {
+    if (!APPROVAL_GATES.includes(gate as ApprovalGate)) {
+      throw new Error(`unknown gate "${gate}" (expected ${APPROVAL_GATES.join(', ')})`);
+    }
+    if (!APPROVAL_POLICIES.includes(policy as ApprovalPolicy)) {
+      throw new Error(`approvals.${gate} must be one of ${APPROVAL_POLICIES.join(', ')}`);
+    }
+  }
+  for (const gate of APPROVAL_GATES) {
+    approvals[gate] = (approvalsData[gate] as ApprovalPolicy | undefined) ?? 'approve';
+  }
+
+  return {
+    fallback: fallback as AnswerFallback,
+    approvals,
+    ideation: parsePhaseAnswers(root.ideation, 'ideation'),
+    specification: parsePhaseAnswers(root.specification, 'specification'),
+    planning: parsePhaseAnswers(root.planning, 'planning'),
+  };
+}
+
+function parsePhaseAnswers(data: unknown, section: string): PhaseAnswers {
+  const phase = asMapping(data ?? {}, section);
+
+  const answers = phase.answers ?? [];
+  if (!Array.isArray(answers) || !answers.every((a) => typeof a === 'string')) {
+    throw new Error(`${section}.answers must be a list of strings`);
+  }
+
+  const questions = phase.questions ?? [];
+  if (!Array.isArray(questions)) {
+    throw new Error(`${section}.questions must be a list of { match, answer } entries`);
+  }
+  const rules = questions.map((entry: unknown, index) => {
+    const rule = entry as Partial<QuestionAnswer> | null;
+    if (typeof rule?.match !== 'string' || typeof rule.answer !== 'string' || !rule.match) {
+      throw new Error(`${section}.questions[${index}] needs a match and an answer`);
+    }
+    return { match: rule.match, answer: rule.answer };
+  });
+
+  const maxTurns = phase.max_turns ?? DEFAULT_MAX_TURNS;
+  if (typeof maxTurns !== 'number' || !Number.isInteger(maxTurns) || maxTurns < 0) {
+    throw new Error(`${section}.max_turns must be a whole number`);
+  }
+
+  return { answers, questions: rules, max_turns: maxTurns };
+}
+
+function asMapping(data: unknown, name: string): Record<string, unknown> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`${name} must be a mapping`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Picks the reply to each assistant turn of a phase conversation
+ * A turn's questions are answered by matching rules first; the rest of the turn gets the next
+ * unused answer in order, or the fallback
+ */
+export class ScriptedResponder {
+  private script: PhaseAnswers;
+  private fallback: AnswerFallback;
+
+  constructor(
+    private defaults: string[], // The phase's built-in replies, used by the defaults fallback
+    answers?: AnswersFile,
+    phase?: ConversationPhase,
+    private nextAnswer: number = 0 // Ordered answers a restored conversation already sent
+  ) {
+    this.script =
+      answers && phase
+        ? answers[phase]
+        : { answers: [], questions: [], max_turns: DEFAULT_MAX_TURNS };
+    this.fallback = answers?.fallback ?? 'defaults';
+  }
+
+  /**
+   * Ordered answers sent so far, for a checkpoint to restore the responder from
+   */
+  getAnswersUsed(): number {
+    return this.nextAnswer;
+  }
+
+  /**
+   * Reply to the assistant's message, or null to finish the conversation
+   * @param turn Replies already sent in this conversation
+   * @throws {Error} when nothing answers the turn and the fallback is "fail"
+   */
+  reply(message: string, turn: number): string | null {
+    if (turn >= this.script.max_turns) {
+      return null;
+    }
+    const questions = parseIdeationQuestions(message);
+    const matched: Array<{ question: string; answer: string }> = [];
+    const unmatched: string[] = [];
+    for (const question of questions) {
+      const lower = question.toLowerCase();
+      const rule = this.script.questions.find((q) => lower.includes(q.match.toLowerCase()));
+      if (rule) {
+        matched.push({ question, answer: rule.answer });
+      } else {
+        unmatched.push(question);
+      }
+    }
+    const [only] = matched;
+    if (only && questions.length === 1) {
+      return only.answer;
+    }
+
+    if (matched.length === 0) {
+      return this.replyToRest(unmatched, turn);
+    }
+
+    const blocks = matched.map((m) => `${m.question}\n${m.answer}`);
+    // The questions the rules left open share one reply
+    const rest = unmatched.length > 0 ? this.replyToRest(unmatched, turn) : null;
+    if (rest !== null) {
+      blocks.push(`${unmatched.join('\n')}\n${rest}`);
+    }
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * The next ordered answer, or the fallback's reply when none are left
+   */
+  private replyToRest(questions: string[], turn: number): string | null {
+    const answer = this.script.answers[this.nextAnswer];
+    if (answer !== undefined) {
+      this.nextAnswer++;
+      return answer;
+    }
+
+    switch (this.fallback) {
+      case 'defaults':
+        return this.defaults[turn] ?? null;
+      case 'complete':
+        return null;
+      case 'fail': {
+        const asked = questions.length > 0 ? `: ${questions.join(' ')}` : '';
+        throw new Error(`The answers file has no reply for turn ${turn + 1}${asked}`);
+      }
+    }
+  }
+}
@@ -1,17 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Task, ImplementationPhase, TaskResult } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
-/**
- * Context needed to build a task prompt
- */
-export interface TaskContext {
-  task: Task;
-  phase: ImplementationPhase;
-  dependencyResults: TaskResult[];
-}
-
 /**
  * Default CLAUDE.md template
  */
@@ -53,43 +43,6 @@ When completing a task, create a result JSON file in \`tasks/results/\` with:
 \`\`\`
 `;
 
-/**
- * Task result JSON schema for output
- */
-const TASK_RESULT_SCHEMA = `{
-  "task_id": "string",
-  "task_description": "string",
-  "status": "success" | "failed",
-  "started_at": "ISO date",
-  "completed_at": "ISO date",
-  "duration_seconds": number,
-  "summary": "Brief description of what was done",
-  "files_created": ["path1", "path2"],
-  "files_modified": ["path1"],
-  "files_deleted": [],
-  "key_decisions": [
-    { "decision": "string", "rationale": "string" }
-  ],
-  "assumptions": ["string"],
-  "tests_added": number,
-  "tests_passing": number,
-  "tests_failing": number,
-  "test_output": "optional test output",
-  "acceptance_criteria": [
-    { "criterion": "string", "met": boolean, "notes": "optional" }
-  ],
-  "validation": {
-    "passed": boolean,
-    "validator_output": "string",
-    "criteria_checked": number,
-    "criteria_passed": number
-  },
-  "tokens_used": number,
-  "cost_usd": number,
-  "failure_reason": "optional - why it failed",
-  "commit_hash": "optional - git commit"
-}`;
-
 /**
  * Manager for CLAUDE.md context files
  */
@@ -177,78 +130,4 @@ export class ClaudeMdManager {
     await fs.writeFile(this.claudeMdPath, content, 'utf-8');
     logger.debug('Updated CLAUDE.md project info');
   }
-
-  /**
-   * Build complete task context prompt for execution
-   */
-  async buildTaskContext(context: TaskContext): Promise<string> {
-    const { task, phase, dependencyResults } = context;
-
-    // Read base CLAUDE.md content
-    const baseContent = await this.read();
-
-    const sections: string[] = [baseContent, '\n---\n'];
-
-    // Current Task section
-    sections.push('## Current Task\n');
-    sections.push(`**Task ID:** ${task.id}`);
-    sections.push(`**Phase:** ${phase.name}`);
-    sections.push(`**Description:** ${task.description}\n`);
-
-    // Acceptance Criteria section
-    if (task.acceptance_criteria.length > 0) {
-      sections.push('### Acceptance Criteria\n');
-      sections.push('You must satisfy ALL of the following:\n');
-      for (const criterion of task.acceptance_criteria) {
-        sections.push(`- [ ] ${criterion}`);
-      }
-      sections.push('');
-    }
-
-    // Dependencies section
-    if (dependencyResults.length > 0) {
-      sections.push('### Completed Dependencies\n');
-      sections.push('The following tasks have been completed. Use their outputs as needed:\n');
-
-      for (const dep of dependencyResults) {
-        sections.push(`#### Task ${dep.task_id}: ${dep.task_description}\n`);
-        sections.push(`**Summary:** ${dep.summary}\n`);
-
-        if (dep.files_created && dep.files_created.length > 0) {
-          sections.push(`**Files created:** ${dep.files_created.join(', ')}\n`);
-        }
-
-        if (dep.files_modified && dep.files_modified.length > 0) {
-          sections.push(`**Files modified:** ${dep.files_modified.join(', ')}\n`);
-        }
-
-        if (dep.key_decisions && dep.key_decisions.length > 0) {
-          sections.push('**Key decisions:**');
-          for (const decision of dep.key_decisions) {
-            sections.push(`- ${decision.decision}: ${decision.rationale}`);
-          }
-          sections.push('');
-        }
-      }
-    }
-
-    // Instructions section
-    sections.push('---\n');
-    sections.push('### Instructions\n');
-    sections.push('1. Read relevant codebase files to understand context');
-    sections.push('2. Write failing tests first (TDD)');
-    sections.push('3. Implement code to make tests pass');
-    sections.push('4. Run all tests: npm test');
-    sections.push(`5. Write results JSON to: tasks/results/task-${task.id}.json\n`);
-
-    // Output Format section
-    sections.push('### Output Format\n');
-    sections.push(`Create \`tasks/results/task-${task.id}.json\` with this structure:\n`);
-    sections.push('```json');
-    sections.push(TASK_RESULT_SCHEMA);
-    sections.push('```\n');
-    sections.push('**IMPORTANT:** Set status to "success" only if ALL acceptance criteria are met and all tests pass.');
-
-    return sections.join('\n');
-  }
 }
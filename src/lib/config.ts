@@ -0,0 +1,525 @@
+/**
+ * Project Configuration
+ * Schema, validation and layered resolution of orchestrator settings
+ *
+ * Layers, lowest to highest precedence:
+ *   default  - DEFAULT_CONFIG
+ *   global   - the user config file (~/.config/orchestrator/config.yaml)
+ *   project  - PROJECT.md frontmatter
+ *   env      - ORCHESTRATOR_* environment variables
+ *   flag     - command line flags
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import {
+  DEFAULT_CONFIG,
+  type BudgetConfig,
+  type OrchestratorConfig,
+  type ProjectMeta,
+} from '../types/index.js';
+import { ConfigError } from '../types/errors.js';
+import { getAgentBackendNames } from './execution/agent-registry.js';
+
+/**
+ * Effective configuration of a project
+ */
+export type ProjectConfig = Omit<OrchestratorConfig, 'project_dir'> & { budget: BudgetConfig };
+
+export type ConfigSection = keyof ProjectConfig;
+
+export type ConfigValue = string | number | boolean;
+
+/**
+ * Flat config values keyed like "llm.model"
+ */
+export type ConfigValues = Record<string, ConfigValue>;
+
+export type ConfigSource = 'default' | 'global' | 'project' | 'env' | 'flag';
+
+/**
+ * Values from the layers that sit outside PROJECT.md
+ */
+export interface ConfigLayers {
+  global?: ConfigValues;
+  env?: ConfigValues;
+  flags?: ConfigValues;
+}
+
+/**
+ * Where a key's effective value came from, and what every layer said
+ */
+export interface ConfigExplanation {
+  key: string;
+  value: ConfigValue | undefined;
+  source: ConfigSource;
+  layers: Array<{ source: ConfigSource; value: ConfigValue | undefined }>;
+}
+
+/**
+ * Command line flags that map onto config keys
+ */
+export interface ConfigFlagOptions {
+  model?: string;
+  maxTokens?: string;
+  timeout?: string;
+  branchPrefix?: string;
+  maxRetries?: string;
+  git?: boolean; // false when --no-git is given
+}
+
+const ENV_PREFIX = 'ORCHESTRATOR_';
+
+export interface ConfigKeyDefinition {
+  type: 'number' | 'boolean' | 'string';
+  path: [ConfigSection, string];
+  description: string;
+  integer?: boolean;
+  min?: number;
+  pattern?: RegExp;
+  allowEmpty?: boolean; // An empty string is a valid value, e.g. to turn a command off
+  values?: () => string[];
+}
+
+/**
+ * Every key accepted by `orchestrator config`
+ */
+export const CONFIG_SCHEMA: Record<string, ConfigKeyDefinition> = {
+  'agent.primary': {
+    type: 'string',
+    path: ['agent', 'primary'],
+    description: 'Agent backend that executes tasks',
+    values: getAgentBackendNames,
+  },
+  'agent.timeout_minutes': {
+    type: 'number',
+    path: ['agent', 'timeout_minutes'],
+    description: 'Time limit for a single agent run',
+    integer: true,
+    min: 1,
+  },
+  'agent.context_tokens': {
+    type: 'number',
+    path: ['agent', 'context_tokens'],
+    description: 'Token budget for task prompts',
+    integer: true,
+    min: 1000,
+  },
+  'git.enabled': {
+    type: 'boolean',
+    path: ['git', 'enabled'],
+    description: 'Use git branches and commits during implementation',
+  },
+  'git.auto_commit': {
+    type: 'boolean',
+    path: ['git', 'auto_commit'],
+    description: 'Commit after every completed task',
+  },
+  'git.branch_prefix': {
+    type: 'string',
+    path: ['git', 'branch_prefix'],
+    description: 'Prefix for implementation phase branches (<prefix>/phase-N-name)',
+    pattern: /^[A-Za-z0-9._-]+$/,
+  },
+  'llm.provider': {
+    type: 'string',
+    path: ['llm', 'provider'],
+    description: 'LLM provider for the planning phases',
+    values: () => ['anthropic'],
+  },
+  'llm.model': {
+    type: 'string',
+    path: ['llm', 'model'],
+    description: 'Model for the planning phases',
+    pattern: /^\S+$/,
+  },
+  'llm.max_tokens': {
+    type: 'number',
+    path: ['llm', 'max_tokens'],
+    description: 'Maximum output tokens per LLM response',
+    integer: true,
+    min: 1,
+  },
+  'execution.max_retries': {
+    type: 'number',
+    path: ['execution', 'max_retries'],
+    description: 'Retries after a failed task attempt',
+    integer: true,
+    min: 0,
+  },
+  'execution.retry_strategy': {
+    type: 'string',
+    path: ['execution', 'retry_strategy'],
+    description: 'How retries treat a failed attempt: continue, reset or auto',
+    values: () => ['auto', 'continue', 'reset'],
+  },
+  'execution.parallel': {
+    type: 'boolean',
+    path: ['execution', 'parallel'],
+    description: 'Run independent tasks in parallel',
+  },
+  'execution.max_parallel': {
+    type: 'number',
+    path: ['execution', 'max_parallel'],
+    description: 'Maximum tasks running at once when parallel',
+    integer: true,
+    min: 1,
+  },
+  'execution.validate_results': {
+    type: 'boolean',
+    path: ['execution', 'validate_results'],
+    description: 'Ask the agent to validate each completed task',
+  },
+  'verification.typecheck': {
+    type: 'string',
+    path: ['verification', 'typecheck'],
+    allowEmpty: true,
+    description: 'Type-check command run after every task (empty skips it)',
+  },
+  'verification.lint': {
+    type: 'string',
+    path: ['verification', 'lint'],
+    allowEmpty: true,
+    description: 'Lint command run after every task (empty skips it)',
+  },
+  'verification.test': {
+    type: 'string',
+    path: ['verification', 'test'],
+    allowEmpty: true,
+    description: 'Test command run after every task (empty skips it)',
+  },
+  'verification.timeout_minutes': {
+    type: 'number',
+    path: ['verification', 'timeout_minutes'],
+    description: 'Time limit for each verification command',
+    integer: true,
+    min: 1,
+  },
+  'budget.project_usd': {
+    type: 'number',
+    path: ['budget', 'project_usd'],
+    description: 'Spending cap for the whole project (0 disables)',
+    min: 0,
+  },
+  'budget.phase_usd': {
+    type: 'number',
+    path: ['budget', 'phase_usd'],
+    description: 'Spending cap per phase (0 disables)',
+    min: 0,
+  },
+  'budget.task_usd': {
+    type: 'number',
+    path: ['budget', 'task_usd'],
+    description: 'Spending cap per task across retries (0 disables)',
+    min: 0,
+  },
+};
+
+/**
+ * Get all configurable keys
+ */
+export function getConfigKeys(): string[] {
+  return Object.keys(CONFIG_SCHEMA);
+}
+
+function getDefinition(key: string): ConfigKeyDefinition {
+  const definition = CONFIG_SCHEMA[key];
+  if (!definition) {
+    throw ConfigError.unknownKey(key, getConfigKeys());
+  }
+  return definition;
+}
+
+/**
+ * Parse and validate a raw string value for a key
+ * @throws {ConfigError} if the key is unknown or the value does not match the schema
+ */
+export function parseConfigValue(key: string, raw: string): ConfigValue {
+  const definition = getDefinition(key);
+  const value = raw.trim();
+
+  switch (definition.type) {
+    case 'boolean': {
+      if (value !== 'true' && value !== 'false') {
+        throw ConfigError.invalidValue(key, raw, 'true or false');
+      }
+      return value === 'true';
+    }
+
+    case 'number': {
+      const parsed = Number(value);
+      if (value === '' || !Number.isFinite(parsed)) {
+        throw ConfigError.invalidValue(key, raw, 'a number');
+      }
+      if (definition.integer && !Number.isInteger(parsed)) {
+        throw ConfigError.invalidValue(key, raw, 'a whole number');
+      }
+      if (definition.min !== undefined && parsed < definition.min) {
+        throw ConfigError.invalidValue(key, raw, `at least ${definition.min}`);
+      }
+      return parsed;
+    }
+
+    default: {
+      const allowed = definition.values?.();
+      if (allowed && !allowed.includes(value)) {
+        throw ConfigError.invalidValue(key, raw, `one of ${allowed.join(', ')}`);
+      }
+      if (!value && definition.allowEmpty) {
+        return value;
+      }
+      if (!value || (definition.pattern && !definition.pattern.test(value))) {
+        throw ConfigError.invalidValue(key, raw, `a value matching ${definition.pattern}`);
+      }
+      return value;
+    }
+  }
+}
+
+function setValue(config: ProjectConfig, key: string, value: ConfigValue): void {
+  const [section, field] = getDefinition(key).path;
+  (config[section] as Record<string, ConfigValue>)[field] = value;
+}
+
+function getValue(config: ProjectConfig, key: string): ConfigValue | undefined {
+  const [section, field] = getDefinition(key).path;
+  return (config[section] as Record<string, ConfigValue | undefined>)[field];
+}
+
+/**
+ * Get the values set in PROJECT.md
+ */
+export function getProjectValues(meta: ProjectMeta): ConfigValues {
+  const values: ConfigValues = {};
+  for (const [key, definition] of Object.entries(CONFIG_SCHEMA)) {
+    const [section, field] = definition.path;
+    const value = (meta[section] as Record<string, ConfigValue | undefined> | undefined)?.[field];
+    if (value !== undefined) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function createDefaultConfig(): ProjectConfig {
+  return {
+    agent: { ...DEFAULT_CONFIG.agent },
+    git: { ...DEFAULT_CONFIG.git },
+    llm: { ...DEFAULT_CONFIG.llm },
+    execution: { ...DEFAULT_CONFIG.execution },
+    verification: { ...DEFAULT_CONFIG.verification },
+    budget: {},
+  };
+}
+
+function getLayerValues(meta: ProjectMeta, layers: ConfigLayers): Array<[ConfigSource, ConfigValues]> {
+  return [
+    ['global', layers.global ?? {}],
+    ['project', getProjectValues(meta)],
+    ['env', layers.env ?? {}],
+    ['flag', layers.flags ?? {}],
+  ];
+}
+
+/**
+ * Resolve the effective configuration from the defaults, PROJECT.md and any other layers
+ */
+export function resolveProjectConfig(meta: ProjectMeta, layers: ConfigLayers = {}): ProjectConfig {
+  const config = createDefaultConfig();
+
+  for (const [, values] of getLayerValues(meta, layers)) {
+    for (const [key, value] of Object.entries(values)) {
+      setValue(config, key, value);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Get the effective value of a key
+ * @throws {ConfigError} if the key is unknown
+ */
+export function getConfigValue(
+  meta: ProjectMeta,
+  key: string,
+  layers: ConfigLayers = {}
+): ConfigValue | undefined {
+  getDefinition(key);
+  return getValue(resolveProjectConfig(meta, layers), key);
+}
+
+/**
+ * Show which layer a key's effective value came from
+ * @throws {ConfigError} if the key is unknown
+ */
+export function explainConfigValue(
+  meta: ProjectMeta,
+  key: string,
+  layers: ConfigLayers = {}
+): ConfigExplanation {
+  const defaultValue = getValue(createDefaultConfig(), key);
+  const explanation: ConfigExplanation = {
+    key,
+    value: defaultValue,
+    source: 'default',
+    layers: [{ source: 'default', value: defaultValue }],
+  };
+
+  for (const [source, values] of getLayerValues(meta, layers)) {
+    const value = values[key];
+    explanation.layers.push({ source, value });
+    if (value !== undefined) {
+      explanation.value = value;
+      explanation.source = source;
+    }
+  }
+
+  return explanation;
+}
+
+/**
+ * Build the meta update that sets a key in PROJECT.md
+ * @throws {ConfigError} if the key is unknown
+ */
+export function buildConfigUpdate(key: string, value: ConfigValue): Partial<ProjectMeta> {
+  const [section, field] = getDefinition(key).path;
+  return { [section]: { [field]: value } };
+}
+
+// =====================================
+// Layers outside PROJECT.md
+// =====================================
+
+/**
+ * Get the path of the user config file, honouring XDG_CONFIG_HOME
+ */
+export function getGlobalConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'orchestrator', 'config.yaml');
+}
+
+/**
+ * Read the user config file; a missing file is an empty layer
+ * @throws {ConfigError} if the file is not valid YAML or holds invalid values
+ */
+export async function loadGlobalConfig(filePath: string = getGlobalConfigPath()): Promise<ConfigValues> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(content) ?? {};
+  } catch (error) {
+    throw ConfigError.invalidFile(filePath, (error as Error).message);
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw ConfigError.invalidFile(filePath, 'expected a mapping of config sections');
+  }
+
+  const values: ConfigValues = {};
+  for (const [section, fields] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof fields !== 'object' || fields === null) {
+      throw ConfigError.invalidFile(filePath, `section "${section}" must be a mapping`);
+    }
+    for (const [field, value] of Object.entries(fields)) {
+      const key = `${section}.${field}`;
+      try {
+        values[key] = parseConfigValue(key, String(value));
+      } catch (error) {
+        throw ConfigError.invalidFile(filePath, (error as Error).message);
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Write a key to the user config file, keeping everything else in it
+ */
+export async function saveGlobalConfigValue(
+  key: string,
+  value: ConfigValue,
+  filePath: string = getGlobalConfigPath()
+): Promise<void> {
+  getDefinition(key);
+  const values = { ...(await loadGlobalConfig(filePath)), [key]: value };
+
+  const data: Record<string, Record<string, ConfigValue>> = {};
+  for (const [entryKey, entryValue] of Object.entries(values)) {
+    const [section, field] = getDefinition(entryKey).path;
+    data[section] = { ...data[section], [field]: entryValue };
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, yaml.stringify(data), 'utf-8');
+}
+
+/**
+ * Get the environment variable that overrides a key (llm.max_tokens -> ORCHESTRATOR_LLM_MAX_TOKENS)
+ */
+export function getConfigEnvVar(key: string): string {
+  return ENV_PREFIX + key.toUpperCase().replace(/\./g, '_');
+}
+
+/**
+ * Read ORCHESTRATOR_* overrides from the environment
+ * @throws {ConfigError} if a variable holds an invalid value
+ */
+export function readEnvConfig(env: NodeJS.ProcessEnv = process.env): ConfigValues {
+  const values: ConfigValues = {};
+  for (const key of getConfigKeys()) {
+    const raw = env[getConfigEnvVar(key)];
+    if (raw !== undefined && raw !== '') {
+      values[key] = parseConfigValue(key, raw);
+    }
+  }
+  return values;
+}
+
+/**
+ * Map command line flags onto config keys
+ * @throws {ConfigError} if a flag holds an invalid value
+ */
+export function readFlagConfig(options: ConfigFlagOptions): ConfigValues {
+  const raw: Record<string, string | undefined> = {
+    'llm.model': options.model,
+    'llm.max_tokens': options.maxTokens,
+    'agent.timeout_minutes': options.timeout,
+    'git.branch_prefix': options.branchPrefix,
+    'execution.max_retries': options.maxRetries,
+    'git.enabled': options.git === false ? 'false' : undefined,
+  };
+
+  const values: ConfigValues = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value !== undefined) {
+      values[key] = parseConfigValue(key, value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Load every layer outside PROJECT.md
+ * @throws {ConfigError} if any layer holds invalid values
+ */
+export async function loadConfigLayers(
+  flags: ConfigFlagOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ConfigLayers> {
+  return {
+    global: await loadGlobalConfig(getGlobalConfigPath(env)),
+    env: readEnvConfig(env),
+    flags: readFlagConfig(flags),
+  };
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ConversationSnapshot } from './llm/conversation.js';
+import { DocumentParseError } from '../types/errors.js';
+import { logger } from '../utils/logger.js';
+
+export type CheckpointPhase = 1 | 2 | 3;
+
+/**
+ * A phase 1-3 conversation as of its last completed turn
+ */
+export interface ConversationCheckpoint {
+  phase: CheckpointPhase;
+  saved_at: string;
+  conversation: ConversationSnapshot;
+  recorded_cost_usd?: number; // Spend already added to meta.cost when a budget cap paused the phase
+  answers_used?: number; // Ordered replies from the answers file sent so far
+}
+
+/**
+ * Type guard for checkpoint files read back from disk
+ */
+export function isValidCheckpoint(obj: unknown): obj is ConversationCheckpoint {
+  if (!obj || typeof obj !== 'object') return false;
+
+  const checkpoint = obj as Record<string, unknown>;
+  if (checkpoint.phase !== 1 && checkpoint.phase !== 2 && checkpoint.phase !== 3) return false;
+  if (typeof checkpoint.saved_at !== 'string') return false;
+  if (
+    checkpoint.recorded_cost_usd !== undefined &&
+    typeof checkpoint.recorded_cost_usd !== 'number'
+  ) {
+    return false;
+  }
+  if (checkpoint.answers_used !== undefined && typeof checkpoint.answers_used !== 'number') {
+    return false;
+  }
+
+  const conversation = checkpoint.conversation as Record<string, unknown> | undefined;
+  return (
+    !!conversation &&
+    Array.isArray(conversation.history) &&
+    !!conversation.tokenUsage &&
+    typeof conversation.tokenUsage === 'object'
+  );
+}
+
+/**
+ * Manager for conversation checkpoints in .orchestrator/conversations/
+ * One file per planning phase, rewritten after every turn and removed once the phase completes
+ */
+export class ConversationCheckpointManager {
+  private checkpointsDir: string;
+
+  constructor(projectDir: string) {
+    this.checkpointsDir = path.join(projectDir, '.orchestrator', 'conversations');
+  }
+
+  /**
+   * Phase 1 → "phase-1.json"
+   */
+  getCheckpointPath(phase: CheckpointPhase): string {
+    return path.join(this.checkpointsDir, `phase-${phase}.json`);
+  }
+
+  /**
+   * Write a checkpoint, replacing the previous one in a single rename
+   * so a process killed mid-write leaves the last good checkpoint behind
+   */
+  async write(checkpoint: ConversationCheckpoint): Promise<void> {
+    await fs.mkdir(this.checkpointsDir, { recursive: true });
+
+    const filePath = this.getCheckpointPath(checkpoint.phase);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+    logger.debug(`Wrote conversation checkpoint: ${filePath}`);
+  }
+
+  /**
+   * Read a phase's checkpoint
+   * Returns null if there is none
+   */
+  async read(phase: CheckpointPhase): Promise<ConversationCheckpoint | null> {
+    const filePath = this.getCheckpointPath(phase);
+
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+      if (!isValidCheckpoint(data)) {
+        throw DocumentParseError.invalidStructure(
+          `Invalid conversation checkpoint structure in ${filePath}`
+        );
+      }
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a phase's checkpoint
+   * Returns true if deleted, false if there was none
+   */
+  async delete(phase: CheckpointPhase): Promise<boolean> {
+    try {
+      await fs.unlink(this.getCheckpointPath(phase));
+      logger.debug(`Deleted conversation checkpoint for phase ${phase}`);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -21,6 +21,18 @@ import {
 } from './writers/project-writer.js';
 import { TaskResultManager } from './task-results.js';
 import { ClaudeMdManager } from './claude-md.js';
+import {
+  ConversationCheckpointManager,
+  type CheckpointPhase,
+  type ConversationCheckpoint,
+} from './conversation-checkpoints.js';
+import {
+  PhaseHistoryManager,
+  type HistoryPhase,
+  type PhaseContent,
+  type PhaseSnapshot,
+} from './phase-history.js';
+import { buildTaskPrompt, collectDependencyResults } from './execution/prompt-builder.js';
 import { logger } from '../utils/logger.js';
 import { INITIAL_PROJECT_MD } from '../utils/templates.js';
 
@@ -38,11 +50,15 @@ export interface ValidationResult {
 export class DocumentManager {
   private taskResults: TaskResultManager;
   private claudeMd: ClaudeMdManager;
+  private checkpoints: ConversationCheckpointManager;
+  private history: PhaseHistoryManager;
   private projectMdPath: string;
 
   constructor(private projectDir: string) {
     this.taskResults = new TaskResultManager(projectDir);
     this.claudeMd = new ClaudeMdManager(projectDir);
+    this.checkpoints = new ConversationCheckpointManager(projectDir);
+    this.history = new PhaseHistoryManager(projectDir);
     this.projectMdPath = path.join(projectDir, 'PROJECT.md');
   }
 
@@ -93,6 +109,17 @@ export class DocumentManager {
     logger.debug(`Updated approval for ${approval.phase}`);
   }
 
+  /**
+   * Replace the Approvals table
+   */
+  async updateApprovals(approvals: Approval[]): Promise<void> {
+    const doc = await this.readProject();
+    doc.approvals = approvals;
+    const output = writeProjectMd(doc);
+    await fs.writeFile(this.projectMdPath, output, 'utf-8');
+    logger.debug('Updated approvals');
+  }
+
   /**
    * Update ideation content (Phase 1)
    */
@@ -115,6 +142,17 @@ export class DocumentManager {
     logger.debug('Updated specification content');
   }
 
+  /**
+   * Replace all implementation phases with a new plan
+   */
+  async replaceImplementationPhases(phases: ImplementationPhase[]): Promise<void> {
+    const doc = await this.readProject();
+    doc.implementation_phases = phases;
+    const output = writeProjectMd(doc);
+    await fs.writeFile(this.projectMdPath, output, 'utf-8');
+    logger.debug(`Replaced implementation phases (${phases.length})`);
+  }
+
   /**
    * Add a new implementation phase
    */
@@ -169,27 +207,84 @@ export class DocumentManager {
   }
 
   // =====================================
-  // CLAUDE.md Operations
+  // Conversation Checkpoint Operations
   // =====================================
 
   /**
-   * Build a complete task prompt including dependencies
+   * Save a phase conversation after a turn
    */
-  async buildTaskPrompt(task: Task, phase: ImplementationPhase): Promise<string> {
-    // Get results for all dependencies
-    const dependencyResults: TaskResult[] = [];
-
-    for (const depId of task.depends_on) {
-      const result = await this.taskResults.readResult(depId);
-      if (result) {
-        dependencyResults.push(result);
-      }
-    }
+  async saveConversationCheckpoint(checkpoint: ConversationCheckpoint): Promise<void> {
+    await this.checkpoints.write(checkpoint);
+  }
 
-    return this.claudeMd.buildTaskContext({
-      task,
-      phase,
-      dependencyResults,
+  /**
+   * Get the saved conversation of an interrupted phase
+   */
+  async getConversationCheckpoint(phase: CheckpointPhase): Promise<ConversationCheckpoint | null> {
+    return this.checkpoints.read(phase);
+  }
+
+  /**
+   * Delete a phase's saved conversation (once it completes or is abandoned)
+   */
+  async deleteConversationCheckpoint(phase: CheckpointPhase): Promise<boolean> {
+    return this.checkpoints.delete(phase);
+  }
+
+  // =====================================
+  // Phase History Operations
+  // =====================================
+
+  /**
+   * Snapshot a completed phase's output as its next revision
+   */
+  async savePhaseSnapshot<P extends HistoryPhase>(
+    phase: P,
+    content: PhaseContent<P>
+  ): Promise<PhaseSnapshot> {
+    return this.history.record(phase, content);
+  }
+
+  /**
+   * Revision numbers recorded for a phase, oldest first
+   */
+  async getPhaseRevisions(phase: HistoryPhase): Promise<number[]> {
+    return this.history.list(phase);
+  }
+
+  /**
+   * Get one revision of a phase's output
+   */
+  async getPhaseSnapshot(phase: HistoryPhase, revision: number): Promise<PhaseSnapshot | null> {
+    return this.history.read(phase, revision);
+  }
+
+  // =====================================
+  // CLAUDE.md Operations
+  // =====================================
+
+  /**
+   * Build a task prompt from files on disk, the same way execution does
+   */
+  async buildTaskPrompt(
+    task: Task,
+    phase: ImplementationPhase,
+    tokenBudget?: number
+  ): Promise<string> {
+    const doc = await this.readProject();
+    const results = new Map(
+      (await this.taskResults.readAllResults()).map((r) => [r.task_id, r])
+    );
+    const allTasks = doc.implementation_phases.flatMap((p) => p.tasks);
+
+    return buildTaskPrompt(task, {
+      projectName: doc.meta.project_name,
+      phaseName: phase.name,
+      phaseNumber: phase.phase_number,
+      specification: doc.specification ?? undefined,
+      claudeMd: (await this.claudeMd.exists()) ? await this.claudeMd.read() : undefined,
+      dependencyResults: collectDependencyResults(task, allTasks, (id) => results.get(id) ?? null),
+      tokenBudget,
     });
   }
 
@@ -221,6 +316,7 @@ export class DocumentManager {
     const projectMd = INITIAL_PROJECT_MD
       .replace('{{PROJECT_NAME}}', projectName)
       .replace('{{PROJECT_ID}}', projectId)
+      .replace('{{IDEA}}', JSON.stringify(description))
       .replace(/\{\{NOW\}\}/g, now);
 
     await fs.writeFile(this.projectMdPath, projectMd, 'utf-8');
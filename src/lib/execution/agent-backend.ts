@@ -0,0 +1,102 @@
+/**
+ * Agent Backend
+ * Common interface implemented by every coding agent the orchestrator can drive
+ */
+
+export interface AgentBackendOptions {
+  cliPath?: string;
+  cwd?: string;
+  timeout?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Token usage and spend reported by the agent for one run
+ */
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AgentExecutionResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  exitCode: number;
+  duration: number;
+  usage?: AgentUsage;
+  timedOut?: boolean; // The run was stopped at its time limit
+  stdout?: string; // Raw process output, before any stream parsing
+  stderr?: string;
+}
+
+/**
+ * Add up usage across several runs, skipping runs that reported none
+ */
+export function sumUsage(...usages: Array<AgentUsage | undefined>): AgentUsage {
+  return usages.reduce<AgentUsage>(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + (usage?.inputTokens ?? 0),
+      outputTokens: total.outputTokens + (usage?.outputTokens ?? 0),
+      costUsd: total.costUsd + (usage?.costUsd ?? 0),
+    }),
+    { inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+}
+
+/**
+ * What a prompt is being executed for
+ * Backends that drive a real agent can ignore this; replay backends key fixtures on it
+ */
+export interface AgentExecutionContext {
+  taskId: string;
+  purpose: 'task' | 'validation';
+  attempt?: number;
+  timeoutMs?: number; // Overrides the backend's timeout option for this run
+}
+
+/**
+ * A coding agent that can execute task prompts
+ * Implementations: ClaudeAdapter ('claude-code'), ReplayAgentBackend ('replay')
+ */
+export interface AgentBackend {
+  /**
+   * Registry name of this backend (matches agent.primary in PROJECT.md)
+   */
+  readonly name: string;
+
+  /**
+   * Execute a prompt and wait for the agent to finish
+   */
+  execute(prompt: string, context?: AgentExecutionContext): Promise<AgentExecutionResult>;
+
+  /**
+   * Execute a prompt, forwarding output chunks as they arrive
+   */
+  executeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    context?: AgentExecutionContext
+  ): Promise<AgentExecutionResult>;
+
+  /**
+   * Abort the current execution
+   */
+  abort(): void;
+
+  /**
+   * Check if an execution is in progress
+   */
+  isRunning(): boolean;
+
+  /**
+   * Check if the agent can be used on this machine
+   */
+  isAvailable(): Promise<boolean>;
+}
+
+/**
+ * Factory creating a backend instance from options
+ */
+export type AgentBackendFactory = (options: AgentBackendOptions) => AgentBackend;
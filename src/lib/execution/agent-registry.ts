@@ -0,0 +1,62 @@
+/**
+ * Agent Registry
+ * Maps agent.primary names from PROJECT.md to backend factories
+ */
+
+import type { AgentBackend, AgentBackendFactory, AgentBackendOptions } from './agent-backend.js';
+import { ClaudeAdapter } from './claude-adapter.js';
+import { TaskExecutionError } from '../../types/errors.js';
+
+/**
+ * Name of the backend used when none is configured
+ */
+export const DEFAULT_AGENT_BACKEND = 'claude-code';
+
+const factories = new Map<string, AgentBackendFactory>();
+
+/**
+ * Register a backend factory under a name
+ * Re-registering a name replaces the previous factory
+ */
+export function registerAgentBackend(name: string, factory: AgentBackendFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Remove a registered backend
+ */
+export function unregisterAgentBackend(name: string): boolean {
+  return factories.delete(name);
+}
+
+/**
+ * Check if a backend is registered
+ */
+export function hasAgentBackend(name: string): boolean {
+  return factories.has(name);
+}
+
+/**
+ * Get the names of all registered backends
+ */
+export function getAgentBackendNames(): string[] {
+  return [...factories.keys()].sort();
+}
+
+/**
+ * Create a backend instance by name
+ * @throws {TaskExecutionError} if no backend is registered under the name
+ */
+export function createAgentBackend(
+  name: string = DEFAULT_AGENT_BACKEND,
+  options: AgentBackendOptions = {}
+): AgentBackend {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw TaskExecutionError.unknownAgent(name, getAgentBackendNames());
+  }
+  return factory(options);
+}
+
+// Built-in backends
+registerAgentBackend(DEFAULT_AGENT_BACKEND, (options) => new ClaudeAdapter(options));
@@ -0,0 +1,136 @@
+/**
+ * Agent Result Ingestion
+ * Reads the result JSON an agent writes to tasks/results/ and merges it with observed facts
+ */
+
+import * as fs from 'fs/promises';
+import type { TaskResult } from '../../types/index.js';
+import { isValidTaskResult, TaskResultManager } from '../task-results.js';
+
+export type AgentResultRead =
+  | { result: TaskResult }
+  | { result: null; reason: 'missing' | 'stale' | 'invalid'; details?: string };
+
+/**
+ * What the orchestrator saw of an agent run, independent of what the agent reports
+ */
+export interface ObservedRun {
+  taskId: string;
+  success: boolean; // Process exited cleanly
+  durationMs: number;
+  output: string;
+}
+
+/**
+ * Modification time of a task's result file, or null when there is none
+ * Snapshot this before an attempt and pass it to readAgentResult
+ */
+export async function getAgentResultMtime(
+  projectDir: string,
+  taskId: string
+): Promise<number | null> {
+  try {
+    const stat = await fs.stat(new TaskResultManager(projectDir).getResultPath(taskId));
+    return stat.mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the agent's result file for a task
+ * A file left unchanged since `previousMtime` (an earlier attempt or saved state) is stale
+ */
+export async function readAgentResult(
+  projectDir: string,
+  taskId: string,
+  previousMtime: number | null = null
+): Promise<AgentResultRead> {
+  const filePath = new TaskResultManager(projectDir).getResultPath(taskId);
+
+  let content: string;
+  try {
+    const stat = await fs.stat(filePath);
+    if (previousMtime !== null && stat.mtimeMs === previousMtime) {
+      return { result: null, reason: 'stale' };
+    }
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { result: null, reason: 'missing' };
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { result: null, reason: 'invalid', details: (error as Error).message };
+  }
+
+  const normalized = normalizeAgentResult(data);
+  if (!isValidTaskResult(normalized)) {
+    return { result: null, reason: 'invalid', details: 'does not match the task result schema' };
+  }
+  if (normalized.task_id !== taskId) {
+    return {
+      result: null,
+      reason: 'invalid',
+      details: `task_id is "${normalized.task_id}", expected "${taskId}"`,
+    };
+  }
+
+  return { result: normalized };
+}
+
+/**
+ * Map the schema agents are given (status "success") onto TaskResult
+ */
+export function normalizeAgentResult(data: unknown): unknown {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return data;
+  }
+
+  const result = { ...(data as Record<string, unknown>) };
+  if (result.status === 'success') {
+    result.status = 'complete';
+  }
+  // Timing, cost and commits are observed by the orchestrator, not self-reported
+  delete result.duration_seconds;
+  return result;
+}
+
+/**
+ * Combine the agent's report with observed facts
+ * The agent supplies the narrative (summary, files, decisions, tests, criteria); the
+ * orchestrator supplies timing and exit status. File claims are checked against git
+ * separately (see change-tracker.ts)
+ */
+export function mergeAgentResult(reported: TaskResult, observed: ObservedRun): TaskResult {
+  const completedAt = new Date();
+
+  return {
+    ...reported,
+    files_created: reported.files_created ?? [],
+    files_modified: reported.files_modified ?? [],
+    files_deleted: reported.files_deleted ?? [],
+    task_id: observed.taskId,
+    status: reported.status === 'complete' && observed.success ? 'complete' : 'failed',
+    started_at: new Date(completedAt.getTime() - observed.durationMs).toISOString(),
+    completed_at: completedAt.toISOString(),
+    duration_ms: observed.durationMs,
+    output_summary: reported.summary || reported.output_summary || '',
+    raw_output: observed.output.slice(0, 10000), // Limit stored raw output
+    tokens_used: undefined,
+    cost_usd: undefined,
+    commit_hash: undefined,
+    verified_changes: undefined,
+    attempts: undefined,
+    failure_type: undefined,
+    result_source: 'agent_json',
+  };
+}
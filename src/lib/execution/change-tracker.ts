@@ -0,0 +1,123 @@
+/**
+ * Change Tracker
+ * Compares working tree snapshots taken around a task and checks the agent's file claims
+ */
+
+import type { ChangeVerification, FileChange, TaskResult } from '../../types/index.js';
+import type { LineCounts, WorkingChanges } from '../git/workflow-manager.js';
+
+/**
+ * Files the orchestrator writes itself; never attributed to the agent
+ * Takes paths relative to the project directory, as git status reports them
+ */
+export function isOrchestratorFile(file: string): boolean {
+  return file === 'PROJECT.md' || file.startsWith('tasks/results/');
+}
+
+/**
+ * Files changed between two snapshots of the working tree
+ * A file already dirty before the task counts only if its diff changed; its line
+ * counts are the difference between the two snapshots
+ */
+export function diffWorkingChanges(before: WorkingChanges, after: WorkingChanges): WorkingChanges {
+  const lines: Record<string, LineCounts> = {};
+
+  const since = (key: 'created' | 'modified' | 'deleted'): string[] =>
+    after[key].filter((file) => {
+      const previous = before[key].includes(file) ? before.lines[file] : undefined;
+      const current = after.lines[file] ?? { added: 0, removed: 0 };
+      if (previous && previous.added === current.added && previous.removed === current.removed) {
+        return false;
+      }
+      lines[file] = {
+        added: Math.max(0, current.added - (previous?.added ?? 0)),
+        removed: Math.max(0, current.removed - (previous?.removed ?? 0)),
+      };
+      return true;
+    });
+
+  return {
+    created: since('created'),
+    modified: since('modified'),
+    deleted: since('deleted'),
+    lines,
+  };
+}
+
+/**
+ * Compare what the agent claimed with what git saw change
+ */
+export function verifyChanges(result: TaskResult, actual: WorkingChanges): ChangeVerification {
+  const files: FileChange[] = [];
+  for (const change of ['created', 'modified', 'deleted'] as const) {
+    for (const file of actual[change]) {
+      if (isOrchestratorFile(file)) continue;
+      const counts = actual.lines[file] ?? { added: 0, removed: 0 };
+      files.push({
+        path: file,
+        change,
+        lines_added: counts.added,
+        lines_removed: counts.removed,
+      });
+    }
+  }
+
+  const changed = new Set(files.map((f) => f.path));
+  const claimed = new Set(
+    [
+      ...(result.files_created ?? []),
+      ...(result.files_modified ?? []),
+      ...(result.files_deleted ?? []),
+    ]
+      .map(normalizePath)
+      .filter((file) => !isOrchestratorFile(file))
+  );
+
+  return {
+    files,
+    lines_added: files.reduce((sum, f) => sum + f.lines_added, 0),
+    lines_removed: files.reduce((sum, f) => sum + f.lines_removed, 0),
+    unreported: [...changed].filter((file) => !claimed.has(file)),
+    unchanged_claims: [...claimed].filter((file) => !changed.has(file)),
+    no_changes: result.status === 'complete' && files.length === 0,
+  };
+}
+
+/**
+ * Replace claimed file lists with the verified ones and record the comparison
+ */
+export function applyChangeVerification(
+  result: TaskResult,
+  actual: WorkingChanges
+): ChangeVerification {
+  const verification = verifyChanges(result, actual);
+  const byChange = (change: FileChange['change']): string[] =>
+    verification.files.filter((f) => f.change === change).map((f) => f.path);
+
+  result.files_created = byChange('created');
+  result.files_modified = byChange('modified');
+  result.files_deleted = byChange('deleted');
+  result.verified_changes = verification;
+  return verification;
+}
+
+/**
+ * One-line descriptions of mismatches between claimed and actual changes
+ */
+export function describeDiscrepancies(verification: ChangeVerification): string[] {
+  const issues: string[] = [];
+  if (verification.no_changes) {
+    issues.push('reported success but changed no files');
+  }
+  if (verification.unreported.length > 0) {
+    issues.push(`changed files it did not report: ${verification.unreported.join(', ')}`);
+  }
+  if (verification.unchanged_claims.length > 0) {
+    issues.push(`reported files that did not change: ${verification.unchanged_claims.join(', ')}`);
+  }
+  return issues;
+}
+
+function normalizePath(file: string): string {
+  return file.trim().replace(/^\.\//, '');
+}
@@ -5,34 +5,75 @@
 
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import type {
+  AgentBackend,
+  AgentBackendOptions,
+  AgentExecutionContext,
+  AgentExecutionResult,
+  AgentUsage,
+} from './agent-backend.js';
 
-export interface ClaudeAdapterOptions {
-  cliPath?: string;
-  cwd?: string;
-  timeout?: number;
-  maxTokens?: number;
-}
+export type ClaudeAdapterOptions = AgentBackendOptions;
 
-export interface ClaudeExecutionResult {
-  success: boolean;
-  output: string;
-  error?: string;
-  exitCode: number;
-  duration: number;
-}
+export type ClaudeExecutionResult = AgentExecutionResult;
 
 export interface ClaudeEvent {
-  type: 'stdout' | 'stderr' | 'exit' | 'error';
+  type: 'stdout' | 'stderr' | 'text' | 'exit' | 'error';
   data?: string;
   exitCode?: number;
   error?: Error;
 }
 
+/**
+ * Subset of a `--output-format stream-json` line that the adapter reads
+ */
+interface StreamJsonMessage {
+  type?: string;
+  message?: { content?: Array<{ type?: string; text?: string }> };
+  result?: string;
+  total_cost_usd?: number;
+  cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Parse one line of stream-json output, returning null for non-JSON lines
+ */
+function parseStreamJsonLine(line: string): StreamJsonMessage | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return parsed && typeof parsed === 'object' ? (parsed as StreamJsonMessage) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract token usage and cost from the final `result` message
+ */
+export function parseUsage(message: StreamJsonMessage): AgentUsage {
+  const usage = message.usage ?? {};
+  return {
+    inputTokens:
+      (usage.input_tokens ?? 0) +
+      (usage.cache_creation_input_tokens ?? 0) +
+      (usage.cache_read_input_tokens ?? 0),
+    outputTokens: usage.output_tokens ?? 0,
+    costUsd: message.total_cost_usd ?? message.cost_usd ?? 0,
+  };
+}
+
 /**
  * Adapter for Claude CLI execution
  * Spawns the claude CLI with prompts and captures output
  */
-export class ClaudeAdapter extends EventEmitter {
+export class ClaudeAdapter extends EventEmitter implements AgentBackend {
+  readonly name = 'claude-code';
   private options: Required<ClaudeAdapterOptions>;
   private process: ChildProcess | null = null;
 
@@ -49,18 +90,51 @@ export class ClaudeAdapter extends EventEmitter {
   /**
    * Execute a prompt with Claude CLI
    */
-  async execute(prompt: string): Promise<ClaudeExecutionResult> {
+  async execute(prompt: string, context?: AgentExecutionContext): Promise<ClaudeExecutionResult> {
     const startTime = Date.now();
+    const timeout = context?.timeoutMs ?? this.options.timeout;
 
     return new Promise((resolve) => {
       let stdout = '';
       let stderr = '';
       let hasTimedOut = false;
 
-      // Spawn claude with --print flag to output to stdout
+      // stream-json output is parsed line by line; anything else is passed through as text
+      let mode: 'unknown' | 'json' | 'raw' = 'unknown';
+      let lineBuffer = '';
+      let text = '';
+      let result: StreamJsonMessage | null = null;
+
+      const handleLine = (line: string) => {
+        const message = parseStreamJsonLine(line);
+        if (!message) {
+          return;
+        }
+        if (message.type === 'assistant') {
+          for (const block of message.message?.content ?? []) {
+            if (block.type === 'text' && block.text) {
+              text += block.text;
+              this.emit('event', { type: 'text', data: block.text } as ClaudeEvent);
+            }
+          }
+        } else if (message.type === 'result') {
+          result = message;
+        }
+      };
+
+      // Spawn claude with --print and structured output so usage and cost can be read
       this.process = spawn(
         this.options.cliPath,
-        ['--print', '--max-turns', '1', '-p', prompt],
+        [
+          '--print',
+          '--output-format',
+          'stream-json',
+          '--verbose',
+          '--max-turns',
+          '1',
+          '-p',
+          prompt,
+        ],
         {
           cwd: this.options.cwd,
           shell: true,
@@ -75,18 +149,31 @@ export class ClaudeAdapter extends EventEmitter {
       const timeoutId = setTimeout(() => {
         hasTimedOut = true;
         this.abort();
-      }, this.options.timeout);
+      }, timeout);
 
       this.process.stdout?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        stdout += text;
-        this.emit('event', { type: 'stdout', data: text } as ClaudeEvent);
+        const chunk = data.toString();
+        stdout += chunk;
+        this.emit('event', { type: 'stdout', data: chunk } as ClaudeEvent);
+
+        if (mode === 'unknown' && stdout.trim()) {
+          mode = stdout.trimStart().startsWith('{') ? 'json' : 'raw';
+        }
+
+        if (mode === 'raw') {
+          this.emit('event', { type: 'text', data: chunk } as ClaudeEvent);
+        } else if (mode === 'json') {
+          lineBuffer += chunk;
+          const lines = lineBuffer.split('\n');
+          lineBuffer = lines.pop() ?? '';
+          lines.forEach(handleLine);
+        }
       });
 
       this.process.stderr?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        stderr += text;
-        this.emit('event', { type: 'stderr', data: text } as ClaudeEvent);
+        const chunk = data.toString();
+        stderr += chunk;
+        this.emit('event', { type: 'stderr', data: chunk } as ClaudeEvent);
       });
 
       this.process.on('error', (error: Error) => {
@@ -98,6 +185,8 @@ export class ClaudeAdapter extends EventEmitter {
           error: error.message,
           exitCode: -1,
           duration: Date.now() - startTime,
+          stdout,
+          stderr,
         });
       });
 
@@ -105,24 +194,37 @@ export class ClaudeAdapter extends EventEmitter {
         clearTimeout(timeoutId);
         const exitCode = code ?? -1;
 
+        if (mode === 'json' && lineBuffer) {
+          handleLine(lineBuffer);
+        }
+        const output = mode === 'json' ? (result?.result ?? text) : stdout;
+        const usage = result ? parseUsage(result) : undefined;
+
         this.emit('event', { type: 'exit', exitCode } as ClaudeEvent);
         this.process = null;
 
         if (hasTimedOut) {
           resolve({
             success: false,
-            output: stdout,
-            error: 'Execution timed out',
+            output,
+            error: `Execution timed out after ${timeout}ms`,
             exitCode: -1,
             duration: Date.now() - startTime,
+            usage,
+            timedOut: true,
+            stdout,
+            stderr,
           });
         } else {
           resolve({
             success: exitCode === 0,
-            output: stdout,
+            output,
             error: stderr || undefined,
             exitCode,
             duration: Date.now() - startTime,
+            usage,
+            stdout,
+            stderr,
           });
         }
       });
@@ -134,17 +236,18 @@ export class ClaudeAdapter extends EventEmitter {
    */
   executeStream(
     prompt: string,
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    context?: AgentExecutionContext
   ): Promise<ClaudeExecutionResult> {
     const originalListener = (event: ClaudeEvent) => {
-      if (event.type === 'stdout' && event.data) {
+      if (event.type === 'text' && event.data) {
         onChunk(event.data);
       }
     };
 
     this.on('event', originalListener);
 
-    return this.execute(prompt).finally(() => {
+    return this.execute(prompt, context).finally(() => {
       this.off('event', originalListener);
     });
   }
@@ -166,6 +269,13 @@ export class ClaudeAdapter extends EventEmitter {
     return this.process !== null;
   }
 
+  /**
+   * Check if the configured Claude CLI is available
+   */
+  isAvailable(): Promise<boolean> {
+    return ClaudeAdapter.isAvailable(this.options.cliPath);
+  }
+
   /**
    * Build a task execution prompt
    */
@@ -13,6 +13,7 @@ import {
   type PhaseExecutionResult,
 } from './phase-executor.js';
 import type { GitWorkflowManager } from '../git/workflow-manager.js';
+import type { VerificationConfig } from '../../types/index.js';
 import * as terminal from '../ui/terminal.js';
 import { EventEmitter } from 'events';
 
@@ -41,6 +42,8 @@ export interface OrchestratorResult {
   tasksCompleted: number;
   tasksFailed: number;
   totalDuration: number;
+  tokensUsed: number;
+  totalCost: number;
   phaseResults: PhaseExecutionResult[];
 }
 
@@ -48,7 +51,10 @@ export interface OrchestratorResult {
  * Orchestrates the execution of all implementation phases
  */
 export class Orchestrator extends EventEmitter {
-  private options: Required<Omit<OrchestratorOptions, 'gitWorkflow'>> & { gitWorkflow?: GitWorkflowManager };
+  private options: Required<Omit<OrchestratorOptions, 'gitWorkflow' | 'verification'>> & {
+    gitWorkflow?: GitWorkflowManager;
+    verification?: Partial<VerificationConfig>;
+  };
   private stateManager: StateManager;
   private documentManager: DocumentManager;
   private aborted: boolean = false;
@@ -61,20 +67,28 @@ export class Orchestrator extends EventEmitter {
     super();
     this.stateManager = stateManager;
     this.documentManager = documentManager;
+
+    // Options left unset fall back to the project's persisted config
+    const config = stateManager.getConfig();
     this.options = {
+      agent: options.agent || config.agent.primary,
       cliPath: options.cliPath || 'claude',
-      timeout: options.timeout || 300000,
-      validateResults: options.validateResults ?? true,
-      maxRetries: options.maxRetries || 2,
+      cwd: options.cwd || process.cwd(),
+      timeout: options.timeout || config.agent.timeout_minutes * 60 * 1000,
+      validateResults: options.validateResults ?? config.execution.validate_results,
+      maxRetries: options.maxRetries ?? config.execution.max_retries,
+      retryStrategy: options.retryStrategy || config.execution.retry_strategy,
       onProgress: options.onProgress || (() => {}),
       stopOnFailure: options.stopOnFailure ?? true,
-      parallel: options.parallel ?? false,
-      maxParallel: options.maxParallel || 2,
+      parallel: options.parallel ?? config.execution.parallel,
+      maxParallel: options.maxParallel || config.execution.max_parallel,
+      contextTokens: options.contextTokens || config.agent.context_tokens,
       dryRun: options.dryRun ?? false,
       startPhase: options.startPhase || 1,
       endPhase: options.endPhase || Infinity,
       confirmBeforePhase: options.confirmBeforePhase ?? false,
       gitWorkflow: options.gitWorkflow,
+      verification: options.verification ?? config.verification,
     };
   }
 
@@ -101,6 +115,8 @@ export class Orchestrator extends EventEmitter {
         tasksCompleted: 0,
         tasksFailed: 0,
         totalDuration: 0,
+        tokensUsed: 0,
+        totalCost: 0,
         phaseResults: [],
       };
     }
@@ -120,15 +136,20 @@ export class Orchestrator extends EventEmitter {
     }
 
     const phaseExecutor = new PhaseExecutor(this.stateManager, {
+      agent: this.options.agent,
       cliPath: this.options.cliPath,
+      cwd: this.options.cwd,
       timeout: this.options.timeout,
       validateResults: this.options.validateResults,
       maxRetries: this.options.maxRetries,
+      retryStrategy: this.options.retryStrategy,
       onProgress: this.options.onProgress,
       stopOnFailure: this.options.stopOnFailure,
       parallel: this.options.parallel,
       maxParallel: this.options.maxParallel,
+      contextTokens: this.options.contextTokens,
       gitWorkflow: this.options.gitWorkflow,
+      verification: this.options.verification,
     });
 
     // Set specification context
@@ -215,6 +236,8 @@ export class Orchestrator extends EventEmitter {
     );
     const tasksCompleted = phaseResults.reduce((sum, r) => sum + r.tasksCompleted, 0);
     const tasksFailed = phaseResults.reduce((sum, r) => sum + r.tasksFailed, 0);
+    const tokensUsed = phaseResults.reduce((sum, r) => sum + r.tokensUsed, 0);
+    const totalCost = phaseResults.reduce((sum, r) => sum + r.totalCost, 0);
 
     const result: OrchestratorResult = {
       success,
@@ -224,6 +247,8 @@ export class Orchestrator extends EventEmitter {
       tasksCompleted,
       tasksFailed,
       totalDuration,
+      tokensUsed,
+      totalCost,
       phaseResults,
     };
 
@@ -237,6 +262,7 @@ export class Orchestrator extends EventEmitter {
 
       terminal.printSuccess('Implementation complete!');
       terminal.printInfo(`Duration: ${terminal.formatDuration(totalDuration / 1000)}`);
+      terminal.printInfo(`Cost: ${terminal.formatCost(totalCost)}`);
     } else {
       this.emitOrchestratorEvent('orchestration_fail', {
         currentPhase: phases[phasesCompleted]?.phase_number || 0,
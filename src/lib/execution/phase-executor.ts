@@ -3,19 +3,32 @@
  * Executes all tasks in an implementation phase
  */
 
-import type { Task, TaskResult, ImplementationPhase, SpecificationContent } from '../../types/index.js';
+import type {
+  Task,
+  TaskResult,
+  ImplementationPhase,
+  SpecificationContent,
+  VerificationConfig,
+} from '../../types/index.js';
 import type { StateManager } from '../state/state-manager.js';
 import { DependencyResolver } from '../state/dependency-resolver.js';
 import { TaskExecutor, type TaskExecutorOptions, type TaskExecutionEvent } from './task-executor.js';
-import type { TaskContext } from './prompt-builder.js';
-import type { GitWorkflowManager } from '../git/workflow-manager.js';
+import { DEFAULT_AGENT_BACKEND } from './agent-registry.js';
+import { collectDependencyResults, DEFAULT_CONTEXT_TOKENS, type TaskContext } from './prompt-builder.js';
+import { ClaudeMdManager } from '../claude-md.js';
+import { TaskResultManager } from '../task-results.js';
+import type { GitWorkflowManager, TaskWorktree } from '../git/workflow-manager.js';
+import { BudgetExceededError } from '../../types/errors.js';
 import * as terminal from '../ui/terminal.js';
 import { EventEmitter } from 'events';
 
-export interface PhaseExecutorOptions extends TaskExecutorOptions {
+// The budget hook and attempt log are wired up per task from project state
+export interface PhaseExecutorOptions
+  extends Omit<TaskExecutorOptions, 'beforeAttempt' | 'attemptLog'> {
   stopOnFailure?: boolean;
   parallel?: boolean;
   maxParallel?: number;
+  contextTokens?: number; // Token budget for task prompts
   gitWorkflow?: GitWorkflowManager;
 }
 
@@ -39,17 +52,33 @@ export interface PhaseExecutionResult {
   tasksFailed: number;
   tasksSkipped: number;
   totalDuration: number;
+  tokensUsed: number;
+  totalCost: number;
   results: TaskResult[];
 }
 
+// A task the scheduler started, with its result or the error it threw
+interface ScheduledTask {
+  task: Task;
+  result?: TaskResult;
+  error?: unknown;
+}
+
 /**
  * Executes all tasks in an implementation phase
  */
 export class PhaseExecutor extends EventEmitter {
-  private options: Required<Omit<PhaseExecutorOptions, 'gitWorkflow'>> & { gitWorkflow?: GitWorkflowManager };
+  private options: Required<Omit<PhaseExecutorOptions, 'gitWorkflow' | 'verification'>> & {
+    gitWorkflow?: GitWorkflowManager;
+    verification?: Partial<VerificationConfig>;
+  };
   private stateManager: StateManager;
   private specification?: SpecificationContent;
   private aborted: boolean = false;
+  // Serialises git operations on the main checkout between parallel tasks
+  private gitQueue: Promise<unknown> = Promise.resolve();
+  // This run's spend of each running task, which meta.cost does not include yet
+  private runSpend = new Map<string, number>();
 
   constructor(
     stateManager: StateManager,
@@ -58,15 +87,20 @@ export class PhaseExecutor extends EventEmitter {
     super();
     this.stateManager = stateManager;
     this.options = {
+      agent: options.agent || DEFAULT_AGENT_BACKEND,
       cliPath: options.cliPath || 'claude',
+      cwd: options.cwd || process.cwd(),
       timeout: options.timeout || 300000,
       validateResults: options.validateResults ?? true,
-      maxRetries: options.maxRetries || 2,
+      maxRetries: options.maxRetries ?? 2,
+      retryStrategy: options.retryStrategy || 'auto',
       onProgress: options.onProgress || (() => {}),
       stopOnFailure: options.stopOnFailure ?? true,
       parallel: options.parallel ?? false,
       maxParallel: options.maxParallel || 2,
+      contextTokens: options.contextTokens || DEFAULT_CONTEXT_TOKENS,
       gitWorkflow: options.gitWorkflow,
+      verification: options.verification,
     };
   }
 
@@ -104,79 +138,73 @@ export class PhaseExecutor extends EventEmitter {
     terminal.printHeader(`Phase ${phase.phase_number}: ${phase.name}`);
     terminal.printInfo(`${phase.tasks.length} tasks to execute`);
 
-    // Validate tasks have valid dependency structure
-    new DependencyResolver(phase.tasks);
+    // Dependencies may point at tasks in earlier phases, so resolve against every task
+    const phaseIds = new Set(phase.tasks.map((t) => t.id));
+    const allTasks = [
+      ...this.stateManager.getAllTasks().filter((t) => !phaseIds.has(t.id)),
+      ...phase.tasks,
+    ];
+
+    // Tasks with the longest chain of dependents start first; a cycle leaves them unranked
+    const resolver = new DependencyResolver(allTasks);
+    const priority =
+      resolver.findCycles().length === 0
+        ? resolver.getCriticalPathLengths()
+        : new Map<string, number>();
 
     // Execute tasks in dependency order
     const pendingTasks = [...phase.tasks.filter((t) => t.status === 'pending')];
     const completedIds = new Set(
-      phase.tasks.filter((t) => t.status === 'complete').map((t) => t.id)
+      allTasks.filter((t) => t.status === 'complete' || t.status === 'skipped').map((t) => t.id)
     );
 
     // Update progress for already completed tasks
-    completed = completedIds.size;
+    completed = phase.tasks.filter((t) => t.status === 'complete').length;
+
+    // Work queue: a task starts as soon as its dependencies are done and a slot is free
+    const slots = this.options.parallel ? Math.max(1, this.options.maxParallel) : 1;
+    const running = new Map<string, Promise<ScheduledTask>>();
+    let stopping = false;
+    let taskError: unknown = null;
+
+    const startReadyTasks = () => {
+      while (!this.aborted && !stopping && running.size < slots) {
+        const next = pendingTasks
+          .filter((t) => t.depends_on.every((d) => completedIds.has(d)))
+          .sort((a, b) => (priority.get(b.id) ?? 0) - (priority.get(a.id) ?? 0))[0];
+        if (!next) break;
+
+        pendingTasks.splice(pendingTasks.indexOf(next), 1);
+        running.set(
+          next.id,
+          this.executeTask(phase, next).then(
+            (result) => ({ task: next, result }),
+            (error: unknown) => ({ task: next, error })
+          )
+        );
+      }
+    };
 
-    while (pendingTasks.length > 0 && !this.aborted) {
-      // Find tasks that can run (all deps satisfied)
-      const readyTasks = pendingTasks.filter(
-        (t) => t.depends_on.every((d) => completedIds.has(d))
-      );
+    startReadyTasks();
+    while (running.size > 0) {
+      const finished = await Promise.race(running.values());
+      running.delete(finished.task.id);
 
-      if (readyTasks.length === 0 && pendingTasks.length > 0) {
-        // No tasks ready but some pending - dependency issue
-        terminal.printError('Cannot proceed - no tasks ready (dependency cycle?)');
-        break;
+      // An error (e.g. budget exceeded) stops new work; tasks already running finish first
+      if (!finished.result) {
+        taskError = taskError ?? finished.error;
+        stopping = true;
+        continue;
       }
 
-      // Execute ready tasks (serially or in parallel)
-      if (this.options.parallel && readyTasks.length > 1) {
-        const batch = readyTasks.slice(0, this.options.maxParallel);
-        const batchResults = await Promise.all(
-          batch.map((task) => this.executeTask(phase, task))
-        );
-
-        for (let i = 0; i < batch.length; i++) {
-          const batchTask = batch[i];
-          const result = batchResults[i];
-          if (!batchTask || !result) continue;
-
-          results.push(result);
-
-          // Remove from pending
-          const idx = pendingTasks.findIndex((t) => t.id === batchTask.id);
-          if (idx >= 0) pendingTasks.splice(idx, 1);
-
-          if (result.status === 'complete') {
-            completed++;
-            completedIds.add(batchTask.id);
-          } else {
-            failed++;
-            if (this.options.stopOnFailure) {
-              this.aborted = true;
-              break;
-            }
-          }
-        }
+      results.push(finished.result);
+      if (finished.result.status === 'complete') {
+        completed++;
+        completedIds.add(finished.task.id);
       } else {
-        // Execute one task at a time
-        const task = readyTasks[0];
-        if (!task) continue;
-
-        const result = await this.executeTask(phase, task);
-        results.push(result);
-
-        // Remove from pending
-        const idx = pendingTasks.findIndex((t) => t.id === task.id);
-        if (idx >= 0) pendingTasks.splice(idx, 1);
-
-        if (result.status === 'complete') {
-          completed++;
-          completedIds.add(task.id);
-        } else {
-          failed++;
-          if (this.options.stopOnFailure) {
-            break;
-          }
+        failed++;
+        if (this.options.stopOnFailure) {
+          stopping = true;
         }
       }
 
@@ -186,6 +214,34 @@ export class PhaseExecutor extends EventEmitter {
         phase.tasks.length,
         `${completed}/${phase.tasks.length} tasks`
       );
+
+      startReadyTasks();
+    }
+
+    if (taskError) {
+      throw taskError;
+    }
+
+    if (pendingTasks.length > 0 && !stopping && !this.aborted) {
+      if (failed > 0) {
+        terminal.printWarning(
+          `${pendingTasks.length} task(s) not run: they depend on tasks that failed`
+        );
+      } else {
+        // No tasks ready but some pending - unfinished tasks elsewhere, or a cycle
+        const external = pendingTasks.flatMap((t) =>
+          t.depends_on
+            .filter((d) => !phaseIds.has(d) && !completedIds.has(d))
+            .map((d) => `${t.id} → ${d}`)
+        );
+        if (external.length > 0) {
+          terminal.printError(
+            `Cannot proceed - tasks depend on unfinished tasks outside this phase: ${external.join(', ')}`
+          );
+        } else {
+          terminal.printError('Cannot proceed - no tasks ready (dependency cycle?)');
+        }
+      }
     }
 
     // Count skipped tasks
@@ -202,6 +258,8 @@ export class PhaseExecutor extends EventEmitter {
       tasksFailed: failed,
       tasksSkipped: skipped,
       totalDuration,
+      tokensUsed: results.reduce((sum, r) => sum + (r.tokens_used || 0), 0),
+      totalCost: results.reduce((sum, r) => sum + (r.cost_usd || 0), 0),
       results,
     };
 
@@ -218,6 +276,14 @@ export class PhaseExecutor extends EventEmitter {
     return result;
   }
 
+  /**
+   * Current CLAUDE.md contents; agents may have updated it since the last task
+   */
+  private async readClaudeMd(): Promise<string | undefined> {
+    const claudeMd = new ClaudeMdManager(this.options.cwd);
+    return (await claudeMd.exists()) ? claudeMd.read() : undefined;
+  }
+
   /**
    * Execute a single task within the phase
    */
@@ -229,17 +295,45 @@ export class PhaseExecutor extends EventEmitter {
       projectName: this.stateManager.getMeta().project_name,
       phaseName: phase.name,
       phaseNumber: phase.phase_number,
-      techStack: this.specification?.tech_stack,
-      architecture: this.specification?.architecture,
+      specification: this.specification,
+      claudeMd: await this.readClaudeMd(),
+      dependencyResults: collectDependencyResults(task, this.stateManager.getAllTasks(), (id) =>
+        this.stateManager.getTaskResult(id)
+      ),
+      tokenBudget: this.options.contextTokens,
     };
 
+    const phaseKey = `impl-${phase.phase_number}`;
+    // Spend of earlier runs that a budget pause interrupted
+    const priorUsd = task.cost_usd ?? 0;
+
+    // Parallel tasks each get their own checkout so agents cannot clobber each other
+    const worktreeGit = this.getWorktreeWorkflow();
+    const worktree = worktreeGit
+      ? await this.withGitLock(() => worktreeGit.createTaskWorktree(task.id))
+      : null;
+
     const executor = new TaskExecutor(context, {
+      agent: this.options.agent,
       cliPath: this.options.cliPath,
+      cwd: worktree?.dir ?? this.options.cwd,
       timeout: this.options.timeout,
       validateResults: this.options.validateResults,
       maxRetries: this.options.maxRetries,
+      retryStrategy: this.options.retryStrategy,
       onProgress: this.options.onProgress,
-      gitWorkflow: this.options.gitWorkflow,
+      gitWorkflow: worktree?.workflow ?? this.options.gitWorkflow,
+      attemptLog: new TaskResultManager(this.options.cwd),
+      verification: this.options.verification,
+      beforeAttempt: (spentUsd) => {
+        this.runSpend.set(task.id, spentUsd);
+        this.stateManager.checkBudget({
+          phase: phaseKey,
+          pendingUsd: this.getRunSpend(),
+          taskId: task.id,
+          taskSpentUsd: priorUsd + spentUsd,
+        });
+      },
     });
 
     // Forward task events
@@ -252,13 +346,31 @@ export class PhaseExecutor extends EventEmitter {
       } as PhaseExecutionEvent);
     });
 
-    const result = await executor.executeWithRetry(task);
+    let result: TaskResult;
+    try {
+      result = await executor.executeWithRetry(task);
+    } catch (error) {
+      if (worktreeGit && worktree) {
+        await this.withGitLock(() => worktreeGit.removeTaskWorktree(worktree));
+      }
+      if (error instanceof BudgetExceededError) {
+        await this.pauseForBudget(phaseKey, task, error);
+      }
+      this.runSpend.delete(task.id);
+      throw error;
+    }
+
+    if (worktreeGit && worktree) {
+      await this.withGitLock(() => this.mergeWorktree(phase, worktreeGit, worktree, result));
+    }
 
     // Update task status in state
+    this.runSpend.delete(task.id);
     this.stateManager.updateTask(task.id, {
       status: result.status,
       failure_reason:
-        result.status === 'failed' ? result.output_summary : undefined,
+        result.status === 'failed' ? result.failure_reason || result.output_summary : undefined,
+      cost_usd: result.cost_usd === undefined ? task.cost_usd : priorUsd + result.cost_usd,
     });
 
     // Save result
@@ -267,6 +379,100 @@ export class PhaseExecutor extends EventEmitter {
     return result;
   }
 
+  /**
+   * Worktrees isolate tasks only when several can run at once
+   * Returns the workflow that manages them, or null when tasks share the main checkout
+   */
+  private getWorktreeWorkflow(): GitWorkflowManager | null {
+    const gitWorkflow = this.options.gitWorkflow;
+    if (!this.options.parallel || this.options.maxParallel <= 1 || !gitWorkflow?.isEnabled()) {
+      return null;
+    }
+    return gitWorkflow;
+  }
+
+  /**
+   * Run a git operation on the main checkout once the previous one has finished
+   */
+  private withGitLock<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.gitQueue.then(operation);
+    this.gitQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Bring a completed task's branch into the phase branch and drop its worktree
+   * Tasks only start once their dependencies are merged, so merges follow dependency order
+   * A conflict fails the task and keeps its branch for manual resolution
+   */
+  private async mergeWorktree(
+    phase: ImplementationPhase,
+    gitWorkflow: GitWorkflowManager,
+    worktree: TaskWorktree,
+    result: TaskResult
+  ): Promise<void> {
+    if (result.status !== 'complete') {
+      await gitWorkflow.removeTaskWorktree(worktree);
+      return;
+    }
+
+    const merge = await gitWorkflow.mergeTaskWorktree(worktree);
+    await gitWorkflow.removeTaskWorktree(worktree, !merge.merged);
+    if (merge.merged) {
+      return;
+    }
+
+    result.status = 'failed';
+    result.failure_type = 'merge_conflict';
+    result.failure_reason =
+      merge.conflicts.length > 0
+        ? `Merge conflict in ${merge.conflicts.join(', ')}; branch ${worktree.branch} kept for manual resolution`
+        : `Could not merge branch ${worktree.branch}: ${merge.error ?? 'unknown error'}`;
+    terminal.printError(`Task ${worktree.taskId} failed: ${result.failure_reason}`);
+    this.emit('event', {
+      type: 'task_event',
+      phaseNumber: phase.phase_number,
+      phaseName: phase.name,
+      taskEvent: {
+        type: 'fail',
+        taskId: worktree.taskId,
+        message: result.failure_reason,
+        result,
+      },
+    } as PhaseExecutionEvent);
+  }
+
+  /**
+   * Spend of all running tasks in this run, not yet recorded in meta.cost
+   */
+  private getRunSpend(): number {
+    let total = 0;
+    for (const spentUsd of this.runSpend.values()) total += spentUsd;
+    return total;
+  }
+
+  /**
+   * Leave the task pending with its spend recorded so a resume picks it up again
+   */
+  private async pauseForBudget(
+    phaseKey: string,
+    task: Task,
+    error: BudgetExceededError
+  ): Promise<void> {
+    // Only this task's spend; other running tasks record their own when they finish
+    const runUsd = this.runSpend.get(task.id) ?? 0;
+    this.runSpend.delete(task.id);
+    if (runUsd > 0) {
+      this.stateManager.addCost(0, runUsd, phaseKey);
+    }
+    this.stateManager.updateTask(task.id, {
+      status: 'pending',
+      cost_usd: (task.cost_usd ?? 0) + runUsd,
+    });
+    await this.stateManager.save();
+    terminal.printWarning(`Paused before task ${task.id}: ${error.message}`);
+  }
+
   /**
    * Abort the current phase execution
    */
@@ -3,39 +3,169 @@
  * Constructs prompts for Claude CLI task execution
  */
 
-import type { Task, SpecificationContent } from '../../types/index.js';
+import {
+  DEFAULT_CONFIG,
+  type RetryStrategy,
+  type Task,
+  type TaskResult,
+  type SpecificationContent,
+} from '../../types/index.js';
+
+export const DEFAULT_CONTEXT_TOKENS = DEFAULT_CONFIG.agent.context_tokens;
 
 export interface TaskContext {
   projectName: string;
   phaseName: string;
   phaseNumber: number;
-  techStack?: SpecificationContent['tech_stack'];
-  architecture?: string;
-  previousTasks?: Task[];
-  claudeMdPath?: string;
+  specification?: SpecificationContent;
+  claudeMd?: string; // Contents of the project's CLAUDE.md
+  dependencyResults?: TaskResult[]; // Completed dependencies, oldest first
+  tokenBudget?: number; // Approximate limit for the whole prompt
+}
+
+interface ContextBlock {
+  label: string;
+  text: string;
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
 }
 
 /**
  * Build the prompt for a task execution
+ * Task, instructions and result schema are always included; CLAUDE.md, dependency
+ * results and specification sections are fitted into the token budget
  */
 export function buildTaskPrompt(task: Task, context: TaskContext): string {
+  const header = buildProjectContext(context);
+  const taskSection = buildTaskSection(task);
+  const instructions = buildInstructions(task, context);
+
+  const required = estimateTokens(header + taskSection + instructions);
+  const fitted = fitContext(task, context, (context.tokenBudget ?? DEFAULT_CONTEXT_TOKENS) - required);
+
   const sections: string[] = [];
+  if (fitted.claudeMd) {
+    sections.push(`${fitted.claudeMd}\n\n---\n`);
+  }
+  sections.push(header);
+  sections.push(taskSection);
+  if (fitted.dependencies.length > 0) {
+    sections.push(buildDependenciesSection(fitted.dependencies));
+  }
+  if (fitted.specification.length > 0) {
+    sections.push(buildSpecificationSection(fitted.specification));
+  }
+  if (fitted.omitted.length > 0) {
+    sections.push(buildOmittedSection(fitted.omitted));
+  }
+  sections.push(instructions);
 
-  // Project Context
-  sections.push(buildProjectContext(context));
+  return sections.join('\n\n');
+}
+
+/**
+ * Collect the results of a task's completed dependencies, including transitive ones
+ * Ordered oldest first so trimming drops the least recent work first
+ */
+export function collectDependencyResults(
+  task: Task,
+  tasks: Task[],
+  getResult: (taskId: string) => TaskResult | null
+): TaskResult[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const results: TaskResult[] = [];
+
+  const visit = (ids: string[]): void => {
+    for (const id of ids) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      const result = getResult(id);
+      if (result?.status === 'complete') {
+        results.push(result);
+      }
+      visit(byId.get(id)?.depends_on ?? []);
+    }
+  };
+  visit(task.depends_on);
 
-  // Task Section
-  sections.push(buildTaskSection(task));
+  return results.sort((a, b) => (a.completed_at ?? '').localeCompare(b.completed_at ?? ''));
+}
 
-  // Dependencies / Previous Tasks
-  if (context.previousTasks && context.previousTasks.length > 0) {
-    sections.push(buildDependenciesSection(context.previousTasks));
+/**
+ * Fit optional context into the remaining token budget
+ * Drops the least relevant specification sections first, then the oldest
+ * dependency results, and finally truncates CLAUDE.md
+ */
+function fitContext(
+  task: Task,
+  context: TaskContext,
+  available: number
+): {
+  claudeMd?: string;
+  dependencies: ContextBlock[];
+  specification: ContextBlock[];
+  omitted: string[];
+} {
+  const specification = buildSpecificationBlocks(context.specification);
+  const dependencies = (context.dependencyResults ?? []).map(buildDependencyBlock);
+  let claudeMd = context.claudeMd?.trim() || undefined;
+  const omitted: string[] = [];
+
+  const keywords = getKeywords(`${task.description} ${task.acceptance_criteria.join(' ')}`);
+  const dropOrder = [
+    ...specification
+      .map((block, index) => ({ block, index, score: scoreRelevance(block.text, keywords) }))
+      .sort((a, b) => a.score - b.score || b.index - a.index)
+      .map(({ block }) => ({ block, from: specification })),
+    ...dependencies.map((block) => ({ block, from: dependencies })),
+  ];
+
+  const used = (): number =>
+    estimateTokens(claudeMd ?? '') +
+    [...specification, ...dependencies].reduce((sum, b) => sum + estimateTokens(b.text), 0);
+
+  for (const { block, from } of dropOrder) {
+    if (used() <= available) break;
+    from.splice(from.indexOf(block), 1);
+    omitted.push(block.label);
+  }
+
+  if (claudeMd && used() > available) {
+    const chars = (available - used() + estimateTokens(claudeMd)) * 4;
+    if (chars > 0) {
+      claudeMd = `${claudeMd.slice(0, chars)}\n\n[CLAUDE.md truncated]`;
+      omitted.push('End of CLAUDE.md');
+    } else {
+      claudeMd = undefined;
+      omitted.push('CLAUDE.md');
+    }
   }
 
-  // Instructions
-  sections.push(buildInstructions(context));
+  return { claudeMd, dependencies, specification, omitted };
+}
 
-  return sections.join('\n\n');
+function getKeywords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? []);
+}
+
+/**
+ * Share of the task's keywords that appear in a block of context
+ */
+function scoreRelevance(text: string, keywords: Set<string>): number {
+  if (keywords.size === 0) return 0;
+  const words = getKeywords(text);
+  let hits = 0;
+  for (const keyword of keywords) {
+    if (words.has(keyword)) hits++;
+  }
+  return hits / keywords.size;
 }
 
 /**
@@ -44,22 +174,6 @@ export function buildTaskPrompt(task: Task, context: TaskContext): string {
 function buildProjectContext(context: TaskContext): string {
   let section = `# Project: ${context.projectName}\n`;
   section += `Phase ${context.phaseNumber}: ${context.phaseName}\n`;
-
-  if (context.architecture) {
-    section += `\nArchitecture: ${context.architecture}\n`;
-  }
-
-  if (context.techStack && context.techStack.length > 0) {
-    section += `\nTech Stack:\n`;
-    context.techStack.forEach((t) => {
-      section += `- ${t.layer}: ${t.choice}`;
-      if (t.rationale) {
-        section += ` (${t.rationale})`;
-      }
-      section += '\n';
-    });
-  }
-
   return section;
 }
 
@@ -70,10 +184,12 @@ function buildTaskSection(task: Task): string {
   let section = `## Task ${task.id}\n`;
   section += `${task.description}\n`;
 
-  section += `\n### Acceptance Criteria\n`;
-  task.acceptance_criteria.forEach((criterion, i) => {
-    section += `${i + 1}. ${criterion}\n`;
-  });
+  if (task.acceptance_criteria.length > 0) {
+    section += `\n### Acceptance Criteria\n`;
+    task.acceptance_criteria.forEach((criterion, i) => {
+      section += `${i + 1}. ${criterion}\n`;
+    });
+  }
 
   if (task.depends_on && task.depends_on.length > 0) {
     section += `\n### Dependencies\n`;
@@ -84,35 +200,102 @@ function buildTaskSection(task: Task): string {
 }
 
 /**
- * Build section showing completed dependencies
+ * Render a completed dependency's result
  */
-function buildDependenciesSection(previousTasks: Task[]): string {
-  const completedTasks = previousTasks.filter((t) => t.status === 'complete');
+function buildDependencyBlock(result: TaskResult): ContextBlock {
+  let text = `### Task ${result.task_id}`;
+  if (result.task_description) {
+    text += `: ${result.task_description}`;
+  }
+  text += '\n';
 
-  if (completedTasks.length === 0) {
-    return '';
+  const summary = result.summary || result.output_summary;
+  if (summary) {
+    text += `Summary: ${summary}\n`;
+  }
+  if (result.files_created && result.files_created.length > 0) {
+    text += `Files created: ${result.files_created.join(', ')}\n`;
+  }
+  if (result.files_modified && result.files_modified.length > 0) {
+    text += `Files modified: ${result.files_modified.join(', ')}\n`;
+  }
+  if (result.key_decisions && result.key_decisions.length > 0) {
+    text += `Key decisions:\n`;
+    result.key_decisions.forEach((d) => {
+      text += `- ${d.decision}: ${d.rationale}\n`;
+    });
   }
 
-  let section = `## Previously Completed Tasks\n`;
-  completedTasks.slice(-5).forEach((t) => {
-    section += `- ${t.id}: ${t.description}\n`;
-  });
+  return { label: `Task ${result.task_id} result`, text };
+}
 
+/**
+ * Build section showing completed dependencies
+ */
+function buildDependenciesSection(blocks: ContextBlock[]): string {
+  let section = `## Completed Dependencies\n`;
+  section += `These tasks are done. Build on their outputs:\n\n`;
+  section += blocks.map((b) => b.text).join('\n');
+  return section;
+}
+
+/**
+ * Split the specification into sections that can be trimmed independently
+ */
+function buildSpecificationBlocks(spec?: SpecificationContent): ContextBlock[] {
+  if (!spec) return [];
+
+  const blocks: ContextBlock[] = [];
+  const add = (label: string, body: string | undefined): void => {
+    if (body && body.trim()) {
+      blocks.push({ label, text: `### ${label}\n${body.trim()}\n` });
+    }
+  };
+
+  add('Architecture', spec.architecture);
+  add('Tech Stack', formatTechStack(spec.tech_stack));
+  add('Data Models', spec.data_models);
+  add('API Contracts', spec.api_contracts);
+  add('UI Requirements', spec.ui_requirements);
+
+  return blocks;
+}
+
+function formatTechStack(techStack: SpecificationContent['tech_stack'] | undefined): string {
+  return (techStack ?? [])
+    .map((t) => `- ${t.layer}: ${t.choice}${t.rationale ? ` (${t.rationale})` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Build the specification section
+ */
+function buildSpecificationSection(blocks: ContextBlock[]): string {
+  return `## Specification\n` + blocks.map((b) => b.text).join('\n');
+}
+
+/**
+ * Tell the agent what was left out so it can look it up
+ */
+function buildOmittedSection(omitted: string[]): string {
+  let section = `## Omitted Context\n`;
+  section += `Left out to fit the prompt budget (see PROJECT.md and tasks/results/): `;
+  section += `${omitted.join(', ')}\n`;
   return section;
 }
 
 /**
  * Build the instructions section
  */
-function buildInstructions(context: TaskContext): string {
+function buildInstructions(task: Task, context: TaskContext): string {
   let section = `## Instructions\n`;
   section += `1. Implement the task described above\n`;
   section += `2. Ensure all acceptance criteria are met\n`;
   section += `3. Follow existing code patterns and conventions\n`;
   section += `4. Write clean, well-documented code\n`;
 
-  if (context.claudeMdPath) {
-    section += `5. Refer to ${context.claudeMdPath} for project-specific guidelines\n`;
+  if (context.claudeMd) {
+    section += `5. Follow the project guidelines in CLAUDE.md\n`;
   }
 
   section += `\n### Output Format\n`;
@@ -131,6 +314,22 @@ function buildInstructions(context: TaskContext): string {
   section += `2. [PASS/FAIL] Second criterion\n`;
   section += `\`\`\`\n`;
 
+  section += `\n### Result File\n`;
+  section += `Also write \`tasks/results/task-${task.id}.json\` with:\n`;
+  section += `\`\`\`json\n`;
+  section += `{\n`;
+  section += `  "task_id": "${task.id}",\n`;
+  section += `  "status": "success" | "failed",\n`;
+  section += `  "summary": "What was done",\n`;
+  section += `  "files_created": [], "files_modified": [], "files_deleted": [],\n`;
+  section += `  "key_decisions": [{ "decision": "string", "rationale": "string" }],\n`;
+  section += `  "tests_added": 0, "tests_passing": 0, "tests_failing": 0,\n`;
+  section += `  "acceptance_criteria": [{ "criterion": "string", "met": true, "notes": "optional" }],\n`;
+  section += `  "failure_reason": "only if failed"\n`;
+  section += `}\n`;
+  section += `\`\`\`\n`;
+  section += `Set status to "success" only if all acceptance criteria are met.\n`;
+
   return section;
 }
 
@@ -173,25 +372,105 @@ export function buildValidationPrompt(
 }
 
 /**
- * Build a retry prompt for a failed task
+ * What the previous attempt left behind, fed into the next one
+ */
+export interface RetryEvidence {
+  attempt: number; // 1-based number of the attempt about to run
+  strategy: RetryStrategy;
+  failureReason: string;
+  previousOutput: string;
+  failedCommands?: Array<{ command: string; output: string }>; // Verification commands that failed
+  unmetCriteria?: string[];
+  diff?: string; // Changes the previous attempt made
+  createdFiles?: string[]; // New files, which a diff against HEAD does not show
+}
+
+const MAX_RETRY_OUTPUT = 2000;
+const MAX_COMMAND_OUTPUT = 3000;
+const MAX_RETRY_DIFF = 6000;
+// Most of the token budget a retry section may take from the base context
+const RETRY_BUDGET_SHARE = 0.25;
+
+/**
+ * Build a retry prompt for a failed task from the evidence of the previous attempt
+ * The retry section is sized first; the base context is fitted into what it leaves
  */
 export function buildRetryPrompt(
   task: Task,
-  previousOutput: string,
-  failureReason: string,
+  evidence: RetryEvidence,
   context: TaskContext
 ): string {
-  const originalPrompt = buildTaskPrompt(task, context);
+  const tokenBudget = context.tokenBudget ?? DEFAULT_CONTEXT_TOKENS;
+
+  // Shrink the outputs and diff evenly when their full size exceeds the reserved share
+  const fullChars =
+    MAX_RETRY_OUTPUT + MAX_COMMAND_OUTPUT * (evidence.failedCommands?.length ?? 0) + MAX_RETRY_DIFF;
+  const scale = Math.min(1, (tokenBudget * RETRY_BUDGET_SHARE * 4) / fullChars);
+  const retrySection = buildRetrySection(evidence, (max) => Math.floor(max * scale));
+
+  const originalPrompt = buildTaskPrompt(task, {
+    ...context,
+    tokenBudget: tokenBudget - estimateTokens(retrySection),
+  });
+
+  return originalPrompt + '\n\n' + retrySection;
+}
 
+function buildRetrySection(evidence: RetryEvidence, limit: (max: number) => number): string {
   let retrySection = `\n## Previous Attempt Failed\n`;
-  retrySection += `Reason: ${failureReason}\n\n`;
+  retrySection += `This is attempt ${evidence.attempt}.\n`;
+  retrySection += `Reason: ${evidence.failureReason}\n\n`;
+
+  if (evidence.failedCommands && evidence.failedCommands.length > 0) {
+    retrySection += `### Failing Verification Commands\n`;
+    for (const failed of evidence.failedCommands) {
+      retrySection += `\`${failed.command}\`:\n`;
+      retrySection += `\`\`\`\n${tail(failed.output, limit(MAX_COMMAND_OUTPUT))}\n\`\`\`\n`;
+    }
+    retrySection += '\n';
+  }
+
+  if (evidence.unmetCriteria && evidence.unmetCriteria.length > 0) {
+    retrySection += `### Unmet Acceptance Criteria\n`;
+    for (const criterion of evidence.unmetCriteria) {
+      retrySection += `- ${criterion}\n`;
+    }
+    retrySection += '\n';
+  }
+
+  const hasDiff = Boolean(evidence.diff?.trim());
+  const createdFiles = evidence.createdFiles ?? [];
+  if (hasDiff || createdFiles.length > 0) {
+    retrySection += `### Changes From the Previous Attempt\n`;
+    retrySection +=
+      evidence.strategy === 'reset'
+        ? `The working tree has been reset to where it was before this task, so these changes are gone:\n`
+        : `These changes are still in the working tree; build on them:\n`;
+    if (createdFiles.length > 0) {
+      retrySection += `New files: ${createdFiles.join(', ')}\n`;
+    }
+    if (hasDiff) {
+      retrySection += `\`\`\`diff\n${truncate(evidence.diff!, limit(MAX_RETRY_DIFF))}\n\`\`\`\n`;
+    }
+    retrySection += '\n';
+  }
+
   retrySection += `### Previous Output (truncated)\n`;
-  retrySection += `\`\`\`\n${previousOutput.slice(0, 2000)}\n\`\`\`\n\n`;
+  retrySection += `\`\`\`\n${tail(evidence.previousOutput, limit(MAX_RETRY_OUTPUT))}\n\`\`\`\n\n`;
   retrySection += `### Retry Instructions\n`;
   retrySection += `Please fix the issues from the previous attempt.\n`;
   retrySection += `Focus on addressing the failure reason.\n`;
 
-  return originalPrompt + '\n\n' + retrySection;
+  return retrySection;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n[truncated]` : text;
+}
+
+// Command failures are usually summarised at the end of the output
+function tail(text: string, max: number): string {
+  return text.length > max ? `[truncated]\n${text.slice(-max)}` : text;
 }
 
 /**
@@ -205,6 +484,10 @@ export function buildBatchPrompt(
 
   // Project Context
   sections.push(buildProjectContext(context));
+  const techStack = formatTechStack(context.specification?.tech_stack);
+  if (techStack) {
+    sections.push(`Tech Stack:\n${techStack}\n`);
+  }
 
   // All tasks
   sections.push(`## Tasks (${tasks.length} total)\n`);
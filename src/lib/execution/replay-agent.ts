@@ -0,0 +1,207 @@
+/**
+ * Replay Agent Backend
+ * Offline stand-in for the coding agent that replays scripted task runs from fixtures
+ *
+ * Fixture layout (relative to fixturesDir):
+ *   agent/<taskId>.json  a ReplayStep, or an array of steps indexed by attempt
+ *
+ * Each step's file edits are applied in the working directory before its output is returned,
+ * so git commits and downstream tasks see the same tree a real agent would have produced.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  AgentBackend,
+  AgentBackendFactory,
+  AgentBackendOptions,
+  AgentExecutionContext,
+  AgentExecutionResult,
+  AgentUsage,
+} from './agent-backend.js';
+
+/**
+ * Registry name of the replay backend
+ */
+export const REPLAY_AGENT_BACKEND = 'replay';
+
+/**
+ * One scripted agent run
+ */
+export interface ReplayStep {
+  output: string;
+  exitCode?: number;
+  files?: Record<string, string>;
+  delete?: string[];
+  validation?: string;
+  usage?: AgentUsage;
+}
+
+export interface ReplayAgentOptions extends AgentBackendOptions {
+  fixturesDir: string;
+}
+
+const DEFAULT_VALIDATION_OUTPUT = `## Validation Result
+Status: PASS
+
+### Summary
+Replayed task output accepted`;
+
+/**
+ * Agent backend that replays scripted runs keyed by task ID
+ */
+export class ReplayAgentBackend implements AgentBackend {
+  readonly name = REPLAY_AGENT_BACKEND;
+  private fixturesDir: string;
+  private cwd: string;
+  private running: boolean = false;
+
+  constructor(options: ReplayAgentOptions) {
+    this.fixturesDir = path.resolve(options.fixturesDir);
+    this.cwd = options.cwd || process.cwd();
+  }
+
+  /**
+   * Replay the scripted run for the task in the execution context
+   */
+  async execute(_prompt: string, context?: AgentExecutionContext): Promise<AgentExecutionResult> {
+    const startTime = Date.now();
+
+    if (!context) {
+      return this.failure('Replay agent requires a task execution context', startTime);
+    }
+
+    this.running = true;
+    try {
+      const step = await this.loadStep(context.taskId, context.attempt ?? 0);
+      if (!step) {
+        return this.failure(
+          `No replay fixture for task ${context.taskId}: ${this.fixturePath(context.taskId)}`,
+          startTime
+        );
+      }
+
+      if (context.purpose === 'validation') {
+        return {
+          success: true,
+          output: step.validation ?? DEFAULT_VALIDATION_OUTPUT,
+          exitCode: 0,
+          duration: Date.now() - startTime,
+        };
+      }
+
+      await this.applyEdits(step);
+
+      const exitCode = step.exitCode ?? 0;
+      return {
+        success: exitCode === 0,
+        output: step.output,
+        error: exitCode === 0 ? undefined : `Replayed exit code ${exitCode}`,
+        exitCode,
+        duration: Date.now() - startTime,
+        usage: step.usage,
+      };
+    } catch (error) {
+      return this.failure(error instanceof Error ? error.message : String(error), startTime);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Replay a run, forwarding the whole output as a single chunk
+   */
+  async executeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    context?: AgentExecutionContext
+  ): Promise<AgentExecutionResult> {
+    const result = await this.execute(prompt, context);
+    if (result.output) {
+      onChunk(result.output);
+    }
+    return result;
+  }
+
+  /**
+   * Replayed runs complete synchronously; nothing to abort
+   */
+  abort(): void {
+    this.running = false;
+  }
+
+  /**
+   * Check if a replay is in progress
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Available whenever the fixtures directory exists
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.fixturesDir, 'agent'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private fixturePath(taskId: string): string {
+    return path.join(this.fixturesDir, 'agent', `${taskId}.json`);
+  }
+
+  private async loadStep(taskId: string, attempt: number): Promise<ReplayStep | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.fixturePath(taskId), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const parsed = JSON.parse(content) as ReplayStep | ReplayStep[];
+    if (!Array.isArray(parsed)) {
+      return parsed;
+    }
+    return parsed[Math.min(attempt, parsed.length - 1)] ?? null;
+  }
+
+  private async applyEdits(step: ReplayStep): Promise<void> {
+    for (const [relativePath, content] of Object.entries(step.files ?? {})) {
+      const filePath = this.resolveInCwd(relativePath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+
+    for (const relativePath of step.delete ?? []) {
+      await fs.rm(this.resolveInCwd(relativePath), { force: true });
+    }
+  }
+
+  private resolveInCwd(relativePath: string): string {
+    const resolved = path.resolve(this.cwd, relativePath);
+    if (path.relative(this.cwd, resolved).startsWith('..')) {
+      throw new Error(`Replay fixture path escapes working directory: ${relativePath}`);
+    }
+    return resolved;
+  }
+
+  private failure(error: string, startTime: number): AgentExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error,
+      exitCode: 1,
+      duration: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Create a registry factory bound to a fixtures directory
+ */
+export function createReplayAgentFactory(fixturesDir: string): AgentBackendFactory {
+  return (options) => new ReplayAgentBackend({ ...options, fixturesDir });
+}
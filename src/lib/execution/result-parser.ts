@@ -4,6 +4,7 @@
  */
 
 import type { TaskResult } from '../../types/index.js';
+import type { AgentUsage } from './agent-backend.js';
 
 export interface ParsedTaskResult {
   success: boolean;
@@ -259,8 +260,12 @@ export function toTaskResult(
   taskId: string,
   parsed: ParsedTaskResult,
   duration: number,
-  cost: number = 0
+  usage: AgentUsage | number = 0
 ): TaskResult {
+  // A bare number is a cost with no token breakdown
+  const { inputTokens, outputTokens, costUsd } =
+    typeof usage === 'number' ? { inputTokens: 0, outputTokens: 0, costUsd: usage } : usage;
+
   return {
     task_id: taskId,
     status: parsed.success ? 'complete' : 'failed',
@@ -270,8 +275,8 @@ export function toTaskResult(
     output_summary: parsed.summary,
     files_modified: parsed.filesModified.map((f) => f.path),
     tests_passed: parsed.testsInfo ? !parsed.testsInfo.includes('fail') : undefined,
-    tokens_used: 0,
-    cost_usd: cost,
+    tokens_used: inputTokens + outputTokens,
+    cost_usd: costUsd,
     raw_output: parsed.raw.slice(0, 10000), // Limit stored raw output
   };
 }
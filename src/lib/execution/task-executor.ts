@@ -1,14 +1,29 @@
 /**
  * Task Executor
- * Executes individual tasks using Claude Code adapter
+ * Executes individual tasks using the configured agent backend
  */
 
-import type { Task, TaskResult } from '../../types/index.js';
-import { ClaudeAdapter } from './claude-adapter.js';
+import type {
+  ExecutionConfig,
+  RetryStrategy,
+  Task,
+  TaskAttempt,
+  TaskFailureType,
+  TaskResult,
+  VerificationConfig,
+} from '../../types/index.js';
+import {
+  sumUsage,
+  type AgentBackend,
+  type AgentExecutionResult,
+  type AgentUsage,
+} from './agent-backend.js';
+import { createAgentBackend, DEFAULT_AGENT_BACKEND } from './agent-registry.js';
 import {
   buildTaskPrompt,
   buildValidationPrompt,
   buildRetryPrompt,
+  type RetryEvidence,
   type TaskContext,
 } from './prompt-builder.js';
 import {
@@ -16,17 +31,36 @@ import {
   parseValidationOutput,
   toTaskResult,
 } from './result-parser.js';
-import type { GitWorkflowManager } from '../git/workflow-manager.js';
+import { getAgentResultMtime, mergeAgentResult, readAgentResult } from './agent-result.js';
+import {
+  applyChangeVerification,
+  describeDiscrepancies,
+  diffWorkingChanges,
+  isOrchestratorFile,
+} from './change-tracker.js';
+import {
+  applyVerificationReport,
+  VerificationRunner,
+  type VerificationReport,
+} from './verification-runner.js';
+import type { GitWorkflowManager, WorkingChanges } from '../git/workflow-manager.js';
+import type { TaskResultManager } from '../task-results.js';
 import * as terminal from '../ui/terminal.js';
 import { EventEmitter } from 'events';
 
 export interface TaskExecutorOptions {
+  agent?: string;
   cliPath?: string;
+  cwd?: string;
   timeout?: number;
   validateResults?: boolean;
   maxRetries?: number;
+  retryStrategy?: ExecutionConfig['retry_strategy'];
   onProgress?: (chunk: string) => void;
   gitWorkflow?: GitWorkflowManager;
+  attemptLog?: TaskResultManager; // Where each attempt's prompt and transcripts are saved
+  verification?: Partial<VerificationConfig>; // Commands that must pass after every task
+  beforeAttempt?: (spentUsd: number) => void; // Throw to stop before another paid attempt
 }
 
 export interface TaskExecutionEvent {
@@ -36,12 +70,38 @@ export interface TaskExecutionEvent {
   result?: TaskResult;
 }
 
+// Agent output kept per attempt in the result history
+const MAX_TRANSCRIPT = 10000;
+
+interface AttemptOutcome {
+  result: TaskResult;
+  usage: AgentUsage;
+  startedAt: Date;
+  execResult: AgentExecutionResult;
+  verification?: VerificationReport;
+  validationOutput?: string;
+  unmetCriteria: string[];
+}
+
+// Where the tree stood before the task's first attempt
+interface TaskStart {
+  commit: string | null;
+  changes?: WorkingChanges;
+}
+
 /**
- * Executes a single task using Claude Code
+ * Executes a single task using an agent backend
  */
 export class TaskExecutor extends EventEmitter {
-  private adapter: ClaudeAdapter;
-  private options: Required<Omit<TaskExecutorOptions, 'gitWorkflow'>> & { gitWorkflow?: GitWorkflowManager };
+  private adapter: AgentBackend;
+  private verifier: VerificationRunner;
+  private options: Required<
+    Omit<TaskExecutorOptions, 'gitWorkflow' | 'attemptLog' | 'verification' | 'beforeAttempt'>
+  > & {
+    gitWorkflow?: GitWorkflowManager;
+    attemptLog?: TaskResultManager;
+    beforeAttempt?: (spentUsd: number) => void;
+  };
 
   constructor(
     private context: TaskContext,
@@ -49,53 +109,47 @@ export class TaskExecutor extends EventEmitter {
   ) {
     super();
     this.options = {
+      agent: options.agent || DEFAULT_AGENT_BACKEND,
       cliPath: options.cliPath || 'claude',
+      cwd: options.cwd || process.cwd(),
       timeout: options.timeout || 300000,
       validateResults: options.validateResults ?? true,
-      maxRetries: options.maxRetries || 2,
+      maxRetries: options.maxRetries ?? 2,
+      retryStrategy: options.retryStrategy || 'auto',
       onProgress: options.onProgress || (() => {}),
       gitWorkflow: options.gitWorkflow,
+      attemptLog: options.attemptLog,
+      beforeAttempt: options.beforeAttempt,
     };
 
-    this.adapter = new ClaudeAdapter({
+    this.adapter = createAgentBackend(this.options.agent, {
       cliPath: this.options.cliPath,
-      cwd: process.cwd(),
+      cwd: this.options.cwd,
       timeout: this.options.timeout,
     });
+
+    this.verifier = new VerificationRunner({
+      cwd: this.options.cwd,
+      commands: options.verification ?? {},
+      timeoutMs: (options.verification?.timeout_minutes ?? 0) * 60 * 1000,
+    });
   }
 
   /**
    * Execute a task
    */
   async execute(task: Task): Promise<TaskResult> {
+    this.options.beforeAttempt?.(0);
     this.emitEvent('start', task.id, `Starting task ${task.id}`);
     terminal.printInfo(`Executing task ${task.id}: ${task.description}`);
 
     // Build prompt
     const prompt = buildTaskPrompt(task, this.context);
 
-    // Execute with streaming
-    const execResult = await this.adapter.executeStream(prompt, (chunk) => {
-      this.options.onProgress(chunk);
-      this.emitEvent('progress', task.id, chunk);
-    });
-
-    // Parse result
-    const parsed = parseTaskOutput(execResult.output);
-
-    // Validate if enabled and execution succeeded
-    if (this.options.validateResults && parsed.success) {
-      this.emitEvent('validate', task.id, 'Validating task completion');
-      const validationResult = await this.validate(task, execResult.output);
-
-      if (!validationResult.passed) {
-        parsed.success = false;
-        parsed.summary = `Validation failed: ${validationResult.summary}`;
-      }
-    }
-
-    // Convert to TaskResult
-    const result = toTaskResult(task.id, parsed, execResult.duration);
+    const outcome = await this.runAttempt(task, prompt, 0);
+    await this.saveAttempt(task, prompt, undefined, outcome);
+    const result = applyUsage(outcome.result, outcome.usage);
+    result.attempts = [toAttemptRecord(1, undefined, outcome)];
 
     if (result.status === 'complete') {
       this.emitEvent('complete', task.id, `Task ${task.id} completed`, result);
@@ -110,7 +164,7 @@ export class TaskExecutor extends EventEmitter {
       }
     } else {
       this.emitEvent('fail', task.id, `Task ${task.id} failed`, result);
-      terminal.printError(`Task ${task.id} failed: ${result.output_summary}`);
+      terminal.printError(`Task ${task.id} failed: ${result.failure_reason || result.output_summary}`);
     }
 
     return result;
@@ -118,55 +172,51 @@ export class TaskExecutor extends EventEmitter {
 
   /**
    * Execute a task with retry on failure
+   * Each retry sees the evidence of the attempt before it and either builds on
+   * its changes or starts again from the commit the task started at
    */
   async executeWithRetry(task: Task): Promise<TaskResult> {
     let lastResult: TaskResult | null = null;
+    let evidence: Omit<RetryEvidence, 'attempt' | 'strategy'> | null = null;
+    const history: TaskAttempt[] = [];
     let attempts = 0;
+    // Spend accumulates across attempts so failed retries are still accounted for
+    let usage = sumUsage();
+    const start = await this.captureStart();
 
     while (attempts <= this.options.maxRetries) {
-      if (attempts > 0) {
+      this.options.beforeAttempt?.(usage.costUsd);
+
+      let strategy: RetryStrategy | undefined;
+      if (attempts === 0) {
+        this.emitEvent('start', task.id, `Starting task ${task.id}`);
+      } else {
+        strategy = this.chooseStrategy(lastResult!, start);
         this.emitEvent(
           'retry',
           task.id,
-          `Retrying task ${task.id} (attempt ${attempts + 1})`
+          `Retrying task ${task.id} (attempt ${attempts + 1}, ${strategy})`
         );
         terminal.printWarning(
-          `Retrying task ${task.id} (attempt ${attempts + 1}/${this.options.maxRetries + 1})`
-        );
-      }
-
-      // Build prompt (with retry context if not first attempt)
-      let prompt: string;
-      if (attempts === 0) {
-        prompt = buildTaskPrompt(task, this.context);
-      } else {
-        prompt = buildRetryPrompt(
-          task,
-          lastResult?.raw_output || '',
-          lastResult?.output_summary || 'Unknown failure',
-          this.context
+          `Retrying task ${task.id} (attempt ${attempts + 1}/${this.options.maxRetries + 1}, ${strategy})`
         );
-      }
-
-      // Execute
-      const execResult = await this.adapter.executeStream(prompt, (chunk) => {
-        this.options.onProgress(chunk);
-        this.emitEvent('progress', task.id, chunk);
-      });
-
-      // Parse
-      const parsed = parseTaskOutput(execResult.output);
-
-      // Validate if enabled
-      if (this.options.validateResults && parsed.success) {
-        const validationResult = await this.validate(task, execResult.output);
-        if (!validationResult.passed) {
-          parsed.success = false;
-          parsed.summary = `Validation failed: ${validationResult.summary}`;
+        if (strategy === 'reset') {
+          await this.resetToStart(task, start);
         }
       }
 
-      lastResult = toTaskResult(task.id, parsed, execResult.duration);
+      // Build prompt (with the previous attempt's evidence on retries)
+      const prompt =
+        evidence && strategy
+          ? buildRetryPrompt(task, { ...evidence, attempt: attempts + 1, strategy }, this.context)
+          : buildTaskPrompt(task, this.context);
+
+      const outcome = await this.runAttempt(task, prompt, attempts);
+      await this.saveAttempt(task, prompt, strategy, outcome);
+      history.push(toAttemptRecord(attempts + 1, strategy, outcome));
+      usage = sumUsage(usage, outcome.usage);
+      lastResult = applyUsage(outcome.result, usage);
+      lastResult.attempts = [...history];
 
       if (lastResult.status === 'complete') {
         this.emitEvent('complete', task.id, `Task ${task.id} completed`, lastResult);
@@ -174,7 +224,11 @@ export class TaskExecutor extends EventEmitter {
 
         // Commit if git workflow enabled
         if (this.options.gitWorkflow) {
-          const commitHash = await this.options.gitWorkflow.commitTask(task.id, lastResult);
+          const commitHash = await this.options.gitWorkflow.commitTask(
+            task.id,
+            lastResult,
+            await this.getTaskFiles(start)
+          );
           if (commitHash) {
             lastResult.commit_hash = commitHash;
           }
@@ -183,33 +237,291 @@ export class TaskExecutor extends EventEmitter {
         return lastResult;
       }
 
+      evidence = await this.collectEvidence(outcome);
       attempts++;
     }
 
     // All retries failed
     this.emitEvent('fail', task.id, `Task ${task.id} failed after ${attempts} attempts`, lastResult!);
     terminal.printError(
-      `Task ${task.id} failed after ${attempts} attempts: ${lastResult?.output_summary}`
+      `Task ${task.id} failed after ${attempts} attempts: ${lastResult?.failure_reason || lastResult?.output_summary}`
     );
 
     return lastResult!;
   }
 
+  /**
+   * Run the agent once, collect its result and validate it
+   */
+  private async runAttempt(task: Task, prompt: string, attempt: number): Promise<AttemptOutcome> {
+    const startedAt = new Date();
+    const previousMtime = await getAgentResultMtime(this.options.cwd, task.id);
+    const changesBefore = await this.options.gitWorkflow?.getWorkingChanges();
+
+    const execResult = await this.adapter.executeStream(
+      prompt,
+      (chunk) => {
+        this.options.onProgress(chunk);
+        this.emitEvent('progress', task.id, chunk);
+      },
+      { taskId: task.id, purpose: 'task', attempt, timeoutMs: this.getTimeoutMs(task) }
+    );
+
+    let usage = sumUsage(execResult.usage);
+    const result = await this.collectResult(task, execResult, previousMtime);
+    if (changesBefore) {
+      const changesAfter = await this.options.gitWorkflow?.getWorkingChanges();
+      if (changesAfter) {
+        this.verifyChanges(task, result, changesBefore, changesAfter);
+      }
+    }
+    let gateFailure: TaskFailureType | null = null;
+    let verification: VerificationReport | undefined;
+    let validationOutput: string | undefined;
+    const unmetCriteria = (result.acceptance_criteria ?? [])
+      .filter((c) => !c.met)
+      .map((c) => (c.notes ? `${c.criterion} (${c.notes})` : c.criterion));
+
+    // Project commands are the objective gate; the agent's claims do not matter here
+    if (result.status === 'complete' && this.verifier.hasCommands()) {
+      this.emitEvent('validate', task.id, 'Running verification commands');
+      verification = await this.verifier.run();
+      applyVerificationReport(result, verification);
+      if (!verification.passed) {
+        gateFailure = 'verification_failed';
+      }
+    }
+
+    // Validate if enabled and execution succeeded
+    if (this.options.validateResults && result.status === 'complete') {
+      this.emitEvent('validate', task.id, 'Validating task completion');
+      const validationResult = await this.validate(task, execResult.output);
+      usage = sumUsage(usage, validationResult.usage);
+      validationOutput = validationResult.output;
+
+      if (!validationResult.passed) {
+        result.status = 'failed';
+        result.output_summary = `Validation failed: ${validationResult.summary}`;
+        gateFailure = 'validation_failed';
+        unmetCriteria.push(...validationResult.unmetCriteria);
+      }
+    }
+
+    this.classifyFailure(task, result, execResult, gateFailure);
+    return { result, usage, startedAt, execResult, verification, validationOutput, unmetCriteria };
+  }
+
+  /**
+   * Persist the attempt's prompt, transcripts and outcome; a failed write only warns
+   */
+  private async saveAttempt(
+    task: Task,
+    prompt: string,
+    strategy: RetryStrategy | undefined,
+    outcome: AttemptOutcome
+  ): Promise<void> {
+    if (!this.options.attemptLog) {
+      return;
+    }
+
+    const { result, execResult, startedAt } = outcome;
+    try {
+      await this.options.attemptLog.writeAttempt(
+        {
+          task_id: task.id,
+          strategy,
+          started_at: startedAt.toISOString(),
+          duration_ms: Date.now() - startedAt.getTime(),
+          exit_code: execResult.exitCode,
+          timed_out: execResult.timedOut ?? false,
+          status: result.status,
+          failure_type: result.failure_type,
+          failure_reason: result.failure_reason,
+          summary: result.output_summary,
+        },
+        {
+          prompt,
+          stdout: execResult.stdout ?? execResult.output,
+          stderr: execResult.stderr ?? execResult.error,
+          validation: formatValidationLog(outcome),
+        }
+      );
+    } catch (error) {
+      terminal.printWarning(
+        `Could not save attempt log for task ${task.id}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Record the commit and dirty files the task starts from, so a retry can return to them
+   */
+  private async captureStart(): Promise<TaskStart> {
+    const workflow = this.options.gitWorkflow;
+    if (!workflow) {
+      return { commit: null };
+    }
+    return {
+      commit: await workflow.getHeadCommit(),
+      changes: (await workflow.getWorkingChanges()) ?? undefined,
+    };
+  }
+
+  /**
+   * Files the task changed since it started, including earlier attempts it built on
+   * Undefined when git could not tell, so the last attempt's verified changes are used
+   */
+  private async getTaskFiles(start: TaskStart): Promise<string[] | undefined> {
+    const current = await this.options.gitWorkflow?.getWorkingChanges();
+    if (!start.changes || !current) {
+      return undefined;
+    }
+    const changes = diffWorkingChanges(start.changes, current);
+    return [...changes.created, ...changes.modified, ...changes.deleted].filter(
+      (file) => !isOrchestratorFile(file)
+    );
+  }
+
+  /**
+   * Pick how the next attempt treats the failed one; resetting needs a commit to return to
+   * In auto mode a timed-out or crashed agent starts over, anything else is built upon
+   */
+  private chooseStrategy(previous: TaskResult, start: TaskStart): RetryStrategy {
+    let strategy: RetryStrategy;
+    if (this.options.retryStrategy === 'auto') {
+      const aborted =
+        previous.failure_type === 'timeout' || previous.failure_type === 'agent_error';
+      strategy = aborted ? 'reset' : 'continue';
+    } else {
+      strategy = this.options.retryStrategy;
+    }
+    return strategy === 'reset' && !start.commit ? 'continue' : strategy;
+  }
+
+  /**
+   * Discard what the failed attempts did and return to the task's starting commit
+   * Files that were already dirty and files the orchestrator owns survive the reset
+   */
+  private async resetToStart(task: Task, start: TaskStart): Promise<void> {
+    const workflow = this.options.gitWorkflow;
+    if (!workflow || !start.commit || !start.changes) {
+      return;
+    }
+
+    const current = await workflow.getWorkingChanges();
+    if (!current) {
+      return;
+    }
+    const dirtyBefore = [...start.changes.created, ...start.changes.modified, ...start.changes.deleted];
+    const owned = [...current.created, ...current.modified, ...current.deleted].filter(
+      isOrchestratorFile
+    );
+    const keep = [...new Set([...dirtyBefore, ...owned])];
+    const created = current.created.filter((file) => !keep.includes(file));
+
+    await workflow.resetToCommit(start.commit, keep, created);
+    terminal.printInfo(`Reset working tree to ${start.commit.slice(0, 7)} for task ${task.id}`);
+  }
+
+  /**
+   * Gather what the next attempt should know about a failed one
+   */
+  private async collectEvidence(
+    outcome: AttemptOutcome
+  ): Promise<Omit<RetryEvidence, 'attempt' | 'strategy'>> {
+    const { result } = outcome;
+    const changed = [...(result.files_modified ?? []), ...(result.files_deleted ?? [])];
+    const diff =
+      result.verified_changes && changed.length > 0
+        ? await this.options.gitWorkflow?.getWorkingDiff(changed)
+        : null;
+
+    return {
+      failureReason: result.failure_reason || result.output_summary || 'Unknown failure',
+      previousOutput: result.raw_output || '',
+      failedCommands: outcome.verification?.outcomes
+        .filter((o) => !o.passed)
+        .map((o) => ({ command: o.command, output: o.output })),
+      unmetCriteria: outcome.unmetCriteria,
+      diff: diff ?? undefined,
+      createdFiles: result.verified_changes ? result.files_created : undefined,
+    };
+  }
+
+  /**
+   * Prefer the result file the agent wrote; scrape stdout only when it is missing or invalid
+   */
+  private async collectResult(
+    task: Task,
+    execResult: AgentExecutionResult,
+    previousMtime: number | null
+  ): Promise<TaskResult> {
+    const read = await readAgentResult(this.options.cwd, task.id, previousMtime);
+
+    if (read.result) {
+      return mergeAgentResult(read.result, {
+        taskId: task.id,
+        success: execResult.success,
+        durationMs: execResult.duration,
+        output: execResult.output,
+      });
+    }
+
+    if (read.reason === 'invalid') {
+      terminal.printWarning(
+        `Ignoring result file for task ${task.id} (${read.details}); parsing agent output instead`
+      );
+    }
+
+    const parsed = parseTaskOutput(execResult.output);
+    return { ...toTaskResult(task.id, parsed, execResult.duration), result_source: 'output_parse' };
+  }
+
+  /**
+   * Replace the agent's file claims with what git saw change and warn about mismatches
+   */
+  private verifyChanges(
+    task: Task,
+    result: TaskResult,
+    before: WorkingChanges,
+    after: WorkingChanges
+  ): void {
+    const verification = applyChangeVerification(result, diffWorkingChanges(before, after));
+    for (const issue of describeDiscrepancies(verification)) {
+      terminal.printWarning(`Task ${task.id} ${issue}`);
+    }
+  }
+
   /**
    * Validate task completion
    */
   async validate(
     task: Task,
     executionOutput: string
-  ): Promise<{ passed: boolean; summary: string }> {
+  ): Promise<{
+    passed: boolean;
+    summary: string;
+    unmetCriteria: string[];
+    output: string;
+    usage?: AgentUsage;
+  }> {
     const validationPrompt = buildValidationPrompt(task, executionOutput);
 
-    const result = await this.adapter.execute(validationPrompt);
+    const result = await this.adapter.execute(validationPrompt, {
+      taskId: task.id,
+      purpose: 'validation',
+      timeoutMs: this.getTimeoutMs(task),
+    });
     const parsed = parseValidationOutput(result.output);
 
     return {
       passed: parsed.passed,
       summary: parsed.summary,
+      unmetCriteria: parsed.criteriaStatus
+        .filter((c) => !c.passed)
+        .map((c) => (c.reason ? `${c.description} (${c.reason})` : c.description)),
+      output: result.output,
+      usage: result.usage,
     };
   }
 
@@ -227,6 +539,42 @@ export class TaskExecutor extends EventEmitter {
     return this.adapter.isRunning();
   }
 
+  /**
+   * Time limit for a task's agent runs: its own Timeout column, else the configured default
+   */
+  private getTimeoutMs(task: Task): number {
+    return task.timeout_minutes ? task.timeout_minutes * 60 * 1000 : this.options.timeout;
+  }
+
+  /**
+   * Record why a failed attempt failed, keeping timeouts apart from other failures
+   */
+  private classifyFailure(
+    task: Task,
+    result: TaskResult,
+    execResult: AgentExecutionResult,
+    gateFailure: TaskFailureType | null
+  ): void {
+    if (result.status !== 'failed') {
+      return;
+    }
+
+    if (execResult.timedOut) {
+      const minutes = Math.round(this.getTimeoutMs(task) / 60000);
+      result.failure_type = 'timeout';
+      result.failure_reason = `Timed out after ${minutes} minute${minutes === 1 ? '' : 's'}`;
+    } else if (gateFailure) {
+      result.failure_type = gateFailure;
+      result.failure_reason = result.output_summary;
+    } else if (!execResult.success) {
+      result.failure_type = 'agent_error';
+      result.failure_reason = execResult.error || result.output_summary;
+    } else {
+      result.failure_type = 'incomplete';
+      result.failure_reason = result.failure_reason || result.output_summary;
+    }
+  }
+
   private emitEvent(
     type: TaskExecutionEvent['type'],
     taskId: string,
@@ -236,3 +584,56 @@ export class TaskExecutor extends EventEmitter {
     this.emit('event', { type, taskId, message, result } as TaskExecutionEvent);
   }
 }
+
+/**
+ * Record measured agent spend on a result; self-reported figures are never used
+ */
+function applyUsage(result: TaskResult, usage: AgentUsage): TaskResult {
+  result.tokens_used = usage.inputTokens + usage.outputTokens;
+  result.cost_usd = usage.costUsd;
+  return result;
+}
+
+/**
+ * Summarise one attempt for the result history; usage is the attempt's own
+ */
+function toAttemptRecord(
+  attempt: number,
+  strategy: RetryStrategy | undefined,
+  outcome: AttemptOutcome
+): TaskAttempt {
+  const { result, usage, startedAt } = outcome;
+  return {
+    attempt,
+    strategy,
+    started_at: startedAt.toISOString(),
+    duration_ms: Date.now() - startedAt.getTime(),
+    status: result.status,
+    failure_type: result.failure_type,
+    failure_reason: result.failure_reason,
+    summary: result.output_summary,
+    files_changed: [
+      ...(result.files_created ?? []),
+      ...(result.files_modified ?? []),
+      ...(result.files_deleted ?? []),
+    ],
+    tokens_used: usage.inputTokens + usage.outputTokens,
+    cost_usd: usage.costUsd,
+    transcript: result.raw_output?.slice(-MAX_TRANSCRIPT),
+  };
+}
+
+/**
+ * Verification command output followed by the validator's reply, as one log
+ */
+function formatValidationLog(outcome: AttemptOutcome): string {
+  const sections: string[] = [];
+  for (const command of outcome.verification?.outcomes ?? []) {
+    const status = command.timedOut ? 'timed out' : `exit ${command.exitCode ?? 'unknown'}`;
+    sections.push(`$ ${command.command} (${status})\n${command.output}`);
+  }
+  if (outcome.validationOutput) {
+    sections.push(`Validator:\n${outcome.validationOutput}`);
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,230 @@
+/**
+ * Verification Runner
+ * Runs the project's own test, lint and typecheck commands as an objective acceptance gate
+ */
+
+import { spawn } from 'child_process';
+import type { TaskResult, VerificationConfig } from '../../types/index.js';
+import { stripAnsi } from '../../utils/ansi.js';
+
+export type VerificationStep = 'typecheck' | 'lint' | 'test';
+
+const STEPS: VerificationStep[] = ['typecheck', 'lint', 'test'];
+
+// Keep stored command output bounded
+const MAX_OUTPUT = 10000;
+// How long output may keep arriving after the command exits, e.g. from a leftover child
+const DRAIN_MS = 1000;
+
+export interface VerificationRunnerOptions {
+  cwd: string;
+  commands: Partial<VerificationConfig>;
+  timeoutMs?: number;
+  killGraceMs?: number; // Between SIGTERM and SIGKILL when a command times out
+}
+
+export interface CommandOutcome {
+  step: VerificationStep;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;
+}
+
+export interface TestCounts {
+  passing: number;
+  failing: number;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  outcomes: CommandOutcome[];
+  tests?: TestCounts; // Parsed from the test command's output when recognised
+}
+
+/**
+ * Runs each configured verification command in the project directory
+ */
+export class VerificationRunner {
+  private options: Required<VerificationRunnerOptions>;
+
+  constructor(options: VerificationRunnerOptions) {
+    this.options = {
+      cwd: options.cwd,
+      commands: options.commands,
+      timeoutMs: options.timeoutMs || 600000,
+      killGraceMs: options.killGraceMs || 5000,
+    };
+  }
+
+  /**
+   * Configured steps in the order they run; empty commands are skipped
+   */
+  getSteps(): Array<{ step: VerificationStep; command: string }> {
+    return STEPS.map((step) => ({
+      step,
+      command: this.options.commands[step]?.trim() ?? '',
+    })).filter((s) => s.command.length > 0);
+  }
+
+  /**
+   * Check if any verification command is configured
+   */
+  hasCommands(): boolean {
+    return this.getSteps().length > 0;
+  }
+
+  /**
+   * Run every configured command; all run even after a failure so the report is complete
+   */
+  async run(): Promise<VerificationReport> {
+    const outcomes: CommandOutcome[] = [];
+    for (const { step, command } of this.getSteps()) {
+      outcomes.push(await this.runCommand(step, command));
+    }
+
+    const test = outcomes.find((o) => o.step === 'test');
+    return {
+      passed: outcomes.every((o) => o.passed),
+      outcomes,
+      tests: test ? (parseTestCounts(test.output) ?? undefined) : undefined,
+    };
+  }
+
+  private runCommand(step: VerificationStep, command: string): Promise<CommandOutcome> {
+    const startTime = Date.now();
+
+    return new Promise((resolve) => {
+      let output = '';
+      let timedOut = false;
+
+      // Own process group so a timeout also stops whatever the shell started
+      const child = spawn(command, {
+        cwd: this.options.cwd,
+        shell: true,
+        detached: true,
+        env: { ...process.env, CI: 'true' },
+      });
+
+      const signal = (name: NodeJS.Signals) => {
+        try {
+          process.kill(-(child.pid ?? 0), name);
+        } catch {
+          // The group is gone; the shell itself may not be
+          child.kill(name);
+        }
+      };
+
+      let killId: NodeJS.Timeout | undefined;
+      let drainId: NodeJS.Timeout | undefined;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        signal('SIGTERM');
+        // A command that ignores SIGTERM must not hold up the task
+        killId = setTimeout(() => signal('SIGKILL'), this.options.killGraceMs);
+      }, this.options.timeoutMs);
+
+      const collect = (data: Buffer) => {
+        output += data.toString();
+      };
+      child.stdout?.on('data', collect);
+      child.stderr?.on('data', collect);
+
+      let settled = false;
+      const finish = (exitCode: number | null, error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        clearTimeout(killId);
+        clearTimeout(drainId);
+        if (error) {
+          output += error.message;
+        }
+        resolve({
+          step,
+          command,
+          passed: exitCode === 0 && !timedOut,
+          exitCode,
+          timedOut,
+          durationMs: Date.now() - startTime,
+          output: output.slice(-MAX_OUTPUT), // The summary is at the end
+        });
+      };
+
+      child.on('error', (error) => finish(null, error));
+      // Output pipes close only once every process holding them has exited
+      child.on('exit', (code) => {
+        drainId = setTimeout(() => {
+          signal('SIGKILL');
+          finish(code);
+        }, DRAIN_MS);
+      });
+      child.on('close', (code) => finish(code));
+    });
+  }
+}
+
+/**
+ * Read passing and failing test counts from common runners' summaries
+ * (vitest, jest, mocha, pytest); the last summary in the output wins
+ */
+export function parseTestCounts(output: string): TestCounts | null {
+  const text = stripAnsi(output);
+  const lines = text
+    .split('\n')
+    .filter((line) => /\d+\s+(passed|passing|failed|failing)\b/.test(line));
+  const summary = lines[lines.length - 1];
+  if (!summary) {
+    return null;
+  }
+
+  // Mocha prints passing and failing on separate lines
+  const mochaFailing = /^\s*(\d+)\s+failing\b/.exec(summary);
+  if (mochaFailing) {
+    const passingLine = [...lines].reverse().find((line) => /^\s*\d+\s+passing\b/.test(line));
+    return {
+      passing: Number(/(\d+)/.exec(passingLine ?? '')?.[1] ?? 0),
+      failing: Number(mochaFailing[1]),
+    };
+  }
+
+  return {
+    passing: Number(/(\d+)\s+(?:passed|passing)\b/.exec(summary)?.[1] ?? 0),
+    failing: Number(/(\d+)\s+(?:failed|failing)\b/.exec(summary)?.[1] ?? 0),
+  };
+}
+
+/**
+ * One line naming the commands that failed
+ */
+export function describeFailures(report: VerificationReport): string {
+  return report.outcomes
+    .filter((o) => !o.passed)
+    .map((o) =>
+      o.timedOut
+        ? `${o.step} (${o.command}) timed out`
+        : `${o.step} (${o.command}) exited with code ${o.exitCode ?? 'unknown'}`
+    )
+    .join('; ');
+}
+
+/**
+ * Record objective test results on a task result, replacing anything the agent reported
+ * A failed command fails the task regardless of the agent's claims
+ */
+export function applyVerificationReport(result: TaskResult, report: VerificationReport): void {
+  const test = report.outcomes.find((o) => o.step === 'test');
+  if (test) {
+    result.tests_passed = test.passed;
+    result.tests_passing = report.tests?.passing;
+    result.tests_failing = report.tests?.failing;
+    result.test_output = test.output;
+  }
+
+  if (!report.passed) {
+    result.status = 'failed';
+    result.output_summary = `Verification failed: ${describeFailures(report)}`;
+  }
+}
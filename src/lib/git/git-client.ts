@@ -3,6 +3,8 @@
  * Wrapper around simple-git for common git operations
  */
 
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { simpleGit, SimpleGit, StatusResult, LogResult } from 'simple-git';
 
 export interface GitStatus {
@@ -10,11 +12,18 @@ export interface GitStatus {
   modified: string[];
   created: string[];
   deleted: string[];
+  untracked: string[];
   staged: string[];
   currentBranch: string | null;
   tracking: string | null;
 }
 
+export interface FileDiffStat {
+  path: string;
+  added: number;
+  removed: number;
+}
+
 export interface GitCommit {
   hash: string;
   message: string;
@@ -52,22 +61,55 @@ export class GitClient {
   }
 
   /**
-   * Get current status
+   * Get current status of the working directory
+   * Paths are relative to it, even when it sits below the repository root
    */
   async getStatus(): Promise<GitStatus> {
-    const status: StatusResult = await this.git.status();
+    // List files inside new directories rather than just the directory
+    const status: StatusResult = await this.git.status(['--untracked-files=all', '--', '.']);
+    // Porcelain output is always relative to the repository root
+    const prefix = await this.getPrefix();
+    const relative = (files: string[]): string[] =>
+      files.map((file) => (file.startsWith(prefix) ? file.slice(prefix.length) : file));
 
     return {
       isClean: status.isClean(),
-      modified: status.modified,
-      created: status.created,
-      deleted: status.deleted,
-      staged: status.staged,
+      modified: relative(status.modified),
+      created: relative(status.created),
+      deleted: relative(status.deleted),
+      untracked: relative(status.not_added ?? []),
+      staged: relative(status.staged),
       currentBranch: status.current,
       tracking: status.tracking,
     };
   }
 
+  /**
+   * Get the commit HEAD points at; null before the first commit
+   */
+  async getHead(): Promise<string | null> {
+    try {
+      const hash = await this.git.revparse(['HEAD']);
+      return hash.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Path of the working directory below the repository root, e.g. "app/"; empty at the root
+   */
+  async getPrefix(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--show-prefix'])).trim();
+  }
+
+  /**
+   * Directory the client operates in
+   */
+  getWorkDir(): string {
+    return this.workDir;
+  }
+
   /**
    * Get current branch name
    */
@@ -116,8 +158,9 @@ export class GitClient {
   /**
    * Commit staged changes
    */
-  async commit(message: string): Promise<string> {
-    const result = await this.git.commit(message);
+  async commit(message: string, files?: string[]): Promise<string> {
+    // With files, only those paths are committed, whatever else is staged
+    const result = await this.git.commit(message, files);
     return result.commit;
   }
 
@@ -136,10 +179,34 @@ export class GitClient {
   }
 
   /**
-   * Get diff of unstaged changes
+   * Get diff of unstaged changes, or of the working directory against a commit
+   */
+  async getDiff(ref?: string, paths: string[] = []): Promise<string> {
+    if (!ref) return this.git.diff();
+    const args = ['--relative', ref];
+    return this.git.diff(paths.length > 0 ? [...args, '--', ...paths] : args);
+  }
+
+  /**
+   * Lines added and removed per file in the working directory against HEAD
+   * Files with no diff against HEAD (untracked, or any file before the first commit)
+   * can be passed in `newFiles` and are counted as entirely added
    */
-  async getDiff(): Promise<string> {
-    return this.git.diff();
+  async getDiffStats(newFiles: string[] = []): Promise<FileDiffStat[]> {
+    let numstat = '';
+    try {
+      numstat = await this.git.diff(['--numstat', '--relative', 'HEAD']);
+    } catch {
+      // No commits yet; everything is new
+    }
+
+    const stats = parseNumstat(numstat);
+    const seen = new Set(stats.map((s) => s.path));
+    for (const file of newFiles) {
+      if (seen.has(file)) continue;
+      stats.push({ path: file, added: await countLines(path.join(this.workDir, file)), removed: 0 });
+    }
+    return stats;
   }
 
   /**
@@ -174,17 +241,109 @@ export class GitClient {
     await this.git.reset([`--${mode}`, commit]);
   }
 
+  /**
+   * Return the branch and the working directory to a commit; the rest of the repository
+   * keeps its changes, which stay staged if the branch moved back past them
+   */
+  async resetWorkDir(commit: string): Promise<void> {
+    await this.git.reset(['--soft', commit]);
+    await this.git.raw(['restore', `--source=${commit}`, '--staged', '--worktree', '--', '.']);
+  }
+
   /**
    * Merge a branch into current branch
    */
-  async merge(branch: string, options?: { noFf?: boolean }): Promise<void> {
+  async merge(branch: string, options?: { noFf?: boolean; message?: string }): Promise<void> {
     const args = [branch];
+    if (options?.message) {
+      args.unshift('-m', options.message);
+    }
     if (options?.noFf) {
       args.unshift('--no-ff');
     }
     await this.git.merge(args);
   }
 
+  /**
+   * Abort a merge that stopped on conflicts
+   */
+  async abortMerge(): Promise<void> {
+    await this.git.raw(['merge', '--abort']);
+  }
+
+  /**
+   * Files left with unresolved conflicts by a merge
+   */
+  async getConflictedFiles(): Promise<string[]> {
+    const output = await this.git.raw(['diff', '--name-only', '--diff-filter=U']);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Delete a local branch, merged or not
+   */
+  async deleteBranch(name: string): Promise<void> {
+    await this.git.raw(['branch', '-D', name]);
+  }
+
+  /**
+   * Absolute path of the repository's shared .git directory
+   */
+  async getGitDir(): Promise<string> {
+    const gitDir = await this.git.revparse(['--git-common-dir']);
+    return path.resolve(this.workDir, gitDir.trim());
+  }
+
+  /**
+   * Check out a new branch from a start point into a separate working tree
+   */
+  async addWorktree(dir: string, branch: string, startPoint: string = 'HEAD'): Promise<void> {
+    await this.git.raw(['worktree', 'add', '-b', branch, dir, startPoint]);
+  }
+
+  /**
+   * Remove a working tree, discarding any changes left in it
+   */
+  async removeWorktree(dir: string): Promise<void> {
+    await this.git.raw(['worktree', 'remove', '--force', dir]);
+  }
+
+  /**
+   * Forget worktrees whose directories no longer exist
+   */
+  async pruneWorktrees(): Promise<void> {
+    await this.git.raw(['worktree', 'prune']);
+  }
+
+  /**
+   * The given paths that the repository ignores
+   */
+  async getIgnored(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) return [];
+    return this.git.checkIgnore(paths);
+  }
+
+  /**
+   * Add ignore patterns to .git/info/exclude, which every worktree shares
+   */
+  async addExcludes(patterns: string[]): Promise<void> {
+    const excludePath = path.join(await this.getGitDir(), 'info', 'exclude');
+    let current = '';
+    try {
+      current = await fs.readFile(excludePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const lines = current.split('\n');
+    const missing = patterns.filter((pattern) => !lines.includes(pattern));
+    if (missing.length === 0) return;
+
+    const separator = current && !current.endsWith('\n') ? '\n' : '';
+    await fs.mkdir(path.dirname(excludePath), { recursive: true });
+    await fs.appendFile(excludePath, separator + missing.map((p) => `${p}\n`).join(''));
+  }
+
   /**
    * Push to remote
    */
@@ -222,3 +381,30 @@ export class GitClient {
     return this.git;
   }
 }
+
+/**
+ * Parse `git diff --numstat` output; binary files count as zero lines
+ */
+function parseNumstat(output: string): FileDiffStat[] {
+  const stats: FileDiffStat[] = [];
+  for (const line of output.split('\n')) {
+    const [added, removed, file] = line.split('\t');
+    if (!file) continue;
+    stats.push({
+      path: file,
+      added: Number(added) || 0,
+      removed: Number(removed) || 0,
+    });
+  }
+  return stats;
+}
+
+async function countLines(filePath: string): Promise<number> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (content.length === 0) return 0;
+    return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+  } catch {
+    return 0;
+  }
+}
@@ -3,9 +3,44 @@
  * Manages Git workflow for the orchestrator
  */
 
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { GitClient } from './git-client.js';
 import type { TaskResult } from '../../types/index.js';
 
+export interface LineCounts {
+  added: number;
+  removed: number;
+}
+
+export interface WorkingChanges {
+  created: string[];
+  modified: string[];
+  deleted: string[];
+  lines: Record<string, LineCounts>; // Per file, against HEAD
+}
+
+/**
+ * A task's own checkout on its own branch, used when tasks run in parallel
+ */
+export interface TaskWorktree {
+  taskId: string;
+  dir: string;
+  branch: string;
+  workflow: GitWorkflowManager; // Commits inside the worktree
+}
+
+export interface MergeOutcome {
+  merged: boolean;
+  commit?: string | null;
+  conflicts: string[]; // Files both sides changed; empty when the merge failed for another reason
+  error?: string;
+}
+
+// Gitignored paths a worktree borrows from the main checkout so commands run there as well;
+// build output is left out since each task builds its own
+const SHARED_WORKTREE_PATHS = ['node_modules', '.env'];
+
 export interface WorkflowConfig {
   gitClient: GitClient;
   enabled: boolean;
@@ -46,6 +81,13 @@ export class GitWorkflowManager {
     return `${this.config.branchPrefix}/phase-${phaseNumber}-${slug}`;
   }
 
+  /**
+   * Format the branch a task works on in its own worktree
+   */
+  formatTaskBranchName(taskId: string): string {
+    return `${this.config.branchPrefix}/task-${taskId}`;
+  }
+
   /**
    * Format a commit message
    */
@@ -74,21 +116,22 @@ export class GitWorkflowManager {
   }
 
   /**
-   * Commit after task completion
+   * Commit the files a task changed after it completes; nothing else in the checkout
+   * @param files Paths to commit; defaults to the git-verified changes in the result
    */
-  async commitTask(taskId: string, result: TaskResult): Promise<string | null> {
+  async commitTask(taskId: string, result: TaskResult, files?: string[]): Promise<string | null> {
     if (!this.config.enabled || !this.config.autoCommit) return null;
 
-    const hasChanges = await this.config.gitClient.hasUncommittedChanges();
-    if (!hasChanges) return null;
+    const paths = files ?? result.verified_changes?.files.map((f) => f.path) ?? [];
+    if (paths.length === 0) return null;
 
-    // Stage all changes
-    await this.config.gitClient.add();
+    // New files have to be staged before a commit limited to paths can include them
+    await this.config.gitClient.add(paths);
 
     const summary = result.output_summary || 'Task completed';
     const message = this.formatCommitMessage(`task-${taskId}`, summary.substring(0, 72));
 
-    const hash = await this.config.gitClient.commit(message);
+    const hash = await this.config.gitClient.commit(message, paths);
     return hash;
   }
 
@@ -140,6 +183,171 @@ export class GitWorkflowManager {
     return this.config.gitClient.hasUncommittedChanges();
   }
 
+  /**
+   * Uncommitted file changes in the working tree; null when git is disabled
+   * Untracked files count as created
+   */
+  async getWorkingChanges(): Promise<WorkingChanges | null> {
+    if (!this.config.enabled) return null;
+
+    const status = await this.config.gitClient.getStatus();
+    const created = [...new Set([...status.created, ...status.untracked])];
+    const stats = await this.config.gitClient.getDiffStats(created);
+
+    const lines: Record<string, LineCounts> = {};
+    for (const stat of stats) {
+      lines[stat.path] = { added: stat.added, removed: stat.removed };
+    }
+
+    return { created, modified: status.modified, deleted: status.deleted, lines };
+  }
+
+  /**
+   * Commit HEAD points at; null when git is disabled or nothing is committed yet
+   */
+  async getHeadCommit(): Promise<string | null> {
+    if (!this.config.enabled) return null;
+    return this.config.gitClient.getHead();
+  }
+
+  /**
+   * Diff of uncommitted changes to tracked files, optionally limited to some paths;
+   * null when git is disabled
+   */
+  async getWorkingDiff(paths: string[] = []): Promise<string | null> {
+    if (!this.config.enabled) return null;
+    try {
+      return await this.config.gitClient.getDiff('HEAD', paths);
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Reset the project directory to a commit, discarding a failed attempt
+   * Files in `keep` retain their current contents (or absence) across the reset;
+   * files in `created` are removed
+   */
+  async resetToCommit(commit: string, keep: string[], created: string[]): Promise<void> {
+    if (!this.config.enabled) return;
+
+    const workDir = this.config.gitClient.getWorkDir();
+    const saved = new Map<string, string | null>();
+    for (const file of keep) {
+      saved.set(file, await readIfExists(path.join(workDir, file)));
+    }
+
+    await this.config.gitClient.resetWorkDir(commit);
+
+    for (const file of created) {
+      await fs.rm(path.join(workDir, file), { force: true });
+    }
+    for (const [file, content] of saved) {
+      const filePath = path.join(workDir, file);
+      if (content === null) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content, 'utf-8');
+      }
+    }
+  }
+
+  /**
+   * Give a task its own worktree on a new branch from the current HEAD
+   * A worktree or branch left over from an earlier run of the task is replaced
+   */
+  async createTaskWorktree(taskId: string): Promise<TaskWorktree | null> {
+    if (!this.config.enabled) return null;
+
+    const gitClient = this.config.gitClient;
+    // Inside .git so the main checkout never sees the worktree as untracked files
+    const dir = path.join(await gitClient.getGitDir(), 'orchestrator-worktrees', `task-${taskId}`);
+    const branch = this.formatTaskBranchName(taskId);
+
+    await this.removeWorktreeDir(dir);
+    if (await gitClient.branchExists(branch)) {
+      await gitClient.deleteBranch(branch);
+    }
+    await gitClient.addWorktree(dir, branch, 'HEAD');
+    await this.linkSharedPaths(dir);
+
+    const workflow = new GitWorkflowManager({
+      gitClient: new GitClient(dir),
+      enabled: true,
+      // The task branch must hold the work for it to be merged back
+      autoCommit: true,
+      branchPrefix: this.config.branchPrefix,
+    });
+    return { taskId, dir, branch, workflow };
+  }
+
+  /**
+   * Symlink the main checkout's dependencies and local env files into a worktree
+   * A symlink does not match a directory pattern like "node_modules/", so the links
+   * are also excluded to keep them out of the task's commits
+   */
+  private async linkSharedPaths(dir: string): Promise<void> {
+    const gitClient = this.config.gitClient;
+    const workDir = gitClient.getWorkDir();
+
+    const present: string[] = [];
+    for (const name of SHARED_WORKTREE_PATHS) {
+      if (await pathExists(path.join(workDir, name))) present.push(name);
+    }
+    // Tracked or unignored paths are already in the worktree's checkout, or not ours to share
+    const shared = await gitClient.getIgnored(present);
+    if (shared.length === 0) return;
+
+    await gitClient.addExcludes(shared.map((name) => `/${name}`));
+    for (const name of shared) {
+      await fs.symlink(path.join(workDir, name), path.join(dir, name));
+    }
+  }
+
+  /**
+   * Merge a task's branch into the current branch
+   * On conflicts the merge is aborted, leaving the current branch as it was
+   */
+  async mergeTaskWorktree(worktree: TaskWorktree): Promise<MergeOutcome> {
+    if (!this.config.enabled) return { merged: false, conflicts: [] };
+
+    const gitClient = this.config.gitClient;
+    const message = this.formatCommitMessage('merge', `task-${worktree.taskId}`);
+    try {
+      await gitClient.merge(worktree.branch, { noFf: true, message });
+      return { merged: true, commit: await gitClient.getHead(), conflicts: [] };
+    } catch (error) {
+      const conflicts = await gitClient.getConflictedFiles().catch(() => []);
+      if (conflicts.length > 0) {
+        await gitClient.abortMerge();
+      }
+      return { merged: false, conflicts, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Remove a task's worktree; its branch is deleted unless kept for manual resolution
+   */
+  async removeTaskWorktree(worktree: TaskWorktree, keepBranch: boolean = false): Promise<void> {
+    if (!this.config.enabled) return;
+
+    await this.removeWorktreeDir(worktree.dir);
+    if (!keepBranch && (await this.config.gitClient.branchExists(worktree.branch))) {
+      await this.config.gitClient.deleteBranch(worktree.branch);
+    }
+  }
+
+  private async removeWorktreeDir(dir: string): Promise<void> {
+    try {
+      await this.config.gitClient.removeWorktree(dir);
+    } catch {
+      // Not a registered worktree (or its directory is gone); clear both sides
+      await fs.rm(dir, { recursive: true, force: true });
+      await this.config.gitClient.pruneWorktrees();
+    }
+  }
+
   /**
    * Create a checkpoint commit (manual save point)
    */
@@ -154,3 +362,23 @@ export class GitWorkflowManager {
     return hash;
   }
 }
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -102,10 +102,26 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Minimal client surface used by conversations and the LLM service
+ * Implemented by AnthropicClient and by offline fakes (see replay-client.ts)
+ */
+export interface LLMClient {
+  getModel(): string;
+  complete(prompt: string, options?: CompletionOptions): Promise<CompletionResponse>;
+  chat(messages: Message[], options?: CompletionOptions): Promise<CompletionResponse>;
+  stream(prompt: string, options?: CompletionOptions): AsyncGenerator<StreamEvent, void, unknown>;
+  streamChat(
+    messages: Message[],
+    options?: CompletionOptions
+  ): AsyncGenerator<StreamEvent, void, unknown>;
+  calculateCost(inputTokens: number, outputTokens: number, model?: string): number;
+}
+
 /**
  * Client for the Anthropic API
  */
-export class AnthropicClient {
+export class AnthropicClient implements LLMClient {
   private client: Anthropic;
   private model: string;
   private maxTokens: number;
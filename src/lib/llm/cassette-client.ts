@@ -0,0 +1,331 @@
+/**
+ * Cassette LLM Client
+ * Records LLM request/response pairs to disk and replays them byte-for-byte
+ *
+ * In record mode every call is forwarded to the wrapped client and appended to the cassette.
+ * In replay mode calls are answered from the cassette in order; a request that differs from
+ * the recorded one (prompt drift) raises LLMError.cassetteMismatch.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  LLMClient,
+  Message,
+  CompletionOptions,
+  CompletionResponse,
+  StreamEvent,
+} from './anthropic-client.js';
+import { DEFAULT_MODEL } from './anthropic-client.js';
+import { LLMError } from '../../types/errors.js';
+import { logger } from '../../utils/logger.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  path: string;
+  mode: CassetteMode;
+}
+
+/**
+ * The parts of a request that must match on replay
+ */
+export interface CassetteRequest {
+  method: 'complete' | 'chat' | 'stream' | 'streamChat';
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  messages: Message[];
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response?: CompletionResponse;
+  events?: StreamEvent[];
+}
+
+export interface Cassette {
+  version: 1;
+  recorded_at: string;
+  interactions: CassetteInteraction[];
+}
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ * Build cassette options from --record/--replay style flags
+ * @throws {LLMError} if both are given
+ */
+export function resolveCassetteOptions(
+  record?: string,
+  replay?: string
+): CassetteOptions | undefined {
+  if (record && replay) {
+    throw new LLMError('Cannot record and replay a cassette at the same time');
+  }
+  if (record) {
+    return { path: record, mode: 'record' };
+  }
+  if (replay) {
+    return { path: replay, mode: 'replay' };
+  }
+  return undefined;
+}
+
+/**
+ * Find the first field where a replayed request differs from the recorded one
+ */
+export function diffCassetteRequest(
+  expected: CassetteRequest,
+  actual: CassetteRequest
+): string | null {
+  const scalarFields = ['method', 'model', 'systemPrompt', 'temperature'] as const;
+  for (const field of scalarFields) {
+    if (expected[field] !== actual[field]) {
+      return field;
+    }
+  }
+
+  if (expected.messages.length !== actual.messages.length) {
+    return `messages (expected ${expected.messages.length}, got ${actual.messages.length})`;
+  }
+
+  for (let i = 0; i < expected.messages.length; i++) {
+    const e = expected.messages[i];
+    const a = actual.messages[i];
+    if (!e || !a) {
+      return `messages[${i}]`;
+    }
+    if (e.role !== a.role) {
+      return `messages[${i}].role`;
+    }
+    if (e.content !== a.content) {
+      let offset = 0;
+      while (offset < e.content.length && e.content[offset] === a.content[offset]) {
+        offset++;
+      }
+      return `messages[${i}].content at character ${offset}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * LLM client that records to or replays from a cassette file
+ */
+export class CassetteClient implements LLMClient {
+  private options: CassetteOptions;
+  private inner?: LLMClient;
+  private cassette: Cassette | null = null;
+  private cursor: number = 0;
+
+  /**
+   * @param inner client to forward to when recording (unused when replaying)
+   */
+  constructor(options: CassetteOptions, inner?: LLMClient) {
+    if (options.mode === 'record' && !inner) {
+      throw new LLMError('Recording a cassette requires a client to record from');
+    }
+    this.options = { ...options, path: path.resolve(options.path) };
+    this.inner = inner;
+  }
+
+  /**
+   * Get the configured model
+   */
+  getModel(): string {
+    return this.inner?.getModel() ?? DEFAULT_MODEL;
+  }
+
+  /**
+   * Get the cassette mode
+   */
+  getMode(): CassetteMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Number of recorded interactions not yet replayed
+   */
+  async getRemaining(): Promise<number> {
+    const cassette = await this.load();
+    return cassette.interactions.length - this.cursor;
+  }
+
+  /**
+   * Send a single completion request
+   */
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<CompletionResponse> {
+    const request = this.toRequest('complete', [{ role: 'user', content: prompt }], options);
+    return this.respond(request, () => this.client.complete(prompt, options));
+  }
+
+  /**
+   * Send a multi-turn chat request
+   */
+  async chat(messages: Message[], options: CompletionOptions = {}): Promise<CompletionResponse> {
+    const request = this.toRequest('chat', messages, options);
+    return this.respond(request, () => this.client.chat(messages, options));
+  }
+
+  /**
+   * Stream a completion request
+   */
+  async *stream(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const request = this.toRequest('stream', [{ role: 'user', content: prompt }], options);
+    yield* this.respondStream(request, () => this.client.stream(prompt, options));
+  }
+
+  /**
+   * Stream a chat request
+   */
+  async *streamChat(
+    messages: Message[],
+    options: CompletionOptions = {}
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    const request = this.toRequest('streamChat', messages, options);
+    yield* this.respondStream(request, () => this.client.streamChat(messages, options));
+  }
+
+  /**
+   * Calculate cost using the recorded client's pricing
+   */
+  calculateCost(inputTokens: number, outputTokens: number, model?: string): number {
+    if (this.inner) {
+      return this.inner.calculateCost(inputTokens, outputTokens, model);
+    }
+    // Replays never hit the API
+    return 0;
+  }
+
+  /**
+   * The client being recorded from
+   */
+  private get client(): LLMClient {
+    if (!this.inner) {
+      throw new LLMError('Recording a cassette requires a client to record from');
+    }
+    return this.inner;
+  }
+
+  private toRequest(
+    method: CassetteRequest['method'],
+    messages: Message[],
+    options: CompletionOptions
+  ): CassetteRequest {
+    return {
+      method,
+      model: options.model,
+      systemPrompt: options.systemPrompt,
+      temperature: options.temperature,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+    };
+  }
+
+  private async respond(
+    request: CassetteRequest,
+    call: () => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> {
+    if (this.options.mode === 'replay') {
+      const interaction = await this.next(request);
+      if (!interaction.response) {
+        throw LLMError.cassetteMismatch(this.cursor - 1, 'method');
+      }
+      return { ...interaction.response };
+    }
+
+    const response = await call();
+    await this.record({ request, response });
+    return response;
+  }
+
+  private async *respondStream(
+    request: CassetteRequest,
+    call: () => AsyncGenerator<StreamEvent, void, unknown>
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    if (this.options.mode === 'replay') {
+      const interaction = await this.next(request);
+      if (!interaction.events) {
+        throw LLMError.cassetteMismatch(this.cursor - 1, 'method');
+      }
+      for (const event of interaction.events) {
+        yield { ...event };
+      }
+      return;
+    }
+
+    const events: StreamEvent[] = [];
+    for await (const event of call()) {
+      events.push(event);
+      yield event;
+    }
+    await this.record({ request, events });
+  }
+
+  /**
+   * Take the next recorded interaction, checking that the request matches
+   */
+  private async next(request: CassetteRequest): Promise<CassetteInteraction> {
+    const cassette = await this.load();
+    const index = this.cursor;
+    const interaction = cassette.interactions[index];
+
+    if (!interaction) {
+      throw LLMError.cassetteExhausted(this.options.path, cassette.interactions.length);
+    }
+
+    const mismatch = diffCassetteRequest(interaction.request, request);
+    if (mismatch) {
+      throw LLMError.cassetteMismatch(index, mismatch);
+    }
+
+    this.cursor++;
+    logger.debug(`Replayed cassette interaction ${index + 1}/${cassette.interactions.length}`);
+    return interaction;
+  }
+
+  private async record(interaction: CassetteInteraction): Promise<void> {
+    const cassette = await this.load();
+    cassette.interactions.push(interaction);
+    this.cursor = cassette.interactions.length;
+
+    // Write after every interaction so an aborted session still leaves a usable cassette
+    await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+    await fs.writeFile(this.options.path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+  }
+
+  private async load(): Promise<Cassette> {
+    if (this.cassette) {
+      return this.cassette;
+    }
+
+    if (this.options.mode === 'record') {
+      // Recording always starts a fresh cassette
+      this.cassette = {
+        version: CASSETTE_VERSION,
+        recorded_at: new Date().toISOString(),
+        interactions: [],
+      };
+      return this.cassette;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.path, 'utf-8');
+    } catch {
+      throw LLMError.cassetteNotFound(this.options.path);
+    }
+
+    const parsed = JSON.parse(content) as Cassette;
+    if (parsed.version !== CASSETTE_VERSION || !Array.isArray(parsed.interactions)) {
+      throw LLMError.parseError(`Unsupported cassette format in ${this.options.path}`);
+    }
+
+    this.cassette = parsed;
+    return this.cassette;
+  }
+}
@@ -1,5 +1,5 @@
 import {
-  AnthropicClient,
+  LLMClient,
   Message,
   CompletionOptions,
 } from './anthropic-client.js';
@@ -26,6 +26,15 @@ export interface TokenUsage {
   turnCount: number;
 }
 
+/**
+ * Serializable conversation state, as produced by export()
+ */
+export interface ConversationSnapshot {
+  systemPrompt: string | undefined;
+  history: ConversationTurn[];
+  tokenUsage: TokenUsage;
+}
+
 /**
  * Options for conversation
  */
@@ -34,28 +43,31 @@ export interface ConversationOptions {
   maxTurns?: number;
   maxTokensPerTurn?: number;
   temperature?: number;
+  beforeSend?: (costSoFar: number) => void; // Throw to stop the call, e.g. when over budget
 }
 
 /**
  * Handler for multi-turn conversations with token tracking
  */
 export class ConversationHandler {
-  private client: AnthropicClient;
+  private client: LLMClient;
   private history: ConversationTurn[] = [];
   private systemPrompt: string | undefined;
   private maxTurns: number;
   private maxTokensPerTurn: number;
   private temperature: number | undefined;
+  private beforeSend?: (costSoFar: number) => void;
 
   private totalInputTokens: number = 0;
   private totalOutputTokens: number = 0;
 
-  constructor(client: AnthropicClient, options: ConversationOptions = {}) {
+  constructor(client: LLMClient, options: ConversationOptions = {}) {
     this.client = client;
     this.systemPrompt = options.systemPrompt;
     this.maxTurns = options.maxTurns || 50;
     this.maxTokensPerTurn = options.maxTokensPerTurn || 4096;
     this.temperature = options.temperature;
+    this.beforeSend = options.beforeSend;
   }
 
   /**
@@ -101,6 +113,9 @@ export class ConversationHandler {
       throw new Error(`Maximum turns (${this.maxTurns}) reached`);
     }
 
+    // Let the caller veto the call before anything is recorded
+    this.beforeSend?.(this.calculateCost());
+
     // Add user message to history
     this.history.push({
       role: 'user',
@@ -156,6 +171,9 @@ export class ConversationHandler {
       throw new Error(`Maximum turns (${this.maxTurns}) reached`);
     }
 
+    // Let the caller veto the call before anything is recorded
+    this.beforeSend?.(this.calculateCost());
+
     // Add user message to history
     this.history.push({
       role: 'user',
@@ -293,11 +311,7 @@ export class ConversationHandler {
   /**
    * Export conversation to a serializable format
    */
-  export(): {
-    systemPrompt: string | undefined;
-    history: ConversationTurn[];
-    tokenUsage: TokenUsage;
-  } {
+  export(): ConversationSnapshot {
     return {
       systemPrompt: this.systemPrompt,
       history: [...this.history],
@@ -3,8 +3,13 @@
  * Coordinates phase conversations and manages LLM interactions
  */
 
-import { AnthropicClient, CompletionOptions } from './anthropic-client.js';
-import { ConversationHandler, ConversationOptions } from './conversation.js';
+import { AnthropicClient, CompletionOptions, type LLMClient } from './anthropic-client.js';
+import {
+  ConversationHandler,
+  ConversationOptions,
+  type ConversationSnapshot,
+} from './conversation.js';
+import { CassetteClient, type CassetteOptions } from './cassette-client.js';
 import {
   IDEATION_SYSTEM_PROMPT,
   buildIdeationStartPrompt,
@@ -37,6 +42,7 @@ import {
   parseValidationResponse,
   ValidationResult,
 } from './prompts/validation.js';
+import type { PhaseRevision } from './prompts/base.js';
 import {
   IdeationContent,
   SpecificationContent,
@@ -58,12 +64,16 @@ export interface PhaseConversationState {
  * LLM Service options
  */
 export interface LLMServiceOptions {
-  client?: AnthropicClient;
+  client?: LLMClient;
+  cassette?: CassetteOptions; // Record to or replay from a cassette file
   apiKey?: string;
   model?: string;
+  maxTokens?: number; // Output token limit per response
   maxTurns?: number;
   temperature?: number;
   onCostUpdate?: (totalCost: number) => void;
+  // Called before every LLM request with the cost of the conversation so far; throw to block it
+  beforeCall?: (pendingCost: number) => void;
 }
 
 /**
@@ -80,24 +90,31 @@ export interface LLMPhaseResult<T> {
  * LLM Service for coordinating phase conversations
  */
 export class LLMService {
-  private client: AnthropicClient;
+  private client: LLMClient;
   private options: LLMServiceOptions;
   private totalCost: number = 0;
 
   constructor(options: LLMServiceOptions = {}) {
-    this.client =
-      options.client ||
-      new AnthropicClient({
-        apiKey: options.apiKey,
-        model: options.model,
-      });
+    if (options.cassette?.mode === 'replay') {
+      // Replaying needs no API access
+      this.client = new CassetteClient(options.cassette);
+    } else {
+      const client =
+        options.client ||
+        new AnthropicClient({
+          apiKey: options.apiKey,
+          model: options.model,
+          maxTokens: options.maxTokens,
+        });
+      this.client = options.cassette ? new CassetteClient(options.cassette, client) : client;
+    }
     this.options = options;
   }
 
   /**
    * Get the underlying client
    */
-  getClient(): AnthropicClient {
+  getClient(): LLMClient {
     return this.client;
   }
 
@@ -127,9 +144,11 @@ export class LLMService {
 
   /**
    * Create a conversation handler for a phase
+   * recordedUsd is spend already in meta.cost, left out of budget checks so it is not counted twice
    */
   createPhaseConversation(
-    phase: 'ideation' | 'specification' | 'planning'
+    phase: 'ideation' | 'specification' | 'planning',
+    recordedUsd: number = 0
   ): ConversationHandler {
     const systemPrompts: Record<string, string> = {
       ideation: IDEATION_SYSTEM_PROMPT,
@@ -140,27 +159,48 @@ export class LLMService {
     const convOptions: ConversationOptions = {
       systemPrompt: systemPrompts[phase],
       maxTurns: this.options.maxTurns || 20,
+      maxTokensPerTurn: this.options.maxTokens,
       temperature: this.options.temperature,
+      beforeSend: this.options.beforeCall,
     };
+    const beforeCall = this.options.beforeCall;
+    if (beforeCall && recordedUsd > 0) {
+      convOptions.beforeSend = (cost) => beforeCall(cost - recordedUsd);
+    }
 
     return new ConversationHandler(this.client, convOptions);
   }
 
+  /**
+   * Recreate a phase conversation from a checkpoint, with its history and token usage
+   */
+  restorePhaseConversation(
+    phase: 'ideation' | 'specification' | 'planning',
+    snapshot: ConversationSnapshot,
+    recordedUsd: number = 0
+  ): ConversationHandler {
+    const conversation = this.createPhaseConversation(phase, recordedUsd);
+    conversation.import(snapshot);
+    return conversation;
+  }
+
   // =====================================
   // Ideation Phase Methods
   // =====================================
 
   /**
    * Start ideation conversation
+   * @param revision Rejected summary and reviewer feedback to rework
    */
   async startIdeation(
     projectName: string,
-    initialIdea: string
+    initialIdea: string,
+    revision?: PhaseRevision
   ): Promise<{ response: string; conversation: ConversationHandler }> {
     const conversation = this.createPhaseConversation('ideation');
-    const prompt = buildIdeationStartPrompt(projectName, initialIdea);
+    const prompt = buildIdeationStartPrompt(projectName, initialIdea, revision);
 
-    logger.debug('Starting ideation conversation');
+    logger.debug(`Starting ideation conversation${revision ? ' (revision)' : ''}`);
     const response = await conversation.send(prompt);
 
     return { response, conversation };
@@ -215,15 +255,17 @@ export class LLMService {
 
   /**
    * Start specification conversation
+   * @param revision Rejected specification and reviewer feedback to rework
    */
   async startSpecification(
     projectName: string,
-    ideation: IdeationContent
+    ideation: IdeationContent,
+    revision?: PhaseRevision
   ): Promise<{ response: string; conversation: ConversationHandler }> {
     const conversation = this.createPhaseConversation('specification');
-    const prompt = buildSpecificationStartPrompt(projectName, ideation);
+    const prompt = buildSpecificationStartPrompt(projectName, ideation, revision);
 
-    logger.debug('Starting specification conversation');
+    logger.debug(`Starting specification conversation${revision ? ' (revision)' : ''}`);
     const response = await conversation.send(prompt);
 
     return { response, conversation };
@@ -278,16 +320,18 @@ export class LLMService {
 
   /**
    * Start planning conversation
+   * @param revision Rejected plan and reviewer feedback to rework
    */
   async startPlanning(
     projectName: string,
     ideation: IdeationContent,
-    specification: SpecificationContent
+    specification: SpecificationContent,
+    revision?: PhaseRevision
   ): Promise<{ response: string; conversation: ConversationHandler }> {
     const conversation = this.createPhaseConversation('planning');
-    const prompt = buildPlanningStartPrompt(projectName, ideation, specification);
+    const prompt = buildPlanningStartPrompt(projectName, ideation, specification, revision);
 
-    logger.debug('Starting planning conversation');
+    logger.debug(`Starting planning conversation${revision ? ' (revision)' : ''}`);
     const response = await conversation.send(prompt);
 
     return { response, conversation };
@@ -346,6 +390,8 @@ export class LLMService {
   async validateIdeation(content: IdeationContent): Promise<ValidationResult> {
     const conversation = new ConversationHandler(this.client, {
       systemPrompt: VALIDATION_SYSTEM_PROMPT,
+      maxTokensPerTurn: this.options.maxTokens,
+      beforeSend: this.options.beforeCall,
     });
 
     const prompt = buildIdeationValidationPrompt(
@@ -365,6 +411,8 @@ export class LLMService {
   async validateSpecification(content: SpecificationContent): Promise<ValidationResult> {
     const conversation = new ConversationHandler(this.client, {
       systemPrompt: VALIDATION_SYSTEM_PROMPT,
+      maxTokensPerTurn: this.options.maxTokens,
+      beforeSend: this.options.beforeCall,
     });
 
     const techStackStrings = content.tech_stack.map(
@@ -387,6 +435,8 @@ export class LLMService {
   async validatePlanning(phases: ImplementationPhase[]): Promise<ValidationResult> {
     const conversation = new ConversationHandler(this.client, {
       systemPrompt: VALIDATION_SYSTEM_PROMPT,
+      maxTokensPerTurn: this.options.maxTokens,
+      beforeSend: this.options.beforeCall,
     });
 
     const phaseSummary = phases.map((p) => ({
@@ -408,6 +458,7 @@ export class LLMService {
    * Get a single completion (not conversational)
    */
   async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+    this.options.beforeCall?.(0);
     const response = await this.client.complete(prompt, options);
     return response.content;
   }
@@ -419,6 +470,7 @@ export class LLMService {
     prompt: string,
     options?: CompletionOptions
   ): AsyncGenerator<string, void, unknown> {
+    this.options.beforeCall?.(0);
     for await (const event of this.client.stream(prompt, options)) {
       if (event.type === 'content_block_delta' && event.text) {
         yield event.text;
@@ -10,6 +10,14 @@ export interface PromptSection {
   content: string;
 }
 
+/**
+ * A version of a phase's output that a reviewer rejected, with their feedback
+ */
+export interface PhaseRevision {
+  previous: string;
+  feedback: string;
+}
+
 /**
  * Build a formatted prompt from sections
  */
@@ -20,6 +28,30 @@ export function buildPrompt(sections: PromptSection[]): string {
     .join('\n\n');
 }
 
+/**
+ * Sections showing the rejected version and the feedback, followed by the task of revising it
+ * @param output What the phase produces, e.g. "specification"
+ * @param format Response format of the phase's start prompt, so the conversation goes on as usual
+ */
+export function buildRevisionSections(
+  revision: PhaseRevision,
+  output: string,
+  format: string
+): PromptSection[] {
+  return [
+    { title: `Previous ${output[0]?.toUpperCase()}${output.slice(1)}`, content: revision.previous },
+    { title: 'Reviewer Feedback', content: revision.feedback },
+    {
+      title: 'Your Task',
+      content: `A reviewer rejected the previous ${output} above. Revise it to address their
+feedback, keeping the parts they did not object to. Start by summarizing the changes you will
+make, and ask about anything in the feedback that is unclear.
+
+${format}`,
+    },
+  ];
+}
+
 /**
  * Build a system prompt with role definition
  */
@@ -6,9 +6,11 @@ import { IdeationContent } from '../../../types/index.js';
 import {
   buildSystemPrompt,
   buildPrompt,
+  buildRevisionSections,
   extractTagContent,
   parseBulletList,
   PromptSection,
+  type PhaseRevision,
 } from './base.js';
 
 /**
@@ -43,8 +45,18 @@ export const IDEATION_SYSTEM_PROMPT = buildSystemPrompt(
 
 /**
  * Initial ideation prompt to start the conversation
+ * With a revision, the conversation reworks a rejected summary instead of starting over
  */
-export function buildIdeationStartPrompt(projectName: string, initialIdea: string): string {
+export function buildIdeationStartPrompt(
+  projectName: string,
+  initialIdea: string,
+  revision?: PhaseRevision
+): string {
+  const format = `Format your response using these XML tags:
+<understanding>Your understanding of the project concept</understanding>
+<questions>Your clarifying questions</questions>
+<suggestions>Initial directions to consider</suggestions>`;
+
   const sections: PromptSection[] = [
     {
       title: 'Project',
@@ -54,19 +66,22 @@ export function buildIdeationStartPrompt(projectName: string, initialIdea: strin
       title: 'Initial Idea',
       content: initialIdea,
     },
-    {
-      title: 'Your Task',
-      content: `Help refine this project idea. Start by:
+  ];
+
+  if (revision) {
+    sections.push(...buildRevisionSections(revision, 'ideation summary', format));
+    return buildPrompt(sections);
+  }
+
+  sections.push({
+    title: 'Your Task',
+    content: `Help refine this project idea. Start by:
 1. Acknowledging the core concept
 2. Asking 2-3 clarifying questions about the problem or users
 3. Suggesting potential directions to explore
 
-Format your response using these XML tags:
-<understanding>Your understanding of the project concept</understanding>
-<questions>Your clarifying questions</questions>
-<suggestions>Initial directions to consider</suggestions>`,
-    },
-  ];
+${format}`,
+  });
 
   return buildPrompt(sections);
 }
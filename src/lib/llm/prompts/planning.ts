@@ -11,9 +11,11 @@ import {
 import {
   buildSystemPrompt,
   buildPrompt,
+  buildRevisionSections,
   extractTagContent,
   parseBulletList,
   PromptSection,
+  type PhaseRevision,
 } from './base.js';
 
 /**
@@ -46,12 +48,23 @@ export const PLANNING_SYSTEM_PROMPT = buildSystemPrompt(
 
 /**
  * Build initial planning prompt
+ * With a revision, the conversation reworks a rejected plan instead of starting over
  */
 export function buildPlanningStartPrompt(
   projectName: string,
   ideation: IdeationContent,
-  specification: SpecificationContent
+  specification: SpecificationContent,
+  revision?: PhaseRevision
 ): string {
+  const format = `Format your response using:
+<proposed_phases>
+Phase 1: Name - Brief description
+Phase 2: Name - Brief description
+...
+</proposed_phases>
+<rationale>Why this breakdown makes sense</rationale>
+<questions>Any clarifying questions about priorities or constraints</questions>`;
+
   const sections: PromptSection[] = [
     {
       title: 'Project',
@@ -77,29 +90,45 @@ export function buildPlanningStartPrompt(
       title: 'Data Models',
       content: specification.data_models,
     },
-    {
-      title: 'Your Task',
-      content: `Create an implementation plan broken into phases.
+  ];
+
+  if (revision) {
+    sections.push(...buildRevisionSections(revision, 'implementation plan', format));
+    return buildPrompt(sections);
+  }
+
+  sections.push({
+    title: 'Your Task',
+    content: `Create an implementation plan broken into phases.
 
 Start by proposing a high-level phase breakdown. Consider:
 1. What are the logical groupings of work?
 2. What needs to be built first (foundations, infrastructure)?
 3. What are the key milestones?
 
-Format your response using:
-<proposed_phases>
-Phase 1: Name - Brief description
-Phase 2: Name - Brief description
-...
-</proposed_phases>
-<rationale>Why this breakdown makes sense</rationale>
-<questions>Any clarifying questions about priorities or constraints</questions>`,
-    },
-  ];
+${format}`,
+  });
 
   return buildPrompt(sections);
 }
 
+/**
+ * Plan as text for a revision prompt: phases with their tasks and dependencies
+ */
+export function formatPlanForRevision(phases: ImplementationPhase[]): string {
+  return phases
+    .map((phase) => {
+      const tasks = phase.tasks.map((t) => {
+        const deps = t.depends_on.length > 0 ? ` (depends on ${t.depends_on.join(', ')})` : '';
+        return `- ${t.id}: ${t.description}${deps}`;
+      });
+      return [`Phase ${phase.phase_number}: ${phase.name} - ${phase.description}`, ...tasks].join(
+        '\n'
+      );
+    })
+    .join('\n\n');
+}
+
 /**
  * Follow-up prompt during planning
  */
@@ -356,13 +385,16 @@ export function getPlanningIssues(phases: ImplementationPhase[]): string[] {
     }
   }
 
-  // Check for dependency issues
-  const allTaskIds = new Set(phases.flatMap((p) => p.tasks.map((t) => t.id)));
+  // Check for dependency issues; phases run in order, so a later phase can never be waited on
+  const phaseOf = new Map(phases.flatMap((p) => p.tasks.map((t) => [t.id, p.phase_number])));
   for (const phase of phases) {
     for (const task of phase.tasks) {
       for (const depId of task.depends_on) {
-        if (!allTaskIds.has(depId)) {
+        const depPhase = phaseOf.get(depId);
+        if (depPhase === undefined) {
           issues.push(`Task ${task.id} depends on non-existent task ${depId}`);
+        } else if (depPhase > phase.phase_number) {
+          issues.push(`Task ${task.id} depends on task ${depId} from later phase ${depPhase}`);
         }
       }
     }
@@ -6,9 +6,11 @@ import { IdeationContent, SpecificationContent, TechStackItem } from '../../../t
 import {
   buildSystemPrompt,
   buildPrompt,
+  buildRevisionSections,
   extractTagContent,
   parseBulletList,
   PromptSection,
+  type PhaseRevision,
 } from './base.js';
 
 /**
@@ -82,11 +84,18 @@ export const SPECIFICATION_SYSTEM_PROMPT = buildSystemPrompt(
 
 /**
  * Build initial specification prompt
+ * With a revision, the conversation reworks a rejected specification instead of starting over
  */
 export function buildSpecificationStartPrompt(
   projectName: string,
-  ideation: IdeationContent
+  ideation: IdeationContent,
+  revision?: PhaseRevision
 ): string {
+  const format = `Format your response using:
+<architecture_overview>High-level architecture description</architecture_overview>
+<questions>Any clarifying questions</questions>
+<initial_recommendations>Initial technology recommendations</initial_recommendations>`;
+
   const sections: PromptSection[] = [
     {
       title: 'Project',
@@ -124,9 +133,16 @@ export function buildSpecificationStartPrompt(
         .filter(Boolean)
         .join('\n\n'),
     },
-    {
-      title: 'Your Task',
-      content: `Based on this ideation, start defining the technical specification.
+  ];
+
+  if (revision) {
+    sections.push(...buildRevisionSections(revision, 'specification', format));
+    return buildPrompt(sections);
+  }
+
+  sections.push({
+    title: 'Your Task',
+    content: `Based on this ideation, start defining the technical specification.
 
 Begin with a high-level architecture overview and ask any clarifying questions about:
 1. Deployment environment preferences
@@ -134,12 +150,8 @@ Begin with a high-level architecture overview and ask any clarifying questions a
 3. Integration requirements
 4. Technology constraints or preferences
 
-Format your response using:
-<architecture_overview>High-level architecture description</architecture_overview>
-<questions>Any clarifying questions</questions>
-<initial_recommendations>Initial technology recommendations</initial_recommendations>`,
-    },
-  ];
+${format}`,
+  });
 
   return buildPrompt(sections);
 }
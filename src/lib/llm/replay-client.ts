@@ -0,0 +1,184 @@
+/**
+ * Replay LLM Client
+ * Offline stand-in for AnthropicClient that answers from scripted fixture files
+ *
+ * Fixture layout (relative to fixturesDir):
+ *   llm/ideation/*.md       responses for the Phase 1 conversation
+ *   llm/specification/*.md  responses for the Phase 2 conversation
+ *   llm/planning/*.md       responses for the Phase 3 conversation
+ *   llm/validation/*.md     responses for validation requests (optional)
+ *
+ * Files are replayed in filename order; once exhausted the last response repeats.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  LLMClient,
+  Message,
+  CompletionOptions,
+  CompletionResponse,
+  StreamEvent,
+} from './anthropic-client.js';
+import { DEFAULT_MODEL } from './anthropic-client.js';
+import { IDEATION_SYSTEM_PROMPT } from './prompts/ideation.js';
+import { SPECIFICATION_SYSTEM_PROMPT } from './prompts/specification.js';
+import { PLANNING_SYSTEM_PROMPT } from './prompts/planning.js';
+import { VALIDATION_SYSTEM_PROMPT } from './prompts/validation.js';
+import { LLMError } from '../../types/errors.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Conversations that can be scripted
+ */
+export type ReplayConversation = 'ideation' | 'specification' | 'planning' | 'validation';
+
+export interface ReplayClientOptions {
+  fixturesDir: string;
+  model?: string;
+}
+
+const SYSTEM_PROMPTS: Array<[string, ReplayConversation]> = [
+  [IDEATION_SYSTEM_PROMPT, 'ideation'],
+  [SPECIFICATION_SYSTEM_PROMPT, 'specification'],
+  [PLANNING_SYSTEM_PROMPT, 'planning'],
+  [VALIDATION_SYSTEM_PROMPT, 'validation'],
+];
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * LLM client that replays scripted responses instead of calling the API
+ */
+export class ReplayLLMClient implements LLMClient {
+  private fixturesDir: string;
+  private model: string;
+  private scripts: Map<ReplayConversation, string[]> = new Map();
+  private cursors: Map<ReplayConversation, number> = new Map();
+
+  constructor(options: ReplayClientOptions) {
+    this.fixturesDir = path.resolve(options.fixturesDir);
+    this.model = options.model || DEFAULT_MODEL;
+  }
+
+  /**
+   * Get the configured model
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Reply to a single prompt
+   */
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<CompletionResponse> {
+    return this.reply(options.systemPrompt, prompt);
+  }
+
+  /**
+   * Reply to a multi-turn chat
+   */
+  async chat(messages: Message[], options: CompletionOptions = {}): Promise<CompletionResponse> {
+    return this.reply(options.systemPrompt, messages.map((m) => m.content).join('\n'));
+  }
+
+  /**
+   * Stream a reply to a single prompt as one delta
+   */
+  async *stream(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    yield* this.toEvents(await this.complete(prompt, options));
+  }
+
+  /**
+   * Stream a reply to a chat as one delta
+   */
+  async *streamChat(
+    messages: Message[],
+    options: CompletionOptions = {}
+  ): AsyncGenerator<StreamEvent, void, unknown> {
+    yield* this.toEvents(await this.chat(messages, options));
+  }
+
+  /**
+   * Replayed responses are free
+   */
+  calculateCost(_inputTokens: number, _outputTokens: number, _model?: string): number {
+    return 0;
+  }
+
+  /**
+   * Get the next scripted response for the conversation identified by the system prompt
+   */
+  private async reply(
+    systemPrompt: string | undefined,
+    input: string
+  ): Promise<CompletionResponse> {
+    const conversation = this.identify(systemPrompt);
+    const responses = await this.load(conversation);
+    const cursor = this.cursors.get(conversation) ?? 0;
+    const content = responses[Math.min(cursor, responses.length - 1)] ?? '';
+    this.cursors.set(conversation, cursor + 1);
+
+    logger.debug(`Replaying ${conversation} response ${cursor + 1}`);
+
+    return {
+      content,
+      model: this.model,
+      stopReason: 'end_turn',
+      inputTokens: estimateTokens(input),
+      outputTokens: estimateTokens(content),
+    };
+  }
+
+  private identify(systemPrompt: string | undefined): ReplayConversation {
+    const match = SYSTEM_PROMPTS.find(([prompt]) => prompt === systemPrompt);
+    if (!match) {
+      throw LLMError.fixtureMissing('unknown', this.fixturesDir);
+    }
+    return match[1];
+  }
+
+  private async load(conversation: ReplayConversation): Promise<string[]> {
+    const cached = this.scripts.get(conversation);
+    if (cached) {
+      return cached;
+    }
+
+    const dir = path.join(this.fixturesDir, 'llm', conversation);
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir))
+        .filter((f) => f.endsWith('.md'))
+        .sort();
+    } catch {
+      files = [];
+    }
+
+    if (files.length === 0) {
+      throw LLMError.fixtureMissing(conversation, dir);
+    }
+
+    const responses = await Promise.all(
+      files.map((f) => fs.readFile(path.join(dir, f), 'utf-8'))
+    );
+    this.scripts.set(conversation, responses);
+    return responses;
+  }
+
+  private *toEvents(response: CompletionResponse): Generator<StreamEvent, void, unknown> {
+    yield { type: 'message_start', inputTokens: response.inputTokens };
+    yield { type: 'content_block_start' };
+    yield { type: 'content_block_delta', text: response.content };
+    yield { type: 'content_block_stop' };
+    yield { type: 'message_delta', outputTokens: response.outputTokens };
+    yield { type: 'message_stop' };
+  }
+}
@@ -174,6 +174,12 @@ function parseImplementationPhases(content: string): ImplementationPhase[] {
   return phases;
 }
 
+/**
+ * Task table columns in their default order
+ * Tables with a header row are read by column name, so optional columns like Timeout can appear anywhere
+ */
+const TASK_TABLE_COLUMNS = ['id', 'description', 'status', 'depends on', 'acceptance criteria'];
+
 /**
  * Parse a task table from markdown
  */
@@ -188,6 +194,13 @@ export function parseTaskTable(content: string): Task[] {
     rows.push(row);
   }
 
+  const header = rows.find((row) => row[0]?.includes('ID'));
+  const columns = header ? header.map((cell) => cell.toLowerCase()) : TASK_TABLE_COLUMNS;
+  const cell = (row: string[], column: string): string | undefined => {
+    const index = columns.indexOf(column);
+    return index >= 0 ? row[index] : undefined;
+  };
+
   // Skip header and separator rows
   const dataRows = rows.filter(
     (row) =>
@@ -198,23 +211,39 @@ export function parseTaskTable(content: string): Task[] {
   );
 
   for (const row of dataRows) {
-    const [id, description, status, depends, criteria] = row;
+    const id = cell(row, 'id');
+    const description = cell(row, 'description');
     if (!id || !description) continue;
 
     const task: Task = {
       id: id.trim(),
       description: description.trim(),
-      status: parseTaskStatus(status || 'pending'),
-      depends_on: parseDependencies(depends || ''),
-      acceptance_criteria: parseAcceptanceCriteria(criteria || ''),
+      status: parseTaskStatus(cell(row, 'status') || 'pending'),
+      depends_on: parseDependencies(cell(row, 'depends on') || ''),
+      acceptance_criteria: parseAcceptanceCriteria(cell(row, 'acceptance criteria') || ''),
     };
 
+    const timeout = parseTimeoutMinutes(cell(row, 'timeout') || '');
+    if (timeout !== undefined) {
+      task.timeout_minutes = timeout;
+    }
+
     tasks.push(task);
   }
 
   return tasks;
 }
 
+/**
+ * Parse a Timeout cell such as "15", "15m" or "15 min" into minutes
+ */
+function parseTimeoutMinutes(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(m|min|mins|minutes?)?$/i);
+  if (!match?.[1]) return undefined;
+  const minutes = Number(match[1]);
+  return minutes > 0 ? minutes : undefined;
+}
+
 /**
  * Parse task status from string
  * Status markers: ⏳ pending, 🔄 in_progress, ✅ complete, ❌ failed, ⏭️ skipped
@@ -278,10 +307,15 @@ function parseApprovalsTable(content: string): Approval[] {
     const [phase, status, approvedAt, notes] = row;
     if (!phase) continue;
 
+    const state = status?.toLowerCase() ?? '';
+    const at = approvedAt && approvedAt !== '-' ? approvedAt : undefined;
+    const rejected = state.includes('rejected');
     approvals.push({
       phase: phase.trim(),
-      status: status?.toLowerCase().includes('approved') ? 'approved' : 'pending',
-      approved_at: approvedAt && approvedAt !== '-' ? approvedAt : undefined,
+      status: rejected ? 'rejected' : state.includes('approved') ? 'approved' : 'pending',
+      // The date column holds the time of the latest decision
+      approved_at: rejected ? undefined : at,
+      rejected_at: rejected ? at : undefined,
       notes: notes && notes !== '-' ? notes : undefined,
     });
   }
@@ -0,0 +1,215 @@
+/**
+ * Phase Diff
+ * Structured differences between two revisions of a phase's output
+ */
+
+import type {
+  IdeationContent,
+  SpecificationContent,
+  ImplementationPhase,
+  Task,
+} from '../types/index.js';
+import type { HistoryPhase, PhaseSnapshot } from './phase-history.js';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface PhaseChange {
+  section: string; // PROJECT.md heading, e.g. "Tech Stack" or "Tasks"
+  kind: ChangeKind;
+  item?: string; // Row key for tables: tech stack layer, "Phase N" or task ID
+  before?: string;
+  after?: string;
+}
+
+export interface PhaseDiff {
+  phase: HistoryPhase;
+  from: number;
+  to: number;
+  changes: PhaseChange[];
+}
+
+const PHASE_TITLES: Record<HistoryPhase, string> = {
+  1: 'Idea Refinement',
+  2: 'Specification',
+  3: 'Implementation Planning',
+};
+
+/**
+ * Compare two revisions of the same phase
+ */
+export function diffSnapshots(from: PhaseSnapshot, to: PhaseSnapshot): PhaseDiff {
+  if (from.phase !== to.phase) {
+    throw new Error(`Cannot compare phase ${from.phase} with phase ${to.phase}`);
+  }
+
+  let changes: PhaseChange[];
+  switch (to.phase) {
+    case 1:
+      changes = diffIdeation(from.content as IdeationContent, to.content);
+      break;
+    case 2:
+      changes = diffSpecification(from.content as SpecificationContent, to.content);
+      break;
+    case 3:
+      changes = diffPlan(from.content as ImplementationPhase[], to.content);
+      break;
+  }
+
+  return { phase: to.phase, from: from.revision, to: to.revision, changes };
+}
+
+export function diffIdeation(before: IdeationContent, after: IdeationContent): PhaseChange[] {
+  return [
+    ...diffText('Problem Statement', before.problem_statement, after.problem_statement),
+    ...diffText('Target Users', before.target_users, after.target_users),
+    ...diffList('Use Cases', before.use_cases, after.use_cases),
+    ...diffList('Success Criteria', before.success_criteria, after.success_criteria),
+    ...diffList('Must Have', before.constraints.must_have, after.constraints.must_have),
+    ...diffList('Nice to Have', before.constraints.nice_to_have, after.constraints.nice_to_have),
+    ...diffList('Out of Scope', before.constraints.out_of_scope, after.constraints.out_of_scope),
+  ];
+}
+
+export function diffSpecification(
+  before: SpecificationContent,
+  after: SpecificationContent
+): PhaseChange[] {
+  return [
+    ...diffText('Architecture', before.architecture, after.architecture),
+    ...diffRows(
+      'Tech Stack',
+      before.tech_stack,
+      after.tech_stack,
+      (row) => row.layer,
+      (row) => (row.rationale ? `${row.choice} - ${row.rationale}` : row.choice)
+    ),
+    ...diffText('Data Models', before.data_models, after.data_models),
+    ...diffText('API Contracts', before.api_contracts, after.api_contracts),
+    ...diffText('UI Requirements', before.ui_requirements, after.ui_requirements),
+  ];
+}
+
+/**
+ * Phases are matched by number and tasks by ID, wherever they moved in the plan
+ */
+export function diffPlan(
+  before: ImplementationPhase[],
+  after: ImplementationPhase[]
+): PhaseChange[] {
+  const tasks = (phases: ImplementationPhase[]): Task[] => phases.flatMap((p) => p.tasks);
+
+  return [
+    ...diffRows(
+      'Phases',
+      before,
+      after,
+      (phase) => `Phase ${phase.phase_number}`,
+      (phase) => `${phase.name} - ${phase.description}`
+    ),
+    ...diffRows('Tasks', tasks(before), tasks(after), (task) => task.id, describeTask),
+  ];
+}
+
+function describeTask(task: Task): string {
+  const deps = task.depends_on.length > 0 ? ` (depends on ${task.depends_on.join(', ')})` : '';
+  const criteria = task.acceptance_criteria.map((c) => `\n  - ${c}`).join('');
+  return `${task.description}${deps}${criteria}`;
+}
+
+function diffText(section: string, before: string, after: string): PhaseChange[] {
+  if (before.trim() === after.trim()) return [];
+  if (!before.trim()) return [{ section, kind: 'added', after }];
+  if (!after.trim()) return [{ section, kind: 'removed', before }];
+  return [{ section, kind: 'changed', before, after }];
+}
+
+function diffList(section: string, before: string[], after: string[]): PhaseChange[] {
+  return [
+    ...before
+      .filter((item) => !after.includes(item))
+      .map((item): PhaseChange => ({ section, kind: 'removed', before: item })),
+    ...after
+      .filter((item) => !before.includes(item))
+      .map((item): PhaseChange => ({ section, kind: 'added', after: item })),
+  ];
+}
+
+/**
+ * Table rows matched by key: removed, then changed and added in the new order
+ */
+function diffRows<T>(
+  section: string,
+  before: T[],
+  after: T[],
+  key: (row: T) => string,
+  describe: (row: T) => string
+): PhaseChange[] {
+  const previous = new Map(before.map((row) => [key(row), describe(row)]));
+  const current = new Set(after.map(key));
+  const changes: PhaseChange[] = [];
+
+  for (const [item, description] of previous) {
+    if (!current.has(item)) {
+      changes.push({ section, kind: 'removed', item, before: description });
+    }
+  }
+  for (const row of after) {
+    const item = key(row);
+    const description = describe(row);
+    const old = previous.get(item);
+    if (old === undefined) {
+      changes.push({ section, kind: 'added', item, after: description });
+    } else if (old !== description) {
+      changes.push({ section, kind: 'changed', item, before: old, after: description });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Plain text grouped by section: "+" added, "-" removed, "~" changed rows and text
+ */
+export function renderPhaseDiff(diff: PhaseDiff): string {
+  const lines = [
+    `Phase ${diff.phase} (${PHASE_TITLES[diff.phase]}): revision ${diff.from} → ${diff.to}`,
+  ];
+  if (diff.changes.length === 0) {
+    lines.push('', 'No changes.');
+    return lines.join('\n');
+  }
+
+  const sections = [...new Set(diff.changes.map((c) => c.section))];
+  for (const section of sections) {
+    lines.push('', section);
+    for (const change of diff.changes.filter((c) => c.section === section)) {
+      lines.push(...renderChange(change));
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderChange(change: PhaseChange): string[] {
+  const label = change.item ? `${change.item}: ` : '';
+  switch (change.kind) {
+    case 'added':
+      return indent(`+ ${label}`, change.after ?? '');
+    case 'removed':
+      return indent(`- ${label}`, change.before ?? '');
+    case 'changed': {
+      // Show the lines that differ, so a long section does not repeat in full
+      const before = (change.before ?? '').split('\n');
+      const after = (change.after ?? '').split('\n');
+      return [
+        `  ~ ${change.item ?? 'changed'}`,
+        ...before.filter((line) => !after.includes(line)).flatMap((l) => indent('    - ', l)),
+        ...after.filter((line) => !before.includes(line)).flatMap((l) => indent('    + ', l)),
+      ];
+    }
+  }
+}
+
+function indent(prefix: string, text: string): string[] {
+  const [first = '', ...rest] = text.split('\n');
+  return [`  ${prefix}${first}`, ...rest.map((line) => `  ${' '.repeat(prefix.length)}${line}`)];
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { IdeationContent, SpecificationContent, ImplementationPhase } from '../types/index.js';
+import { DocumentParseError } from '../types/errors.js';
+import { logger } from '../utils/logger.js';
+
+export type HistoryPhase = 1 | 2 | 3;
+
+/**
+ * Output of phase 1-3 as of one completed run, numbered from 1 per phase
+ */
+export type PhaseSnapshot =
+  | { phase: 1; revision: number; saved_at: string; content: IdeationContent }
+  | { phase: 2; revision: number; saved_at: string; content: SpecificationContent }
+  | { phase: 3; revision: number; saved_at: string; content: ImplementationPhase[] };
+
+export type PhaseContent<P extends HistoryPhase> = Extract<PhaseSnapshot, { phase: P }>['content'];
+
+/**
+ * Type guard for snapshot files read back from disk
+ */
+export function isValidSnapshot(obj: unknown): obj is PhaseSnapshot {
+  if (!obj || typeof obj !== 'object') return false;
+
+  const snapshot = obj as Record<string, unknown>;
+  if (typeof snapshot.revision !== 'number' || typeof snapshot.saved_at !== 'string') {
+    return false;
+  }
+
+  switch (snapshot.phase) {
+    case 1:
+    case 2:
+      return !!snapshot.content && typeof snapshot.content === 'object';
+    case 3:
+      return Array.isArray(snapshot.content);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build a snapshot of phase output taken now
+ */
+function createSnapshot<P extends HistoryPhase>(
+  phase: P,
+  revision: number,
+  content: PhaseContent<P>
+): PhaseSnapshot {
+  const snapshot = { phase, revision, saved_at: new Date().toISOString(), content };
+  if (!isValidSnapshot(snapshot)) {
+    throw DocumentParseError.invalidStructure(`Invalid output for phase ${phase}`);
+  }
+  return snapshot;
+}
+
+/**
+ * Manager for phase output history in .orchestrator/history/
+ * Each completed run of a phase adds the next revision; earlier ones are never rewritten
+ */
+export class PhaseHistoryManager {
+  private historyDir: string;
+
+  constructor(projectDir: string) {
+    this.historyDir = path.join(projectDir, '.orchestrator', 'history');
+  }
+
+  /**
+   * Phase 2, revision 3 → "phase-2/3.json"
+   */
+  getSnapshotPath(phase: HistoryPhase, revision: number): string {
+    return path.join(this.historyDir, `phase-${phase}`, `${revision}.json`);
+  }
+
+  /**
+   * Store phase output as the next revision
+   * Returns the latest snapshot unchanged if the content has not changed since
+   */
+  async record<P extends HistoryPhase>(phase: P, content: PhaseContent<P>): Promise<PhaseSnapshot> {
+    const revisions = await this.list(phase);
+    const lastRevision = revisions.at(-1);
+    const latest = lastRevision === undefined ? null : await this.read(phase, lastRevision);
+    if (latest && JSON.stringify(latest.content) === JSON.stringify(content)) {
+      return latest;
+    }
+
+    const snapshot = createSnapshot(phase, (latest?.revision ?? 0) + 1, content);
+
+    const filePath = this.getSnapshotPath(phase, snapshot.revision);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    logger.debug(`Recorded phase ${phase} revision ${snapshot.revision}`);
+    return snapshot;
+  }
+
+  /**
+   * Revision numbers of a phase, oldest first
+   */
+  async list(phase: HistoryPhase): Promise<number[]> {
+    try {
+      const files = await fs.readdir(path.join(this.historyDir, `phase-${phase}`));
+      return files
+        .map((file) => file.match(/^(\d+)\.json$/)?.[1])
+        .filter((n): n is string => n !== undefined)
+        .map(Number)
+        .sort((a, b) => a - b);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read one revision of a phase
+   * Returns null if there is no such revision
+   */
+  async read(phase: HistoryPhase, revision: number): Promise<PhaseSnapshot | null> {
+    const filePath = this.getSnapshotPath(phase, revision);
+
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+      if (!isValidSnapshot(data) || data.phase !== phase) {
+        throw DocumentParseError.invalidStructure(
+          `Invalid phase snapshot structure in ${filePath}`
+        );
+      }
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -8,10 +8,19 @@ import type { IdeationContent } from '../../types/index.js';
 import type { ConversationHandler } from '../llm/conversation.js';
 import * as terminal from '../ui/terminal.js';
 import { isIdeationComplete } from '../llm/prompts/ideation.js';
+import type { PhaseRevision } from '../llm/prompts/base.js';
+
+// Auto-complete replies for turns the answers file leaves open
+const DEFAULT_REPLIES = [
+  'Please proceed with reasonable defaults for any questions. The idea description contains the key requirements.',
+  'Use your best judgment for any remaining details. Focus on a minimal viable implementation.',
+  'That sounds good. Please finalize the ideation summary.',
+];
 
 export interface IdeationInput {
   idea: string;
   projectName?: string;
+  revision?: PhaseRevision; // Set when a rejected summary is being reworked
 }
 
 /**
@@ -32,6 +41,9 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
 
   protected async setup(input: IdeationInput): Promise<void> {
     terminal.printSection('Your Idea', input.idea);
+    if (input.revision) {
+      terminal.printSection('Reviewer Feedback', input.revision.feedback);
+    }
     terminal.printInfo("I'll ask questions to understand your idea better.");
     terminal.printInfo('Type /quit to cancel at any time.');
     console.log();
@@ -41,10 +53,9 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
     const projectName = input.projectName || 'project';
     const llmService = this.config.llmService;
 
-    // Start the conversation
-    const { response, conversation } = await llmService.startIdeation(
-      projectName,
-      input.idea
+    // Continue a conversation an interrupted run saved, or start a new one
+    const { response, conversation } = await this.openConversation(() =>
+      llmService.startIdeation(projectName, input.idea, input.revision)
     );
     this.conversation = conversation;
 
@@ -52,19 +63,13 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
     if (this.config.autoComplete) {
       terminal.printInfo('Auto-complete mode: driving conversation automatically');
 
-      // Provide automatic responses to drive the conversation forward
-      const autoResponses = [
-        'Please proceed with reasonable defaults for any questions. The idea description contains the key requirements.',
-        'Use your best judgment for any remaining details. Focus on a minimal viable implementation.',
-        'That sounds good. Please finalize the ideation summary.',
-      ];
-
-      for (const autoResponse of autoResponses) {
-        await llmService.continueIdeation(conversation, autoResponse);
-      }
+      // Replies from the answers file, or defaults that drive the conversation forward
+      await this.autoRespond(conversation, response, DEFAULT_REPLIES, (reply) =>
+        llmService.continueIdeation(conversation, reply)
+      );
 
       const result = await llmService.completeIdeation(conversation);
-      this.cost = result.costUsd;
+      this.cost = result.costUsd - this.recordedSpendUsd;
 
       if (!isIdeationComplete(result.content)) {
         throw new Error('Ideation content is incomplete');
@@ -102,6 +107,7 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
         userInput,
         partialContent
       );
+      await this.saveCheckpoint(conversation);
 
       // Display response
       await this.displayAssistantMessage(lastResponse);
@@ -109,7 +115,7 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
 
     // Complete the phase and get final content
     const result = await llmService.completeIdeation(conversation);
-    this.cost = result.costUsd;
+    this.cost = result.costUsd - this.recordedSpendUsd;
 
     if (!isIdeationComplete(result.content)) {
       throw new Error('Ideation content is incomplete');
@@ -143,7 +149,7 @@ export class IdeationPhase extends PhaseRunner<IdeationInput, IdeationContent> {
     doc.ideation = result;
 
     // Add cost
-    stateManager.addCost(0, this.cost);
+    stateManager.addCost(0, this.cost, 'phase-1');
 
     // Save to disk
     await stateManager.save();
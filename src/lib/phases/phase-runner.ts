@@ -4,8 +4,13 @@
  */
 
 import type { LLMService } from '../llm/llm-service.js';
+import type { ConversationHandler } from '../llm/conversation.js';
 import type { StateManager } from '../state/state-manager.js';
 import type { DocumentManager } from '../documents.js';
+import type { CheckpointPhase } from '../conversation-checkpoints.js';
+import { ScriptedResponder, type AnswersFile } from '../answers.js';
+import { BudgetExceededError } from '../../types/errors.js';
+import { logger } from '../../utils/logger.js';
 import * as terminal from '../ui/terminal.js';
 
 export interface PhaseRunnerConfig {
@@ -13,6 +18,7 @@ export interface PhaseRunnerConfig {
   stateManager: StateManager;
   documentManager: DocumentManager;
   autoComplete?: boolean; // Skip interactive loop, go straight to summary
+  answers?: AnswersFile; // Replies for the auto-complete loop instead of the built-in ones
 }
 
 export interface PhaseResult<T> {
@@ -22,11 +28,22 @@ export interface PhaseResult<T> {
   cost: number;
 }
 
+const CONVERSATION_KINDS = {
+  1: 'ideation',
+  2: 'specification',
+  3: 'planning',
+} as const;
+
 /**
  * Abstract base class for phase runners
  * Provides common lifecycle management and UI patterns
  */
 export abstract class PhaseRunner<TInput, TOutput> {
+  // Spend of a restored conversation that meta.cost already includes (after a budget pause)
+  protected recordedSpendUsd: number = 0;
+  private restoredTurns: number = 0;
+  private answersUsed: number = 0;
+
   constructor(protected config: PhaseRunnerConfig) {}
 
   /**
@@ -38,9 +55,15 @@ export abstract class PhaseRunner<TInput, TOutput> {
       await this.setup(input);
       const result = await this.execute(input);
       await this.persist(result);
+      await this.clearCheckpoint();
       this.showSuccess();
       return { success: true, data: result, cost: this.getCost() };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        // A budget stop is a pause, not a failure: keep what was spent and let the caller resume
+        await this.recordInterruptedSpend(error);
+        throw error;
+      }
       this.showError(error as Error);
       return {
         success: false,
@@ -110,6 +133,133 @@ export abstract class PhaseRunner<TInput, TOutput> {
     );
   }
 
+  /**
+   * Record spend from the interrupted conversation so the cap still holds after resuming
+   */
+  protected async recordInterruptedSpend(error: BudgetExceededError): Promise<void> {
+    const pendingUsd = Number(error.context?.pendingUsd ?? 0);
+    const stateManager = this.config.stateManager;
+    if (pendingUsd > 0) {
+      stateManager.addCost(0, pendingUsd, `phase-${this.getPhaseNumber()}`);
+
+      // The saved conversation now includes spend that is already counted
+      const documentManager = this.config.documentManager;
+      const checkpoint = await documentManager.getConversationCheckpoint(this.getCheckpointPhase());
+      if (checkpoint) {
+        await documentManager.saveConversationCheckpoint({
+          ...checkpoint,
+          recorded_cost_usd: (checkpoint.recorded_cost_usd ?? 0) + pendingUsd,
+        });
+      }
+    }
+    await stateManager.save();
+    terminal.printWarning(`Phase ${this.getPhaseNumber()} paused: ${error.message}`);
+  }
+
+  // === Conversation checkpoints ===
+
+  /**
+   * Continue the conversation an interrupted run saved, if the user wants to, or start a new one
+   */
+  protected async openConversation(
+    start: () => Promise<{ response: string; conversation: ConversationHandler }>
+  ): Promise<{ response: string; conversation: ConversationHandler }> {
+    const restored = await this.restoreConversation();
+    if (restored) {
+      return { response: restored.getLastResponse() ?? '', conversation: restored };
+    }
+
+    const started = await start();
+    await this.saveCheckpoint(started.conversation);
+    return started;
+  }
+
+  /**
+   * Save the conversation after a turn; a failed write only costs the ability to resume
+   */
+  protected async saveCheckpoint(conversation: ConversationHandler): Promise<void> {
+    try {
+      await this.config.documentManager.saveConversationCheckpoint({
+        phase: this.getCheckpointPhase(),
+        saved_at: new Date().toISOString(),
+        conversation: conversation.export(),
+        recorded_cost_usd: this.recordedSpendUsd > 0 ? this.recordedSpendUsd : undefined,
+        answers_used: this.answersUsed > 0 ? this.answersUsed : undefined,
+      });
+    } catch (error) {
+      logger.warn(`Could not save conversation checkpoint: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Drive the conversation without prompts, replying from the answers file or the defaults
+   * A restored conversation picks up at the turn it was interrupted on; its first turn is the
+   * phase's opening prompt
+   */
+  protected async autoRespond(
+    conversation: ConversationHandler,
+    firstResponse: string,
+    defaults: string[],
+    send: (reply: string) => Promise<string>
+  ): Promise<void> {
+    const responder = new ScriptedResponder(
+      defaults,
+      this.config.answers,
+      CONVERSATION_KINDS[this.getCheckpointPhase()],
+      this.answersUsed
+    );
+
+    let response = firstResponse;
+    for (let turn = Math.max(0, this.restoredTurns - 1); ; turn++) {
+      const reply = responder.reply(response, turn);
+      if (reply === null) break;
+
+      response = await send(reply);
+      this.answersUsed = responder.getAnswersUsed();
+      await this.saveCheckpoint(conversation);
+    }
+  }
+
+  private async restoreConversation(): Promise<ConversationHandler | null> {
+    const phase = this.getCheckpointPhase();
+    const { documentManager, llmService } = this.config;
+    const checkpoint = await documentManager.getConversationCheckpoint(phase);
+    if (!checkpoint) {
+      return null;
+    }
+
+    const turns = checkpoint.conversation.tokenUsage.turnCount;
+    const description = `${turns} turn(s), saved ${checkpoint.saved_at}`;
+    const question = `Continue the interrupted Phase ${phase} conversation (${description})?`;
+    const resume = this.config.autoComplete || (await terminal.confirm(question));
+    if (!resume) {
+      await documentManager.deleteConversationCheckpoint(phase);
+      return null;
+    }
+
+    terminal.printInfo(`Continuing the saved conversation (${description})`);
+    this.recordedSpendUsd = checkpoint.recorded_cost_usd ?? 0;
+    this.restoredTurns = turns;
+    this.answersUsed = checkpoint.answers_used ?? 0;
+    return llmService.restorePhaseConversation(
+      CONVERSATION_KINDS[phase],
+      checkpoint.conversation,
+      this.recordedSpendUsd
+    );
+  }
+
+  private async clearCheckpoint(): Promise<void> {
+    try {
+      await this.config.documentManager.deleteConversationCheckpoint(this.getCheckpointPhase());
+    } catch (error) {
+      logger.warn(`Could not remove conversation checkpoint: ${(error as Error).message}`);
+    }
+  }
+
+  private getCheckpointPhase(): CheckpointPhase {
+    return this.getPhaseNumber() as CheckpointPhase;
+  }
+
   // === User interaction helpers ===
 
   /**
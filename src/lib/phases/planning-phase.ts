@@ -9,11 +9,20 @@ import type { ConversationHandler } from '../llm/conversation.js';
 import { DependencyResolver } from '../state/dependency-resolver.js';
 import * as terminal from '../ui/terminal.js';
 import { isPlanningComplete } from '../llm/prompts/planning.js';
+import type { PhaseRevision } from '../llm/prompts/base.js';
+
+// Auto-complete replies for turns the answers file leaves open
+const DEFAULT_REPLIES = [
+  'Please proceed with creating implementation phases. Break down the work into logical phases with clear tasks.',
+  'Use your best judgment for task dependencies and ordering. Keep phases focused and manageable.',
+  'That looks good. Please finalize the implementation plan.',
+];
 
 export interface PlanningInput {
   specification: SpecificationContent;
   ideation?: IdeationContent;
   projectName?: string;
+  revision?: PhaseRevision; // Set when a rejected plan is being reworked
 }
 
 /**
@@ -34,6 +43,9 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
 
   protected async setup(input: PlanningInput): Promise<void> {
     terminal.printSection('Architecture', input.specification.architecture);
+    if (input.revision) {
+      terminal.printSection('Reviewer Feedback', input.revision.feedback);
+    }
     terminal.printInfo('Creating implementation plan...');
     terminal.printInfo('Type /quit to cancel, /complete when done.');
     console.log();
@@ -51,11 +63,9 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
       throw new Error('Ideation content is required for planning');
     }
 
-    // Start the conversation
-    const { response, conversation } = await llmService.startPlanning(
-      projectName,
-      ideation,
-      input.specification
+    // Continue a conversation an interrupted run saved, or start a new one
+    const { response, conversation } = await this.openConversation(() =>
+      llmService.startPlanning(projectName, ideation, input.specification, input.revision)
     );
     this.conversation = conversation;
 
@@ -63,27 +73,20 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
     if (this.config.autoComplete) {
       terminal.printInfo('Auto-complete mode: driving conversation automatically');
 
-      // Provide automatic responses to drive the conversation forward
-      const autoResponses = [
-        'Please proceed with creating implementation phases. Break down the work into logical phases with clear tasks.',
-        'Use your best judgment for task dependencies and ordering. Keep phases focused and manageable.',
-        'That looks good. Please finalize the implementation plan.',
-      ];
-
-      for (const autoResponse of autoResponses) {
-        await llmService.continuePlanning(conversation, autoResponse);
-      }
+      // Replies from the answers file, or defaults that drive the conversation forward
+      await this.autoRespond(conversation, response, DEFAULT_REPLIES, (reply) =>
+        llmService.continuePlanning(conversation, reply)
+      );
 
       const result = await llmService.completePlanning(conversation, input.specification);
-      this.cost = result.costUsd;
+      this.cost = result.costUsd - this.recordedSpendUsd;
 
       if (!isPlanningComplete(result.content)) {
         throw new Error('Planning content is incomplete');
       }
 
       // Validate dependencies
-      const allTasks = result.content.flatMap((p) => p.tasks);
-      const resolver = new DependencyResolver(allTasks);
+      const resolver = DependencyResolver.fromPhases(result.content);
       const validation = resolver.validate();
 
       if (!validation.valid) {
@@ -125,6 +128,7 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
         userInput,
         phases
       );
+      await this.saveCheckpoint(conversation);
 
       // Display response
       await this.displayAssistantMessage(lastResponse);
@@ -132,15 +136,14 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
 
     // Complete the phase and get final content
     const result = await llmService.completePlanning(conversation, input.specification);
-    this.cost = result.costUsd;
+    this.cost = result.costUsd - this.recordedSpendUsd;
 
     if (!isPlanningComplete(result.content)) {
       throw new Error('Planning content is incomplete');
     }
 
     // Validate dependencies
-    const allTasks = result.content.flatMap((p) => p.tasks);
-    const resolver = new DependencyResolver(allTasks);
+    const resolver = DependencyResolver.fromPhases(result.content);
     const validation = resolver.validate();
 
     if (!validation.valid) {
@@ -157,8 +160,8 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
   protected async persist(result: ImplementationPhase[]): Promise<void> {
     const stateManager = this.config.stateManager;
 
-    // Add implementation phases to state
-    stateManager.addImplementationPhases(result);
+    // Set implementation phases, replacing a rejected plan
+    stateManager.setImplementationPhases(result);
 
     // Update meta to mark phase complete
     const meta = stateManager.getMeta();
@@ -185,7 +188,7 @@ export class PlanningPhase extends PhaseRunner<PlanningInput, ImplementationPhas
     doc.implementation_phases = result;
 
     // Add cost
-    stateManager.addCost(0, this.cost);
+    stateManager.addCost(0, this.cost, 'phase-3');
 
     // Save to disk
     await stateManager.save();
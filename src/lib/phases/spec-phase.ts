@@ -8,10 +8,19 @@ import type { IdeationContent, SpecificationContent } from '../../types/index.js
 import type { ConversationHandler } from '../llm/conversation.js';
 import * as terminal from '../ui/terminal.js';
 import { isSpecificationComplete } from '../llm/prompts/specification.js';
+import type { PhaseRevision } from '../llm/prompts/base.js';
+
+// Auto-complete replies for turns the answers file leaves open
+const DEFAULT_REPLIES = [
+  'Please proceed with reasonable defaults for the architecture and tech stack. Keep it simple and practical.',
+  'Use your best judgment for data models and API design. Focus on what is needed for the core use cases.',
+  'That looks good. Please finalize the specification.',
+];
 
 export interface SpecInput {
   ideation: IdeationContent;
   projectName?: string;
+  revision?: PhaseRevision; // Set when a rejected specification is being reworked
 }
 
 /**
@@ -32,6 +41,9 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
 
   protected async setup(input: SpecInput): Promise<void> {
     terminal.printSection('From Phase 1', this.summarizeIdeation(input.ideation));
+    if (input.revision) {
+      terminal.printSection('Reviewer Feedback', input.revision.feedback);
+    }
     terminal.printInfo('Creating technical specification...');
     terminal.printInfo('Type /quit to cancel, /complete when done.');
     console.log();
@@ -41,10 +53,9 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
     const projectName = input.projectName || 'project';
     const llmService = this.config.llmService;
 
-    // Start the conversation
-    const { response, conversation } = await llmService.startSpecification(
-      projectName,
-      input.ideation
+    // Continue a conversation an interrupted run saved, or start a new one
+    const { response, conversation } = await this.openConversation(() =>
+      llmService.startSpecification(projectName, input.ideation, input.revision)
     );
     this.conversation = conversation;
 
@@ -52,19 +63,13 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
     if (this.config.autoComplete) {
       terminal.printInfo('Auto-complete mode: driving conversation automatically');
 
-      // Provide automatic responses to drive the conversation forward
-      const autoResponses = [
-        'Please proceed with reasonable defaults for the architecture and tech stack. Keep it simple and practical.',
-        'Use your best judgment for data models and API design. Focus on what is needed for the core use cases.',
-        'That looks good. Please finalize the specification.',
-      ];
-
-      for (const autoResponse of autoResponses) {
-        await llmService.continueSpecification(conversation, autoResponse);
-      }
+      // Replies from the answers file, or defaults that drive the conversation forward
+      await this.autoRespond(conversation, response, DEFAULT_REPLIES, (reply) =>
+        llmService.continueSpecification(conversation, reply)
+      );
 
       const result = await llmService.completeSpecification(conversation, input.ideation);
-      this.cost = result.costUsd;
+      this.cost = result.costUsd - this.recordedSpendUsd;
 
       if (!isSpecificationComplete(result.content)) {
         throw new Error('Specification content is incomplete');
@@ -102,6 +107,7 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
         userInput,
         partialContent
       );
+      await this.saveCheckpoint(conversation);
 
       // Display response
       await this.displayAssistantMessage(lastResponse);
@@ -109,7 +115,7 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
 
     // Complete the phase and get final content
     const result = await llmService.completeSpecification(conversation, input.ideation);
-    this.cost = result.costUsd;
+    this.cost = result.costUsd - this.recordedSpendUsd;
 
     if (!isSpecificationComplete(result.content)) {
       throw new Error('Specification content is incomplete');
@@ -143,7 +149,7 @@ export class SpecPhase extends PhaseRunner<SpecInput, SpecificationContent> {
     doc.specification = result;
 
     // Add cost
-    stateManager.addCost(0, this.cost);
+    stateManager.addCost(0, this.cost, 'phase-2');
 
     // Save to disk
     await stateManager.save();
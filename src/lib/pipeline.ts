@@ -7,23 +7,52 @@ import { DocumentManager } from './documents.js';
 import { StateManager } from './state/state-manager.js';
 import { PhaseManager } from './state/phase-manager.js';
 import { LLMService } from './llm/llm-service.js';
+import { ReplayLLMClient } from './llm/replay-client.js';
+import type { CassetteOptions } from './llm/cassette-client.js';
+import type { PhaseRevision } from './llm/prompts/base.js';
+import { formatPlanForRevision } from './llm/prompts/planning.js';
 import { IdeationPhase } from './phases/ideation-phase.js';
 import { SpecPhase } from './phases/spec-phase.js';
 import { PlanningPhase } from './phases/planning-phase.js';
-import { Orchestrator } from './execution/orchestrator.js';
+import { Orchestrator, type OrchestratorResult } from './execution/orchestrator.js';
+import { registerAgentBackend } from './execution/agent-registry.js';
+import { REPLAY_AGENT_BACKEND, createReplayAgentFactory } from './execution/replay-agent.js';
 import { GitClient } from './git/git-client.js';
 import { GitWorkflowManager } from './git/workflow-manager.js';
 import { initProjectDir } from '../utils/project.js';
 import { slugify } from '../utils/templates.js';
+import type { ConfigLayers } from './config.js';
+import type { AnswersFile, ApprovalGate } from './answers.js';
+import { DEFAULT_CONFIG, type Task } from '../types/index.js';
+import { BudgetExceededError, StateError } from '../types/errors.js';
+import { Dashboard } from './ui/dashboard.js';
 import * as terminal from './ui/terminal.js';
 
 export interface PipelineConfig {
   projectDir: string;
   interactive: boolean;
-  gitEnabled?: boolean;
-  gitAutoCommit?: boolean;
+  gitEnabled?: boolean; // Overrides git.enabled from the project config
+  gitAutoCommit?: boolean; // Overrides git.auto_commit from the project config
   skipImplementation?: boolean;
   autoComplete?: boolean; // Skip interactive conversation loops in phases
+  fixturesDir?: string; // Replay LLM and agent responses from fixtures instead of calling out
+  cassette?: CassetteOptions; // Record or replay phase 1-3 LLM conversations
+  configLayers?: ConfigLayers; // User file, env and flag settings layered over PROJECT.md
+  dashboard?: boolean; // Live TUI during implementation when stdout is a TTY (default true)
+  answers?: AnswersFile; // Scripted phase replies and gate decisions for non-interactive runs
+  autoApprove?: boolean; // Approve completed phases without asking (default: when not interactive)
+}
+
+/**
+ * Steps of the pipeline, named like the gates of phases 1-3
+ */
+export type PipelineStep = ApprovalGate | 'implementation';
+
+export const PIPELINE_STEPS: PipelineStep[] = ['phase-1', 'phase-2', 'phase-3', 'implementation'];
+
+export interface RunOptions {
+  until?: PipelineStep; // Stop once this step and its gate are done
+  only?: PipelineStep; // Run just this step; the ones before it must already be approved
 }
 
 export interface PipelineSummary {
@@ -32,6 +61,7 @@ export interface PipelineSummary {
   tasksCompleted: number;
   tasksFailed: number;
   totalCost: number;
+  stoppedAt?: ApprovalGate; // Gate left unapproved for review
 }
 
 export interface PhaseResult {
@@ -40,6 +70,10 @@ export interface PhaseResult {
   error?: string;
 }
 
+const PHASE_NUMBERS = { 'phase-1': 1, 'phase-2': 2, 'phase-3': 3 } as const;
+
+const PHASE_LABELS = { 1: 'ideation', 2: 'specification', 3: 'planning' } as const;
+
 /**
  * Unified pipeline for the orchestrator
  */
@@ -47,204 +81,67 @@ export class Pipeline {
   private documentManager: DocumentManager;
   private stateManager: StateManager;
   private phaseManager: PhaseManager;
-  private llmService: LLMService;
+  private llmService?: LLMService;
   private gitWorkflow?: GitWorkflowManager;
-  private config: Required<PipelineConfig>;
+  private config: Required<
+    Omit<PipelineConfig, 'fixturesDir' | 'cassette' | 'gitEnabled' | 'gitAutoCommit' | 'answers'>
+  > & {
+    gitEnabled?: boolean;
+    gitAutoCommit?: boolean;
+    fixturesDir?: string;
+    cassette?: CassetteOptions;
+    answers?: AnswersFile;
+  };
 
   constructor(config: PipelineConfig) {
     this.config = {
       projectDir: config.projectDir,
       interactive: config.interactive,
-      gitEnabled: config.gitEnabled ?? true,
-      gitAutoCommit: config.gitAutoCommit ?? true,
+      gitEnabled: config.gitEnabled,
+      gitAutoCommit: config.gitAutoCommit,
       skipImplementation: config.skipImplementation ?? false,
       autoComplete: config.autoComplete ?? false,
+      fixturesDir: config.fixturesDir,
+      cassette: config.cassette,
+      configLayers: config.configLayers ?? {},
+      dashboard: config.dashboard ?? true,
+      answers: config.answers,
+      autoApprove: config.autoApprove ?? !config.interactive,
     };
 
     this.documentManager = new DocumentManager(config.projectDir);
     this.stateManager = new StateManager(this.documentManager, config.projectDir);
     this.phaseManager = new PhaseManager(this.stateManager);
-    this.llmService = new LLMService({});
+    this.stateManager.setConfigLayers(this.config.configLayers);
+
+    if (config.fixturesDir) {
+      registerAgentBackend(REPLAY_AGENT_BACKEND, createReplayAgentFactory(config.fixturesDir));
+    }
   }
 
   /**
    * Initialize and run the full pipeline
+   * @throws {BudgetExceededError} when a spending cap pauses the run
    */
-  async initAndRun(idea: string): Promise<PipelineSummary> {
-    // Initialize project
-    const projectName = slugify(idea);
-    await initProjectDir(this.config.projectDir, projectName);
-    await this.stateManager.load();
-
-    // Set up Git workflow
-    await this.setupGitWorkflow();
-
-    const phasesCompleted: string[] = [];
-    let totalCost = 0;
-
-    // Run Phase 1: Ideation
-    terminal.printHeader('Phase 1: Idea Refinement');
-    const phase1 = await this.runPhase1(idea);
-    if (!phase1.success) {
-      throw new Error(`Phase 1 failed: ${phase1.error || 'Unknown error'}`);
-    }
-    phasesCompleted.push('ideation');
-    totalCost += phase1.cost;
-
-    if (this.config.interactive) {
-      await this.waitForApproval('phase-1');
-    } else {
-      this.stateManager.approvePhase('phase-1');
-      await this.stateManager.save();
-    }
-
-    // Run Phase 2: Specification
-    terminal.printHeader('Phase 2: Technical Specification');
-    const phase2 = await this.runPhase2();
-    if (!phase2.success) {
-      throw new Error(`Phase 2 failed: ${phase2.error || 'Unknown error'}`);
-    }
-    phasesCompleted.push('specification');
-    totalCost += phase2.cost;
-
-    if (this.config.interactive) {
-      await this.waitForApproval('phase-2');
-    } else {
-      this.stateManager.approvePhase('phase-2');
-      await this.stateManager.save();
-    }
-
-    // Run Phase 3: Planning
-    terminal.printHeader('Phase 3: Implementation Planning');
-    const phase3 = await this.runPhase3();
-    if (!phase3.success) {
-      throw new Error(`Phase 3 failed: ${phase3.error || 'Unknown error'}`);
-    }
-    phasesCompleted.push('planning');
-    totalCost += phase3.cost;
-
-    if (this.config.interactive) {
-      await this.waitForApproval('phase-3');
-    } else {
-      this.stateManager.approvePhase('phase-3');
-      await this.stateManager.save();
-    }
-
-    // Run Implementation (unless skipped)
-    let impl = { success: true, tasksCompleted: 0, tasksFailed: 0, totalCost: 0 };
-    if (!this.config.skipImplementation) {
-      terminal.printHeader('Phase 4: Implementation');
-      impl = await this.runImplementation();
-      if (impl.success) {
-        phasesCompleted.push('implementation');
-      }
-      totalCost += impl.totalCost;
-    }
-
-    return {
-      projectName: this.stateManager.getMeta().project_name,
-      phasesCompleted,
-      tasksCompleted: impl.tasksCompleted,
-      tasksFailed: impl.tasksFailed,
-      totalCost,
-    };
+  async initAndRun(
+    idea: string,
+    name?: string,
+    options: RunOptions = {}
+  ): Promise<PipelineSummary> {
+    const projectName = slugify(name || idea);
+    await initProjectDir(this.config.projectDir, projectName, idea);
+    return this.resume(options);
   }
 
   /**
    * Resume from current state
+   * @throws {BudgetExceededError} when a spending cap pauses the run
+   * @throws {StateError} when --until or --only asks for a step the project cannot run
    */
-  async resume(): Promise<PipelineSummary> {
+  async resume(options: RunOptions = {}): Promise<PipelineSummary> {
     await this.stateManager.load();
     await this.setupGitWorkflow();
-
-    const meta = this.stateManager.getMeta();
-    const phasesCompleted: string[] = [];
-    let totalCost = meta.cost.total_cost_usd;
-
-    // Check Phase 1
-    if (!meta.gates.ideation_complete) {
-      const doc = this.stateManager.getProject();
-      const phase1 = await this.runPhase1(doc.meta.project_name);
-      if (!phase1.success) {
-        throw new Error(`Phase 1 failed: ${phase1.error || 'Unknown error'}`);
-      }
-      totalCost += phase1.cost;
-    }
-
-    if (meta.gates.ideation_complete) {
-      phasesCompleted.push('ideation');
-    }
-
-    if (!meta.gates.ideation_approved) {
-      if (this.config.interactive) {
-        await this.waitForApproval('phase-1');
-      } else {
-        this.stateManager.approvePhase('phase-1');
-        await this.stateManager.save();
-      }
-    }
-
-    // Check Phase 2
-    if (!meta.gates.spec_complete && meta.gates.ideation_approved) {
-      const phase2 = await this.runPhase2();
-      if (!phase2.success) {
-        throw new Error(`Phase 2 failed: ${phase2.error || 'Unknown error'}`);
-      }
-      totalCost += phase2.cost;
-    }
-
-    if (meta.gates.spec_complete) {
-      phasesCompleted.push('specification');
-    }
-
-    if (!meta.gates.spec_approved && meta.gates.spec_complete) {
-      if (this.config.interactive) {
-        await this.waitForApproval('phase-2');
-      } else {
-        this.stateManager.approvePhase('phase-2');
-        await this.stateManager.save();
-      }
-    }
-
-    // Check Phase 3
-    if (!meta.gates.planning_complete && meta.gates.spec_approved) {
-      const phase3 = await this.runPhase3();
-      if (!phase3.success) {
-        throw new Error(`Phase 3 failed: ${phase3.error || 'Unknown error'}`);
-      }
-      totalCost += phase3.cost;
-    }
-
-    if (meta.gates.planning_complete) {
-      phasesCompleted.push('planning');
-    }
-
-    if (!meta.gates.planning_approved && meta.gates.planning_complete) {
-      if (this.config.interactive) {
-        await this.waitForApproval('phase-3');
-      } else {
-        this.stateManager.approvePhase('phase-3');
-        await this.stateManager.save();
-      }
-    }
-
-    // Run implementation if planning is approved
-    let impl = { success: false, tasksCompleted: 0, tasksFailed: 0, totalCost: 0 };
-    if (meta.gates.planning_approved) {
-      impl = await this.runImplementation();
-      if (impl.success) {
-        phasesCompleted.push('implementation');
-      }
-      totalCost += impl.totalCost;
-    }
-
-    return {
-      projectName: this.stateManager.getMeta().project_name,
-      phasesCompleted,
-      tasksCompleted: impl.tasksCompleted,
-      tasksFailed: impl.tasksFailed,
-      totalCost,
-    };
+    return this.advance(options);
   }
 
   /**
@@ -261,8 +158,32 @@ export class Pipeline {
     return this.documentManager;
   }
 
+  /**
+   * Get the LLM service, created from the project's llm config on first use
+   */
+  getLLMService(): LLMService {
+    if (!this.llmService) {
+      const llm = this.stateManager.isLoaded()
+        ? this.stateManager.getConfig().llm
+        : DEFAULT_CONFIG.llm;
+
+      this.llmService = new LLMService({
+        client: this.config.fixturesDir
+          ? new ReplayLLMClient({ fixturesDir: this.config.fixturesDir })
+          : undefined,
+        cassette: this.config.cassette,
+        model: llm.model,
+        maxTokens: llm.max_tokens,
+        // Budget caps are checked against project state before every LLM request
+        beforeCall: (pendingCost) => this.stateManager.checkBudget({ pendingUsd: pendingCost }),
+      });
+    }
+    return this.llmService;
+  }
+
   private async setupGitWorkflow(): Promise<void> {
-    if (!this.config.gitEnabled) return;
+    const git = this.stateManager.getConfig().git;
+    if (!(this.config.gitEnabled ?? git.enabled)) return;
 
     try {
       const gitClient = new GitClient(this.config.projectDir);
@@ -276,29 +197,35 @@ export class Pipeline {
       this.gitWorkflow = new GitWorkflowManager({
         gitClient,
         enabled: true,
-        autoCommit: this.config.gitAutoCommit,
+        autoCommit: this.config.gitAutoCommit ?? git.auto_commit,
+        branchPrefix: git.branch_prefix,
       });
     } catch {
       terminal.printWarning('Git workflow disabled - could not initialize');
     }
   }
 
-  private async runPhase1(idea: string): Promise<PhaseResult> {
+  private async runPhase1(idea: string, projectName?: string): Promise<PhaseResult> {
     try {
       const runner = new IdeationPhase({
-        llmService: this.llmService,
+        llmService: this.getLLMService(),
         stateManager: this.stateManager,
         documentManager: this.documentManager,
         autoComplete: this.config.autoComplete,
+        answers: this.config.answers,
       });
 
-      const result = await runner.run({ idea });
+      const revision = this.getRevision(1);
+      const result = await runner.run({ idea, projectName, revision });
       return {
         success: result.success,
         cost: result.cost,
-        error: result.success ? undefined : 'Phase 1 execution failed',
+        error: result.success ? undefined : result.error || 'Phase 1 execution failed',
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       return {
         success: false,
         cost: 0,
@@ -315,19 +242,23 @@ export class Pipeline {
       }
 
       const runner = new SpecPhase({
-        llmService: this.llmService,
+        llmService: this.getLLMService(),
         stateManager: this.stateManager,
         documentManager: this.documentManager,
         autoComplete: this.config.autoComplete,
+        answers: this.config.answers,
       });
 
-      const result = await runner.run({ ideation: doc.ideation });
+      const result = await runner.run({ ideation: doc.ideation, revision: this.getRevision(2) });
       return {
         success: result.success,
         cost: result.cost,
-        error: result.success ? undefined : 'Phase 2 execution failed',
+        error: result.success ? undefined : result.error || 'Phase 2 execution failed',
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       return {
         success: false,
         cost: 0,
@@ -344,19 +275,24 @@ export class Pipeline {
       }
 
       const runner = new PlanningPhase({
-        llmService: this.llmService,
+        llmService: this.getLLMService(),
         stateManager: this.stateManager,
         documentManager: this.documentManager,
         autoComplete: this.config.autoComplete,
+        answers: this.config.answers,
       });
 
-      const result = await runner.run({ specification: doc.specification });
+      const revision = this.getRevision(3);
+      const result = await runner.run({ specification: doc.specification, revision });
       return {
         success: result.success,
         cost: result.cost,
-        error: result.success ? undefined : 'Phase 3 execution failed',
+        error: result.success ? undefined : result.error || 'Phase 3 execution failed',
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       return {
         success: false,
         cost: 0,
@@ -365,6 +301,25 @@ export class Pipeline {
     }
   }
 
+  /**
+   * The rejected output and reviewer feedback when a phase was sent back with "orchestrator reject"
+   */
+  private getRevision(phase: 1 | 2 | 3): PhaseRevision | undefined {
+    const doc = this.stateManager.getProject();
+    const approval = doc.approvals.find((a) => a.phase === `Phase ${phase}`);
+    if (approval?.status !== 'rejected' || !approval.notes) {
+      return undefined;
+    }
+
+    const previous =
+      phase === 1
+        ? doc.ideation?.raw_content
+        : phase === 2
+          ? doc.specification?.raw_content
+          : formatPlanForRevision(doc.implementation_phases);
+    return previous ? { previous, feedback: approval.notes } : undefined;
+  }
+
   private async runImplementation(): Promise<{
     success: boolean;
     tasksCompleted: number;
@@ -372,23 +327,38 @@ export class Pipeline {
     totalCost: number;
   }> {
     try {
-      const orchestrator = new Orchestrator(
-        this.stateManager,
-        this.documentManager,
-        {
-          gitWorkflow: this.gitWorkflow,
-        }
-      );
+      const orchestrator = new Orchestrator(this.stateManager, this.documentManager, {
+        // Unset options come from the project config
+        agent: this.config.fixturesDir ? REPLAY_AGENT_BACKEND : undefined,
+        cwd: this.config.projectDir,
+        gitWorkflow: this.gitWorkflow,
+      });
 
-      const result = await orchestrator.execute();
+      // Plain output stays when not attached to a terminal (CI, pipes, tests)
+      const dashboard =
+        this.config.dashboard && Dashboard.isSupported()
+          ? new Dashboard(this.stateManager.getProject().implementation_phases)
+          : undefined;
+      dashboard?.attach(orchestrator);
+      dashboard?.start();
+
+      let result: OrchestratorResult;
+      try {
+        result = await orchestrator.execute();
+      } finally {
+        dashboard?.stop();
+      }
 
       return {
         success: result.success,
         tasksCompleted: result.tasksCompleted,
         tasksFailed: result.tasksFailed,
-        totalCost: 0, // Implementation cost tracking can be added later
+        totalCost: result.totalCost,
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       terminal.printError(
         `Implementation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -401,9 +371,158 @@ export class Pipeline {
     }
   }
 
-  private async waitForApproval(phase: string): Promise<void> {
+  /**
+   * Walk the project forward from its current phase: run the phase unless it is complete,
+   * pass its gate, then move to the next phase while the PhaseManager allows it
+   */
+  private async advance(options: RunOptions): Promise<PipelineSummary> {
+    const target = options.only ?? options.until;
+    let totalCost = this.stateManager.getMeta().cost.total_cost_usd;
+    let impl = { success: false, tasksCompleted: 0, tasksFailed: 0, totalCost: 0 };
+    let stoppedAt: ApprovalGate | undefined;
+
+    for (;;) {
+      const step = this.getCurrentStep();
+
+      if (step === 'implementation') {
+        if (this.config.skipImplementation) break;
+        this.checkStep(step, options);
+
+        const failedTasks = this.stateManager.getFailedTasks();
+        if (failedTasks.length > 0) {
+          this.reportFailedTasks(failedTasks);
+          impl.tasksFailed = failedTasks.length;
+          break;
+        }
+
+        terminal.printHeader('Phase 4: Implementation');
+        impl = await this.runImplementation();
+        totalCost += impl.totalCost;
+        break;
+      }
+
+      const phase = PHASE_NUMBERS[step];
+      if (!this.phaseManager.isPhaseApproved(phase)) {
+        this.checkStep(step, options);
+
+        if (!this.phaseManager.isPhaseComplete(phase)) {
+          const result = await this.runPlanningPhase(step);
+          if (!result.success) {
+            throw new Error(`Phase ${phase} failed: ${result.error || 'Unknown error'}`);
+          }
+          totalCost += result.cost;
+        }
+
+        if (!(await this.passGate(step))) {
+          stoppedAt = step;
+          break;
+        }
+      }
+
+      if (step === target || (step === 'phase-3' && this.config.skipImplementation)) break;
+
+      const { canProceed, reason } = this.phaseManager.canProceedToNextPhase();
+      if (!canProceed) {
+        throw StateError.invalidState(`Cannot continue after ${step}: ${reason}`);
+      }
+      await this.phaseManager.proceedToNextPhase();
+    }
+
+    const phasesCompleted: string[] = ([1, 2, 3] as const)
+      .filter((phase) => this.phaseManager.isPhaseComplete(phase))
+      .map((phase) => PHASE_LABELS[phase]);
+    if (impl.success) {
+      phasesCompleted.push('implementation');
+    }
+
+    return {
+      projectName: this.stateManager.getMeta().project_name,
+      phasesCompleted,
+      tasksCompleted: impl.tasksCompleted,
+      tasksFailed: impl.tasksFailed,
+      totalCost,
+      stoppedAt,
+    };
+  }
+
+  private getCurrentStep(): PipelineStep {
+    const { phase } = this.phaseManager.getCurrentPhase();
+    return phase === 'implementation' ? phase : (`phase-${phase}` as ApprovalGate);
+  }
+
+  /**
+   * Refuse steps outside --until / --only before any work is done on them
+   */
+  private checkStep(step: PipelineStep, options: RunOptions): void {
+    const target = options.only ?? options.until;
+    if (target && PIPELINE_STEPS.indexOf(step) > PIPELINE_STEPS.indexOf(target)) {
+      throw StateError.invalidState(`The project is already past ${target} (now at ${step})`);
+    }
+    if (options.only && step !== options.only) {
+      throw StateError.invalidState(
+        `Cannot run only ${options.only}: ${step} must be complete and approved first`
+      );
+    }
+  }
+
+  private async runPlanningPhase(step: ApprovalGate): Promise<PhaseResult> {
+    switch (step) {
+      case 'phase-1': {
+        // Projects created before the idea was stored fall back to their name
+        const { meta } = this.stateManager.getProject();
+        return this.runPhase1(meta.idea ?? meta.project_name, slugify(meta.project_name));
+      }
+      case 'phase-2':
+        return this.runPhase2();
+      case 'phase-3':
+        return this.runPhase3();
+    }
+  }
+
+  private reportFailedTasks(failedTasks: Task[]): void {
+    terminal.printWarning(`${failedTasks.length} failed task(s) found:`);
+    failedTasks.forEach((t) => {
+      terminal.printWarning(`  ${t.id}: ${t.description}`);
+      if (t.failure_reason) {
+        terminal.printWarning(`    Reason: ${t.failure_reason}`);
+      }
+    });
+    terminal.printInfo('');
+    terminal.printInfo('Options:');
+    terminal.printInfo('  orchestrator retry <task-id>  - Retry a failed task');
+    terminal.printInfo('  orchestrator skip <task-id> --reason "..."  - Skip a task');
+  }
+
+  /**
+   * Approve a completed phase: ask when interactive, approve with autoApprove, or leave it
+   * for "orchestrator approve"; an answers file can stop at any gate
+   * Returns false when the run stops at this gate
+   */
+  private async passGate(phase: ApprovalGate): Promise<boolean> {
+    if (this.config.answers?.approvals[phase] === 'stop') {
+      terminal.printInfo(`Stopping for review: the answers file leaves ${phase} unapproved`);
+      return false;
+    }
+
+    if (this.config.interactive) {
+      await this.waitForApproval(phase);
+      return true;
+    }
+
+    if (!this.config.autoApprove) {
+      terminal.printInfo(`Phase ${PHASE_NUMBERS[phase]} complete but not approved.`);
+      terminal.printInfo(`Review PROJECT.md, then run: orchestrator approve ${phase}`);
+      return false;
+    }
+
+    this.stateManager.approvePhase(phase);
+    await this.stateManager.save();
+    return true;
+  }
+
+  private async waitForApproval(phase: ApprovalGate): Promise<void> {
     terminal.printInfo('');
-    terminal.printInfo(`Phase ${phase.replace('phase-', '')} complete!`);
+    terminal.printInfo(`Phase ${PHASE_NUMBERS[phase]} complete!`);
     terminal.printInfo('Review the PROJECT.md file, then:');
 
     const approved = await terminal.confirm('Approve and continue?', true);
@@ -0,0 +1,69 @@
+/**
+ * Budget Checks
+ * Compares recorded spend against the caps in meta.budget
+ */
+
+import type { ProjectMeta } from '../../types/index.js';
+import { BudgetExceededError } from '../../types/errors.js';
+
+/**
+ * What a budget check is about to spend money on
+ */
+export interface BudgetCheck {
+  phase: string; // phase-1..phase-3 or impl-<n>
+  pendingUsd?: number; // Spend already incurred but not yet recorded in meta.cost
+  taskId?: string;
+  taskSpentUsd?: number;
+}
+
+/**
+ * Get recorded spend for a phase
+ */
+export function getPhaseSpend(meta: ProjectMeta, phase: string): number {
+  return meta.cost.by_phase?.[phase] ?? 0;
+}
+
+function isLimit(limit: number | undefined): limit is number {
+  return typeof limit === 'number' && limit > 0;
+}
+
+/**
+ * Throw if any applicable cap has been reached
+ * @throws {BudgetExceededError}
+ */
+export function checkBudget(meta: ProjectMeta, check: BudgetCheck): void {
+  const budget = meta.budget;
+  if (!budget) {
+    return;
+  }
+
+  const pending = check.pendingUsd ?? 0;
+
+  const projectSpent = meta.cost.total_cost_usd + pending;
+  if (isLimit(budget.project_usd) && projectSpent >= budget.project_usd) {
+    throw BudgetExceededError.project(budget.project_usd, projectSpent, pending);
+  }
+
+  const phaseSpent = getPhaseSpend(meta, check.phase) + pending;
+  if (isLimit(budget.phase_usd) && phaseSpent >= budget.phase_usd) {
+    throw BudgetExceededError.phase(check.phase, budget.phase_usd, phaseSpent, pending);
+  }
+
+  const taskSpent = check.taskSpentUsd ?? 0;
+  if (check.taskId && isLimit(budget.task_usd) && taskSpent >= budget.task_usd) {
+    throw BudgetExceededError.task(check.taskId, budget.task_usd, taskSpent, pending);
+  }
+}
+
+/**
+ * Explain how to continue after a run paused on a budget cap
+ */
+export function formatBudgetPause(error: BudgetExceededError): string[] {
+  const key = typeof error.context?.key === 'string' ? error.context.key : 'budget.project_usd';
+  return [
+    `Paused: ${error.message}`,
+    'Progress so far has been saved.',
+    `Raise the limit with: orchestrator config --set ${key}=<usd>`,
+    'Then run: orchestrator resume',
+  ];
+}
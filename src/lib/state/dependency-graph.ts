@@ -0,0 +1,241 @@
+/**
+ * Dependency Graph
+ * Task dependency graph of the implementation plan, rendered as Mermaid, Graphviz DOT or JSON
+ */
+
+import type { ImplementationPhase, TaskStatus } from '../../types/index.js';
+import { DependencyResolver } from './dependency-resolver.js';
+
+export type GraphFormat = 'mermaid' | 'dot' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['mermaid', 'dot', 'json'];
+
+export interface GraphNode {
+  id: string;
+  description: string;
+  status: TaskStatus;
+  phase: number;
+  critical: boolean;
+  external: boolean; // From another phase, shown because a task in the selected phase needs it
+}
+
+export interface GraphEdge {
+  from: string; // The dependency
+  to: string; // The task that waits on it
+  critical: boolean;
+}
+
+export interface DependencyGraph {
+  phases: { number: number; name: string }[];
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  criticalPath: string[];
+  issues: string[]; // Missing, forward and circular dependencies
+}
+
+export interface GraphOptions {
+  phase?: number; // Only this phase's tasks and their direct dependencies
+}
+
+const STATUS_COLORS: Record<TaskStatus, { fill: string; stroke: string }> = {
+  pending: { fill: '#f5f5f5', stroke: '#9e9e9e' },
+  in_progress: { fill: '#e3f2fd', stroke: '#1e88e5' },
+  complete: { fill: '#e8f5e9', stroke: '#43a047' },
+  failed: { fill: '#ffebee', stroke: '#e53935' },
+  skipped: { fill: '#fff8e1', stroke: '#fdd835' },
+};
+
+const CRITICAL_COLOR = '#d81b60';
+const MAX_LABEL_LENGTH = 40;
+
+/**
+ * Build the graph for every implementation phase, or one phase with --phase
+ * The critical path is always computed over the whole plan
+ */
+export function buildDependencyGraph(
+  phases: ImplementationPhase[],
+  options: GraphOptions = {}
+): DependencyGraph {
+  const resolver = DependencyResolver.fromPhases(phases);
+  const validation = resolver.validate();
+  const hasCycles = validation.issues.some((issue) => issue.type === 'circular');
+  const criticalPath = hasCycles ? [] : resolver.getCriticalPath().map((t) => t.id);
+
+  const criticalEdges = new Set(
+    criticalPath.slice(1).map((id, index) => `${criticalPath[index]}->${id}`)
+  );
+  const phaseOf = new Map(phases.flatMap((p) => p.tasks.map((t) => [t.id, p.phase_number])));
+  const selected = phases.filter(
+    (p) => options.phase === undefined || p.phase_number === options.phase
+  );
+  const selectedTasks = selected.flatMap((p) => p.tasks);
+  const selectedIds = new Set(selectedTasks.map((t) => t.id));
+
+  const edges: GraphEdge[] = [];
+  const externalIds = new Set<string>();
+  for (const task of selectedTasks) {
+    for (const depId of task.depends_on) {
+      // Unknown tasks have no node to point at; they are listed in issues
+      if (!phaseOf.has(depId)) continue;
+      if (!selectedIds.has(depId)) externalIds.add(depId);
+      edges.push({ from: depId, to: task.id, critical: criticalEdges.has(`${depId}->${task.id}`) });
+    }
+  }
+
+  const onPath = new Set(criticalPath);
+  const nodes: GraphNode[] = phases.flatMap((p) =>
+    p.tasks
+      .filter((t) => selectedIds.has(t.id) || externalIds.has(t.id))
+      .map((t) => ({
+        id: t.id,
+        description: t.description,
+        status: t.status,
+        phase: p.phase_number,
+        critical: onPath.has(t.id),
+        external: externalIds.has(t.id),
+      }))
+  );
+
+  return {
+    phases: selected.map((p) => ({ number: p.phase_number, name: p.name })),
+    nodes,
+    edges,
+    criticalPath,
+    issues: validation.issues
+      .filter((issue) => options.phase === undefined || selectedIds.has(issue.taskId))
+      .map((issue) => issue.details),
+  };
+}
+
+/**
+ * Render the graph in the requested format
+ */
+export function renderDependencyGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return renderMermaid(graph);
+    case 'dot':
+      return renderDot(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+/**
+ * Mermaid flowchart with one subgraph per phase
+ */
+export function renderMermaid(graph: DependencyGraph): string {
+  const lines = ['flowchart TD'];
+  for (const issue of graph.issues) {
+    lines.push(`  %% ${issue}`);
+  }
+
+  const nodeLine = (node: GraphNode) =>
+    `${mermaidId(node.id)}[${mermaidLabel(`${node.id} ${truncate(node.description)}`)}]`;
+
+  for (const phase of graph.phases) {
+    const label = mermaidLabel(`Phase ${phase.number}: ${phase.name}`);
+    lines.push(`  subgraph phase_${phase.number}[${label}]`);
+    for (const node of graph.nodes.filter((n) => n.phase === phase.number && !n.external)) {
+      lines.push(`    ${nodeLine(node)}`);
+    }
+    lines.push('  end');
+  }
+  for (const node of graph.nodes.filter((n) => n.external)) {
+    lines.push(`  ${nodeLine(node)}`);
+  }
+
+  graph.edges.forEach((edge) => {
+    lines.push(`  ${mermaidId(edge.from)} --> ${mermaidId(edge.to)}`);
+  });
+
+  // Status colours, then the critical path on top
+  const statuses = [...new Set(graph.nodes.map((n) => n.status))];
+  for (const status of statuses) {
+    const { fill, stroke } = STATUS_COLORS[status];
+    lines.push(`  classDef ${status} fill:${fill},stroke:${stroke}`);
+    const ids = graph.nodes.filter((n) => n.status === status).map((n) => mermaidId(n.id));
+    lines.push(`  class ${ids.join(',')} ${status}`);
+  }
+  const critical = graph.nodes.filter((n) => n.critical).map((n) => mermaidId(n.id));
+  if (critical.length > 0) {
+    lines.push(`  classDef critical stroke:${CRITICAL_COLOR},stroke-width:3px`);
+    lines.push(`  class ${critical.join(',')} critical`);
+  }
+  const externals = graph.nodes.filter((n) => n.external).map((n) => mermaidId(n.id));
+  if (externals.length > 0) {
+    lines.push('  classDef external stroke-dasharray:4 4');
+    lines.push(`  class ${externals.join(',')} external`);
+  }
+  const criticalEdges = graph.edges.flatMap((edge, index) => (edge.critical ? [index] : []));
+  if (criticalEdges.length > 0) {
+    lines.push(`  linkStyle ${criticalEdges.join(',')} stroke:${CRITICAL_COLOR},stroke-width:3px`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Graphviz digraph with one cluster per phase
+ */
+export function renderDot(graph: DependencyGraph): string {
+  const lines = [
+    'digraph tasks {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  for (const issue of graph.issues) {
+    lines.push(`  // ${issue}`);
+  }
+
+  const nodeLine = (node: GraphNode) => {
+    const { fill, stroke } = STATUS_COLORS[node.status];
+    const attrs = [
+      `label=${dotString(`${node.id}\n${truncate(node.description)}`)}`,
+      `fillcolor="${fill}"`,
+      `color="${node.critical ? CRITICAL_COLOR : stroke}"`,
+    ];
+    if (node.critical) attrs.push('penwidth=3');
+    if (node.external) attrs.push('style="rounded,filled,dashed"');
+    return `${dotString(node.id)} [${attrs.join(', ')}];`;
+  };
+
+  for (const phase of graph.phases) {
+    lines.push(`  subgraph cluster_${phase.number} {`);
+    lines.push(`    label=${dotString(`Phase ${phase.number}: ${phase.name}`)};`);
+    for (const node of graph.nodes.filter((n) => n.phase === phase.number && !n.external)) {
+      lines.push(`    ${nodeLine(node)}`);
+    }
+    lines.push('  }');
+  }
+  for (const node of graph.nodes.filter((n) => n.external)) {
+    lines.push(`  ${nodeLine(node)}`);
+  }
+
+  for (const edge of graph.edges) {
+    const attrs = edge.critical ? ` [color="${CRITICAL_COLOR}", penwidth=3]` : '';
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${attrs};`);
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid IDs cannot contain dots
+ */
+function mermaidId(taskId: string): string {
+  return `t${taskId.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function mermaidLabel(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+}
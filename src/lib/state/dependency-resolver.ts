@@ -1,10 +1,10 @@
-import { Task } from '../../types/index.js';
+import { ImplementationPhase, Task } from '../../types/index.js';
 
 /**
  * Types of dependency issues that can be detected
  */
 export interface DependencyIssue {
-  type: 'missing' | 'circular' | 'self_reference';
+  type: 'missing' | 'circular' | 'self_reference' | 'forward_reference';
   taskId: string;
   details: string;
 }
@@ -23,11 +23,27 @@ export interface DependencyValidationResult {
  */
 export class DependencyResolver {
   private taskMap: Map<string, Task>;
+  private phaseOf = new Map<string, number>();
 
   constructor(private tasks: Task[]) {
     this.taskMap = new Map(tasks.map((t) => [t.id, t]));
   }
 
+  /**
+   * Resolver over every implementation phase
+   * Knowing each task's phase lets validation catch dependencies on later phases,
+   * which can never be met because phases run in order
+   */
+  static fromPhases(phases: ImplementationPhase[]): DependencyResolver {
+    const resolver = new DependencyResolver(phases.flatMap((p) => p.tasks));
+    for (const phase of phases) {
+      for (const task of phase.tasks) {
+        resolver.phaseOf.set(task.id, phase.phase_number);
+      }
+    }
+    return resolver;
+  }
+
   /**
    * Validate the dependency graph
    * Checks for missing refs, self-refs, and cycles
@@ -54,6 +70,17 @@ export class DependencyResolver {
             taskId: task.id,
             details: `Task ${task.id} depends on non-existent task ${depId}`,
           });
+          continue;
+        }
+
+        const taskPhase = this.phaseOf.get(task.id);
+        const depPhase = this.phaseOf.get(depId);
+        if (taskPhase !== undefined && depPhase !== undefined && depPhase > taskPhase) {
+          issues.push({
+            type: 'forward_reference',
+            taskId: task.id,
+            details: `Task ${task.id} (phase ${taskPhase}) depends on task ${depId} from later phase ${depPhase}`,
+          });
         }
       }
     }
@@ -140,6 +167,52 @@ export class DependencyResolver {
     return this.topologicalSort();
   }
 
+  /**
+   * Length of the longest chain of tasks starting at each task, counting the task itself
+   * A task that many others wait on transitively is on the critical path and should start first
+   * Throws if cycle detected
+   */
+  getCriticalPathLengths(): Map<string, number> {
+    const order = this.getExecutionOrder();
+    const dependents = this.getDependents();
+    const lengths = new Map<string, number>();
+
+    // Dependents come later in execution order, so walk it backwards
+    for (const task of [...order].reverse()) {
+      const downstream = (dependents.get(task.id) ?? []).map((id) => lengths.get(id) ?? 0);
+      lengths.set(task.id, 1 + Math.max(0, ...downstream));
+    }
+
+    return lengths;
+  }
+
+  /**
+   * Longest chain of dependent tasks through the graph, in execution order
+   * Ties are broken by task ID
+   */
+  getCriticalPath(): Task[] {
+    const lengths = this.getCriticalPathLengths();
+    const dependents = this.getDependents();
+    const longest = (ids: string[]): string | undefined =>
+      [...ids]
+        .sort((a, b) => this.compareTaskIds(a, b))
+        .reduce<string | undefined>(
+          (best, id) => (best && (lengths.get(best) ?? 0) >= (lengths.get(id) ?? 0) ? best : id),
+          undefined
+        );
+
+    // The task with the longest chain has no dependencies in the graph, so it starts the path
+    const path: Task[] = [];
+    let current = longest(this.tasks.map((t) => t.id));
+    while (current) {
+      const task = this.taskMap.get(current);
+      if (task) path.push(task);
+      current = longest(dependents.get(current) ?? []);
+    }
+
+    return path;
+  }
+
   /**
    * Find all cycles in the dependency graph
    * Uses DFS with coloring (white/gray/black)
@@ -213,6 +286,19 @@ export class DependencyResolver {
     return true;
   }
 
+  /**
+   * Map from each task to the tasks that directly depend on it
+   */
+  private getDependents(): Map<string, string[]> {
+    const dependents = new Map<string, string[]>(this.tasks.map((t) => [t.id, []]));
+    for (const task of this.tasks) {
+      for (const depId of task.depends_on) {
+        dependents.get(depId)?.push(task.id);
+      }
+    }
+    return dependents;
+  }
+
   /**
    * Kahn's algorithm for topological sort
    */
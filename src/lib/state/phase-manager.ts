@@ -444,7 +444,7 @@ export class PhaseManager {
     });
 
     // No dependency issues
-    const resolver = new DependencyResolver(allTasks);
+    const resolver = DependencyResolver.fromPhases(phases);
     const validation = resolver.validate();
     checklist.push({
       item: 'No dependency issues',
@@ -0,0 +1,157 @@
+/**
+ * Project Status
+ * Snapshot of phases, tasks, blockers and totals for status displays
+ */
+
+import type {
+  ImplementationPhase,
+  PhaseGates,
+  Task,
+  TaskFailureType,
+  TaskStatus,
+} from '../../types/index.js';
+import type { StateManager } from './state-manager.js';
+import { PhaseManager, type PhaseInfo } from './phase-manager.js';
+import { DependencyResolver } from './dependency-resolver.js';
+
+export interface TaskStatusEntry {
+  id: string;
+  description: string;
+  status: TaskStatus;
+  dependsOn: string[];
+  blockedBy: string[]; // Incomplete dependencies of a pending task
+  durationSeconds?: number;
+  costUsd?: number;
+  failureReason?: string;
+  failureType?: TaskFailureType;
+}
+
+export interface ImplementationPhaseStatus {
+  phaseNumber: number;
+  name: string;
+  status: PhaseInfo['status'];
+  tasks: TaskStatusEntry[];
+}
+
+export interface StatusTotals {
+  tasks: number;
+  byStatus: Record<TaskStatus, number>;
+  durationSeconds: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface ProjectStatus {
+  projectName: string;
+  projectId: string;
+  currentPhase: PhaseInfo;
+  gates: PhaseGates;
+  phases: PhaseInfo[]; // Phases 1-3 and implementation
+  implementationPhases: ImplementationPhaseStatus[];
+  blockedTasks: TaskStatusEntry[];
+  failedTasks: TaskStatusEntry[];
+  totals: StatusTotals;
+}
+
+const PLANNING_PHASE_NAMES: Record<1 | 2 | 3, string> = {
+  1: 'Idea Refinement',
+  2: 'Technical Specification',
+  3: 'Implementation Planning',
+};
+
+/**
+ * Build a status snapshot from loaded project state
+ */
+export function getProjectStatus(state: StateManager): ProjectStatus {
+  const phaseManager = new PhaseManager(state);
+  const project = state.getProject();
+  const meta = project.meta;
+  const resolver = new DependencyResolver(state.getAllTasks());
+
+  const toEntry = (task: Task): TaskStatusEntry => {
+    const result = state.getTaskResult(task.id);
+    const entry: TaskStatusEntry = {
+      id: task.id,
+      description: task.description,
+      status: task.status,
+      dependsOn: task.depends_on,
+      blockedBy: task.status === 'pending' ? resolver.getBlockingDeps(task.id) : [],
+      durationSeconds:
+        task.duration_seconds ??
+        (result?.duration_ms !== undefined ? Math.floor(result.duration_ms / 1000) : undefined),
+      costUsd: task.cost_usd ?? result?.cost_usd,
+    };
+    if (task.status === 'failed') {
+      entry.failureReason = result?.failure_reason ?? task.failure_reason;
+      entry.failureType = result?.failure_type;
+    }
+    return entry;
+  };
+
+  const implementationPhases = project.implementation_phases.map((phase) => ({
+    phaseNumber: phase.phase_number,
+    name: phase.name,
+    status: getImplementationPhaseStatus(state, phase),
+    tasks: phase.tasks.map(toEntry),
+  }));
+
+  const entries = implementationPhases.flatMap((phase) => phase.tasks);
+  const byStatus: Record<TaskStatus, number> = {
+    pending: 0,
+    in_progress: 0,
+    complete: 0,
+    failed: 0,
+    skipped: 0,
+  };
+  for (const entry of entries) {
+    byStatus[entry.status]++;
+  }
+
+  return {
+    projectName: meta.project_name,
+    projectId: meta.project_id,
+    currentPhase: phaseManager.getCurrentPhase(),
+    gates: meta.gates,
+    phases: [
+      ...([1, 2, 3] as const).map((phase) => ({
+        phase,
+        name: PLANNING_PHASE_NAMES[phase],
+        status: phaseManager.getPhaseStatus(phase),
+      })),
+      {
+        phase: 'implementation' as const,
+        name: 'Implementation',
+        status: phaseManager.getPhaseStatus('implementation'),
+      },
+    ],
+    implementationPhases,
+    blockedTasks: entries.filter((entry) => entry.blockedBy.length > 0),
+    failedTasks: entries.filter((entry) => entry.status === 'failed'),
+    totals: {
+      tasks: entries.length,
+      byStatus,
+      durationSeconds: entries.reduce((sum, entry) => sum + (entry.durationSeconds ?? 0), 0),
+      tokens: meta.cost.total_tokens,
+      costUsd: meta.cost.total_cost_usd,
+    },
+  };
+}
+
+function getImplementationPhaseStatus(
+  state: StateManager,
+  phase: ImplementationPhase
+): PhaseInfo['status'] {
+  const approval = state
+    .getProject()
+    .approvals.find((a) => a.phase === `impl-${phase.phase_number}`);
+
+  if (approval?.status === 'approved') return 'approved';
+  if (
+    phase.tasks.length > 0 &&
+    phase.tasks.every((t) => t.status === 'complete' || t.status === 'skipped')
+  ) {
+    return 'complete';
+  }
+  if (phase.tasks.some((t) => t.status !== 'pending')) return 'in_progress';
+  return 'not_started';
+}
@@ -9,6 +9,8 @@ import {
 } from '../../types/index.js';
 import { StateError } from '../../types/errors.js';
 import { DocumentManager } from '../documents.js';
+import { checkBudget, type BudgetCheck } from './budget.js';
+import { resolveProjectConfig, type ConfigLayers, type ProjectConfig } from '../config.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -22,6 +24,7 @@ export type StateEventType =
   | 'task_retried'
   | 'phase_completed'
   | 'approval_added'
+  | 'approval_rejected'
   | 'cost_updated';
 
 /**
@@ -38,6 +41,20 @@ export interface StateEvent {
  */
 export type StateEventHandler = (event: StateEvent) => void;
 
+const PHASE_NAMES = {
+  1: 'Idea Refinement',
+  2: 'Specification',
+  3: 'Implementation Planning',
+} as const;
+
+/**
+ * "phase-2" → "Phase 2"; impl-N approvals keep their name
+ */
+function getApprovalLabel(phase: string): string {
+  const match = phase.match(/^phase-([123])$/);
+  return match ? `Phase ${match[1]}` : phase;
+}
+
 /**
  * Centralized state manager coordinating in-memory state with file persistence
  */
@@ -45,7 +62,13 @@ export class StateManager {
   private doc: ProjectDocument | null = null;
   private taskResults: Map<string, TaskResult> = new Map();
   private dirty: boolean = false;
+  private pendingIdeation: boolean = false;
+  private pendingSpecification: boolean = false;
+  private pendingPhases: ImplementationPhase[] = [];
+  private pendingPlan: boolean = false; // The whole plan was replaced
+  private pendingApprovals: boolean = false;
   private eventHandlers: Map<StateEventType, StateEventHandler[]> = new Map();
+  private configLayers: ConfigLayers = {};
 
   constructor(
     private documentManager: DocumentManager,
@@ -70,6 +93,11 @@ export class StateManager {
     }
 
     this.dirty = false;
+    this.pendingIdeation = false;
+    this.pendingSpecification = false;
+    this.pendingPhases = [];
+    this.pendingPlan = false;
+    this.pendingApprovals = false;
     logger.debug('State loaded from files');
   }
 
@@ -84,6 +112,34 @@ export class StateManager {
     // Update PROJECT.md timestamp
     this.doc.meta.updated = new Date().toISOString();
 
+    // Write phase content set since the last save
+    // and keep each version in the phase history
+    if (this.pendingIdeation && this.doc.ideation) {
+      await this.documentManager.updateIdeation(this.doc.ideation);
+      await this.documentManager.savePhaseSnapshot(1, this.doc.ideation);
+    }
+    if (this.pendingSpecification && this.doc.specification) {
+      await this.documentManager.updateSpecification(this.doc.specification);
+      await this.documentManager.savePhaseSnapshot(2, this.doc.specification);
+    }
+    if (this.pendingPlan) {
+      await this.documentManager.replaceImplementationPhases(this.doc.implementation_phases);
+    }
+    for (const phase of this.pendingPhases) {
+      await this.documentManager.addImplementationPhase(phase);
+    }
+    if (this.pendingPlan || this.pendingPhases.length > 0) {
+      await this.documentManager.savePhaseSnapshot(3, this.doc.implementation_phases);
+    }
+    if (this.pendingApprovals) {
+      await this.documentManager.updateApprovals(this.doc.approvals);
+    }
+    this.pendingIdeation = false;
+    this.pendingSpecification = false;
+    this.pendingPhases = [];
+    this.pendingPlan = false;
+    this.pendingApprovals = false;
+
     // Update meta first
     await this.documentManager.updateProjectMeta(this.doc.meta);
 
@@ -117,6 +173,27 @@ export class StateManager {
     return this.doc;
   }
 
+  /**
+   * Check whether a project has been loaded
+   */
+  isLoaded(): boolean {
+    return this.doc !== null;
+  }
+
+  /**
+   * Set the config layers that sit outside PROJECT.md (user file, env, flags)
+   */
+  setConfigLayers(layers: ConfigLayers): void {
+    this.configLayers = layers;
+  }
+
+  /**
+   * Get the effective project configuration
+   */
+  getConfig(): ProjectConfig {
+    return resolveProjectConfig(this.getMeta(), this.configLayers);
+  }
+
   /**
    * Get project meta
    */
@@ -314,7 +391,7 @@ export class StateManager {
     task.commit_hash = result.commit_hash;
 
     this.taskResults.set(taskId, result);
-    this.addCost(result.tokens_used || 0, result.cost_usd || 0);
+    this.addCost(result.tokens_used || 0, result.cost_usd || 0, this.getPhaseKeyForTask(taskId));
 
     this.dirty = true;
     this.emit('task_completed', { taskId, result });
@@ -341,7 +418,7 @@ export class StateManager {
     task.failure_reason = result.output_summary;
 
     this.taskResults.set(taskId, result);
-    this.addCost(result.tokens_used || 0, result.cost_usd || 0);
+    this.addCost(result.tokens_used || 0, result.cost_usd || 0, this.getPhaseKeyForTask(taskId));
 
     this.dirty = true;
     this.emit('task_failed', { taskId, result });
@@ -384,7 +461,11 @@ export class StateManager {
    */
   recordTaskResult(result: TaskResult): void {
     this.taskResults.set(result.task_id, result);
-    this.addCost(result.tokens_used || 0, result.cost_usd || 0);
+    this.addCost(
+      result.tokens_used || 0,
+      result.cost_usd || 0,
+      this.getPhaseKeyForTask(result.task_id)
+    );
     this.dirty = true;
     logger.debug(`Recorded result for task ${result.task_id}`);
   }
@@ -429,16 +510,18 @@ export class StateManager {
     const now = new Date().toISOString();
 
     // Update approval
-    const existing = doc.approvals.find((a) => a.phase === phase);
+    const existing = this.findApproval(phase);
     if (existing) {
-      existing.status = 'approved';
-      existing.approved_at = now;
-      if (notes) {
+      // Feedback from an earlier rejection does not describe the approved version
+      if (notes || existing.status === 'rejected') {
         existing.notes = notes;
       }
+      existing.status = 'approved';
+      existing.approved_at = now;
+      existing.rejected_at = undefined;
     } else {
       doc.approvals.push({
-        phase,
+        phase: getApprovalLabel(phase),
         status: 'approved',
         approved_at: now,
         notes,
@@ -457,11 +540,84 @@ export class StateManager {
       doc.meta.gates.planning_approved_at = now;
     }
 
+    this.pendingApprovals = true;
     this.dirty = true;
     this.emit('approval_added', { phase, notes });
     logger.debug(`Approved ${phase}`);
   }
 
+  /**
+   * Send a completed planning phase (1-3) back for rework with the reviewer's feedback
+   * Its gates and those of the phases built on it are reset, so the pipeline runs it again
+   * @throws {StateError} if the phase is not complete or implementation has started
+   */
+  rejectPhase(phase: 1 | 2 | 3, feedback: string): void {
+    const doc = this.getProject();
+    const gates = doc.meta.gates;
+    const completeGates = [gates.ideation_complete, gates.spec_complete, gates.planning_complete];
+    if (!completeGates[phase - 1]) {
+      throw StateError.invalidState(`Phase ${phase} is not complete; there is nothing to reject`);
+    }
+    if (this.getAllTasks().some((t) => t.status !== 'pending')) {
+      throw StateError.invalidState(
+        `Implementation has started; phase ${phase} can no longer be rejected`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const label = `Phase ${phase}`;
+    // Table cells are single-line
+    const notes = feedback.replace(/\s+/g, ' ').replace(/\|/g, '/').trim();
+    const existing = this.findApproval(label);
+    if (existing) {
+      existing.status = 'rejected';
+      existing.rejected_at = now;
+      existing.approved_at = undefined;
+      existing.notes = notes;
+    } else {
+      doc.approvals.push({ phase: label, status: 'rejected', rejected_at: now, notes });
+    }
+
+    // Later phases were built on the rejected output and have to be redone too
+    for (const later of [2, 3].filter((p) => p > phase)) {
+      const approval = this.findApproval(`Phase ${later}`);
+      if (approval?.status === 'approved') {
+        approval.status = 'pending';
+        approval.approved_at = undefined;
+      }
+    }
+    if (phase <= 1) {
+      gates.ideation_complete = false;
+      gates.ideation_approved = false;
+      gates.ideation_approved_at = undefined;
+    }
+    if (phase <= 2) {
+      gates.spec_complete = false;
+      gates.spec_approved = false;
+      gates.spec_approved_at = undefined;
+    }
+    gates.planning_complete = false;
+    gates.planning_approved = false;
+    gates.planning_approved_at = undefined;
+
+    doc.meta.current_phase = phase;
+    doc.meta.current_phase_name = PHASE_NAMES[phase];
+    doc.meta.phase_status = 'pending';
+
+    this.pendingApprovals = true;
+    this.dirty = true;
+    this.emit('approval_rejected', { phase: label, feedback: notes });
+    logger.debug(`Rejected ${label}`);
+  }
+
+  /**
+   * Approval for "phase-1" or "Phase 1", which the Approvals table both stores as "Phase 1"
+   */
+  private findApproval(phase: string) {
+    const label = getApprovalLabel(phase);
+    return this.getProject().approvals.find((a) => getApprovalLabel(a.phase) === label);
+  }
+
   /**
    * Set ideation content
    */
@@ -469,6 +625,7 @@ export class StateManager {
     const doc = this.getProject();
     doc.ideation = content;
     doc.meta.gates.ideation_complete = true;
+    this.pendingIdeation = true;
     this.dirty = true;
     logger.debug('Set ideation content');
   }
@@ -480,6 +637,7 @@ export class StateManager {
     const doc = this.getProject();
     doc.specification = content;
     doc.meta.gates.spec_complete = true;
+    this.pendingSpecification = true;
     this.dirty = true;
     logger.debug('Set specification content');
   }
@@ -491,6 +649,7 @@ export class StateManager {
     const doc = this.getProject();
     doc.implementation_phases.push(...phases);
     doc.meta.gates.planning_complete = true;
+    this.pendingPhases.push(...phases);
 
     // Update implementation progress
     doc.meta.implementation = {
@@ -504,17 +663,43 @@ export class StateManager {
     logger.debug(`Added ${phases.length} implementation phases`);
   }
 
+  /**
+   * Replace the implementation plan, e.g. when a rejected plan is reworked
+   */
+  setImplementationPhases(phases: ImplementationPhase[]): void {
+    const doc = this.getProject();
+    doc.implementation_phases = phases;
+    doc.meta.gates.planning_complete = true;
+    this.pendingPhases = [];
+    this.pendingPlan = true;
+
+    doc.meta.implementation = {
+      total_phases: phases.length,
+      completed_phases: 0,
+      current_impl_phase: 1,
+      current_impl_phase_name: phases[0]?.name || '',
+    };
+
+    this.dirty = true;
+    logger.debug(`Set ${phases.length} implementation phases`);
+  }
+
   // =====================================
   // Cost Tracking Methods
   // =====================================
 
   /**
-   * Add cost to totals
+   * Add cost to totals, attributing it to a phase (defaults to the active phase)
    */
-  addCost(tokens: number, costUsd: number): void {
+  addCost(tokens: number, costUsd: number, phase: string = this.getActivePhaseKey()): void {
     const doc = this.getProject();
     doc.meta.cost.total_tokens += tokens;
     doc.meta.cost.total_cost_usd += costUsd;
+    if (costUsd > 0) {
+      const byPhase = doc.meta.cost.by_phase ?? {};
+      byPhase[phase] = (byPhase[phase] ?? 0) + costUsd;
+      doc.meta.cost.by_phase = byPhase;
+    }
 
     this.dirty = true;
     this.emit('cost_updated', {
@@ -534,6 +719,33 @@ export class StateManager {
     };
   }
 
+  /**
+   * Get the key of the phase currently spending money: phase-1..phase-3 or impl-<n>
+   */
+  getActivePhaseKey(): string {
+    const { gates, implementation } = this.getMeta();
+    if (!gates.ideation_complete) return 'phase-1';
+    if (!gates.spec_complete) return 'phase-2';
+    if (!gates.planning_complete) return 'phase-3';
+    return `impl-${implementation?.current_impl_phase ?? 1}`;
+  }
+
+  /**
+   * Throw if spending more would exceed a cap in meta.budget
+   * @throws {BudgetExceededError}
+   */
+  checkBudget(check: Partial<BudgetCheck> = {}): void {
+    const meta = { ...this.getMeta(), budget: this.getConfig().budget };
+    checkBudget(meta, { ...check, phase: check.phase ?? this.getActivePhaseKey() });
+  }
+
+  private getPhaseKeyForTask(taskId: string): string {
+    const phase = this.getProject().implementation_phases.find((p) =>
+      p.tasks.some((t) => t.id === taskId)
+    );
+    return phase ? `impl-${phase.phase_number}` : this.getActivePhaseKey();
+  }
+
   // =====================================
   // Event Methods
   // =====================================
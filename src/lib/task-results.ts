@@ -1,6 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TaskResult } from '../types/index.js';
+import { AttemptLogEntry, TaskResult } from '../types/index.js';
 import { DocumentParseError } from '../types/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -34,6 +34,28 @@ export function isValidTaskResult(obj: unknown): obj is TaskResult {
   // Status must be 'complete' or 'failed'
   if (result.status !== 'complete' && result.status !== 'failed') return false;
 
+  // Failure type must be a known value if present
+  const failureTypes = [
+    'timeout',
+    'agent_error',
+    'validation_failed',
+    'verification_failed',
+    'merge_conflict',
+    'incomplete',
+  ];
+  if (result.failure_type !== undefined && !failureTypes.includes(result.failure_type as string)) {
+    return false;
+  }
+
+  // Result source must be a known value if present
+  if (
+    result.result_source !== undefined &&
+    result.result_source !== 'agent_json' &&
+    result.result_source !== 'output_parse'
+  ) {
+    return false;
+  }
+
   // Optional number fields - check type if present
   const optionalNumbers = [
     'duration_ms',
@@ -55,6 +77,7 @@ export function isValidTaskResult(obj: unknown): obj is TaskResult {
     'key_decisions',
     'assumptions',
     'acceptance_criteria',
+    'attempts',
   ];
   for (const field of optionalArrays) {
     if (result[field] !== undefined && !Array.isArray(result[field])) return false;
@@ -70,6 +93,15 @@ export function isValidTaskResult(obj: unknown): obj is TaskResult {
     if (typeof validation.criteria_passed !== 'number') return false;
   }
 
+  // Verified changes are optional - but check structure if present
+  if (result.verified_changes !== undefined) {
+    if (!result.verified_changes || typeof result.verified_changes !== 'object') return false;
+    const changes = result.verified_changes as Record<string, unknown>;
+    if (!Array.isArray(changes.files)) return false;
+    if (typeof changes.lines_added !== 'number') return false;
+    if (typeof changes.lines_removed !== 'number') return false;
+  }
+
   return true;
 }
 
@@ -107,14 +139,39 @@ export function createTaskResult(taskId: string, taskDescription: string): TaskR
   };
 }
 
+/**
+ * Prompt and transcripts saved with an attempt, each in its own file
+ */
+export interface AttemptArtifacts {
+  prompt?: string;
+  stdout?: string;
+  stderr?: string;
+  validation?: string; // Verification command and validator output
+}
+
+export type AttemptArtifactName = keyof AttemptArtifacts;
+
+export const ATTEMPT_ARTIFACTS: AttemptArtifactName[] = ['prompt', 'stdout', 'stderr', 'validation'];
+
+const ARTIFACT_EXTENSIONS: Record<AttemptArtifactName, string> = {
+  prompt: 'prompt.md',
+  stdout: 'stdout.log',
+  stderr: 'stderr.log',
+  validation: 'validation.log',
+};
+
 /**
  * Manager for task result JSON files in tasks/results/
+ * Attempt logs live in a directory per task: tasks/results/<id>/attempt-N.*
  */
 export class TaskResultManager {
   private resultsDir: string;
+  // Prompts and transcripts stay out of the checkout that task commits come from
+  private attemptsDir: string;
 
   constructor(private projectDir: string) {
     this.resultsDir = path.join(projectDir, 'tasks', 'results');
+    this.attemptsDir = path.join(projectDir, '.orchestrator', 'attempts');
   }
 
   /**
@@ -254,6 +311,98 @@ export class TaskResultManager {
     }
   }
 
+  /**
+   * Directory holding a task's attempt logs
+   */
+  getAttemptDir(taskId: string): string {
+    return path.join(this.attemptsDir, taskId);
+  }
+
+  /**
+   * Get the file path of one part of an attempt
+   * Task ID "2.3", attempt 2, stdout → "2.3/attempt-2.stdout.log"
+   */
+  getAttemptPath(taskId: string, attempt: number, artifact?: AttemptArtifactName): string {
+    const suffix = artifact ? ARTIFACT_EXTENSIONS[artifact] : 'json';
+    return path.join(this.getAttemptDir(taskId), `attempt-${attempt}.${suffix}`);
+  }
+
+  /**
+   * Persist an attempt after the task's earlier ones, so re-runs never overwrite history
+   * Empty artifacts are not written
+   */
+  async writeAttempt(
+    entry: Omit<AttemptLogEntry, 'attempt' | 'files'>,
+    artifacts: AttemptArtifacts
+  ): Promise<AttemptLogEntry> {
+    const existing = await this.listAttempts(entry.task_id);
+    const attempt = existing.reduce((max, e) => Math.max(max, e.attempt), 0) + 1;
+
+    await fs.mkdir(this.getAttemptDir(entry.task_id), { recursive: true });
+
+    const files: string[] = [];
+    for (const name of ATTEMPT_ARTIFACTS) {
+      const content = artifacts[name];
+      if (!content) continue;
+      const filePath = this.getAttemptPath(entry.task_id, attempt, name);
+      await fs.writeFile(filePath, content, 'utf-8');
+      files.push(path.basename(filePath));
+    }
+
+    const logEntry: AttemptLogEntry = { ...entry, attempt, files };
+    const filePath = this.getAttemptPath(entry.task_id, attempt);
+    await fs.writeFile(filePath, JSON.stringify(logEntry, null, 2), 'utf-8');
+    logger.debug(`Wrote attempt log: ${filePath}`);
+
+    return logEntry;
+  }
+
+  /**
+   * Read the metadata of every logged attempt for a task, oldest first
+   */
+  async listAttempts(taskId: string): Promise<AttemptLogEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.getAttemptDir(taskId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AttemptLogEntry[] = [];
+    for (const file of files) {
+      if (!/^attempt-\d+\.json$/.test(file)) continue;
+      try {
+        const content = await fs.readFile(path.join(this.getAttemptDir(taskId), file), 'utf-8');
+        entries.push(JSON.parse(content) as AttemptLogEntry);
+      } catch (error) {
+        logger.warn(`Failed to parse attempt log ${file}: ${(error as Error).message}`);
+      }
+    }
+
+    return entries.sort((a, b) => a.attempt - b.attempt);
+  }
+
+  /**
+   * Read one part of an attempt; null if it was not written
+   */
+  async readAttemptArtifact(
+    taskId: string,
+    attempt: number,
+    artifact: AttemptArtifactName
+  ): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getAttemptPath(taskId, attempt, artifact), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get total cost from all task results
    */
@@ -0,0 +1,471 @@
+/**
+ * Dashboard
+ * Full-screen live view of an implementation run, driven by Orchestrator events
+ */
+
+import * as readline from 'readline';
+import chalk from 'chalk';
+import type { EventEmitter } from 'events';
+import type { ImplementationPhase, TaskStatus } from '../../types/index.js';
+import type { OrchestratorEvent } from '../execution/orchestrator.js';
+import { formatDuration, setOutputHandler } from './terminal.js';
+import { ANSI_PATTERN, stripAnsi } from '../../utils/ansi.js';
+
+export interface DashboardOptions {
+  output?: NodeJS.WriteStream;
+  input?: NodeJS.ReadStream;
+  refreshMs?: number; // Redraw interval for elapsed times
+  tailLines?: number; // Output lines kept per task
+  logLines?: number; // Recent messages shown under the output pane
+}
+
+interface DashboardTask {
+  id: string;
+  description: string;
+  status: TaskStatus;
+  attempt: number;
+  validating: boolean;
+  startedAt?: number;
+  finishedAt?: number;
+  output: string[];
+  partialLine: string;
+  scroll: number; // Lines scrolled up from the tail; 0 follows new output
+}
+
+interface DashboardPhase {
+  phaseNumber: number;
+  name: string;
+  state: 'pending' | 'running' | 'complete' | 'failed';
+  tasks: DashboardTask[];
+}
+
+// Raw escape sequences; the dashboard draws into the alternate screen buffer
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CURSOR_HOME = '\x1b[H';
+const CLEAR_LINE = '\x1b[K';
+const CLEAR_BELOW = '\x1b[J';
+
+const MIN_OUTPUT_LINES = 5;
+
+/**
+ * Live TUI for implementation runs: phase tree, running tasks and a scrollable output tail
+ * Use Dashboard.isSupported() and keep the plain terminal output when it returns false
+ */
+export class Dashboard {
+  private options: Required<Omit<DashboardOptions, 'input'>> & { input?: NodeJS.ReadStream };
+  private phases: DashboardPhase[];
+  private tasks = new Map<string, DashboardTask>();
+  private log: string[] = [];
+  private selectedTaskId?: string;
+  private startedAt = Date.now();
+  private timer?: NodeJS.Timeout;
+  private active = false;
+  private keypressHandler = (_str: string | undefined, key: readline.Key | undefined): void =>
+    this.handleKey(key);
+
+  constructor(phases: ImplementationPhase[], options: DashboardOptions = {}) {
+    this.options = {
+      output: options.output || process.stdout,
+      input: options.input ?? process.stdin,
+      refreshMs: options.refreshMs || 500,
+      tailLines: options.tailLines || 500,
+      logLines: options.logLines || 4,
+    };
+
+    this.phases = phases.map((phase) => ({
+      phaseNumber: phase.phase_number,
+      name: phase.name,
+      state: 'pending',
+      tasks: phase.tasks.map((task) => {
+        const entry: DashboardTask = {
+          id: task.id,
+          description: task.description,
+          status: task.status,
+          attempt: 0,
+          validating: false,
+          output: [],
+          partialLine: '',
+          scroll: 0,
+        };
+        this.tasks.set(task.id, entry);
+        return entry;
+      }),
+    }));
+  }
+
+  /**
+   * Whether the output stream can host the dashboard
+   */
+  static isSupported(output: NodeJS.WriteStream = process.stdout): boolean {
+    return !!output.isTTY;
+  }
+
+  /**
+   * Follow an orchestrator's event stream
+   */
+  attach(orchestrator: EventEmitter): void {
+    orchestrator.on('event', (event: OrchestratorEvent) => this.handleEvent(event));
+  }
+
+  /**
+   * Take over the screen; terminal messages are collected into the log pane
+   */
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.startedAt = Date.now();
+
+    setOutputHandler((line) => this.addLog(line));
+    this.options.output.write(ENTER_SCREEN);
+
+    const input = this.options.input;
+    if (input?.isTTY) {
+      readline.emitKeypressEvents(input);
+      input.setRawMode(true);
+      input.on('keypress', this.keypressHandler);
+      input.resume();
+    }
+
+    this.timer = setInterval(() => this.draw(), this.options.refreshMs);
+    this.timer.unref();
+    this.draw();
+  }
+
+  /**
+   * Restore the screen and replay the collected log so it stays in the scrollback
+   */
+  stop(): void {
+    if (!this.active) return;
+    this.active = false;
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    const input = this.options.input;
+    if (input?.isTTY) {
+      input.off('keypress', this.keypressHandler);
+      input.setRawMode(false);
+      input.pause();
+    }
+
+    this.options.output.write(LEAVE_SCREEN);
+    setOutputHandler(null);
+    for (const line of this.log) {
+      console.log(line);
+    }
+  }
+
+  /**
+   * Apply an orchestrator event to the view
+   */
+  handleEvent(event: OrchestratorEvent): void {
+    const phaseEvent = event.phaseEvent;
+    if (!phaseEvent) return;
+
+    const phase = this.phases.find((p) => p.phaseNumber === phaseEvent.phaseNumber);
+
+    if (phaseEvent.type === 'phase_start' && phase) {
+      phase.state = 'running';
+    } else if (phaseEvent.type === 'phase_complete' && phase) {
+      phase.state = 'complete';
+    } else if (phaseEvent.type === 'phase_fail' && phase) {
+      phase.state = 'failed';
+    } else if (phaseEvent.type === 'task_event' && phaseEvent.taskEvent) {
+      const { type, taskId, message } = phaseEvent.taskEvent;
+      const task = this.tasks.get(taskId);
+      if (!task) return;
+
+      switch (type) {
+        case 'start':
+          task.status = 'in_progress';
+          task.attempt = 1;
+          task.startedAt = Date.now();
+          task.finishedAt = undefined;
+          this.selectedTaskId ??= taskId;
+          break;
+        case 'progress':
+          this.appendOutput(task, message || '');
+          break;
+        case 'validate':
+          task.validating = true;
+          break;
+        case 'retry':
+          task.attempt++;
+          task.validating = false;
+          this.appendOutput(task, `\n--- attempt ${task.attempt} ---\n`);
+          break;
+        case 'complete':
+        case 'fail':
+          task.status = type === 'complete' ? 'complete' : 'failed';
+          task.validating = false;
+          task.finishedAt = Date.now();
+          if (this.selectedTaskId === taskId) {
+            this.selectedTaskId = this.getRunningTasks()[0]?.id ?? taskId;
+          }
+          break;
+      }
+    }
+
+    // Output chunks can arrive in bursts; the refresh timer picks them up
+    if (this.active && phaseEvent.taskEvent?.type !== 'progress') {
+      this.draw();
+    }
+  }
+
+  /**
+   * Build the current frame, one string per screen row
+   */
+  render(columns: number = 80, rows: number = 24): string[] {
+    const now = Date.now();
+    const running = this.getRunningTasks();
+    const allTasks = [...this.tasks.values()];
+    const done = allTasks.filter((t) => t.status === 'complete' || t.status === 'skipped').length;
+    const failed = allTasks.filter((t) => t.status === 'failed').length;
+
+    const header = [
+      chalk.bold(`Implementation · ${formatDuration((now - this.startedAt) / 1000)} elapsed`),
+      `${done}/${allTasks.length} tasks done · ${running.length} running · ${failed} failed`,
+      '',
+    ];
+
+    const tree = this.renderPhaseTree(now);
+    const runningLines = this.renderRunning(running, now);
+    const log = this.log.slice(-this.options.logLines);
+    const footer = chalk.gray('Tab: next task  ↑/↓ PgUp/PgDn: scroll output  End: follow');
+
+    // Output pane gets whatever the fixed sections leave, but never less than a few lines
+    const fixed = header.length + runningLines.length + 1 + (log.length ? log.length + 2 : 0) + 2;
+    const treeBudget = Math.max(2, rows - fixed - MIN_OUTPUT_LINES - 1);
+    const treeLines = tree.length > treeBudget ? this.fitTree(tree, treeBudget) : tree;
+    const outputHeight = Math.max(MIN_OUTPUT_LINES, rows - fixed - treeLines.length - 1);
+
+    const lines = [
+      ...header,
+      ...treeLines,
+      '',
+      ...runningLines,
+      ...this.renderOutput(outputHeight),
+    ];
+    if (log.length) {
+      lines.push('', chalk.bold('Log'), ...log);
+    }
+    lines.push('', footer);
+
+    return lines.slice(0, rows).map((line) => truncate(line, columns));
+  }
+
+  /**
+   * Id of the task whose output pane is shown
+   */
+  getSelectedTaskId(): string | undefined {
+    return this.selectedTaskId;
+  }
+
+  /**
+   * Move the output pane up (positive) or down (negative) by a number of lines
+   */
+  scroll(lines: number): void {
+    const task = this.selectedTaskId ? this.tasks.get(this.selectedTaskId) : undefined;
+    if (!task) return;
+    const maxScroll = Math.max(0, this.getOutputLines(task).length - 1);
+    task.scroll = Math.min(maxScroll, Math.max(0, task.scroll + lines));
+  }
+
+  /**
+   * Show the next running task's output (falls back to all started tasks)
+   */
+  selectNextTask(): void {
+    const candidates = this.getRunningTasks();
+    const pool =
+      candidates.length > 0 ? candidates : [...this.tasks.values()].filter((t) => t.startedAt);
+    if (pool.length === 0) return;
+    const index = pool.findIndex((t) => t.id === this.selectedTaskId);
+    this.selectedTaskId = pool[(index + 1) % pool.length]?.id;
+  }
+
+  private handleKey(key: readline.Key | undefined): void {
+    if (!key) return;
+
+    if (key.ctrl && key.name === 'c') {
+      // Raw mode swallows SIGINT; restore the terminal before exiting
+      this.stop();
+      process.exit(130);
+    }
+
+    const page = Math.max(1, (this.options.output.rows || 24) - 10);
+    switch (key.name) {
+      case 'tab':
+        this.selectNextTask();
+        break;
+      case 'up':
+        this.scroll(1);
+        break;
+      case 'down':
+        this.scroll(-1);
+        break;
+      case 'pageup':
+        this.scroll(page);
+        break;
+      case 'pagedown':
+        this.scroll(-page);
+        break;
+      case 'end': {
+        const task = this.selectedTaskId ? this.tasks.get(this.selectedTaskId) : undefined;
+        if (task) task.scroll = 0;
+        break;
+      }
+      default:
+        return;
+    }
+    this.draw();
+  }
+
+  private draw(): void {
+    if (!this.active) return;
+    const output = this.options.output;
+    const lines = this.render(output.columns || 80, output.rows || 24);
+    output.write(CURSOR_HOME + lines.map((line) => line + CLEAR_LINE).join('\n') + CLEAR_BELOW);
+  }
+
+  private addLog(line: string): void {
+    if (!line.trim()) return;
+    this.log.push(line);
+    if (this.log.length > 200) {
+      this.log.shift();
+    }
+  }
+
+  private appendOutput(task: DashboardTask, chunk: string): void {
+    const parts = (task.partialLine + chunk).split('\n');
+    task.partialLine = parts.pop() ?? '';
+    task.output.push(...parts);
+    if (task.output.length > this.options.tailLines) {
+      task.output.splice(0, task.output.length - this.options.tailLines);
+    }
+  }
+
+  private getOutputLines(task: DashboardTask): string[] {
+    return task.partialLine ? [...task.output, task.partialLine] : task.output;
+  }
+
+  private getRunningTasks(): DashboardTask[] {
+    return [...this.tasks.values()].filter((t) => t.status === 'in_progress');
+  }
+
+  private renderPhaseTree(now: number): string[] {
+    const lines = [chalk.bold('Phases')];
+
+    for (const phase of this.phases) {
+      const done = phase.tasks.filter((t) => t.status === 'complete' || t.status === 'skipped');
+      const label = `${phase.phaseNumber}. ${phase.name} (${done.length}/${phase.tasks.length})`;
+      lines.push(`  ${formatPhaseState(phase.state)} ${label}`);
+
+      // Only the active phase is expanded to keep the tree short
+      if (phase.state === 'running' || phase.state === 'failed') {
+        for (const task of phase.tasks) {
+          lines.push(`      ${formatTaskLine(task, now)}`);
+        }
+      }
+    }
+
+    return lines;
+  }
+
+  private fitTree(tree: string[], budget: number): string[] {
+    const hidden = tree.length - budget + 1;
+    return [...tree.slice(0, budget - 1), chalk.gray(`  … ${hidden} more`)];
+  }
+
+  private renderRunning(running: DashboardTask[], now: number): string[] {
+    const lines = [chalk.bold('Running')];
+    if (running.length === 0) {
+      lines.push(chalk.gray('  (none)'));
+    }
+    for (const task of running) {
+      const marker = task.id === this.selectedTaskId ? chalk.cyan('›') : ' ';
+      lines.push(`${marker} ${formatTaskLine(task, now)}`);
+    }
+    lines.push('');
+    return lines;
+  }
+
+  private renderOutput(height: number): string[] {
+    const task = this.selectedTaskId ? this.tasks.get(this.selectedTaskId) : undefined;
+    if (!task) {
+      return [chalk.bold('Output'), chalk.gray('  Waiting for a task to start…')];
+    }
+
+    const all = this.getOutputLines(task);
+    const end = all.length - task.scroll;
+    const start = Math.max(0, end - (height - 1));
+    const position =
+      task.scroll > 0 ? ` (lines ${start + 1}-${end} of ${all.length}, End to follow)` : '';
+
+    return [
+      chalk.bold(`Output · ${task.id}${position}`),
+      ...all.slice(start, end).map((line) => '  ' + line),
+    ];
+  }
+}
+
+function formatPhaseState(state: DashboardPhase['state']): string {
+  switch (state) {
+    case 'running':
+      return chalk.blue('▶');
+    case 'complete':
+      return chalk.green('✔');
+    case 'failed':
+      return chalk.red('✖');
+    default:
+      return chalk.gray('○');
+  }
+}
+
+function formatTaskLine(task: DashboardTask, now: number): string {
+  const symbols: Record<TaskStatus, string> = {
+    pending: chalk.gray('·'),
+    in_progress: chalk.blue('▶'),
+    complete: chalk.green('✔'),
+    failed: chalk.red('✖'),
+    skipped: chalk.yellow('»'),
+  };
+
+  const details: string[] = [];
+  if (task.startedAt) {
+    details.push(formatDuration(((task.finishedAt ?? now) - task.startedAt) / 1000));
+  }
+  if (task.attempt > 1) {
+    details.push(`attempt ${task.attempt}`);
+  }
+  if (task.validating && task.status === 'in_progress') {
+    details.push('validating');
+  }
+
+  const suffix = details.length ? chalk.gray(`  ${details.join(' · ')}`) : '';
+  return `${symbols[task.status]} ${task.id} ${task.description}${suffix}`;
+}
+
+/**
+ * Cut a line to the screen width, ignoring color codes when counting
+ */
+function truncate(line: string, columns: number): string {
+  if (stripAnsi(line).length <= columns) return line;
+
+  let width = 0;
+  let result = '';
+  const tokens = line.split(new RegExp(`(${ANSI_PATTERN.source})`));
+  for (const token of tokens) {
+    if (token.startsWith('\x1b[')) {
+      result += token;
+      continue;
+    }
+    const room = columns - 1 - width;
+    if (room <= 0) continue;
+    result += token.slice(0, room);
+    width += Math.min(token.length, room);
+  }
+  return result + '…\x1b[0m';
+}
@@ -106,55 +106,73 @@ export async function select<T>(
 
 // === Output ===
 
+let outputHandler: ((line: string) => void) | null = null;
+
+/**
+ * Send printed lines to a handler instead of stdout (e.g. while a dashboard owns the screen)
+ * Pass null to restore normal output
+ */
+export function setOutputHandler(handler: ((line: string) => void) | null): void {
+  outputHandler = handler;
+}
+
+function writeLine(line: string = ''): void {
+  if (outputHandler) {
+    outputHandler(line);
+  } else {
+    console.log(line);
+  }
+}
+
 /**
  * Print bold, underlined header
  */
 export function printHeader(title: string): void {
-  console.log();
-  console.log(chalk.bold.underline(title));
-  console.log();
+  writeLine();
+  writeLine(chalk.bold.underline(title));
+  writeLine();
 }
 
 /**
  * Print section with title and indented content
  */
 export function printSection(title: string, content: string): void {
-  console.log(chalk.bold(title + ':'));
+  writeLine(chalk.bold(title + ':'));
   if (content) {
     const lines = content.split('\n');
     lines.forEach((line) => {
-      console.log('  ' + line);
+      writeLine('  ' + line);
     });
   }
-  console.log();
+  writeLine();
 }
 
 /**
  * Print success message with green checkmark
  */
 export function printSuccess(message: string): void {
-  console.log(chalk.green('✔') + ' ' + message);
+  writeLine(chalk.green('✔') + ' ' + message);
 }
 
 /**
  * Print error message with red X
  */
 export function printError(message: string): void {
-  console.log(chalk.red('✖') + ' ' + chalk.red(message));
+  writeLine(chalk.red('✖') + ' ' + chalk.red(message));
 }
 
 /**
  * Print warning message with yellow warning
  */
 export function printWarning(message: string): void {
-  console.log(chalk.yellow('⚠') + ' ' + chalk.yellow(message));
+  writeLine(chalk.yellow('⚠') + ' ' + chalk.yellow(message));
 }
 
 /**
  * Print info message with blue info
  */
 export function printInfo(message: string): void {
-  console.log(chalk.blue('ℹ') + ' ' + message);
+  writeLine(chalk.blue('ℹ') + ' ' + message);
 }
 
 // === Progress ===
@@ -186,7 +204,7 @@ export function printProgress(
   const percentStr = percentage.toString().padStart(3) + '%';
 
   const output = `[${bar}] ${percentStr}${label ? ' ' + label : ''}`;
-  console.log(output);
+  writeLine(output);
 }
 
 // === Streaming ===
@@ -56,7 +56,7 @@ export function updateProjectTask(
 export function updateProjectApproval(
   original: string,
   phase: string,
-  status: 'pending' | 'approved',
+  status: Approval['status'],
   notes?: string
 ): string {
   const doc = parseProjectMd(original);
@@ -66,6 +66,8 @@ export function updateProjectApproval(
     approval.status = status;
     if (status === 'approved') {
       approval.approved_at = new Date().toISOString();
+    } else if (status === 'rejected') {
+      approval.rejected_at = new Date().toISOString();
     }
     if (notes) {
       approval.notes = notes;
@@ -76,6 +78,7 @@ export function updateProjectApproval(
       phase,
       status,
       approved_at: status === 'approved' ? new Date().toISOString() : undefined,
+      rejected_at: status === 'rejected' ? new Date().toISOString() : undefined,
       notes,
     });
   }
@@ -276,13 +279,26 @@ function buildImplementationPhasesSection(phases: ImplementationPhase[]): string
     }
 
     if (phase.tasks.length > 0) {
-      lines.push('| ID | Description | Status | Depends On | Acceptance Criteria |');
-      lines.push('|----|-------------|--------|------------|---------------------|');
+      // The Timeout column is only written when a task in the phase overrides the default
+      const hasTimeouts = phase.tasks.some((t) => t.timeout_minutes !== undefined);
+      if (hasTimeouts) {
+        lines.push('| ID | Description | Status | Depends On | Acceptance Criteria | Timeout |');
+        lines.push('|----|-------------|--------|------------|---------------------|---------|');
+      } else {
+        lines.push('| ID | Description | Status | Depends On | Acceptance Criteria |');
+        lines.push('|----|-------------|--------|------------|---------------------|');
+      }
       for (const task of phase.tasks) {
         const deps = task.depends_on.length > 0 ? task.depends_on.join(', ') : '-';
         const statusDisplay = formatTaskStatus(task.status);
         const criteria = task.acceptance_criteria.length > 0 ? task.acceptance_criteria.join('; ') : '-';
-        lines.push(`| ${task.id} | ${task.description} | ${statusDisplay} | ${deps} | ${criteria} |`);
+        const row = `| ${task.id} | ${task.description} | ${statusDisplay} | ${deps} | ${criteria} |`;
+        if (hasTimeouts) {
+          const timeout = task.timeout_minutes !== undefined ? `${task.timeout_minutes}m` : '-';
+          lines.push(`${row} ${timeout} |`);
+        } else {
+          lines.push(row);
+        }
       }
       lines.push('');
     }
@@ -325,7 +341,7 @@ function buildApprovalsSection(approvals: Approval[]): string {
   for (const phase of phases) {
     const approval = approvals.find((a) => a.phase === phase);
     if (approval) {
-      const at = approval.approved_at || '-';
+      const at = approval.approved_at || approval.rejected_at || '-';
       const notes = approval.notes || '-';
       lines.push(`| ${approval.phase} | ${approval.status} | ${at} | ${notes} |`);
     } else {
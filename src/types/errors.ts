@@ -135,6 +135,17 @@ export class TaskExecutionError extends OrchestratorError {
       details,
     });
   }
+
+  static unknownAgent(name: string, available: string[]): TaskExecutionError {
+    return new TaskExecutionError(
+      `Unknown agent backend: ${name} (available: ${available.join(', ') || 'none'})`,
+      {
+        type: 'unknown_agent',
+        name,
+        available,
+      }
+    );
+  }
 }
 
 /**
@@ -237,4 +248,129 @@ export class LLMError extends OrchestratorError {
       details,
     });
   }
+
+  static fixtureMissing(conversation: string, fixturePath: string): LLMError {
+    return new LLMError(`No replay fixture for ${conversation} conversation: ${fixturePath}`, {
+      type: 'fixture_missing',
+      conversation,
+      fixturePath,
+    });
+  }
+
+  static cassetteNotFound(cassettePath: string): LLMError {
+    return new LLMError(`Cassette not found: ${cassettePath}`, {
+      type: 'cassette_not_found',
+      cassettePath,
+    });
+  }
+
+  static cassetteMismatch(index: number, field: string): LLMError {
+    return new LLMError(
+      `Cassette mismatch at interaction ${index + 1}: request ${field} differs from recording`,
+      {
+        type: 'cassette_mismatch',
+        index,
+        field,
+      }
+    );
+  }
+
+  static cassetteExhausted(cassettePath: string, recorded: number): LLMError {
+    return new LLMError(
+      `Cassette exhausted: ${cassettePath} has only ${recorded} recorded interactions`,
+      {
+        type: 'cassette_exhausted',
+        cassettePath,
+        recorded,
+      }
+    );
+  }
+}
+
+/**
+ * Error thrown when a spending cap would be exceeded
+ * The run pauses with state saved; raise the limit and resume to continue
+ */
+export class BudgetExceededError extends OrchestratorError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'BUDGET_EXCEEDED', context);
+    this.name = 'BudgetExceededError';
+  }
+
+  /**
+   * @param pendingUsd spend included in spentUsd that is not yet recorded in meta.cost
+   */
+  static project(limitUsd: number, spentUsd: number, pendingUsd: number = 0): BudgetExceededError {
+    return new BudgetExceededError(
+      `Project budget of $${limitUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent)`,
+      { type: 'project', limitUsd, spentUsd, pendingUsd, key: 'budget.project_usd' }
+    );
+  }
+
+  static phase(
+    phase: string,
+    limitUsd: number,
+    spentUsd: number,
+    pendingUsd: number = 0
+  ): BudgetExceededError {
+    return new BudgetExceededError(
+      `Budget of $${limitUsd.toFixed(2)} for ${phase} reached ($${spentUsd.toFixed(4)} spent)`,
+      { type: 'phase', phase, limitUsd, spentUsd, pendingUsd, key: 'budget.phase_usd' }
+    );
+  }
+
+  static task(
+    taskId: string,
+    limitUsd: number,
+    spentUsd: number,
+    pendingUsd: number = 0
+  ): BudgetExceededError {
+    return new BudgetExceededError(
+      `Budget of $${limitUsd.toFixed(2)} for task ${taskId} reached ($${spentUsd.toFixed(4)} spent)`,
+      { type: 'task', taskId, limitUsd, spentUsd, pendingUsd, key: 'budget.task_usd' }
+    );
+  }
+}
+
+/**
+ * Error thrown when a configuration key or value is invalid
+ */
+export class ConfigError extends OrchestratorError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'CONFIG_ERROR', context);
+    this.name = 'ConfigError';
+  }
+
+  static unknownKey(key: string, available: string[]): ConfigError {
+    return new ConfigError(`Unknown config key: ${key}`, {
+      type: 'unknown_key',
+      key,
+      available,
+    });
+  }
+
+  static invalidFile(filePath: string, reason: string): ConfigError {
+    return new ConfigError(`Invalid config file ${filePath}: ${reason}`, {
+      type: 'invalid_file',
+      filePath,
+      reason,
+    });
+  }
+
+  static invalidAnswers(filePath: string, reason: string): ConfigError {
+    return new ConfigError(`Invalid answers file ${filePath}: ${reason}`, {
+      type: 'invalid_answers',
+      filePath,
+      reason,
+    });
+  }
+
+  static invalidValue(key: string, value: string, expected: string): ConfigError {
+    return new ConfigError(`Invalid value for ${key}: "${value}" (expected ${expected})`, {
+      type: 'invalid_value',
+      key,
+      value,
+      expected,
+    });
+  }
 }
@@ -24,17 +24,31 @@ export interface ImplementationProgress {
 export interface CostTracking {
   total_tokens: number;
   total_cost_usd: number;
+  // Spend per phase, keyed like approvals: phase-1..phase-3, impl-<n>
+  by_phase?: Record<string, number>;
+}
+
+/**
+ * Spending caps in USD; a missing or non-positive limit is not enforced
+ */
+export interface BudgetConfig {
+  project_usd?: number;
+  phase_usd?: number;
+  task_usd?: number;
 }
 
 export interface AgentConfig {
-  primary: 'claude-code';
+  // Name of a registered agent backend (see lib/execution/agent-registry.ts)
+  primary: string;
   timeout_minutes: number;
+  context_tokens: number; // Budget for task prompts; older and less relevant context is trimmed
 }
 
 export interface ProjectMeta {
   version: number;
   project_id: string;
   project_name: string;
+  idea?: string; // The idea given to init, which phase 1 starts from
   created: string;
   updated: string;
   current_phase: 1 | 2 | 3 | 'implementation';
@@ -43,7 +57,13 @@ export interface ProjectMeta {
   gates: PhaseGates;
   implementation?: ImplementationProgress;
   cost: CostTracking;
-  agent: AgentConfig;
+  budget?: BudgetConfig;
+  // Project-level settings; anything unset comes from the user config file or DEFAULT_CONFIG
+  agent?: Partial<AgentConfig>;
+  git?: Partial<GitConfig>;
+  llm?: Partial<LLMConfig>;
+  execution?: Partial<ExecutionConfig>;
+  verification?: Partial<VerificationConfig>;
 }
 
 export type TaskStatus = 'pending' | 'in_progress' | 'complete' | 'failed' | 'skipped';
@@ -54,6 +74,7 @@ export interface Task {
   status: TaskStatus;
   depends_on: string[];
   acceptance_criteria: string[];
+  timeout_minutes?: number; // Overrides agent.timeout_minutes for this task (Timeout column)
   started_at?: string;
   completed_at?: string;
   duration_seconds?: number;
@@ -72,9 +93,10 @@ export interface ImplementationPhase {
 
 export interface Approval {
   phase: string;
-  status: 'pending' | 'approved';
+  status: 'pending' | 'approved' | 'rejected';
   approved_at?: string;
-  notes?: string;
+  rejected_at?: string;
+  notes?: string; // Reviewer feedback for a rejection
 }
 
 export interface IdeationContent {
@@ -135,6 +157,84 @@ export interface ValidationResult {
   criteria_passed: number;
 }
 
+/**
+ * Why a task attempt failed
+ */
+export type TaskFailureType =
+  | 'timeout'
+  | 'agent_error'
+  | 'validation_failed'
+  | 'verification_failed'
+  | 'merge_conflict' // A parallel task's branch could not be merged back
+  | 'incomplete';
+
+/**
+ * Where a task result came from: the agent's tasks/results JSON file or scraped stdout
+ */
+export type TaskResultSource = 'agent_json' | 'output_parse';
+
+export interface FileChange {
+  path: string;
+  change: 'created' | 'modified' | 'deleted';
+  lines_added: number;
+  lines_removed: number;
+}
+
+/**
+ * What a task actually changed according to git, compared with what the agent claimed
+ */
+export interface ChangeVerification {
+  files: FileChange[];
+  lines_added: number;
+  lines_removed: number;
+  unreported: string[]; // Changed but not claimed
+  unchanged_claims: string[]; // Claimed but not changed
+  no_changes: boolean; // Claimed success without changing any file
+}
+
+/**
+ * How a retry treats the previous attempt's changes: build on them or start over
+ * from the commit the task started at
+ */
+export type RetryStrategy = 'continue' | 'reset';
+
+/**
+ * One attempt at a task, kept in the result's history
+ */
+export interface TaskAttempt {
+  attempt: number; // 1-based
+  strategy?: RetryStrategy; // Unset for the first attempt
+  started_at: string;
+  duration_ms: number;
+  status: 'complete' | 'failed';
+  failure_type?: TaskFailureType;
+  failure_reason?: string;
+  summary?: string;
+  files_changed?: string[];
+  tokens_used?: number;
+  cost_usd?: number;
+  transcript?: string; // Agent output, truncated
+}
+
+/**
+ * Metadata of one attempt persisted under .orchestrator/attempts/<id>/attempt-N.json
+ * Its prompt and transcripts sit next to it; `files` names them
+ */
+export interface AttemptLogEntry {
+  task_id: string;
+  attempt: number; // Numbered across every run of the task
+  strategy?: RetryStrategy;
+  started_at: string;
+  duration_ms: number;
+  exit_code: number;
+  timed_out: boolean;
+  status: 'complete' | 'failed';
+  failure_type?: TaskFailureType;
+  failure_reason?: string;
+  summary?: string;
+  files: string[];
+}
+
 export interface TaskResult {
   task_id: string;
   status: 'complete' | 'failed';
@@ -151,6 +251,7 @@ export interface TaskResult {
   files_created?: string[];
   files_modified?: string[];
   files_deleted?: string[];
+  verified_changes?: ChangeVerification; // Set when git is enabled
   // Test results
   tests_passed?: boolean;
   tests_added?: number;
@@ -170,6 +271,10 @@ export interface TaskResult {
   commit_hash?: string;
   // Error info
   failure_reason?: string;
+  failure_type?: TaskFailureType;
+  result_source?: TaskResultSource;
+  // Every attempt, oldest first
+  attempts?: TaskAttempt[];
 }
 
 // ============================================
@@ -188,28 +293,62 @@ export interface LLMConfig {
   max_tokens: number;
 }
 
+export interface ExecutionConfig {
+  max_retries: number;
+  retry_strategy: RetryStrategy | 'auto'; // auto resets after timeouts and agent errors
+  parallel: boolean;
+  max_parallel: number;
+  validate_results: boolean;
+}
+
+/**
+ * Project commands run after every task; an empty command is skipped
+ */
+export interface VerificationConfig {
+  typecheck: string;
+  lint: string;
+  test: string;
+  timeout_minutes: number;
+}
+
 export interface OrchestratorConfig {
   project_dir: string;
   agent: AgentConfig;
   git: GitConfig;
   llm: LLMConfig;
+  execution: ExecutionConfig;
+  verification: VerificationConfig;
 }
 
 export const DEFAULT_CONFIG: Omit<OrchestratorConfig, 'project_dir'> = {
   agent: {
     primary: 'claude-code',
     timeout_minutes: 10,
+    context_tokens: 24000,
   },
   git: {
     enabled: true,
     auto_commit: true,
-    branch_prefix: 'phase-',
+    branch_prefix: 'impl',
   },
   llm: {
     provider: 'anthropic',
     model: 'claude-sonnet-4-20250514',
     max_tokens: 8192,
   },
+  execution: {
+    max_retries: 2,
+    retry_strategy: 'auto',
+    parallel: false,
+    max_parallel: 2,
+    validate_results: true,
+  },
+  verification: {
+    typecheck: '',
+    lint: '',
+    test: '',
+    timeout_minutes: 10,
+  },
 };
 
 // ============================================
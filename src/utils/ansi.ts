@@ -0,0 +1,14 @@
+// Built from the character code so the pattern needs no control character literal
+const ESC = String.fromCharCode(27);
+
+/**
+ * Colour and style escape sequences, e.g. ESC[31m
+ */
+export const ANSI_PATTERN = new RegExp(`${ESC}\\[[0-9;]*m`, 'g');
+
+/**
+ * Text as it shows on screen, without colour and style escapes
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
@@ -113,7 +113,8 @@ export async function validateProjectDir(dir: string): Promise<{
  */
 export async function initProjectDir(
   dir: string,
-  projectName: string
+  projectName: string,
+  idea: string = projectName
 ): Promise<ProjectPaths> {
   const paths = getProjectPaths(dir);
 
@@ -141,6 +142,8 @@ export async function initProjectDir(
 
   const projectMdContent = INITIAL_PROJECT_MD.replace('{{PROJECT_ID}}', projectId)
     .replace('{{PROJECT_NAME}}', projectName)
+    // A JSON string is a valid YAML double-quoted scalar, whatever the idea contains
+    .replace('{{IDEA}}', JSON.stringify(idea))
     .replace(/\{\{TIMESTAMP\}\}/g, timestamp);
 
   await fs.writeFile(paths.projectMd, projectMdContent, 'utf-8');
@@ -16,6 +16,7 @@ export const INITIAL_PROJECT_MD = `---
 version: 1
 project_id: "{{PROJECT_ID}}"
 project_name: "{{PROJECT_NAME}}"
+idea: {{IDEA}}
 created: "{{TIMESTAMP}}"
 updated: "{{TIMESTAMP}}"
 current_phase: 1
@@ -31,9 +32,6 @@ gates:
 cost:
   total_tokens: 0
   total_cost_usd: 0
-agent:
-  primary: "claude-code"
-  timeout_minutes: 10
 ---
 
 # {{PROJECT_NAME}}
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { simpleGit } from 'simple-git';
+import { Pipeline } from '../../src/lib/pipeline.js';
+import { DocumentManager } from '../../src/lib/documents.js';
+import { StateManager } from '../../src/lib/state/state-manager.js';
+import { BudgetExceededError, StateError } from '../../src/types/errors.js';
+import { parseAnswers } from '../../src/lib/answers.js';
+
+vi.mock('../../src/lib/ui/terminal.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/lib/ui/terminal.js')>();
+  return {
+    ...actual,
+    printHeader: vi.fn(),
+    printSection: vi.fn(),
+    printInfo: vi.fn(),
+    printSuccess: vi.fn(),
+    printWarning: vi.fn(),
+    printError: vi.fn(),
+    printProgress: vi.fn(),
+  };
+});
+
+/**
+ * Offline End-to-End Pipeline Test
+ *
+ * Runs every phase and the implementation loop against replayed fixtures,
+ * so no API key or Claude CLI is needed.
+ */
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures/offline-project');
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'Offline Test',
+  GIT_AUTHOR_EMAIL: 'offline@example.com',
+  GIT_COMMITTER_NAME: 'Offline Test',
+  GIT_COMMITTER_EMAIL: 'offline@example.com',
+};
+
+describe('Offline Pipeline E2E', () => {
+  let testDir: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const [key, value] of Object.entries(GIT_IDENTITY)) {
+      savedEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+  });
+
+  afterAll(() => {
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  beforeEach(async () => {
+    // Outside the repo so the pipeline initializes its own git repository
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'offline-e2e-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should run a full project from replayed fixtures', async () => {
+    const pipeline = new Pipeline({
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      fixturesDir: FIXTURES_DIR,
+    });
+
+    const summary = await pipeline.initAndRun('A greeter CLI', 'greeter');
+
+    expect(summary.projectName).toBe('greeter');
+    expect(summary.phasesCompleted).toEqual([
+      'ideation',
+      'specification',
+      'planning',
+      'implementation',
+    ]);
+    expect(summary.tasksCompleted).toBe(3);
+    expect(summary.tasksFailed).toBe(0);
+    // Replay LLM calls are free, so all spend comes from the scripted agent usage
+    expect(summary.totalCost).toBeCloseTo(0.06);
+
+    // Agent edits landed in the project directory
+    const cli = await fs.readFile(path.join(testDir, 'src', 'cli.ts'), 'utf-8');
+    expect(cli).toContain("import { greet } from './greet.js'");
+
+    // PROJECT.md holds the planning content and final task status
+    const doc = await new DocumentManager(testDir).readProject();
+    expect(doc.ideation?.use_cases).toHaveLength(3);
+    expect(doc.specification?.tech_stack.length).toBeGreaterThan(0);
+    expect(doc.implementation_phases.flatMap((p) => p.tasks.map((t) => t.status))).toEqual([
+      'complete',
+      'complete',
+      'complete',
+    ]);
+    expect(doc.meta.current_phase).toBe('implementation');
+    expect(doc.meta.cost.total_cost_usd).toBeCloseTo(0.06);
+    expect(doc.meta.cost.total_tokens).toBeGreaterThanOrEqual(5700);
+
+    // Each task was committed
+    const log = await simpleGit(testDir).log(['--all']);
+    expect(log.all.map((c) => c.message)).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('task-1.1'),
+        expect.stringContaining('task-1.2'),
+        expect.stringContaining('task-2.1'),
+      ])
+    );
+  });
+
+  it('should walk the phases step by step with --until, --only and approvals', async () => {
+    const config = {
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      autoApprove: false,
+      fixturesDir: FIXTURES_DIR,
+    };
+    const documentManager = new DocumentManager(testDir);
+
+    // Without auto-approval the run stops at the first gate
+    const first = await new Pipeline(config).initAndRun('A greeter CLI', 'greeter');
+    expect(first.stoppedAt).toBe('phase-1');
+    expect(first.phasesCompleted).toEqual(['ideation']);
+
+    // Phase 3 cannot run on its own before phases 1 and 2 are approved
+    await expect(new Pipeline(config).resume({ only: 'phase-3' })).rejects.toThrow(
+      'Cannot run only phase-3: phase-1 must be complete and approved first'
+    );
+
+    const approving = { ...config, autoApprove: true };
+    const second = await new Pipeline(approving).resume({ until: 'phase-2' });
+    expect(second.stoppedAt).toBeUndefined();
+    expect(second.phasesCompleted).toEqual(['ideation', 'specification']);
+    let doc = await documentManager.readProject();
+    expect(doc.meta.gates.spec_approved).toBe(true);
+    expect(doc.meta.gates.planning_complete).toBe(false);
+
+    const third = await new Pipeline(approving).resume({ only: 'phase-3' });
+    expect(third.phasesCompleted).toEqual(['ideation', 'specification', 'planning']);
+    expect(third.tasksCompleted).toBe(0);
+
+    await expect(new Pipeline(approving).resume({ until: 'phase-2' })).rejects.toThrow(
+      StateError
+    );
+
+    const last = await new Pipeline(approving).resume({ only: 'implementation' });
+    expect(last.phasesCompleted).toContain('implementation');
+    expect(last.tasksCompleted).toBe(3);
+    doc = await documentManager.readProject();
+    expect(doc.meta.current_phase).toBe('implementation');
+  });
+
+  it('should rework a rejected plan and replace it', async () => {
+    const config = {
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      autoApprove: true,
+      fixturesDir: FIXTURES_DIR,
+    };
+    await new Pipeline(config).initAndRun('A greeter CLI', 'greeter', { until: 'phase-3' });
+    const documentManager = new DocumentManager(testDir);
+    const planned = await documentManager.readProject();
+
+    const stateManager = new StateManager(documentManager, testDir);
+    await stateManager.load();
+    stateManager.rejectPhase(3, 'Put the tests in their own phase');
+    await stateManager.save();
+
+    let doc = await documentManager.readProject();
+    expect(doc.approvals.find((a) => a.phase === 'Phase 3')).toMatchObject({
+      status: 'rejected',
+      notes: 'Put the tests in their own phase',
+    });
+    expect(doc.meta.gates.planning_complete).toBe(false);
+
+    const summary = await new Pipeline(config).resume({ until: 'phase-3' });
+
+    expect(summary.phasesCompleted).toEqual(['ideation', 'specification', 'planning']);
+    doc = await documentManager.readProject();
+    expect(doc.implementation_phases).toHaveLength(planned.implementation_phases.length);
+    expect(doc.approvals.find((a) => a.phase === 'Phase 3')?.status).toBe('approved');
+    expect(doc.meta.gates.planning_approved).toBe(true);
+  });
+
+  it('should reply from an answers file and stop at the gate it leaves for review', async () => {
+    const answers = parseAnswers({
+      fallback: 'complete',
+      approvals: { 'phase-2': 'stop' },
+      ideation: { questions: [{ match: 'npm', answer: 'Yes, published to npm' }] },
+    });
+    const pipeline = new Pipeline({
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      fixturesDir: FIXTURES_DIR,
+      answers,
+    });
+
+    const summary = await pipeline.initAndRun('A greeter CLI', 'greeter');
+
+    expect(summary.stoppedAt).toBe('phase-2');
+    expect(summary.phasesCompleted).toEqual(['ideation', 'specification']);
+    const doc = await new DocumentManager(testDir).readProject();
+    expect(doc.meta.gates).toMatchObject({
+      ideation_approved: true,
+      spec_complete: true,
+      spec_approved: false,
+      planning_complete: false,
+    });
+  });
+
+  it('should pause on a budget cap and finish after it is raised', async () => {
+    const config = {
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      fixturesDir: FIXTURES_DIR,
+    };
+    await new Pipeline({ ...config, skipImplementation: true }).initAndRun(
+      'A greeter CLI',
+      'greeter'
+    );
+
+    // Phase 1 tasks spend $0.03, so task 2.1 is blocked by a $0.02 cap
+    const documentManager = new DocumentManager(testDir);
+    await documentManager.updateProjectMeta({ budget: { project_usd: 0.02 } });
+
+    await expect(new Pipeline(config).resume()).rejects.toThrow(BudgetExceededError);
+
+    let doc = await documentManager.readProject();
+    expect(doc.implementation_phases.flatMap((p) => p.tasks.map((t) => t.status))).toEqual([
+      'complete',
+      'complete',
+      'pending',
+    ]);
+    expect(doc.meta.cost.total_cost_usd).toBeCloseTo(0.03);
+    expect(doc.meta.cost.by_phase?.['impl-1']).toBeCloseTo(0.03);
+
+    await documentManager.updateProjectMeta({ budget: { project_usd: 1 } });
+    const summary = await new Pipeline(config).resume();
+
+    expect(summary.phasesCompleted).toContain('implementation');
+    doc = await documentManager.readProject();
+    expect(doc.meta.cost.total_cost_usd).toBeCloseTo(0.06);
+  });
+});
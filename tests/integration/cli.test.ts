@@ -33,6 +33,10 @@ describe('CLI', () => {
       expect(result.stdout).toContain('approve');
       expect(result.stdout).toContain('skip');
       expect(result.stdout).toContain('retry');
+      expect(result.stdout).toContain('logs');
+      expect(result.stdout).toContain('graph');
+      expect(result.stdout).toContain('reject');
+      expect(result.stdout).toContain('diff');
       expect(result.stdout).toContain('config');
     });
   });
@@ -114,6 +118,32 @@ describe('CLI', () => {
     });
   });
 
+  describe('logs command', () => {
+    it('should show help', () => {
+      const result = runCLI('logs --help');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('--attempt');
+    });
+  });
+
+  describe('graph command', () => {
+    it('should show help', () => {
+      const result = runCLI('graph --help');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('--format');
+      expect(result.stdout).toContain('--phase');
+    });
+  });
+
+  describe('diff command', () => {
+    it('should show help', () => {
+      const result = runCLI('diff --help');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('--from');
+      expect(result.stdout).toContain('--to');
+    });
+  });
+
   describe('config command', () => {
     it('should be recognized', () => {
       const result = runCLI('config');
@@ -351,9 +351,11 @@ describe('DocumentManager Integration', () => {
 
       const prompt = await manager.buildTaskPrompt(task, phase);
 
-      expect(prompt).toContain('**Task ID:** 1.1');
-      expect(prompt).toContain('**Phase:** Setup');
+      expect(prompt).toContain('## Task 1.1');
+      expect(prompt).toContain('Phase 1: Setup');
       expect(prompt).toContain('Create config file');
+      // CLAUDE.md conventions are inlined
+      expect(prompt).toContain('## Code Conventions');
     });
 
     it('should include dependency results', async () => {
@@ -383,8 +385,9 @@ describe('DocumentManager Integration', () => {
       const prompt = await manager.buildTaskPrompt(task, phase);
 
       expect(prompt).toContain('Completed Dependencies');
-      expect(prompt).toContain('Task 1.1');
+      expect(prompt).toContain('### Task 1.1: Setup project');
       expect(prompt).toContain('Project scaffolding complete');
+      expect(prompt).toContain('Files created: package.json, tsconfig.json');
     });
   });
 
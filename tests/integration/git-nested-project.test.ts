@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { simpleGit } from 'simple-git';
+import { GitClient } from '../../src/lib/git/git-client.js';
+import { GitWorkflowManager } from '../../src/lib/git/workflow-manager.js';
+import { verifyChanges } from '../../src/lib/execution/change-tracker.js';
+
+// A project in a subdirectory of an existing repository: git reports paths from the repo root
+
+describe('Project below the repository root', () => {
+  let repoDir: string;
+  let projectDir: string;
+  let workflow: GitWorkflowManager;
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nested-project-'));
+    projectDir = path.join(repoDir, 'app');
+    const git = simpleGit(repoDir);
+    await git.init();
+    await git.addConfig('user.name', 'Nested Test');
+    await git.addConfig('user.email', 'nested@example.com');
+    await fs.mkdir(path.join(projectDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(repoDir, 'notes.txt'), 'outside\n');
+    await fs.writeFile(path.join(projectDir, 'PROJECT.md'), '# Project\n');
+    await fs.writeFile(path.join(projectDir, 'src', 'index.ts'), 'export {};\n');
+    await git.add('.');
+    await git.commit('initial');
+
+    workflow = new GitWorkflowManager({ gitClient: new GitClient(projectDir), enabled: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should report changes relative to the project and leave out the rest of the repo', async () => {
+    await fs.writeFile(path.join(repoDir, 'notes.txt'), 'edited outside\n');
+    await fs.writeFile(path.join(projectDir, 'PROJECT.md'), '# Project\n\nUpdated\n');
+    await fs.writeFile(path.join(projectDir, 'src', 'a.ts'), 'export const a = 1;\n');
+
+    const changes = (await workflow.getWorkingChanges())!;
+
+    expect(changes.created).toEqual(['src/a.ts']);
+    expect(changes.modified).toEqual(['PROJECT.md']);
+    expect(changes.lines['src/a.ts']).toEqual({ added: 1, removed: 0 });
+
+    const verification = verifyChanges(
+      { task_id: '1.1', status: 'complete', files_created: ['src/a.ts'] },
+      changes
+    );
+    expect(verification.files.map((f) => f.path)).toEqual(['src/a.ts']);
+    expect(verification.unreported).toEqual([]);
+  });
+
+  it('should reset only the project and keep its own files and the rest of the repo', async () => {
+    const start = (await simpleGit(repoDir).revparse(['HEAD'])).trim();
+    // The user's uncommitted work elsewhere in the repository
+    await fs.writeFile(path.join(repoDir, 'notes.txt'), 'work in progress\n');
+    // A failed attempt, and the orchestrator's own update
+    await fs.writeFile(path.join(projectDir, 'src', 'index.ts'), 'broken\n');
+    await fs.writeFile(path.join(projectDir, 'src', 'a.ts'), 'broken too\n');
+    await fs.writeFile(path.join(projectDir, 'PROJECT.md'), '# Project\n\nIn progress\n');
+    const changes = (await workflow.getWorkingChanges())!;
+
+    await workflow.resetToCommit(start, ['PROJECT.md'], changes.created);
+
+    const read = (file: string) => fs.readFile(path.join(repoDir, file), 'utf-8');
+    expect(await read('notes.txt')).toBe('work in progress\n');
+    expect(await read('app/PROJECT.md')).toBe('# Project\n\nIn progress\n');
+    expect(await read('app/src/index.ts')).toBe('export {};\n');
+    await expect(fs.access(path.join(projectDir, 'src', 'a.ts'))).rejects.toThrow();
+  });
+});
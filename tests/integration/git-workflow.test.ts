@@ -56,13 +56,13 @@ describe('Git Workflow Integration', () => {
         output_summary: 'Implemented feature X',
       };
 
-      const hash = await workflow.commitTask('1.1', result);
+      const hash = await workflow.commitTask('1.1', result, ['src/feature.ts']);
 
       expect(hash).toBe('abc123');
-      expect(mockGitClient.add).toHaveBeenCalled();
-      expect(mockGitClient.commit).toHaveBeenCalledWith(
-        'task-1.1: Implemented feature X'
-      );
+      expect(mockGitClient.add).toHaveBeenCalledWith(['src/feature.ts']);
+      expect(mockGitClient.commit).toHaveBeenCalledWith('task-1.1: Implemented feature X', [
+        'src/feature.ts',
+      ]);
     });
 
     it('should not commit if no changes', async () => {
@@ -142,20 +142,28 @@ describe('Git Workflow Integration', () => {
       await workflow.startImplPhase(1, 'Setup');
 
       // Complete task 1
-      await workflow.commitTask('1.1', {
-        task_id: '1.1',
-        status: 'complete',
-        duration_ms: 1000,
-        output_summary: 'Initialize project structure',
-      });
+      await workflow.commitTask(
+        '1.1',
+        {
+          task_id: '1.1',
+          status: 'complete',
+          duration_ms: 1000,
+          output_summary: 'Initialize project structure',
+        },
+        ['package.json']
+      );
 
       // Complete task 2
-      await workflow.commitTask('1.2', {
-        task_id: '1.2',
-        status: 'complete',
-        duration_ms: 2000,
-        output_summary: 'Add configuration files',
-      });
+      await workflow.commitTask(
+        '1.2',
+        {
+          task_id: '1.2',
+          status: 'complete',
+          duration_ms: 2000,
+          output_summary: 'Add configuration files',
+        },
+        ['tsconfig.json']
+      );
 
       // State change
       await workflow.commitStateChange('phase-1 complete');
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { simpleGit } from 'simple-git';
+import { GitClient } from '../../src/lib/git/git-client.js';
+import { GitWorkflowManager, type TaskWorktree } from '../../src/lib/git/workflow-manager.js';
+import { VerificationRunner } from '../../src/lib/execution/verification-runner.js';
+
+// Runs against a real repository: worktrees and merges are git's behaviour, not ours to mock
+
+describe('Task worktrees', () => {
+  let repoDir: string;
+  let gitClient: GitClient;
+  let workflow: GitWorkflowManager;
+
+  const complete = (taskId: string) => ({
+    task_id: taskId,
+    status: 'complete' as const,
+    output_summary: `Task ${taskId}`,
+  });
+
+  async function commitInWorktree(worktree: TaskWorktree, file: string, content: string) {
+    await fs.writeFile(path.join(worktree.dir, file), content);
+    return worktree.workflow.commitTask(worktree.taskId, complete(worktree.taskId), [file]);
+  }
+
+  beforeEach(async () => {
+    // Outside the orchestrator's own repository
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'worktrees-'));
+    const git = simpleGit(repoDir);
+    await git.init();
+    await git.addConfig('user.name', 'Worktree Test');
+    await git.addConfig('user.email', 'worktree@example.com');
+    await fs.writeFile(path.join(repoDir, 'shared.txt'), 'original\n');
+    await git.add('.');
+    await git.commit('initial');
+
+    gitClient = new GitClient(repoDir);
+    workflow = new GitWorkflowManager({ gitClient, enabled: true, autoCommit: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should isolate tasks and merge their branches back', async () => {
+    const first = (await workflow.createTaskWorktree('1.1'))!;
+    const second = (await workflow.createTaskWorktree('1.2'))!;
+
+    expect(first.branch).toBe('impl/task-1.1');
+    expect(first.dir.startsWith(path.join(repoDir, '.git'))).toBe(true);
+
+    await commitInWorktree(first, 'a.txt', 'from 1.1\n');
+    await commitInWorktree(second, 'b.txt', 'from 1.2\n');
+    // Neither the main checkout nor the other task sees the work yet
+    await expect(fs.access(path.join(repoDir, 'a.txt'))).rejects.toThrow();
+    await expect(fs.access(path.join(second.dir, 'a.txt'))).rejects.toThrow();
+
+    for (const worktree of [first, second]) {
+      const outcome = await workflow.mergeTaskWorktree(worktree);
+      expect(outcome.merged).toBe(true);
+      await workflow.removeTaskWorktree(worktree);
+    }
+
+    expect(await fs.readFile(path.join(repoDir, 'a.txt'), 'utf-8')).toBe('from 1.1\n');
+    expect(await fs.readFile(path.join(repoDir, 'b.txt'), 'utf-8')).toBe('from 1.2\n');
+    expect(await gitClient.branchExists('impl/task-1.1')).toBe(false);
+    await expect(fs.access(first.dir)).rejects.toThrow();
+    expect(await gitClient.hasUncommittedChanges()).toBe(false);
+  });
+
+  it('should report conflicts, abort the merge and keep the branch', async () => {
+    const first = (await workflow.createTaskWorktree('1.1'))!;
+    const second = (await workflow.createTaskWorktree('1.2'))!;
+    await commitInWorktree(first, 'shared.txt', 'changed by 1.1\n');
+    await commitInWorktree(second, 'shared.txt', 'changed by 1.2\n');
+
+    expect((await workflow.mergeTaskWorktree(first)).merged).toBe(true);
+    const outcome = await workflow.mergeTaskWorktree(second);
+    await workflow.removeTaskWorktree(second, true);
+
+    expect(outcome).toMatchObject({ merged: false, conflicts: ['shared.txt'] });
+    expect(await fs.readFile(path.join(repoDir, 'shared.txt'), 'utf-8')).toBe('changed by 1.1\n');
+    expect(await gitClient.hasUncommittedChanges()).toBe(false);
+    expect(await gitClient.branchExists('impl/task-1.2')).toBe(true);
+  });
+
+  describe('gitignored dependencies', () => {
+    beforeEach(async () => {
+      await fs.writeFile(path.join(repoDir, '.gitignore'), 'node_modules/\n.env\n');
+      await simpleGit(repoDir).add('.gitignore').commit('ignore dependencies');
+      await fs.mkdir(path.join(repoDir, 'node_modules', 'greeting'), { recursive: true });
+      await fs.writeFile(
+        path.join(repoDir, 'node_modules', 'greeting', 'index.js'),
+        "module.exports = 'hello';\n"
+      );
+      await fs.writeFile(path.join(repoDir, '.env'), 'GREETING=hello\n');
+    });
+
+    it('should run verification commands inside a worktree', async () => {
+      const worktree = (await workflow.createTaskWorktree('1.1'))!;
+
+      const report = await new VerificationRunner({
+        cwd: worktree.dir,
+        commands: {
+          test: `node -e "console.log(require('greeting'))" && grep GREETING .env`,
+        },
+      }).run();
+
+      expect(report.passed).toBe(true);
+      expect(report.outcomes[0]?.output).toContain('hello');
+    });
+
+    it('should keep shared dependencies out of commits and the main checkout', async () => {
+      const worktree = (await workflow.createTaskWorktree('1.1'))!;
+      await commitInWorktree(worktree, 'a.txt', 'from 1.1\n');
+
+      const files = await simpleGit(worktree.dir).raw(['ls-tree', '-r', '--name-only', 'HEAD']);
+      expect(files.split('\n')).not.toContain('node_modules');
+      expect(files.split('\n')).not.toContain('.env');
+
+      await workflow.removeTaskWorktree(worktree);
+      expect(await gitClient.hasUncommittedChanges()).toBe(false);
+      await expect(
+        fs.access(path.join(repoDir, 'node_modules', 'greeting', 'index.js'))
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not share a dependency directory git does not ignore', async () => {
+      await fs.writeFile(path.join(repoDir, '.gitignore'), '.env\n');
+      await simpleGit(repoDir).add('.gitignore').commit('track dependencies');
+
+      const worktree = (await workflow.createTaskWorktree('1.1'))!;
+
+      await expect(fs.access(path.join(worktree.dir, 'node_modules'))).rejects.toThrow();
+      await expect(fs.access(path.join(worktree.dir, '.env'))).resolves.toBeUndefined();
+    });
+  });
+
+  it('should commit only the files the task changed', async () => {
+    await fs.writeFile(path.join(repoDir, 'stray.txt'), 'not part of the task\n');
+    await fs.writeFile(path.join(repoDir, 'a.txt'), 'from 1.1\n');
+
+    await workflow.commitTask('1.1', {
+      ...complete('1.1'),
+      verified_changes: {
+        files: [{ path: 'a.txt', change: 'created', lines_added: 1, lines_removed: 0 }],
+        lines_added: 1,
+        lines_removed: 0,
+        unreported: [],
+        unchanged_claims: [],
+      },
+    });
+
+    const committed = await simpleGit(repoDir).raw(['show', '--name-only', '--format=', 'HEAD']);
+    expect(committed.trim()).toBe('a.txt');
+    expect((await gitClient.getStatus()).untracked).toEqual(['stray.txt']);
+  });
+
+  it('should replace a worktree left over from an earlier run', async () => {
+    const stale = (await workflow.createTaskWorktree('1.1'))!;
+    await commitInWorktree(stale, 'stale.txt', 'old attempt\n');
+
+    const fresh = (await workflow.createTaskWorktree('1.1'))!;
+
+    expect(fresh.dir).toBe(stale.dir);
+    await expect(fs.access(path.join(fresh.dir, 'stale.txt'))).rejects.toThrow();
+  });
+});
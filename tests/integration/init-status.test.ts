@@ -119,6 +119,21 @@ describe('Init and Status Commands', () => {
       expect(json.hasProjectMd).toBe(true);
       expect(json.hasClaudeMd).toBe(true);
       expect(json.hasTasksDir).toBe(true);
+      expect(json.currentPhase.phase).toBe(1);
+      expect(json.phases).toHaveLength(4);
+      expect(json.implementationPhases).toEqual([]);
+      expect(json.totals.tasks).toBe(0);
+    });
+
+    it('should show current phase and gates', async () => {
+      runCLI(`init "Test Project" --dir "${tempDir}"`, tempDir);
+
+      const result = runCLI(`status --dir "${tempDir}"`, tempDir);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Current phase: Phase 1: Idea Refinement');
+      expect(result.stdout).toContain('Gates:');
+      expect(result.stdout).toContain('Totals:');
     });
 
     it('should work from subdirectory', async () => {
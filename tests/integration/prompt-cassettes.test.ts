@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../helpers/temp-dir.js';
+import { Pipeline } from '../../src/lib/pipeline.js';
+import { CassetteClient } from '../../src/lib/llm/cassette-client.js';
+
+vi.mock('../../src/lib/ui/terminal.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/lib/ui/terminal.js')>();
+  return {
+    ...actual,
+    printHeader: vi.fn(),
+    printSection: vi.fn(),
+    printInfo: vi.fn(),
+    printSuccess: vi.fn(),
+    printWarning: vi.fn(),
+    printError: vi.fn(),
+  };
+});
+
+/**
+ * Prompt regression tests
+ *
+ * Replays recorded phase 1-3 conversations. A change to the ideation, specification or
+ * planning prompts makes the replayed requests drift from the cassette and fails here.
+ *
+ * After an intentional prompt change, re-record with:
+ *   RECORD_CASSETTES=true npm test -- tests/integration/prompt-cassettes.test.ts
+ */
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures/offline-project');
+const CASSETTE_PATH = path.resolve(__dirname, '../fixtures/cassettes/greeter.json');
+const RECORDING = process.env.RECORD_CASSETTES === 'true';
+
+describe('Prompt cassettes', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestTempDir('prompt-cassettes-');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should replay the greeter planning session without prompt drift', async () => {
+    const pipeline = new Pipeline({
+      projectDir: testDir,
+      interactive: false,
+      autoComplete: true,
+      gitEnabled: false,
+      skipImplementation: true,
+      // Recording answers from the offline fixtures instead of the API
+      fixturesDir: RECORDING ? FIXTURES_DIR : undefined,
+      cassette: { path: CASSETTE_PATH, mode: RECORDING ? 'record' : 'replay' },
+    });
+
+    const summary = await pipeline.initAndRun('A greeter CLI', 'greeter');
+
+    expect(summary.phasesCompleted).toEqual(['ideation', 'specification', 'planning']);
+    const client = pipeline.getLLMService().getClient() as CassetteClient;
+    expect(await client.getRemaining()).toBe(0);
+  });
+});
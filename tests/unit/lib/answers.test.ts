@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ScriptedResponder, loadAnswersFile, parseAnswers } from '../../../src/lib/answers.js';
+import { ConfigError } from '../../../src/types/index.js';
+
+const DEFAULTS = ['Use defaults.', 'Use your judgment.', 'Please finalize.'];
+
+const QUESTIONS = `Some context.
+
+<questions>
+1. Should greetings support more than one language?
+2. Is the tool distributed through npm?
+</questions>`;
+
+describe('Answers file', () => {
+  describe('parseAnswers', () => {
+    it('should fill in defaults for an empty file', () => {
+      const answers = parseAnswers({});
+
+      expect(answers.fallback).toBe('defaults');
+      expect(answers.approvals).toEqual({
+        'phase-1': 'approve',
+        'phase-2': 'approve',
+        'phase-3': 'approve',
+      });
+      expect(answers.ideation).toEqual({ answers: [], questions: [], max_turns: 10 });
+    });
+
+    it('should read phase answers, question rules and approvals', () => {
+      const answers = parseAnswers({
+        fallback: 'fail',
+        approvals: { 'phase-3': 'stop' },
+        ideation: {
+          max_turns: 2,
+          answers: ['English only'],
+          questions: [{ match: 'npm', answer: 'Yes' }],
+        },
+      });
+
+      expect(answers.fallback).toBe('fail');
+      expect(answers.approvals['phase-3']).toBe('stop');
+      expect(answers.approvals['phase-1']).toBe('approve');
+      expect(answers.ideation).toEqual({
+        answers: ['English only'],
+        questions: [{ match: 'npm', answer: 'Yes' }],
+        max_turns: 2,
+      });
+    });
+
+    it.each([
+      [{ unknown: {} }, 'unknown section "unknown"'],
+      [{ fallback: 'guess' }, 'fallback must be one of defaults, complete, fail'],
+      [{ approvals: { 'phase-4': 'approve' } }, 'unknown gate "phase-4"'],
+      [{ approvals: { 'phase-1': 'maybe' } }, 'approvals.phase-1 must be one of approve, stop'],
+      [{ planning: { answers: 'yes' } }, 'planning.answers must be a list of strings'],
+      [{ ideation: { questions: [{ match: 'npm' }] } }, 'ideation.questions[0] needs a match'],
+      [{ specification: { max_turns: -1 } }, 'specification.max_turns must be a whole number'],
+    ])('should reject %j', (data, message) => {
+      expect(() => parseAnswers(data)).toThrow(message);
+    });
+  });
+
+  describe('loadAnswersFile', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'answers-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load a YAML answers file', async () => {
+      const filePath = path.join(tempDir, 'answers.yaml');
+      await fs.writeFile(
+        filePath,
+        'approvals:\n  phase-2: stop\nideation:\n  answers:\n    - English only\n'
+      );
+
+      const answers = await loadAnswersFile(filePath);
+
+      expect(answers.approvals['phase-2']).toBe('stop');
+      expect(answers.ideation.answers).toEqual(['English only']);
+    });
+
+    it('should wrap missing files and invalid content in a ConfigError', async () => {
+      const missing = path.join(tempDir, 'missing.yaml');
+      await expect(loadAnswersFile(missing)).rejects.toThrow(ConfigError);
+
+      const invalid = path.join(tempDir, 'invalid.yaml');
+      await fs.writeFile(invalid, 'fallback: guess\n');
+      await expect(loadAnswersFile(invalid)).rejects.toThrow(
+        `Invalid answers file ${invalid}: fallback must be one of`
+      );
+    });
+  });
+
+  describe('ScriptedResponder', () => {
+    it('should reply with the defaults when there is no answers file', () => {
+      const responder = new ScriptedResponder(DEFAULTS);
+
+      expect(responder.reply(QUESTIONS, 0)).toBe('Use defaults.');
+      expect(responder.reply('More?', 2)).toBe('Please finalize.');
+      expect(responder.reply('More?', 3)).toBeNull();
+    });
+
+    it('should answer matched questions before ordered answers', () => {
+      const answers = parseAnswers({
+        ideation: {
+          answers: ['First', 'Second'],
+          questions: [
+            { match: 'LANGUAGE', answer: 'English only' },
+            { match: 'npm', answer: 'Yes, on npm' },
+          ],
+        },
+      });
+      const responder = new ScriptedResponder(DEFAULTS, answers, 'ideation');
+
+      expect(responder.reply(QUESTIONS, 0)).toBe(
+        'Should greetings support more than one language?\nEnglish only\n\n' +
+          'Is the tool distributed through npm?\nYes, on npm'
+      );
+      // Ordered answers are only used up by turns that need them
+      expect(responder.reply('<questions>Who uses it?</questions>', 1)).toBe('First');
+    });
+
+    it('should answer the questions no rule matches with the next ordered answer', () => {
+      const answers = parseAnswers({
+        ideation: {
+          answers: ['Anyone with a terminal', 'Second'],
+          questions: [{ match: 'npm', answer: 'Yes, on npm' }],
+        },
+      });
+      const responder = new ScriptedResponder(DEFAULTS, answers, 'ideation');
+
+      expect(responder.reply(QUESTIONS, 0)).toBe(
+        'Is the tool distributed through npm?\nYes, on npm\n\n' +
+          'Should greetings support more than one language?\nAnyone with a terminal'
+      );
+      expect(responder.reply('More?', 1)).toBe('Second');
+    });
+
+    it('should continue from the ordered answers a restored conversation already sent', () => {
+      const answers = parseAnswers({ planning: { answers: ['One', 'Two', 'Three'] } });
+      const responder = new ScriptedResponder(DEFAULTS, answers, 'planning', 1);
+
+      expect(responder.reply('Plan?', 3)).toBe('Two');
+      expect(responder.getAnswersUsed()).toBe(2);
+    });
+
+    it('should answer unmatched questions from the fallback once ordered answers run out', () => {
+      const script = { ideation: { questions: [{ match: 'npm', answer: 'Yes, on npm' }] } };
+      const defaults = new ScriptedResponder(DEFAULTS, parseAnswers(script), 'ideation');
+      const complete = new ScriptedResponder(
+        DEFAULTS,
+        parseAnswers({ ...script, fallback: 'complete' }),
+        'ideation'
+      );
+      const fail = new ScriptedResponder(
+        DEFAULTS,
+        parseAnswers({ ...script, fallback: 'fail' }),
+        'ideation'
+      );
+
+      expect(defaults.reply(QUESTIONS, 0)).toBe(
+        'Is the tool distributed through npm?\nYes, on npm\n\n' +
+          'Should greetings support more than one language?\nUse defaults.'
+      );
+      expect(complete.reply(QUESTIONS, 0)).toBe(
+        'Is the tool distributed through npm?\nYes, on npm'
+      );
+      expect(() => fail.reply(QUESTIONS, 0)).toThrow(
+        'The answers file has no reply for turn 1: Should greetings support'
+      );
+    });
+
+    it('should reply with just the answer when the only question matches', () => {
+      const answers = parseAnswers({
+        specification: { questions: [{ match: 'database', answer: 'SQLite' }] },
+      });
+      const responder = new ScriptedResponder(DEFAULTS, answers, 'specification');
+
+      expect(responder.reply('<questions>Which database?</questions>', 0)).toBe('SQLite');
+    });
+
+    it('should stop at max_turns', () => {
+      const answers = parseAnswers({ planning: { answers: ['One', 'Two'], max_turns: 1 } });
+      const responder = new ScriptedResponder(DEFAULTS, answers, 'planning');
+
+      expect(responder.reply('Plan?', 0)).toBe('One');
+      expect(responder.reply('Plan?', 1)).toBeNull();
+    });
+
+    it('should follow the fallback when nothing answers a turn', () => {
+      const script = { ideation: { answers: ['Only one'] } };
+      // Each has sent its one ordered answer already
+      const complete = new ScriptedResponder(
+        DEFAULTS,
+        parseAnswers({ ...script, fallback: 'complete' }),
+        'ideation',
+        1
+      );
+      const fail = new ScriptedResponder(
+        DEFAULTS,
+        parseAnswers({ ...script, fallback: 'fail' }),
+        'ideation',
+        1
+      );
+      const defaults = new ScriptedResponder(DEFAULTS, parseAnswers(script), 'ideation', 1);
+
+      expect(complete.reply(QUESTIONS, 1)).toBeNull();
+      expect(defaults.reply(QUESTIONS, 1)).toBe('Use your judgment.');
+      expect(() => fail.reply(QUESTIONS, 1)).toThrow(
+        'The answers file has no reply for turn 2: Should greetings support'
+      );
+    });
+  });
+});
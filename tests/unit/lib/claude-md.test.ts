@@ -2,9 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createTestTempDir } from '../../helpers/temp-dir.js';
-import { ClaudeMdManager, TaskContext } from '../../../src/lib/claude-md.js';
-import { Task, ImplementationPhase, TaskResult } from '../../../src/types/index.js';
-import { createTaskResult } from '../../../src/lib/task-results.js';
+import { ClaudeMdManager } from '../../../src/lib/claude-md.js';
 
 describe('ClaudeMdManager', () => {
   let tempDir: string;
@@ -129,279 +127,4 @@ describe('ClaudeMdManager', () => {
       expect(content).not.toContain('Old tech stack');
     });
   });
-
-  describe('buildTaskContext', () => {
-    const createTask = (overrides: Partial<Task> = {}): Task => ({
-      id: '1.1',
-      description: 'Implement feature X',
-      status: 'pending',
-      depends_on: [],
-      acceptance_criteria: ['Tests pass', 'Feature works'],
-      ...overrides,
-    });
-
-    const createPhase = (overrides: Partial<ImplementationPhase> = {}): ImplementationPhase => ({
-      phase_number: 1,
-      name: 'Foundation',
-      description: 'Set up basics',
-      status: 'in_progress',
-      tasks: [],
-      ...overrides,
-    });
-
-    const createDepResult = (taskId: string, overrides: Partial<TaskResult> = {}): TaskResult => {
-      const result = createTaskResult(taskId, `Task ${taskId} description`);
-      result.status = 'success';
-      result.summary = `Completed task ${taskId}`;
-      return { ...result, ...overrides };
-    };
-
-    beforeEach(async () => {
-      await manager.initialize('Test Project', 'A test project');
-    });
-
-    it('should include base CLAUDE.md content', async () => {
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('# Project Context');
-      expect(prompt).toContain('## Code Conventions');
-    });
-
-    it('should include task ID', async () => {
-      const context: TaskContext = {
-        task: createTask({ id: '2.3' }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Task ID:** 2.3');
-    });
-
-    it('should include phase name', async () => {
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase({ name: 'Core Features' }),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Phase:** Core Features');
-    });
-
-    it('should include task description', async () => {
-      const context: TaskContext = {
-        task: createTask({ description: 'Add user authentication' }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Description:** Add user authentication');
-    });
-
-    it('should include acceptance criteria', async () => {
-      const context: TaskContext = {
-        task: createTask({
-          acceptance_criteria: [
-            'Login endpoint works',
-            'JWT tokens generated',
-            'Logout clears session',
-          ],
-        }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('### Acceptance Criteria');
-      expect(prompt).toContain('- [ ] Login endpoint works');
-      expect(prompt).toContain('- [ ] JWT tokens generated');
-      expect(prompt).toContain('- [ ] Logout clears session');
-    });
-
-    it('should include dependency results', async () => {
-      const depResult = createDepResult('1.1', {
-        task_description: 'Set up project',
-        summary: 'Initialized project with TypeScript',
-      });
-
-      const context: TaskContext = {
-        task: createTask({ id: '1.2', depends_on: ['1.1'] }),
-        phase: createPhase(),
-        dependencyResults: [depResult],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('### Completed Dependencies');
-      expect(prompt).toContain('#### Task 1.1: Set up project');
-      expect(prompt).toContain('**Summary:** Initialized project with TypeScript');
-    });
-
-    it('should include dependency files created', async () => {
-      const depResult = createDepResult('1.1', {
-        files_created: ['src/index.ts', 'src/types.ts'],
-      });
-
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [depResult],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Files created:** src/index.ts, src/types.ts');
-    });
-
-    it('should include dependency files modified', async () => {
-      const depResult = createDepResult('1.1', {
-        files_modified: ['package.json', 'tsconfig.json'],
-      });
-
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [depResult],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Files modified:** package.json, tsconfig.json');
-    });
-
-    it('should include dependency key decisions', async () => {
-      const depResult = createDepResult('1.1', {
-        key_decisions: [
-          { decision: 'Use ESM modules', rationale: 'Modern standard' },
-          { decision: 'Strict TypeScript', rationale: 'Better type safety' },
-        ],
-      });
-
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [depResult],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('**Key decisions:**');
-      expect(prompt).toContain('- Use ESM modules: Modern standard');
-      expect(prompt).toContain('- Strict TypeScript: Better type safety');
-    });
-
-    it('should include multiple dependencies', async () => {
-      const depResult1 = createDepResult('1.1', {
-        task_description: 'Task one',
-        summary: 'First task done',
-      });
-      const depResult2 = createDepResult('1.2', {
-        task_description: 'Task two',
-        summary: 'Second task done',
-      });
-
-      const context: TaskContext = {
-        task: createTask({ id: '1.3', depends_on: ['1.1', '1.2'] }),
-        phase: createPhase(),
-        dependencyResults: [depResult1, depResult2],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('#### Task 1.1: Task one');
-      expect(prompt).toContain('#### Task 1.2: Task two');
-    });
-
-    it('should include instructions section', async () => {
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('### Instructions');
-      expect(prompt).toContain('Write failing tests first (TDD)');
-      expect(prompt).toContain('npm test');
-    });
-
-    it('should include output format with correct task ID', async () => {
-      const context: TaskContext = {
-        task: createTask({ id: '3.5' }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('### Output Format');
-      expect(prompt).toContain('tasks/results/task-3.5.json');
-    });
-
-    it('should include task result schema', async () => {
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('"task_id": "string"');
-      expect(prompt).toContain('"status": "success" | "failed"');
-      expect(prompt).toContain('"acceptance_criteria"');
-    });
-
-    it('should include important warning about success status', async () => {
-      const context: TaskContext = {
-        task: createTask(),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      expect(prompt).toContain('IMPORTANT');
-      expect(prompt).toContain('status to "success" only if ALL acceptance criteria');
-    });
-
-    it('should handle task with no acceptance criteria', async () => {
-      const context: TaskContext = {
-        task: createTask({ acceptance_criteria: [] }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      // Should not have acceptance criteria section if empty
-      expect(prompt).not.toContain('### Acceptance Criteria');
-    });
-
-    it('should handle no dependencies gracefully', async () => {
-      const context: TaskContext = {
-        task: createTask({ depends_on: [] }),
-        phase: createPhase(),
-        dependencyResults: [],
-      };
-
-      const prompt = await manager.buildTaskContext(context);
-
-      // Should not have dependencies section if empty
-      expect(prompt).not.toContain('### Completed Dependencies');
-    });
-  });
 });
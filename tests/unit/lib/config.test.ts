@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_SCHEMA,
+  buildConfigUpdate,
+  explainConfigValue,
+  getConfigEnvVar,
+  getConfigKeys,
+  getConfigValue,
+  getGlobalConfigPath,
+  loadConfigLayers,
+  loadGlobalConfig,
+  parseConfigValue,
+  readEnvConfig,
+  readFlagConfig,
+  resolveProjectConfig,
+  saveGlobalConfigValue,
+} from '../../../src/lib/config.js';
+import { ConfigError, DEFAULT_CONFIG, type ProjectMeta } from '../../../src/types/index.js';
+
+function createMeta(overrides: Partial<ProjectMeta> = {}): ProjectMeta {
+  return {
+    version: 1,
+    project_id: 'test',
+    project_name: 'test',
+    created: '2024-01-01T00:00:00Z',
+    updated: '2024-01-01T00:00:00Z',
+    current_phase: 1,
+    current_phase_name: 'Idea Refinement',
+    phase_status: 'pending',
+    gates: {
+      ideation_complete: false,
+      ideation_approved: false,
+      spec_complete: false,
+      spec_approved: false,
+      planning_complete: false,
+      planning_approved: false,
+    },
+    cost: { total_tokens: 0, total_cost_usd: 0 },
+    agent: { primary: 'claude-code', timeout_minutes: 10 },
+    ...overrides,
+  };
+}
+
+describe('Config', () => {
+  describe('getConfigKeys', () => {
+    it('should cover every section of the orchestrator config', () => {
+      const keys = getConfigKeys();
+      for (const [section, values] of Object.entries(DEFAULT_CONFIG)) {
+        for (const field of Object.keys(values)) {
+          expect(keys).toContain(`${section}.${field}`);
+        }
+      }
+      expect(keys).toContain('budget.project_usd');
+    });
+
+    it('should map each key to its own path', () => {
+      for (const [key, definition] of Object.entries(CONFIG_SCHEMA)) {
+        expect(definition.path.join('.')).toBe(key);
+      }
+    });
+  });
+
+  describe('parseConfigValue', () => {
+    it('should parse booleans', () => {
+      expect(parseConfigValue('git.enabled', 'false')).toBe(false);
+      expect(parseConfigValue('execution.parallel', 'true')).toBe(true);
+    });
+
+    it('should reject values that are not true or false for booleans', () => {
+      expect(() => parseConfigValue('git.auto_commit', 'yes')).toThrow(ConfigError);
+    });
+
+    it('should parse numbers', () => {
+      expect(parseConfigValue('llm.max_tokens', '4096')).toBe(4096);
+      expect(parseConfigValue('budget.task_usd', '0.5')).toBe(0.5);
+      expect(parseConfigValue('execution.max_retries', '0')).toBe(0);
+    });
+
+    it('should reject non-numeric and out of range numbers', () => {
+      expect(() => parseConfigValue('llm.max_tokens', 'lots')).toThrow(ConfigError);
+      expect(() => parseConfigValue('llm.max_tokens', '')).toThrow(ConfigError);
+      expect(() => parseConfigValue('execution.max_parallel', '0')).toThrow(/at least 1/);
+      expect(() => parseConfigValue('budget.project_usd', '-1')).toThrow(ConfigError);
+    });
+
+    it('should require whole numbers where counts are expected', () => {
+      expect(() => parseConfigValue('execution.max_retries', '1.5')).toThrow(/whole number/);
+    });
+
+    it('should accept empty commands to turn verification steps off', () => {
+      expect(parseConfigValue('verification.test', 'npm test')).toBe('npm test');
+      expect(parseConfigValue('verification.lint', '')).toBe('');
+      expect(() => parseConfigValue('llm.model', '')).toThrow(ConfigError);
+    });
+
+    it('should validate agent backends against the registry', () => {
+      expect(parseConfigValue('agent.primary', 'claude-code')).toBe('claude-code');
+      expect(() => parseConfigValue('agent.primary', 'nope')).toThrow(/one of/);
+    });
+
+    it('should reject branch prefixes git cannot use', () => {
+      expect(parseConfigValue('git.branch_prefix', 'feature')).toBe('feature');
+      expect(() => parseConfigValue('git.branch_prefix', 'has space')).toThrow(ConfigError);
+    });
+
+    it('should reject unknown keys with the available keys', () => {
+      try {
+        parseConfigValue('llm.temperature', '1');
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).context?.available).toEqual(getConfigKeys());
+      }
+    });
+  });
+
+  describe('resolveProjectConfig', () => {
+    it('should fall back to defaults for sections that were never persisted', () => {
+      expect(resolveProjectConfig(createMeta())).toEqual({ ...DEFAULT_CONFIG, budget: {} });
+    });
+
+    it('should merge persisted values over the defaults', () => {
+      const config = resolveProjectConfig(
+        createMeta({
+          llm: { model: 'claude-opus-4-20250514' },
+          execution: { max_retries: 0 },
+        })
+      );
+
+      expect(config.llm.model).toBe('claude-opus-4-20250514');
+      expect(config.llm.max_tokens).toBe(DEFAULT_CONFIG.llm.max_tokens);
+      expect(config.execution.max_retries).toBe(0);
+    });
+
+    it('should apply layers in order: global, project, env, flags', () => {
+      const meta = createMeta({ llm: { model: 'project-model' } });
+
+      expect(resolveProjectConfig(meta, { global: { 'llm.model': 'global-model' } }).llm.model).toBe(
+        'project-model'
+      );
+      expect(resolveProjectConfig(meta, { env: { 'llm.model': 'env-model' } }).llm.model).toBe(
+        'env-model'
+      );
+      expect(
+        resolveProjectConfig(meta, {
+          env: { 'llm.model': 'env-model' },
+          flags: { 'llm.model': 'flag-model' },
+        }).llm.model
+      ).toBe('flag-model');
+    });
+
+    it('should use global values the project does not set', () => {
+      const config = resolveProjectConfig(createMeta(), {
+        global: { 'git.branch_prefix': 'feat', 'budget.task_usd': 2 },
+      });
+
+      expect(config.git.branch_prefix).toBe('feat');
+      expect(config.budget.task_usd).toBe(2);
+    });
+  });
+
+  describe('explainConfigValue', () => {
+    it('should report the winning layer and every layer value', () => {
+      const explanation = explainConfigValue(
+        createMeta({ llm: { model: 'project-model' } }),
+        'llm.model',
+        { global: { 'llm.model': 'global-model' } }
+      );
+
+      expect(explanation.value).toBe('project-model');
+      expect(explanation.source).toBe('project');
+      expect(explanation.layers.map((l) => [l.source, l.value])).toEqual([
+        ['default', DEFAULT_CONFIG.llm.model],
+        ['global', 'global-model'],
+        ['project', 'project-model'],
+        ['env', undefined],
+        ['flag', undefined],
+      ]);
+    });
+
+    it('should report defaults when nothing overrides a key', () => {
+      expect(explainConfigValue(createMeta(), 'execution.parallel').source).toBe('default');
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => explainConfigValue(createMeta(), 'nope')).toThrow(ConfigError);
+    });
+  });
+
+  describe('environment layer', () => {
+    it('should name variables after keys', () => {
+      expect(getConfigEnvVar('llm.max_tokens')).toBe('ORCHESTRATOR_LLM_MAX_TOKENS');
+    });
+
+    it('should read and validate ORCHESTRATOR_* variables', () => {
+      expect(
+        readEnvConfig({ ORCHESTRATOR_GIT_ENABLED: 'false', ORCHESTRATOR_LLM_MAX_TOKENS: '2048' })
+      ).toEqual({ 'git.enabled': false, 'llm.max_tokens': 2048 });
+      expect(() => readEnvConfig({ ORCHESTRATOR_EXECUTION_MAX_RETRIES: 'many' })).toThrow(
+        ConfigError
+      );
+    });
+
+    it('should ignore empty variables', () => {
+      expect(readEnvConfig({ ORCHESTRATOR_LLM_MODEL: '' })).toEqual({});
+    });
+  });
+
+  describe('flag layer', () => {
+    it('should map flags onto keys', () => {
+      expect(readFlagConfig({ model: 'm', timeout: '5', git: false })).toEqual({
+        'llm.model': 'm',
+        'agent.timeout_minutes': 5,
+        'git.enabled': false,
+      });
+    });
+
+    it('should not override git.enabled unless --no-git is given', () => {
+      expect(readFlagConfig({ git: true })).toEqual({});
+    });
+  });
+
+  describe('global layer', () => {
+    let configHome: string;
+
+    beforeEach(async () => {
+      configHome = await fs.mkdtemp(path.join(os.tmpdir(), 'orchestrator-config-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(configHome, { recursive: true, force: true });
+    });
+
+    it('should live under XDG_CONFIG_HOME', () => {
+      expect(getGlobalConfigPath({ XDG_CONFIG_HOME: configHome })).toBe(
+        path.join(configHome, 'orchestrator', 'config.yaml')
+      );
+    });
+
+    it('should treat a missing file as empty', async () => {
+      expect(await loadGlobalConfig(path.join(configHome, 'missing.yaml'))).toEqual({});
+    });
+
+    it('should save and load values by section', async () => {
+      const filePath = getGlobalConfigPath({ XDG_CONFIG_HOME: configHome });
+      await saveGlobalConfigValue('llm.model', 'claude-opus-4-20250514', filePath);
+      await saveGlobalConfigValue('git.branch_prefix', 'feat', filePath);
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content).toContain('llm:');
+      expect(await loadGlobalConfig(filePath)).toEqual({
+        'llm.model': 'claude-opus-4-20250514',
+        'git.branch_prefix': 'feat',
+      });
+    });
+
+    it('should name the file when it holds invalid values', async () => {
+      const filePath = path.join(configHome, 'config.yaml');
+      await fs.writeFile(filePath, 'execution:\n  max_retries: lots\n');
+
+      await expect(loadGlobalConfig(filePath)).rejects.toThrow(filePath);
+    });
+
+    it('should load every layer together', async () => {
+      const env = { XDG_CONFIG_HOME: configHome, ORCHESTRATOR_LLM_MODEL: 'env-model' };
+      await saveGlobalConfigValue('agent.timeout_minutes', 20, getGlobalConfigPath(env));
+
+      expect(await loadConfigLayers({ maxRetries: '1' }, env)).toEqual({
+        global: { 'agent.timeout_minutes': 20 },
+        env: { 'llm.model': 'env-model' },
+        flags: { 'execution.max_retries': 1 },
+      });
+    });
+  });
+
+  describe('getConfigValue', () => {
+    it('should return effective values', () => {
+      const meta = createMeta({ git: { enabled: false } });
+      expect(getConfigValue(meta, 'git.enabled')).toBe(false);
+      expect(getConfigValue(meta, 'llm.max_tokens')).toBe(DEFAULT_CONFIG.llm.max_tokens);
+    });
+
+    it('should return undefined for unset budgets', () => {
+      expect(getConfigValue(createMeta(), 'budget.phase_usd')).toBeUndefined();
+    });
+  });
+
+  describe('buildConfigUpdate', () => {
+    it('should only write the key being set', () => {
+      expect(buildConfigUpdate('execution.parallel', true)).toEqual({
+        execution: { parallel: true },
+      });
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => buildConfigUpdate('execution.speed', 1)).toThrow(ConfigError);
+    });
+  });
+});
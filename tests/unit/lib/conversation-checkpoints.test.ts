@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../helpers/temp-dir.js';
+import {
+  ConversationCheckpointManager,
+  isValidCheckpoint,
+  type ConversationCheckpoint,
+} from '../../../src/lib/conversation-checkpoints.js';
+
+describe('Conversation Checkpoint Manager', () => {
+  let tempDir: string;
+  let manager: ConversationCheckpointManager;
+
+  const checkpoint: ConversationCheckpoint = {
+    phase: 2,
+    saved_at: '2024-01-01T00:00:00.000Z',
+    conversation: {
+      systemPrompt: 'You are a software architect',
+      history: [
+        { role: 'user', content: 'Start', timestamp: '2024-01-01T00:00:00.000Z' },
+        {
+          role: 'assistant',
+          content: 'Which database?',
+          timestamp: '2024-01-01T00:00:01.000Z',
+          inputTokens: 120,
+          outputTokens: 30,
+        },
+      ],
+      tokenUsage: { totalInputTokens: 120, totalOutputTokens: 30, totalTokens: 150, turnCount: 1 },
+    },
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTestTempDir('checkpoints-test-');
+    manager = new ConversationCheckpointManager(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store checkpoints under .orchestrator/conversations', () => {
+    expect(manager.getCheckpointPath(2)).toBe(
+      path.join(tempDir, '.orchestrator', 'conversations', 'phase-2.json')
+    );
+  });
+
+  it('should round-trip a checkpoint with its token usage', async () => {
+    await manager.write(checkpoint);
+
+    expect(await manager.read(2)).toEqual(checkpoint);
+    expect(await fs.readdir(path.dirname(manager.getCheckpointPath(2)))).toEqual(['phase-2.json']);
+  });
+
+  it('should replace the previous checkpoint of a phase', async () => {
+    await manager.write(checkpoint);
+    await manager.write({ ...checkpoint, saved_at: '2024-01-02T00:00:00.000Z' });
+
+    expect((await manager.read(2))?.saved_at).toBe('2024-01-02T00:00:00.000Z');
+  });
+
+  it('should return null when a phase has no checkpoint', async () => {
+    expect(await manager.read(1)).toBeNull();
+  });
+
+  it('should reject a malformed checkpoint', async () => {
+    await fs.mkdir(path.dirname(manager.getCheckpointPath(1)), { recursive: true });
+    await fs.writeFile(manager.getCheckpointPath(1), JSON.stringify({ phase: 1 }));
+
+    await expect(manager.read(1)).rejects.toThrow('Invalid conversation checkpoint');
+  });
+
+  it('should delete a checkpoint', async () => {
+    await manager.write(checkpoint);
+
+    expect(await manager.delete(2)).toBe(true);
+    expect(await manager.delete(2)).toBe(false);
+    expect(await manager.read(2)).toBeNull();
+  });
+
+  describe('isValidCheckpoint', () => {
+    it('should accept a checkpoint with recorded spend', () => {
+      expect(isValidCheckpoint({ ...checkpoint, recorded_cost_usd: 0.25 })).toBe(true);
+    });
+
+    it('should accept a numeric count of used answers only', () => {
+      expect(isValidCheckpoint({ ...checkpoint, answers_used: 2 })).toBe(true);
+      expect(isValidCheckpoint({ ...checkpoint, answers_used: '2' })).toBe(false);
+    });
+
+    it('should reject unknown phases and a missing history', () => {
+      expect(isValidCheckpoint({ ...checkpoint, phase: 4 })).toBe(false);
+      expect(isValidCheckpoint({ ...checkpoint, conversation: { tokenUsage: {} } })).toBe(false);
+    });
+  });
+});
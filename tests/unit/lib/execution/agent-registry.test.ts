@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createAgentBackend,
+  registerAgentBackend,
+  unregisterAgentBackend,
+  hasAgentBackend,
+  getAgentBackendNames,
+  DEFAULT_AGENT_BACKEND,
+} from '../../../../src/lib/execution/agent-registry.js';
+import type { AgentBackend } from '../../../../src/lib/execution/agent-backend.js';
+import { ClaudeAdapter } from '../../../../src/lib/execution/claude-adapter.js';
+import { TaskExecutionError } from '../../../../src/types/errors.js';
+
+function createStubBackend(name: string): AgentBackend {
+  return {
+    name,
+    execute: vi.fn().mockResolvedValue({
+      success: true,
+      output: 'done',
+      exitCode: 0,
+      duration: 1,
+    }),
+    executeStream: vi.fn(),
+    abort: vi.fn(),
+    isRunning: vi.fn().mockReturnValue(false),
+    isAvailable: vi.fn().mockResolvedValue(true),
+  };
+}
+
+describe('agent registry', () => {
+  afterEach(() => {
+    unregisterAgentBackend('stub');
+  });
+
+  it('should register claude-code by default', () => {
+    expect(DEFAULT_AGENT_BACKEND).toBe('claude-code');
+    expect(hasAgentBackend('claude-code')).toBe(true);
+  });
+
+  it('should create a ClaudeAdapter for claude-code', () => {
+    const backend = createAgentBackend('claude-code', { cwd: '/tmp' });
+    expect(backend).toBeInstanceOf(ClaudeAdapter);
+    expect(backend.name).toBe('claude-code');
+  });
+
+  it('should use the default backend when no name given', () => {
+    expect(createAgentBackend()).toBeInstanceOf(ClaudeAdapter);
+  });
+
+  it('should create registered custom backends', () => {
+    const factory = vi.fn(() => createStubBackend('stub'));
+    registerAgentBackend('stub', factory);
+
+    const backend = createAgentBackend('stub', { timeout: 1000 });
+
+    expect(backend.name).toBe('stub');
+    expect(factory).toHaveBeenCalledWith({ timeout: 1000 });
+  });
+
+  it('should list registered backend names', () => {
+    registerAgentBackend('stub', () => createStubBackend('stub'));
+    expect(getAgentBackendNames()).toEqual(expect.arrayContaining(['claude-code', 'stub']));
+  });
+
+  it('should unregister backends', () => {
+    registerAgentBackend('stub', () => createStubBackend('stub'));
+    expect(unregisterAgentBackend('stub')).toBe(true);
+    expect(hasAgentBackend('stub')).toBe(false);
+  });
+
+  it('should throw TaskExecutionError for unknown backends', () => {
+    expect(() => createAgentBackend('nope')).toThrow(TaskExecutionError);
+    expect(() => createAgentBackend('nope')).toThrow(/Unknown agent backend: nope/);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import {
+  getAgentResultMtime,
+  mergeAgentResult,
+  normalizeAgentResult,
+  readAgentResult,
+} from '../../../../src/lib/execution/agent-result.js';
+import type { TaskResult } from '../../../../src/types/index.js';
+
+describe('agent result ingestion', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await createTestTempDir('agent-result-test-');
+    await fs.mkdir(path.join(projectDir, 'tasks', 'results'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  async function writeResultFile(taskId: string, content: unknown): Promise<string> {
+    const filePath = path.join(projectDir, 'tasks', 'results', `task-${taskId}.json`);
+    await fs.writeFile(
+      filePath,
+      typeof content === 'string' ? content : JSON.stringify(content),
+      'utf-8'
+    );
+    return filePath;
+  }
+
+  describe('readAgentResult', () => {
+    it('should report a missing file', async () => {
+      const read = await readAgentResult(projectDir, '1.1');
+      expect(read).toEqual({ result: null, reason: 'missing' });
+    });
+
+    it('should read a result written in the agent schema', async () => {
+      await writeResultFile('1.1', {
+        task_id: '1.1',
+        status: 'success',
+        duration_seconds: 12,
+        summary: 'Added models',
+        files_created: ['src/models.ts'],
+      });
+
+      const read = await readAgentResult(projectDir, '1.1');
+
+      expect(read.result).toMatchObject({
+        task_id: '1.1',
+        status: 'complete',
+        summary: 'Added models',
+      });
+      expect(read.result).not.toHaveProperty('duration_seconds');
+    });
+
+    it('should treat a file unchanged since the snapshot as stale', async () => {
+      await writeResultFile('1.1', { task_id: '1.1', status: 'success' });
+      const before = await getAgentResultMtime(projectDir, '1.1');
+
+      expect(await readAgentResult(projectDir, '1.1', before)).toEqual({
+        result: null,
+        reason: 'stale',
+      });
+
+      const filePath = await writeResultFile('1.1', { task_id: '1.1', status: 'failed' });
+      const later = new Date(Date.now() + 5000);
+      await fs.utimes(filePath, later, later);
+
+      const read = await readAgentResult(projectDir, '1.1', before);
+      expect(read.result?.status).toBe('failed');
+    });
+
+    it('should snapshot a missing file as null', async () => {
+      expect(await getAgentResultMtime(projectDir, '9.9')).toBeNull();
+    });
+
+    it('should reject malformed JSON', async () => {
+      await writeResultFile('1.1', '{ "task_id": ');
+
+      const read = await readAgentResult(projectDir, '1.1');
+
+      expect(read.result).toBeNull();
+      expect(read).toMatchObject({ reason: 'invalid' });
+    });
+
+    it('should reject results that fail validation', async () => {
+      await writeResultFile('1.1', { task_id: '1.1', status: 'done', files_created: 'a.ts' });
+
+      const read = await readAgentResult(projectDir, '1.1');
+
+      expect(read).toMatchObject({ result: null, reason: 'invalid' });
+    });
+
+    it('should reject results for another task', async () => {
+      await writeResultFile('1.1', { task_id: '1.2', status: 'success' });
+
+      const read = await readAgentResult(projectDir, '1.1');
+
+      expect(read).toMatchObject({ result: null, reason: 'invalid' });
+      expect(read.result === null && read.details).toContain('1.2');
+    });
+  });
+
+  describe('normalizeAgentResult', () => {
+    it('should leave non-objects untouched', () => {
+      expect(normalizeAgentResult(null)).toBeNull();
+      expect(normalizeAgentResult([1])).toEqual([1]);
+    });
+
+    it('should keep failed status', () => {
+      expect(normalizeAgentResult({ task_id: '1', status: 'failed' })).toEqual({
+        task_id: '1',
+        status: 'failed',
+      });
+    });
+  });
+
+  describe('mergeAgentResult', () => {
+    const reported: TaskResult = {
+      task_id: '1.1',
+      status: 'complete',
+      summary: 'Added models',
+      files_created: ['src/claimed.ts'],
+      key_decisions: [{ decision: 'Use zod', rationale: 'Runtime validation' }],
+      tests_added: 3,
+      duration_ms: 1,
+      tokens_used: 999999,
+      cost_usd: 123,
+      commit_hash: 'bogus',
+    };
+
+    it('should take timing and output from the observed run', () => {
+      const merged = mergeAgentResult(reported, {
+        taskId: '1.1',
+        success: true,
+        durationMs: 42000,
+        output: 'agent output',
+      });
+
+      expect(merged).toMatchObject({
+        status: 'complete',
+        duration_ms: 42000,
+        raw_output: 'agent output',
+        output_summary: 'Added models',
+        key_decisions: reported.key_decisions,
+        tests_added: 3,
+        files_created: ['src/claimed.ts'],
+        result_source: 'agent_json',
+      });
+      expect(merged.tokens_used).toBeUndefined();
+      expect(merged.cost_usd).toBeUndefined();
+      expect(merged.commit_hash).toBeUndefined();
+    });
+
+    it('should fail when the agent process failed despite a success report', () => {
+      const merged = mergeAgentResult(reported, {
+        taskId: '1.1',
+        success: false,
+        durationMs: 1000,
+        output: '',
+      });
+
+      expect(merged.status).toBe('failed');
+    });
+
+    it('should ignore change verification supplied by the agent', () => {
+      const merged = mergeAgentResult(
+        {
+          ...reported,
+          verified_changes: {
+            files: [],
+            lines_added: 500,
+            lines_removed: 0,
+            unreported: [],
+            unchanged_claims: [],
+            no_changes: false,
+          },
+        },
+        { taskId: '1.1', success: true, durationMs: 1000, output: '' }
+      );
+
+      expect(merged.verified_changes).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyChangeVerification,
+  describeDiscrepancies,
+  diffWorkingChanges,
+  verifyChanges,
+} from '../../../../src/lib/execution/change-tracker.js';
+import type { WorkingChanges } from '../../../../src/lib/git/workflow-manager.js';
+import type { TaskResult } from '../../../../src/types/index.js';
+
+const clean: WorkingChanges = { created: [], modified: [], deleted: [], lines: {} };
+
+function result(overrides: Partial<TaskResult> = {}): TaskResult {
+  return { task_id: '1.1', status: 'complete', ...overrides };
+}
+
+describe('change tracker', () => {
+  describe('diffWorkingChanges', () => {
+    it('should keep only files changed after the first snapshot', () => {
+      const diff = diffWorkingChanges(
+        {
+          created: ['old.ts'],
+          modified: ['dirty.ts'],
+          deleted: [],
+          lines: { 'old.ts': { added: 5, removed: 0 }, 'dirty.ts': { added: 1, removed: 1 } },
+        },
+        {
+          created: ['old.ts', 'new.ts'],
+          modified: ['dirty.ts', 'edited.ts'],
+          deleted: ['gone.ts'],
+          lines: {
+            'old.ts': { added: 5, removed: 0 },
+            'new.ts': { added: 12, removed: 0 },
+            'dirty.ts': { added: 1, removed: 1 },
+            'edited.ts': { added: 2, removed: 3 },
+            'gone.ts': { added: 0, removed: 40 },
+          },
+        }
+      );
+
+      expect(diff).toEqual({
+        created: ['new.ts'],
+        modified: ['edited.ts'],
+        deleted: ['gone.ts'],
+        lines: {
+          'new.ts': { added: 12, removed: 0 },
+          'edited.ts': { added: 2, removed: 3 },
+          'gone.ts': { added: 0, removed: 40 },
+        },
+      });
+    });
+
+    it('should count further edits to a file that was already dirty', () => {
+      const diff = diffWorkingChanges(
+        { ...clean, modified: ['dirty.ts'], lines: { 'dirty.ts': { added: 1, removed: 1 } } },
+        { ...clean, modified: ['dirty.ts'], lines: { 'dirty.ts': { added: 6, removed: 2 } } }
+      );
+
+      expect(diff.modified).toEqual(['dirty.ts']);
+      expect(diff.lines['dirty.ts']).toEqual({ added: 5, removed: 1 });
+    });
+  });
+
+  describe('verifyChanges', () => {
+    it('should report files changed but not claimed and claims that did not change', () => {
+      const verification = verifyChanges(
+        result({ files_created: ['./src/models.ts', 'src/routes.ts'] }),
+        {
+          created: ['src/models.ts'],
+          modified: ['package.json'],
+          deleted: [],
+          lines: {
+            'src/models.ts': { added: 20, removed: 0 },
+            'package.json': { added: 1, removed: 0 },
+          },
+        }
+      );
+
+      expect(verification).toEqual({
+        files: [
+          { path: 'src/models.ts', change: 'created', lines_added: 20, lines_removed: 0 },
+          { path: 'package.json', change: 'modified', lines_added: 1, lines_removed: 0 },
+        ],
+        lines_added: 21,
+        lines_removed: 0,
+        unreported: ['package.json'],
+        unchanged_claims: ['src/routes.ts'],
+        no_changes: false,
+      });
+    });
+
+    it('should flag a successful task that changed nothing', () => {
+      expect(verifyChanges(result(), clean).no_changes).toBe(true);
+      expect(verifyChanges(result({ status: 'failed' }), clean).no_changes).toBe(false);
+    });
+
+    it('should ignore files the orchestrator writes', () => {
+      const verification = verifyChanges(
+        result({ files_created: ['tasks/results/task-1.1.json'] }),
+        {
+          ...clean,
+          created: ['tasks/results/task-1.1.json'],
+          modified: ['PROJECT.md'],
+        }
+      );
+
+      expect(verification.files).toEqual([]);
+      expect(verification.unchanged_claims).toEqual([]);
+      expect(verification.no_changes).toBe(true);
+    });
+  });
+
+  describe('applyChangeVerification', () => {
+    it('should replace claimed files with the verified ones', () => {
+      const taskResult = result({ files_created: ['src/claimed.ts'] });
+
+      applyChangeVerification(taskResult, {
+        created: ['src/models.ts'],
+        modified: [],
+        deleted: ['src/old.ts'],
+        lines: {},
+      });
+
+      expect(taskResult.files_created).toEqual(['src/models.ts']);
+      expect(taskResult.files_modified).toEqual([]);
+      expect(taskResult.files_deleted).toEqual(['src/old.ts']);
+      expect(taskResult.verified_changes?.unchanged_claims).toEqual(['src/claimed.ts']);
+    });
+  });
+
+  describe('describeDiscrepancies', () => {
+    it('should describe every mismatch', () => {
+      const issues = describeDiscrepancies({
+        files: [],
+        lines_added: 0,
+        lines_removed: 0,
+        unreported: ['a.ts'],
+        unchanged_claims: ['b.ts'],
+        no_changes: true,
+      });
+
+      expect(issues).toEqual([
+        'reported success but changed no files',
+        'changed files it did not report: a.ts',
+        'reported files that did not change: b.ts',
+      ]);
+    });
+  });
+});
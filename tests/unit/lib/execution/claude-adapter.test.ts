@@ -58,7 +58,16 @@ describe('ClaudeAdapter', () => {
 
       expect(spawn).toHaveBeenCalledWith(
         'claude',
-        ['--print', '--max-turns', '1', '-p', 'test prompt'],
+        [
+          '--print',
+          '--output-format',
+          'stream-json',
+          '--verbose',
+          '--max-turns',
+          '1',
+          '-p',
+          'test prompt',
+        ],
         expect.objectContaining({
           shell: true,
         })
@@ -134,10 +143,28 @@ describe('ClaudeAdapter', () => {
       const result = await adapter.execute('test');
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Execution timed out');
+      expect(result.error).toBe('Execution timed out after 50ms');
+      expect(result.timedOut).toBe(true);
       expect(mockProcess.kill).toHaveBeenCalledWith('SIGTERM');
     });
 
+    it('should use the timeout from the execution context', async () => {
+      const adapter = new ClaudeAdapter({ timeout: 60000 });
+
+      mockProcess.kill.mockImplementation(() => {
+        setTimeout(() => mockProcess.emit('close', -1), 5);
+      });
+
+      const result = await adapter.execute('test', {
+        taskId: '1.1',
+        purpose: 'task',
+        timeoutMs: 50,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toBe('Execution timed out after 50ms');
+    });
+
     it('should emit events', async () => {
       const adapter = new ClaudeAdapter();
       const events: ClaudeEvent[] = [];
@@ -171,6 +198,79 @@ describe('ClaudeAdapter', () => {
 
       expect(chunks).toEqual(['chunk1', 'chunk2']);
     });
+
+    it('should forward assistant text from stream-json output', async () => {
+      const adapter = new ClaudeAdapter();
+      const chunks: string[] = [];
+      const assistant = JSON.stringify({
+        type: 'assistant',
+        message: { content: [{ type: 'text', text: '## Task Complete' }] },
+      });
+
+      setTimeout(() => {
+        mockProcess.stdout.emit('data', Buffer.from(assistant.slice(0, 20)));
+        mockProcess.stdout.emit('data', Buffer.from(assistant.slice(20) + '\n'));
+        mockProcess.emit('close', 0);
+      }, 10);
+
+      await adapter.executeStream('test', (chunk) => chunks.push(chunk));
+
+      expect(chunks).toEqual(['## Task Complete']);
+    });
+  });
+
+  describe('stream-json output', () => {
+    it('should take output and usage from the result message', async () => {
+      const adapter = new ClaudeAdapter();
+      const lines = [
+        { type: 'system', subtype: 'init' },
+        { type: 'assistant', message: { content: [{ type: 'text', text: 'partial' }] } },
+        {
+          type: 'result',
+          result: 'final answer',
+          total_cost_usd: 0.0123,
+          usage: {
+            input_tokens: 100,
+            cache_creation_input_tokens: 20,
+            cache_read_input_tokens: 30,
+            output_tokens: 50,
+          },
+        },
+      ];
+
+      setTimeout(() => {
+        mockProcess.stdout.emit(
+          'data',
+          Buffer.from(lines.map((l) => JSON.stringify(l)).join('\n'))
+        );
+        mockProcess.emit('close', 0);
+      }, 10);
+
+      const result = await adapter.execute('test');
+
+      expect(result.output).toBe('final answer');
+      expect(result.usage).toEqual({ inputTokens: 150, outputTokens: 50, costUsd: 0.0123 });
+      // The raw stream is kept for attempt logs
+      expect(result.stdout).toContain('"type":"result"');
+    });
+
+    it('should fall back to assistant text without a result message', async () => {
+      const adapter = new ClaudeAdapter();
+      const line = JSON.stringify({
+        type: 'assistant',
+        message: { content: [{ type: 'text', text: 'only text' }] },
+      });
+
+      setTimeout(() => {
+        mockProcess.stdout.emit('data', Buffer.from(line + '\n'));
+        mockProcess.emit('close', 0);
+      }, 10);
+
+      const result = await adapter.execute('test');
+
+      expect(result.output).toBe('only text');
+      expect(result.usage).toBeUndefined();
+    });
   });
 
   describe('abort', () => {
@@ -3,7 +3,8 @@ import {
   Orchestrator,
   type OrchestratorEvent,
 } from '../../../../src/lib/execution/orchestrator.js';
-import type { ImplementationPhase } from '../../../../src/types/index.js';
+import { resolveProjectConfig } from '../../../../src/lib/config.js';
+import type { ImplementationPhase, ProjectMeta } from '../../../../src/types/index.js';
 
 // Mock PhaseExecutor
 vi.mock('../../../../src/lib/execution/phase-executor.js', () => ({
@@ -16,6 +17,8 @@ vi.mock('../../../../src/lib/execution/phase-executor.js', () => ({
       tasksFailed: 0,
       tasksSkipped: 0,
       totalDuration: 5000,
+      tokensUsed: 1500,
+      totalCost: 0.25,
       results: [],
     }),
     setSpecification: vi.fn(),
@@ -31,6 +34,7 @@ vi.mock('../../../../src/lib/ui/terminal.js', () => ({
   printError: vi.fn(),
   printWarning: vi.fn(),
   formatDuration: vi.fn((s) => `${s}s`),
+  formatCost: vi.fn((c) => `$${c}`),
   confirm: vi.fn().mockResolvedValue(true),
 }));
 
@@ -56,6 +60,7 @@ describe('Orchestrator', () => {
   let mockStateManager: {
     getProject: ReturnType<typeof vi.fn>;
     getMeta: ReturnType<typeof vi.fn>;
+    getConfig: ReturnType<typeof vi.fn>;
     approvePhase: ReturnType<typeof vi.fn>;
     save: ReturnType<typeof vi.fn>;
   };
@@ -79,6 +84,7 @@ describe('Orchestrator', () => {
           current_impl_phase: 1,
         },
       }),
+      getConfig: vi.fn().mockReturnValue(resolveProjectConfig({} as ProjectMeta)),
       approvePhase: vi.fn(),
       save: vi.fn().mockResolvedValue(undefined),
     };
@@ -107,6 +113,33 @@ describe('Orchestrator', () => {
       );
       expect(orchestrator).toBeDefined();
     });
+
+    it('should default unset options from the project config', async () => {
+      mockStateManager.getConfig.mockReturnValue(
+        resolveProjectConfig({
+          agent: { timeout_minutes: 5 },
+          execution: { max_retries: 0, parallel: true, max_parallel: 4, validate_results: false },
+        } as ProjectMeta)
+      );
+
+      const orchestrator = new Orchestrator(
+        mockStateManager as any,
+        mockDocumentManager as any,
+        { maxParallel: 3 }
+      );
+      await orchestrator.execute();
+
+      expect(PhaseExecutor).toHaveBeenCalledWith(
+        mockStateManager,
+        expect.objectContaining({
+          timeout: 300000,
+          maxRetries: 0,
+          parallel: true,
+          maxParallel: 3,
+          validateResults: false,
+        })
+      );
+    });
   });
 
   describe('execute', () => {
@@ -122,6 +155,18 @@ describe('Orchestrator', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should roll up token usage and cost from phases', async () => {
+      const orchestrator = new Orchestrator(
+        mockStateManager as any,
+        mockDocumentManager as any
+      );
+
+      const result = await orchestrator.execute();
+
+      expect(result.tokensUsed).toBe(1500);
+      expect(result.totalCost).toBe(0.25);
+    });
+
     it('should create PhaseExecutor with options', async () => {
       const orchestrator = new Orchestrator(
         mockStateManager as any,
@@ -188,6 +233,8 @@ describe('Orchestrator', () => {
               tasksFailed: 1,
               tasksSkipped: 0,
               totalDuration: 1000,
+              tokensUsed: 0,
+              totalCost: 0,
               results: [],
             }),
             setSpecification: vi.fn(),
@@ -226,6 +273,8 @@ describe('Orchestrator', () => {
               tasksFailed: 1,
               tasksSkipped: 0,
               totalDuration: 1000,
+              tokensUsed: 0,
+              totalCost: 0,
               results: [],
             }),
             setSpecification: vi.fn(),
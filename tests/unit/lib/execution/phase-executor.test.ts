@@ -4,6 +4,7 @@ import {
   type PhaseExecutionEvent,
 } from '../../../../src/lib/execution/phase-executor.js';
 import type { ImplementationPhase, Task } from '../../../../src/types/index.js';
+import { BudgetExceededError } from '../../../../src/types/errors.js';
 
 // Mock dependencies
 vi.mock('../../../../src/lib/execution/task-executor.js', () => ({
@@ -25,6 +26,7 @@ vi.mock('../../../../src/lib/ui/terminal.js', () => ({
   printSuccess: vi.fn(),
   printError: vi.fn(),
   printProgress: vi.fn(),
+  printWarning: vi.fn(),
 }));
 
 import { TaskExecutor } from '../../../../src/lib/execution/task-executor.js';
@@ -35,6 +37,11 @@ describe('PhaseExecutor', () => {
     getMeta: ReturnType<typeof vi.fn>;
     updateTask: ReturnType<typeof vi.fn>;
     recordTaskResult: ReturnType<typeof vi.fn>;
+    checkBudget: ReturnType<typeof vi.fn>;
+    addCost: ReturnType<typeof vi.fn>;
+    save: ReturnType<typeof vi.fn>;
+    getAllTasks: ReturnType<typeof vi.fn>;
+    getTaskResult: ReturnType<typeof vi.fn>;
   };
 
   const sampleTask: Task = {
@@ -61,6 +68,11 @@ describe('PhaseExecutor', () => {
       }),
       updateTask: vi.fn(),
       recordTaskResult: vi.fn(),
+      checkBudget: vi.fn(),
+      addCost: vi.fn(),
+      save: vi.fn().mockResolvedValue(undefined),
+      getAllTasks: vi.fn().mockReturnValue([]),
+      getTaskResult: vi.fn().mockReturnValue(null),
     };
   });
 
@@ -262,6 +274,288 @@ describe('PhaseExecutor', () => {
     });
   });
 
+  describe('scheduling', () => {
+    const createTask = (id: string, depends_on: string[] = []): Task => ({
+      id,
+      description: `Task ${id}`,
+      acceptance_criteria: [],
+      depends_on,
+      status: 'pending',
+    });
+
+    // Each task finishes when the test resolves it
+    function mockControlledTasks() {
+      const started: string[] = [];
+      const finish = new Map<string, (status: 'complete' | 'failed') => void>();
+      vi.mocked(TaskExecutor).mockImplementation(
+        () =>
+          ({
+            executeWithRetry: vi.fn().mockImplementation(
+              (task: Task) =>
+                new Promise((resolve) => {
+                  started.push(task.id);
+                  finish.set(task.id, (status) =>
+                    resolve({ task_id: task.id, status, duration_ms: 10 })
+                  );
+                })
+            ),
+            on: vi.fn(),
+          }) as any
+      );
+      const waitForStarted = (ids: string[]) => vi.waitFor(() => expect(started).toEqual(ids));
+      return { started, finish, waitForStarted };
+    }
+
+    it('should start a newly unblocked task as soon as a slot frees up', async () => {
+      const { started, finish, waitForStarted } = mockControlledTasks();
+      const phase = {
+        ...samplePhase,
+        tasks: [createTask('1.1'), createTask('1.2'), createTask('1.3', ['1.2'])],
+      };
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        parallel: true,
+        maxParallel: 2,
+      });
+
+      const execution = executor.execute(phase);
+      // 1.2 leads a longer chain, so it starts first
+      await waitForStarted(['1.2', '1.1']);
+
+      // 1.1 is still running while 1.3 takes the slot 1.2 freed
+      finish.get('1.2')?.('complete');
+      await waitForStarted(['1.2', '1.1', '1.3']);
+
+      finish.get('1.3')?.('complete');
+      finish.get('1.1')?.('complete');
+      const result = await execution;
+      expect(result.tasksCompleted).toBe(3);
+    });
+
+    it('should start tasks on the critical path first', async () => {
+      const order: string[] = [];
+      vi.mocked(TaskExecutor).mockImplementation(
+        () =>
+          ({
+            executeWithRetry: vi.fn().mockImplementation(async (task: Task) => {
+              order.push(task.id);
+              return { task_id: task.id, status: 'complete', duration_ms: 10 };
+            }),
+            on: vi.fn(),
+          }) as any
+      );
+      const phase = {
+        ...samplePhase,
+        tasks: [
+          createTask('1.1'),
+          createTask('1.2'),
+          createTask('1.3', ['1.2']),
+          createTask('1.4', ['1.3']),
+        ],
+      };
+
+      await new PhaseExecutor(mockStateManager as any).execute(phase);
+
+      // Equal chains keep the phase order
+      expect(order).toEqual(['1.2', '1.3', '1.1', '1.4']);
+    });
+
+    it('should let running tasks finish after a failure when stopping on failure', async () => {
+      const { started, finish, waitForStarted } = mockControlledTasks();
+      const phase = {
+        ...samplePhase,
+        tasks: [createTask('1.1'), createTask('1.2'), createTask('1.3')],
+      };
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        parallel: true,
+        maxParallel: 2,
+        stopOnFailure: true,
+      });
+
+      const execution = executor.execute(phase);
+      await waitForStarted(['1.1', '1.2']);
+      finish.get('1.1')?.('failed');
+      // No new task starts, but 1.2 is not abandoned
+      await vi.waitFor(() => expect(mockStateManager.recordTaskResult).toHaveBeenCalledTimes(1));
+      expect(started).toEqual(['1.1', '1.2']);
+      finish.get('1.2')?.('complete');
+
+      const result = await execution;
+      expect(result).toMatchObject({ tasksCompleted: 1, tasksFailed: 1, tasksSkipped: 1 });
+      expect(mockStateManager.recordTaskResult).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep running independent tasks past a failure otherwise', async () => {
+      vi.mocked(TaskExecutor).mockImplementation(
+        () =>
+          ({
+            executeWithRetry: vi.fn().mockImplementation(async (task: Task) => ({
+              task_id: task.id,
+              status: task.id === '1.1' ? 'failed' : 'complete',
+              duration_ms: 10,
+            })),
+            on: vi.fn(),
+          }) as any
+      );
+      const phase = {
+        ...samplePhase,
+        tasks: [createTask('1.1'), createTask('1.2', ['1.1']), createTask('1.3')],
+      };
+
+      const result = await new PhaseExecutor(mockStateManager as any, {
+        stopOnFailure: false,
+      }).execute(phase);
+
+      expect(result).toMatchObject({ tasksCompleted: 1, tasksFailed: 1, tasksSkipped: 1 });
+      expect(terminal.printWarning).toHaveBeenCalledWith(
+        '1 task(s) not run: they depend on tasks that failed'
+      );
+    });
+  });
+
+  describe('cross-phase dependencies', () => {
+    const createTask = (id: string, depends_on: string[] = [], status: Task['status'] = 'pending') =>
+      ({ id, description: `Task ${id}`, acceptance_criteria: [], depends_on, status }) as Task;
+
+    it('should treat tasks completed in earlier phases as satisfied', async () => {
+      mockStateManager.getAllTasks.mockReturnValue([
+        createTask('1.1', [], 'complete'),
+        createTask('1.2', [], 'skipped'),
+      ]);
+      const phase = {
+        ...samplePhase,
+        phase_number: 2,
+        tasks: [createTask('2.1', ['1.1', '1.2'])],
+      };
+
+      const result = await new PhaseExecutor(mockStateManager as any).execute(phase);
+
+      expect(result.tasksCompleted).toBe(1);
+      expect(result.success).toBe(true);
+    });
+
+    it('should name dependencies outside the phase that are not complete', async () => {
+      mockStateManager.getAllTasks.mockReturnValue([createTask('3.1')]);
+      const phase = {
+        ...samplePhase,
+        phase_number: 2,
+        tasks: [createTask('2.1', ['3.1'])],
+      };
+
+      const result = await new PhaseExecutor(mockStateManager as any).execute(phase);
+
+      expect(result.tasksSkipped).toBe(1);
+      expect(TaskExecutor).not.toHaveBeenCalled();
+      expect(terminal.printError).toHaveBeenCalledWith(
+        'Cannot proceed - tasks depend on unfinished tasks outside this phase: 2.1 → 3.1'
+      );
+    });
+  });
+
+  describe('worktrees', () => {
+    const createTask = (id: string): Task => ({
+      id,
+      description: `Task ${id}`,
+      acceptance_criteria: [],
+      depends_on: [],
+      status: 'pending',
+    });
+
+    function createGitWorkflow(merge: { merged: boolean; conflicts: string[] }) {
+      return {
+        isEnabled: vi.fn().mockReturnValue(true),
+        startImplPhase: vi.fn().mockResolvedValue(null),
+        createTaskWorktree: vi.fn().mockImplementation(async (taskId: string) => ({
+          taskId,
+          dir: `/repo/.git/orchestrator-worktrees/task-${taskId}`,
+          branch: `impl/task-${taskId}`,
+          workflow: { name: `workflow-${taskId}` },
+        })),
+        mergeTaskWorktree: vi.fn().mockResolvedValue(merge),
+        removeTaskWorktree: vi.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    const parallelPhase = () => ({ ...samplePhase, tasks: [createTask('1.1'), createTask('1.2')] });
+
+    beforeEach(() => {
+      vi.mocked(TaskExecutor).mockImplementation(
+        () =>
+          ({
+            executeWithRetry: vi.fn().mockImplementation(async (task: Task) => ({
+              task_id: task.id,
+              status: 'complete',
+              duration_ms: 10,
+            })),
+            on: vi.fn(),
+          }) as any
+      );
+    });
+
+    it('should run each parallel task in its own worktree and merge it back', async () => {
+      const gitWorkflow = createGitWorkflow({ merged: true, conflicts: [] });
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        parallel: true,
+        maxParallel: 2,
+        gitWorkflow: gitWorkflow as any,
+      });
+
+      const result = await executor.execute(parallelPhase());
+
+      expect(result.tasksCompleted).toBe(2);
+      const options = vi.mocked(TaskExecutor).mock.calls.map((call) => call[1]);
+      expect(options.map((o) => o?.cwd)).toEqual([
+        '/repo/.git/orchestrator-worktrees/task-1.1',
+        '/repo/.git/orchestrator-worktrees/task-1.2',
+      ]);
+      expect(options[0]?.gitWorkflow).toEqual({ name: 'workflow-1.1' });
+      expect(gitWorkflow.mergeTaskWorktree).toHaveBeenCalledTimes(2);
+      expect(gitWorkflow.removeTaskWorktree).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: '1.1' }),
+        false
+      );
+    });
+
+    it('should fail a task whose branch conflicts and keep the branch', async () => {
+      const gitWorkflow = createGitWorkflow({ merged: false, conflicts: ['src/index.ts'] });
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        parallel: true,
+        maxParallel: 2,
+        stopOnFailure: false,
+        gitWorkflow: gitWorkflow as any,
+      });
+
+      const result = await executor.execute(parallelPhase());
+
+      expect(result.tasksFailed).toBe(2);
+      expect(result.results[0]).toMatchObject({
+        status: 'failed',
+        failure_type: 'merge_conflict',
+        failure_reason:
+          'Merge conflict in src/index.ts; branch impl/task-1.1 kept for manual resolution',
+      });
+      expect(gitWorkflow.removeTaskWorktree).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: '1.1' }),
+        true
+      );
+      expect(mockStateManager.updateTask).toHaveBeenCalledWith(
+        '1.1',
+        expect.objectContaining({ status: 'failed' })
+      );
+    });
+
+    it('should use the main checkout when tasks run one at a time', async () => {
+      const gitWorkflow = createGitWorkflow({ merged: true, conflicts: [] });
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        gitWorkflow: gitWorkflow as any,
+      });
+
+      await executor.execute(parallelPhase());
+
+      expect(gitWorkflow.createTaskWorktree).not.toHaveBeenCalled();
+      expect(vi.mocked(TaskExecutor).mock.calls[0]?.[1]?.gitWorkflow).toBe(gitWorkflow);
+    });
+  });
+
   describe('setSpecification', () => {
     it('should set specification for context', async () => {
       const executor = new PhaseExecutor(mockStateManager as any);
@@ -277,6 +571,36 @@ describe('PhaseExecutor', () => {
 
       // TaskExecutor should be created with context including tech stack
       expect(TaskExecutor).toHaveBeenCalled();
+      expect(vi.mocked(TaskExecutor).mock.calls[0]?.[0]).toMatchObject({
+        specification: { architecture: 'Microservices' },
+      });
+    });
+  });
+
+  describe('task context', () => {
+    it('should pass completed dependency results and the prompt budget', async () => {
+      const dependent: Task = { ...sampleTask, id: '1.2', depends_on: ['1.1'] };
+      mockStateManager.getAllTasks.mockReturnValue([
+        { ...sampleTask, status: 'complete' },
+        dependent,
+      ]);
+      mockStateManager.getTaskResult.mockImplementation((id: string) =>
+        id === '1.1' ? { task_id: '1.1', status: 'complete', summary: 'Scaffolded' } : null
+      );
+
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        cwd: '/nonexistent',
+        contextTokens: 8000,
+      });
+      await executor.execute({
+        ...samplePhase,
+        tasks: [{ ...sampleTask, status: 'complete' }, dependent],
+      });
+
+      const context = vi.mocked(TaskExecutor).mock.calls[0]?.[0];
+      expect(context?.dependencyResults?.map((r) => r.task_id)).toEqual(['1.1']);
+      expect(context?.tokenBudget).toBe(8000);
+      expect(context?.claudeMd).toBeUndefined();
     });
   });
 
@@ -326,4 +650,101 @@ describe('PhaseExecutor', () => {
       expect(result.tasksCompleted + result.tasksSkipped).toBeLessThanOrEqual(2);
     });
   });
+
+  describe('budget', () => {
+    it('should check the budget before each task attempt', async () => {
+      const executor = new PhaseExecutor(mockStateManager as any);
+      await executor.execute(samplePhase);
+
+      const options = vi.mocked(TaskExecutor).mock.calls[0]?.[1];
+      options?.beforeAttempt?.(0.3);
+
+      expect(mockStateManager.checkBudget).toHaveBeenCalledWith({
+        phase: 'impl-1',
+        pendingUsd: 0.3,
+        taskId: '1.1',
+        taskSpentUsd: 0.3,
+      });
+    });
+
+    /**
+     * TaskExecutor mock that reports this run's spend before its attempt, like the real one
+     */
+    function mockSpendingExecutor(spend: Record<string, number>) {
+      vi.mocked(TaskExecutor).mockImplementation(
+        (_context, options) =>
+          ({
+            executeWithRetry: vi.fn().mockImplementation(async (task: Task) => {
+              options?.beforeAttempt?.(spend[task.id] ?? 0);
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              return {
+                task_id: task.id,
+                status: 'complete',
+                duration_ms: 10,
+                cost_usd: spend[task.id],
+              };
+            }),
+            on: vi.fn(),
+          }) as any
+      );
+    }
+
+    it('should pause with the task pending and its spend recorded', async () => {
+      mockSpendingExecutor({ '1.1': 0.7 });
+      mockStateManager.checkBudget.mockImplementationOnce(() => {
+        throw BudgetExceededError.task('1.1', 1, 1.2, 0.7);
+      });
+
+      const executor = new PhaseExecutor(mockStateManager as any);
+
+      await expect(executor.execute(samplePhase)).rejects.toThrow(BudgetExceededError);
+      expect(mockStateManager.addCost).toHaveBeenCalledWith(0, 0.7, 'impl-1');
+      expect(mockStateManager.updateTask).toHaveBeenCalledWith('1.1', {
+        status: 'pending',
+        cost_usd: 0.7,
+      });
+      expect(mockStateManager.save).toHaveBeenCalled();
+      expect(mockStateManager.recordTaskResult).not.toHaveBeenCalled();
+    });
+
+    it('should count the spend of a paused run against the task cap on resume', async () => {
+      mockSpendingExecutor({ '1.1': 0.3 });
+      const phase = { ...samplePhase, tasks: [{ ...sampleTask, cost_usd: 0.7 }] };
+
+      const executor = new PhaseExecutor(mockStateManager as any);
+      await executor.execute(phase);
+
+      expect(mockStateManager.checkBudget).toHaveBeenCalledWith({
+        phase: 'impl-1',
+        pendingUsd: 0.3,
+        taskId: '1.1',
+        taskSpentUsd: 1,
+      });
+      expect(mockStateManager.updateTask).toHaveBeenCalledWith(
+        '1.1',
+        expect.objectContaining({ status: 'complete', cost_usd: 1 })
+      );
+    });
+
+    it('should add the spend of all running tasks to the pending cost', async () => {
+      mockSpendingExecutor({ '1.1': 0.2, '1.2': 0.3 });
+      const phase = {
+        ...samplePhase,
+        tasks: [sampleTask, { ...sampleTask, id: '1.2' }],
+      };
+
+      const executor = new PhaseExecutor(mockStateManager as any, {
+        parallel: true,
+        maxParallel: 2,
+      });
+      await executor.execute(phase);
+
+      expect(mockStateManager.checkBudget).toHaveBeenLastCalledWith({
+        phase: 'impl-1',
+        pendingUsd: 0.5,
+        taskId: '1.2',
+        taskSpentUsd: 0.3,
+      });
+    });
+  });
 });
@@ -4,9 +4,21 @@ import {
   buildValidationPrompt,
   buildRetryPrompt,
   buildBatchPrompt,
+  collectDependencyResults,
+  estimateTokens,
+  type RetryEvidence,
   type TaskContext,
 } from '../../../../src/lib/execution/prompt-builder.js';
-import type { Task } from '../../../../src/types/index.js';
+import type { Task, TaskResult } from '../../../../src/types/index.js';
+
+function createResult(taskId: string, overrides: Partial<TaskResult> = {}): TaskResult {
+  return {
+    task_id: taskId,
+    status: 'complete',
+    completed_at: `2024-01-01T00:00:0${taskId.split('.')[1]}Z`,
+    ...overrides,
+  };
+}
 
 describe('Prompt Builder', () => {
   const sampleTask: Task = {
@@ -51,31 +63,30 @@ describe('Prompt Builder', () => {
       expect(prompt).toContain('3. src/ directory');
     });
 
-    it('should include architecture when provided', () => {
+    it('should include specification sections when provided', () => {
       const context: TaskContext = {
         ...sampleContext,
-        architecture: 'Microservices with REST API',
+        specification: {
+          architecture: 'Microservices with REST API',
+          tech_stack: [
+            { layer: 'Frontend', choice: 'React', rationale: 'Popular' },
+            { layer: 'Backend', choice: 'Node.js' },
+          ],
+          data_models: 'User { id, email }',
+          api_contracts: '',
+          ui_requirements: '',
+          raw_content: '',
+        },
       };
 
       const prompt = buildTaskPrompt(sampleTask, context);
 
+      expect(prompt).toContain('## Specification');
       expect(prompt).toContain('Microservices with REST API');
-    });
-
-    it('should include tech stack when provided', () => {
-      const context: TaskContext = {
-        ...sampleContext,
-        techStack: [
-          { layer: 'Frontend', choice: 'React', rationale: 'Popular' },
-          { layer: 'Backend', choice: 'Node.js' },
-        ],
-      };
-
-      const prompt = buildTaskPrompt(sampleTask, context);
-
-      expect(prompt).toContain('Frontend: React');
+      expect(prompt).toContain('Frontend: React (Popular)');
       expect(prompt).toContain('Backend: Node.js');
-      expect(prompt).toContain('(Popular)');
+      expect(prompt).toContain('### Data Models');
+      expect(prompt).not.toContain('### API Contracts');
     });
 
     it('should include dependencies when task has them', () => {
@@ -89,35 +100,55 @@ describe('Prompt Builder', () => {
       expect(prompt).toContain('0.1, 0.2');
     });
 
-    it('should include previous completed tasks', () => {
+    it('should include completed dependency results', () => {
       const context: TaskContext = {
         ...sampleContext,
-        previousTasks: [
-          {
-            id: '0.1',
-            description: 'Initialize repo',
-            acceptance_criteria: [],
-            depends_on: [],
-            status: 'complete',
-          },
+        dependencyResults: [
+          createResult('0.1', {
+            task_description: 'Initialize repo',
+            summary: 'Created package.json',
+            files_created: ['package.json'],
+            files_modified: ['README.md'],
+            key_decisions: [{ decision: 'Use ESM modules', rationale: 'Modern standard' }],
+          }),
         ],
       };
 
       const prompt = buildTaskPrompt(sampleTask, context);
 
-      expect(prompt).toContain('Previously Completed');
-      expect(prompt).toContain('0.1: Initialize repo');
+      expect(prompt).toContain('## Completed Dependencies');
+      expect(prompt).toContain('### Task 0.1: Initialize repo');
+      expect(prompt).toContain('Summary: Created package.json');
+      expect(prompt).toContain('Files created: package.json');
+      expect(prompt).toContain('Files modified: README.md');
+      expect(prompt).toContain('- Use ESM modules: Modern standard');
+    });
+
+    it('should leave out the dependencies section without results', () => {
+      const prompt = buildTaskPrompt(sampleTask, sampleContext);
+
+      expect(prompt).not.toContain('Completed Dependencies');
     });
 
-    it('should include CLAUDE.md reference when provided', () => {
+    it('should inline CLAUDE.md when provided', () => {
       const context: TaskContext = {
         ...sampleContext,
-        claudeMdPath: 'CLAUDE.md',
+        claudeMd: '# Project Context\n\n## Code Conventions\n- Use tabs',
       };
 
       const prompt = buildTaskPrompt(sampleTask, context);
 
-      expect(prompt).toContain('CLAUDE.md');
+      expect(prompt.startsWith('# Project Context')).toBe(true);
+      expect(prompt).toContain('- Use tabs');
+      expect(prompt).toContain('project guidelines in CLAUDE.md');
+    });
+
+    it('should describe the result file schema', () => {
+      const prompt = buildTaskPrompt(sampleTask, sampleContext);
+
+      expect(prompt).toContain('tasks/results/task-1.1.json');
+      expect(prompt).toContain('"status": "success" | "failed"');
+      expect(prompt).toContain('"acceptance_criteria"');
     });
 
     it('should include output format instructions', () => {
@@ -129,6 +160,106 @@ describe('Prompt Builder', () => {
     });
   });
 
+  describe('token budget', () => {
+    const longText = (word: string): string => `${word} `.repeat(400);
+
+    const context: TaskContext = {
+      ...sampleContext,
+      claudeMd: `# Conventions\n${longText('convention')}`,
+      specification: {
+        architecture: longText('architecture'),
+        tech_stack: [],
+        data_models: `package tsconfig ${longText('models')}`,
+        api_contracts: longText('endpoints'),
+        ui_requirements: '',
+        raw_content: '',
+      },
+      dependencyResults: [
+        createResult('0.1', { summary: longText('oldest') }),
+        createResult('0.2', { summary: longText('newest') }),
+      ],
+    };
+
+    it('should keep everything that fits', () => {
+      const prompt = buildTaskPrompt(sampleTask, { ...context, tokenBudget: 100000 });
+
+      expect(prompt).not.toContain('Omitted Context');
+      expect(prompt).toContain('### API Contracts');
+      expect(prompt).toContain('### Task 0.1');
+    });
+
+    it('should drop the least relevant specification sections first', () => {
+      const full = estimateTokens(buildTaskPrompt(sampleTask, { ...context, tokenBudget: 100000 }));
+
+      const prompt = buildTaskPrompt(sampleTask, { ...context, tokenBudget: full - 1000 });
+
+      // Data models mention the task's keywords; the other sections do not
+      expect(prompt).toContain('### Data Models');
+      expect(prompt).not.toContain('### API Contracts');
+      expect(prompt).toContain('### Task 0.1');
+      expect(prompt).toContain('Left out to fit the prompt budget');
+    });
+
+    it('should drop the oldest dependency results before CLAUDE.md', () => {
+      const prompt = buildTaskPrompt(sampleTask, { ...context, tokenBudget: 2500 });
+
+      expect(prompt).not.toContain('## Specification');
+      expect(prompt).not.toContain('### Task 0.1');
+      expect(prompt).toContain('### Task 0.2');
+      expect(prompt).toContain('# Conventions');
+    });
+
+    it('should truncate CLAUDE.md last and always keep the task', () => {
+      const prompt = buildTaskPrompt(sampleTask, { ...context, tokenBudget: 1000 });
+
+      expect(prompt).not.toContain('Completed Dependencies');
+      expect(prompt).toContain('[CLAUDE.md truncated]');
+      expect(prompt).toContain('## Task 1.1');
+      expect(prompt).toContain('### Result File');
+      expect(estimateTokens(prompt)).toBeLessThanOrEqual(1100);
+    });
+  });
+
+  describe('collectDependencyResults', () => {
+    const tasks: Task[] = [
+      { ...sampleTask, id: '1.1', depends_on: [] },
+      { ...sampleTask, id: '1.2', depends_on: ['1.1'] },
+      { ...sampleTask, id: '1.3', depends_on: ['1.2'] },
+      { ...sampleTask, id: '1.4', depends_on: ['1.3', '1.1'] },
+    ];
+
+    it('should include transitive dependencies, oldest first', () => {
+      const results = new Map([
+        ['1.1', createResult('1.1', { completed_at: '2024-01-01T00:00:00Z' })],
+        ['1.2', createResult('1.2', { completed_at: '2024-01-02T00:00:00Z' })],
+        ['1.3', createResult('1.3', { completed_at: '2024-01-03T00:00:00Z' })],
+      ]);
+
+      const collected = collectDependencyResults(
+        tasks[3]!,
+        tasks,
+        (id) => results.get(id) ?? null
+      );
+
+      expect(collected.map((r) => r.task_id)).toEqual(['1.1', '1.2', '1.3']);
+    });
+
+    it('should skip failed and missing results', () => {
+      const results = new Map([
+        ['1.1', createResult('1.1')],
+        ['1.2', createResult('1.2', { status: 'failed' })],
+      ]);
+
+      const collected = collectDependencyResults(
+        tasks[3]!,
+        tasks,
+        (id) => results.get(id) ?? null
+      );
+
+      expect(collected.map((r) => r.task_id)).toEqual(['1.1']);
+    });
+  });
+
   describe('buildValidationPrompt', () => {
     it('should include original task description', () => {
       const prompt = buildValidationPrompt(sampleTask, 'output');
@@ -167,35 +298,35 @@ describe('Prompt Builder', () => {
   });
 
   describe('buildRetryPrompt', () => {
+    function createEvidence(overrides: Partial<RetryEvidence> = {}): RetryEvidence {
+      return {
+        attempt: 2,
+        strategy: 'continue',
+        failureReason: 'Tests failed',
+        previousOutput: 'previous output',
+        ...overrides,
+      };
+    }
+
     it('should include original task prompt', () => {
-      const prompt = buildRetryPrompt(
-        sampleTask,
-        'previous output',
-        'Tests failed',
-        sampleContext
-      );
+      const prompt = buildRetryPrompt(sampleTask, createEvidence(), sampleContext);
 
       expect(prompt).toContain('Task 1.1');
       expect(prompt).toContain('test-project');
     });
 
-    it('should include failure reason', () => {
-      const prompt = buildRetryPrompt(
-        sampleTask,
-        'output',
-        'Tests failed',
-        sampleContext
-      );
+    it('should include failure reason and attempt number', () => {
+      const prompt = buildRetryPrompt(sampleTask, createEvidence({ attempt: 3 }), sampleContext);
 
       expect(prompt).toContain('Previous Attempt Failed');
+      expect(prompt).toContain('This is attempt 3.');
       expect(prompt).toContain('Tests failed');
     });
 
     it('should include previous output', () => {
       const prompt = buildRetryPrompt(
         sampleTask,
-        'Error: Module not found',
-        'failure',
+        createEvidence({ previousOutput: 'Error: Module not found' }),
         sampleContext
       );
 
@@ -203,12 +334,7 @@ describe('Prompt Builder', () => {
     });
 
     it('should include retry instructions', () => {
-      const prompt = buildRetryPrompt(
-        sampleTask,
-        'output',
-        'failure',
-        sampleContext
-      );
+      const prompt = buildRetryPrompt(sampleTask, createEvidence(), sampleContext);
 
       expect(prompt).toContain('Retry Instructions');
       expect(prompt).toContain('fix the issues');
@@ -218,8 +344,7 @@ describe('Prompt Builder', () => {
       const longOutput = 'x'.repeat(5000);
       const prompt = buildRetryPrompt(
         sampleTask,
-        longOutput,
-        'failure',
+        createEvidence({ previousOutput: longOutput }),
         sampleContext
       );
 
@@ -230,6 +355,99 @@ describe('Prompt Builder', () => {
       );
       expect(longestMatch?.length).toBeLessThanOrEqual(2000);
     });
+
+    it('should keep the end of long previous output', () => {
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ previousOutput: 'x'.repeat(5000) + '\nError: Module not found' }),
+        sampleContext
+      );
+
+      expect(prompt).toContain('Error: Module not found');
+    });
+
+    it('should fit the base context and the evidence into the token budget', () => {
+      const context: TaskContext = {
+        ...sampleContext,
+        claudeMd: `# Conventions\n${'convention '.repeat(2000)}`,
+        tokenBudget: 3000,
+      };
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({
+          previousOutput: 'x'.repeat(5000),
+          failedCommands: [{ command: 'npm test', output: 'y'.repeat(5000) + '\nFAIL' }],
+          diff: '+z'.repeat(5000),
+        }),
+        context
+      );
+
+      expect(prompt).toContain('[CLAUDE.md truncated]');
+      expect(prompt).toContain('FAIL');
+      expect(prompt).toContain('## Task 1.1');
+      expect(estimateTokens(prompt)).toBeLessThanOrEqual(3100);
+    });
+
+    it('should include failing verification output, keeping its end', () => {
+      const output = 'y'.repeat(4000) + '\nFAIL src/index.test.ts';
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ failedCommands: [{ command: 'npm test', output }] }),
+        sampleContext
+      );
+
+      expect(prompt).toContain('### Failing Verification Commands');
+      expect(prompt).toContain('`npm test`');
+      expect(prompt).toContain('FAIL src/index.test.ts');
+      expect(prompt).toContain('[truncated]');
+    });
+
+    it('should list unmet acceptance criteria', () => {
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ unmetCriteria: ['tsconfig.json is properly configured (strict is off)'] }),
+        sampleContext
+      );
+
+      expect(prompt).toContain('### Unmet Acceptance Criteria');
+      expect(prompt).toContain('- tsconfig.json is properly configured (strict is off)');
+    });
+
+    it('should describe kept changes when continuing', () => {
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ diff: '+const a = 1;', createdFiles: ['src/a.ts'] }),
+        sampleContext
+      );
+
+      expect(prompt).toContain('### Changes From the Previous Attempt');
+      expect(prompt).toContain('still in the working tree');
+      expect(prompt).toContain('New files: src/a.ts');
+      expect(prompt).toContain('+const a = 1;');
+    });
+
+    it('should describe discarded changes after a reset', () => {
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ strategy: 'reset', diff: '+const a = 1;' }),
+        sampleContext
+      );
+
+      expect(prompt).toContain('has been reset');
+      expect(prompt).not.toContain('still in the working tree');
+    });
+
+    it('should omit empty evidence sections', () => {
+      const prompt = buildRetryPrompt(
+        sampleTask,
+        createEvidence({ failedCommands: [], unmetCriteria: [], diff: '' }),
+        sampleContext
+      );
+
+      expect(prompt).not.toContain('Failing Verification Commands');
+      expect(prompt).not.toContain('Unmet Acceptance Criteria');
+      expect(prompt).not.toContain('Changes From the Previous Attempt');
+    });
   });
 
   describe('buildBatchPrompt', () => {
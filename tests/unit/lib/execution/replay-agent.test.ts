@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import {
+  ReplayAgentBackend,
+  createReplayAgentFactory,
+} from '../../../../src/lib/execution/replay-agent.js';
+import { parseValidationOutput } from '../../../../src/lib/execution/result-parser.js';
+
+describe('ReplayAgentBackend', () => {
+  let fixturesDir: string;
+  let workDir: string;
+
+  const writeFixture = (taskId: string, fixture: unknown) =>
+    fs.writeFile(path.join(fixturesDir, 'agent', `${taskId}.json`), JSON.stringify(fixture));
+
+  beforeEach(async () => {
+    fixturesDir = await createTestTempDir('replay-agent-fixtures-');
+    workDir = await createTestTempDir('replay-agent-work-');
+    await fs.mkdir(path.join(fixturesDir, 'agent'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should return the scripted output and apply file edits', async () => {
+    await fs.writeFile(path.join(workDir, 'old.txt'), 'stale');
+    await writeFixture('1.1', {
+      output: '## Task Complete',
+      files: { 'src/index.ts': 'export {};\n' },
+      delete: ['old.txt'],
+    });
+    const backend = new ReplayAgentBackend({ fixturesDir, cwd: workDir });
+
+    const result = await backend.execute('prompt', { taskId: '1.1', purpose: 'task' });
+
+    expect(result).toMatchObject({ success: true, output: '## Task Complete', exitCode: 0 });
+    expect(await fs.readFile(path.join(workDir, 'src/index.ts'), 'utf-8')).toBe('export {};\n');
+    await expect(fs.access(path.join(workDir, 'old.txt'))).rejects.toThrow();
+  });
+
+  it('should select steps by attempt and repeat the last', async () => {
+    await writeFixture('1.1', [
+      { output: 'first', exitCode: 1 },
+      { output: 'second' },
+    ]);
+    const backend = new ReplayAgentBackend({ fixturesDir, cwd: workDir });
+
+    const first = await backend.execute('p', { taskId: '1.1', purpose: 'task', attempt: 0 });
+    const third = await backend.execute('p', { taskId: '1.1', purpose: 'task', attempt: 2 });
+
+    expect(first).toMatchObject({ success: false, output: 'first', exitCode: 1 });
+    expect(third).toMatchObject({ success: true, output: 'second' });
+  });
+
+  it('should pass validation unless the fixture scripts a verdict', async () => {
+    await writeFixture('1.1', { output: 'done' });
+    await writeFixture('1.2', { output: 'done', validation: 'Status: FAIL' });
+    const backend = new ReplayAgentBackend({ fixturesDir, cwd: workDir });
+
+    const passed = await backend.execute('v', { taskId: '1.1', purpose: 'validation' });
+    const failed = await backend.execute('v', { taskId: '1.2', purpose: 'validation' });
+
+    expect(parseValidationOutput(passed.output).passed).toBe(true);
+    expect(parseValidationOutput(failed.output).passed).toBe(false);
+  });
+
+  it('should fail when no fixture exists for the task', async () => {
+    const backend = new ReplayAgentBackend({ fixturesDir, cwd: workDir });
+
+    const result = await backend.execute('p', { taskId: '9.9', purpose: 'task' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No replay fixture for task 9.9/);
+  });
+
+  it('should refuse edits outside the working directory', async () => {
+    await writeFixture('1.1', { output: 'done', files: { '../escape.txt': 'x' } });
+    const backend = new ReplayAgentBackend({ fixturesDir, cwd: workDir });
+
+    const result = await backend.execute('p', { taskId: '1.1', purpose: 'task' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/escapes working directory/);
+  });
+
+  it('should stream the output as one chunk', async () => {
+    await writeFixture('1.1', { output: 'streamed' });
+    const chunks: string[] = [];
+    const backend = createReplayAgentFactory(fixturesDir)({ cwd: workDir });
+
+    await backend.executeStream('p', (c) => chunks.push(c), { taskId: '1.1', purpose: 'task' });
+
+    expect(backend.name).toBe('replay');
+    expect(chunks).toEqual(['streamed']);
+    expect(await backend.isAvailable()).toBe(true);
+  });
+});
@@ -228,6 +228,25 @@ The task was completed but with some issues noted.
       expect(result.cost_usd).toBe(0.05);
     });
 
+    it('should record tokens and cost from agent usage', () => {
+      const parsed = {
+        success: true,
+        filesModified: [],
+        criteriaStatus: [],
+        summary: 'Task done',
+        raw: '',
+      };
+
+      const result = toTaskResult('1.1', parsed, 5000, {
+        inputTokens: 1200,
+        outputTokens: 300,
+        costUsd: 0.02,
+      });
+
+      expect(result.tokens_used).toBe(1500);
+      expect(result.cost_usd).toBe(0.02);
+    });
+
     it('should set status to failed for unsuccessful parse', () => {
       const parsed = {
         success: false,
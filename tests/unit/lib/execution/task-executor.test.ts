@@ -4,6 +4,14 @@ import {
   type TaskExecutionEvent,
 } from '../../../../src/lib/execution/task-executor.js';
 import type { Task } from '../../../../src/types/index.js';
+import type {
+  GitWorkflowManager,
+  WorkingChanges,
+} from '../../../../src/lib/git/workflow-manager.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TaskResultManager } from '../../../../src/lib/task-results.js';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
 
 // Mock the ClaudeAdapter
 vi.mock('../../../../src/lib/execution/claude-adapter.js', () => ({
@@ -41,6 +49,10 @@ vi.mock('../../../../src/lib/ui/terminal.js', () => ({
 }));
 
 import { ClaudeAdapter } from '../../../../src/lib/execution/claude-adapter.js';
+import {
+  registerAgentBackend,
+  unregisterAgentBackend,
+} from '../../../../src/lib/execution/agent-registry.js';
 import * as terminal from '../../../../src/lib/ui/terminal.js';
 
 describe('TaskExecutor', () => {
@@ -76,6 +88,44 @@ describe('TaskExecutor', () => {
       });
       expect(executor).toBeDefined();
     });
+
+    it('should use the backend registered for the agent option', async () => {
+      const backend = {
+        name: 'scripted',
+        execute: vi.fn(),
+        executeStream: vi.fn().mockResolvedValue({
+          success: true,
+          output: '## Task Complete\n1. [PASS] Done',
+          exitCode: 0,
+          duration: 10,
+        }),
+        abort: vi.fn(),
+        isRunning: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockResolvedValue(true),
+      };
+      registerAgentBackend('scripted', () => backend);
+
+      try {
+        const executor = new TaskExecutor(context, { agent: 'scripted', validateResults: false });
+        const result = await executor.execute(sampleTask);
+
+        expect(result.status).toBe('complete');
+        expect(backend.executeStream).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.any(Function),
+          { taskId: '1.1', purpose: 'task', attempt: 0, timeoutMs: 300000 }
+        );
+        expect(ClaudeAdapter).not.toHaveBeenCalled();
+      } finally {
+        unregisterAgentBackend('scripted');
+      }
+    });
+
+    it('should throw for unknown agent backends', () => {
+      expect(() => new TaskExecutor(context, { agent: 'missing' })).toThrow(
+        /Unknown agent backend/
+      );
+    });
   });
 
   describe('execute', () => {
@@ -144,8 +194,64 @@ describe('TaskExecutor', () => {
       const result = await executor.execute(sampleTask);
 
       expect(result.status).toBe('failed');
+      expect(result.failure_type).toBe('agent_error');
       expect(terminal.printError).toHaveBeenCalled();
     });
+
+    it('should record timeouts as their own failure type', async () => {
+      const mockAdapter = {
+        executeStream: vi.fn().mockResolvedValue({
+          success: false,
+          output: 'partial output',
+          error: 'Execution timed out after 60000ms',
+          exitCode: -1,
+          duration: 60000,
+          timedOut: true,
+        }),
+        execute: vi.fn(),
+        abort: vi.fn(),
+        isRunning: vi.fn(),
+      };
+      vi.mocked(ClaudeAdapter).mockImplementationOnce(() => mockAdapter as any);
+
+      const executor = new TaskExecutor(context, { timeout: 60000, validateResults: false });
+      const result = await executor.execute(sampleTask);
+
+      expect(result.status).toBe('failed');
+      expect(result.failure_type).toBe('timeout');
+      expect(result.failure_reason).toBe('Timed out after 1 minute');
+    });
+
+    it('should use the task timeout over the configured default', async () => {
+      const executor = new TaskExecutor(context, { timeout: 60000, validateResults: false });
+      await executor.execute({ ...sampleTask, timeout_minutes: 15 });
+
+      const mockAdapter = vi.mocked(ClaudeAdapter).mock.results[0]?.value;
+      expect(mockAdapter.executeStream).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Function),
+        expect.objectContaining({ timeoutMs: 15 * 60 * 1000 })
+      );
+    });
+
+    it('should record failed validation as its own failure type', async () => {
+      const executor = new TaskExecutor(context);
+      const mockAdapter = vi.mocked(ClaudeAdapter).mock.results[0]?.value;
+      mockAdapter.execute.mockResolvedValueOnce({
+        success: true,
+        output: 'Status: FAIL\n### Summary\nMissing tests',
+        exitCode: 0,
+        duration: 1000,
+      });
+
+      const result = await executor.execute(sampleTask);
+
+      expect(result.failure_type).toBe('validation_failed');
+      expect(mockAdapter.execute).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ purpose: 'validation', timeoutMs: 300000 })
+      );
+    });
   });
 
   describe('executeWithRetry', () => {
@@ -189,6 +295,38 @@ describe('TaskExecutor', () => {
       expect(attempts).toBe(2);
     });
 
+    it('should accumulate usage across attempts and validation', async () => {
+      const usage = { inputTokens: 100, outputTokens: 50, costUsd: 0.01 };
+      const mockAdapter = {
+        executeStream: vi
+          .fn()
+          .mockResolvedValueOnce({
+            success: false,
+            output: 'First attempt failed',
+            exitCode: 1,
+            duration: 1000,
+            usage,
+          })
+          .mockResolvedValueOnce({
+            success: true,
+            output: '## Task Complete\n1. [PASS] Done',
+            exitCode: 0,
+            duration: 2000,
+            usage,
+          }),
+        execute: vi.fn().mockResolvedValue({ output: 'Status: PASS', usage }),
+        abort: vi.fn(),
+        isRunning: vi.fn(),
+      };
+      vi.mocked(ClaudeAdapter).mockImplementationOnce(() => mockAdapter as any);
+
+      const executor = new TaskExecutor(context, { maxRetries: 2 });
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(result.tokens_used).toBe(450);
+      expect(result.cost_usd).toBeCloseTo(0.03);
+    });
+
     it('should emit retry events', async () => {
       let attempts = 0;
       const mockAdapter = {
@@ -222,6 +360,9 @@ describe('TaskExecutor', () => {
       await executor.executeWithRetry(sampleTask);
 
       expect(events.some((e) => e.type === 'retry')).toBe(true);
+      // One start for the task, then a retry event per further attempt
+      expect(events.filter((e) => e.type === 'start')).toHaveLength(1);
+      expect(events.findIndex((e) => e.type === 'start')).toBe(0);
     });
 
     it('should fail after max retries', async () => {
@@ -249,6 +390,473 @@ describe('TaskExecutor', () => {
     });
   });
 
+  describe('result file ingestion', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await createTestTempDir('task-executor-results-');
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+      unregisterAgentBackend('writer');
+    });
+
+    // Backend that writes a result file (or not) the way a real agent would
+    function registerWriter(fileContent: string | null, output = 'Working...'): void {
+      registerAgentBackend('writer', () => ({
+        name: 'writer',
+        execute: vi.fn(),
+        executeStream: vi.fn().mockImplementation(async () => {
+          if (fileContent !== null) {
+            await fs.mkdir(path.join(workDir, 'tasks', 'results'), { recursive: true });
+            await fs.writeFile(
+              path.join(workDir, 'tasks', 'results', 'task-1.1.json'),
+              fileContent
+            );
+          }
+          return {
+            success: true,
+            output,
+            exitCode: 0,
+            duration: 3000,
+            usage: { inputTokens: 100, outputTokens: 50, costUsd: 0.02 },
+          };
+        }),
+        abort: vi.fn(),
+        isRunning: vi.fn().mockReturnValue(false),
+        isAvailable: vi.fn().mockResolvedValue(true),
+      }));
+    }
+
+    it('should prefer the result JSON written by the agent', async () => {
+      registerWriter(
+        JSON.stringify({
+          task_id: '1.1',
+          status: 'success',
+          summary: 'Created the project skeleton',
+          files_created: ['src/index.ts'],
+          tests_added: 2,
+          tokens_used: 1,
+          cost_usd: 0,
+        })
+      );
+
+      const executor = new TaskExecutor(context, {
+        agent: 'writer',
+        cwd: workDir,
+        validateResults: false,
+      });
+      const result = await executor.execute(sampleTask);
+
+      expect(result).toMatchObject({
+        status: 'complete',
+        result_source: 'agent_json',
+        output_summary: 'Created the project skeleton',
+        files_created: ['src/index.ts'],
+        tests_added: 2,
+        duration_ms: 3000,
+        raw_output: 'Working...',
+        // Spend comes from the backend, not the agent's own report
+        tokens_used: 150,
+        cost_usd: 0.02,
+      });
+    });
+
+    it('should keep the failure reason from a failed result file', async () => {
+      registerWriter(
+        JSON.stringify({ task_id: '1.1', status: 'failed', failure_reason: 'Tests do not pass' }),
+        '## Task Complete'
+      );
+
+      const executor = new TaskExecutor(context, {
+        agent: 'writer',
+        cwd: workDir,
+        validateResults: false,
+      });
+      const result = await executor.execute(sampleTask);
+
+      expect(result.status).toBe('failed');
+      expect(result.failure_type).toBe('incomplete');
+      expect(result.failure_reason).toBe('Tests do not pass');
+    });
+
+    it('should fall back to parsing output when the file is invalid', async () => {
+      registerWriter('not json', '## Task Complete\n1. [PASS] Done');
+
+      const executor = new TaskExecutor(context, {
+        agent: 'writer',
+        cwd: workDir,
+        validateResults: false,
+      });
+      const result = await executor.execute(sampleTask);
+
+      expect(result.status).toBe('complete');
+      expect(result.result_source).toBe('output_parse');
+      expect(terminal.printWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Ignoring result file for task 1.1')
+      );
+    });
+
+    it('should fall back to parsing output when no file is written', async () => {
+      registerWriter(null, '## Task Complete\n1. [PASS] Done');
+
+      const executor = new TaskExecutor(context, {
+        agent: 'writer',
+        cwd: workDir,
+        validateResults: false,
+      });
+      const result = await executor.execute(sampleTask);
+
+      expect(result.result_source).toBe('output_parse');
+      expect(terminal.printWarning).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verification commands', () => {
+    it('should fail a task when a verification command fails', async () => {
+      const executor = new TaskExecutor(context, {
+        validateResults: true,
+        verification: { test: 'echo "Tests  1 failed | 3 passed (4)" && exit 1' },
+      });
+      const mockAdapter = vi.mocked(ClaudeAdapter).mock.results[0].value;
+
+      const result = await executor.execute(sampleTask);
+
+      expect(result).toMatchObject({
+        status: 'failed',
+        failure_type: 'verification_failed',
+        tests_passed: false,
+        tests_passing: 3,
+        tests_failing: 1,
+      });
+      expect(result.failure_reason).toContain('test (echo');
+      // The LLM validation is not consulted once the objective gate fails
+      expect(mockAdapter.execute).not.toHaveBeenCalled();
+    });
+
+    it('should record test counts when verification passes', async () => {
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        verification: { test: 'echo "Tests  5 passed (5)"', lint: 'true' },
+      });
+
+      const result = await executor.execute(sampleTask);
+
+      expect(result).toMatchObject({
+        status: 'complete',
+        tests_passed: true,
+        tests_passing: 5,
+        tests_failing: 0,
+      });
+    });
+  });
+
+  describe('change verification', () => {
+    function createGitWorkflow(after: WorkingChanges) {
+      return {
+        getWorkingChanges: vi
+          .fn()
+          .mockResolvedValueOnce({ created: [], modified: [], deleted: [], lines: {} })
+          .mockResolvedValueOnce(after),
+        commitTask: vi.fn().mockResolvedValue(null),
+      } as unknown as GitWorkflowManager;
+    }
+
+    it('should record what git saw change instead of the claimed files', async () => {
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        gitWorkflow: createGitWorkflow({
+          created: ['src/index.ts'],
+          modified: ['package.json'],
+          deleted: [],
+          lines: {
+            'src/index.ts': { added: 30, removed: 0 },
+            'package.json': { added: 2, removed: 1 },
+          },
+        }),
+      });
+      const mockAdapter = vi.mocked(ClaudeAdapter).mock.results[0].value;
+      mockAdapter.executeStream.mockResolvedValueOnce({
+        success: true,
+        output: '## Task Complete\n### Files Modified\n- src/index.ts: entry point\n',
+        exitCode: 0,
+        duration: 1000,
+      });
+
+      const result = await executor.execute(sampleTask);
+
+      expect(result.files_created).toEqual(['src/index.ts']);
+      expect(result.files_modified).toEqual(['package.json']);
+      expect(result.verified_changes).toMatchObject({
+        lines_added: 32,
+        lines_removed: 1,
+        unreported: ['package.json'],
+        no_changes: false,
+      });
+      expect(terminal.printWarning).toHaveBeenCalledWith(
+        'Task 1.1 changed files it did not report: package.json'
+      );
+    });
+
+    it('should flag a task that reports success without changing anything', async () => {
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        gitWorkflow: createGitWorkflow({ created: [], modified: [], deleted: [], lines: {} }),
+      });
+
+      const result = await executor.execute(sampleTask);
+
+      expect(result.status).toBe('complete');
+      expect(result.verified_changes?.no_changes).toBe(true);
+      expect(terminal.printWarning).toHaveBeenCalledWith(
+        'Task 1.1 reported success but changed no files'
+      );
+    });
+  });
+
+  describe('retry evidence and strategy', () => {
+    const failed = { success: false, output: 'Agent crashed', exitCode: 1, duration: 1000 };
+    const complete = {
+      success: true,
+      output: '## Task Complete\n1. [PASS] Done',
+      exitCode: 0,
+      duration: 2000,
+    };
+
+    function createAdapter(...runs: Array<Record<string, unknown>>) {
+      const executeStream = vi.fn();
+      for (const run of runs) {
+        executeStream.mockResolvedValueOnce(run);
+      }
+      const adapter = {
+        executeStream,
+        execute: vi.fn().mockResolvedValue({ output: 'Status: PASS' }),
+        abort: vi.fn(),
+        isRunning: vi.fn(),
+      };
+      vi.mocked(ClaudeAdapter).mockImplementationOnce(() => adapter as any);
+      return adapter;
+    }
+
+    // Working tree that starts with PROJECT.md dirty and gains whatever the agent writes
+    function createGitWorkflow() {
+      const clean: WorkingChanges = {
+        created: [],
+        modified: ['PROJECT.md'],
+        deleted: [],
+        lines: { 'PROJECT.md': { added: 1, removed: 1 } },
+      };
+      const tree = { changes: clean };
+      const workflow = {
+        getHeadCommit: vi.fn().mockResolvedValue('abc1234def'),
+        getWorkingChanges: vi.fn().mockImplementation(() => Promise.resolve(tree.changes)),
+        getWorkingDiff: vi.fn().mockResolvedValue('-old\n+new'),
+        resetToCommit: vi.fn().mockImplementation(() => {
+          tree.changes = clean;
+          return Promise.resolve();
+        }),
+        commitTask: vi.fn().mockResolvedValue(null),
+      };
+      const dirty: WorkingChanges = {
+        created: ['src/broken.ts', 'tasks/results/task-1.1.json'],
+        modified: ['PROJECT.md', 'src/index.ts'],
+        deleted: [],
+        lines: {
+          'PROJECT.md': { added: 1, removed: 1 },
+          'src/broken.ts': { added: 10, removed: 0 },
+          'tasks/results/task-1.1.json': { added: 5, removed: 0 },
+          'src/index.ts': { added: 3, removed: 1 },
+        },
+      };
+      const dirtyTree = () => {
+        tree.changes = dirty;
+      };
+      return { workflow: workflow as unknown as GitWorkflowManager, mock: workflow, dirtyTree };
+    }
+
+    it('should feed failing verification output into the retry prompt', async () => {
+      const adapter = createAdapter(complete, complete);
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        maxRetries: 1,
+        verification: { test: 'echo "Expected 2, received 3" && exit 1' },
+      });
+
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(result.status).toBe('failed');
+      const retryPrompt = adapter.executeStream.mock.calls[1]![0] as string;
+      expect(retryPrompt).toContain('### Failing Verification Commands');
+      expect(retryPrompt).toContain('Expected 2, received 3');
+      expect(retryPrompt).toContain('This is attempt 2.');
+    });
+
+    it('should feed criteria the validator found unmet into the retry prompt', async () => {
+      const adapter = createAdapter(complete, complete);
+      adapter.execute
+        .mockResolvedValueOnce({
+          output: '1. [FAIL] Files exist - src/index.ts is missing\nStatus: FAIL',
+        })
+        .mockResolvedValueOnce({ output: 'Status: PASS' });
+      const executor = new TaskExecutor(context, { maxRetries: 1 });
+
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(result.status).toBe('complete');
+      const retryPrompt = adapter.executeStream.mock.calls[1]![0] as string;
+      expect(retryPrompt).toContain('### Unmet Acceptance Criteria');
+      expect(retryPrompt).toContain('Files exist');
+    });
+
+    it('should keep every attempt in the result history', async () => {
+      createAdapter(
+        { ...failed, usage: { inputTokens: 10, outputTokens: 5, costUsd: 0.01 } },
+        complete
+      );
+      const executor = new TaskExecutor(context, { validateResults: false, maxRetries: 2 });
+
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(result.attempts).toHaveLength(2);
+      expect(result.attempts![0]).toMatchObject({
+        attempt: 1,
+        status: 'failed',
+        failure_type: 'agent_error',
+        tokens_used: 15,
+        cost_usd: 0.01,
+        transcript: 'Agent crashed',
+      });
+      expect(result.attempts![0]!.strategy).toBeUndefined();
+      // Without git there is nothing to reset to
+      expect(result.attempts![1]).toMatchObject({
+        attempt: 2,
+        strategy: 'continue',
+        status: 'complete',
+      });
+    });
+
+    it('should reset to the pre-task commit after an agent error', async () => {
+      const git = createGitWorkflow();
+      const adapter = createAdapter();
+      adapter.executeStream
+        .mockImplementationOnce(() => {
+          git.dirtyTree();
+          return Promise.resolve(failed);
+        })
+        .mockResolvedValueOnce(complete);
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        maxRetries: 1,
+        gitWorkflow: git.workflow,
+      });
+
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(result.status).toBe('complete');
+      expect(git.mock.resetToCommit).toHaveBeenCalledWith(
+        'abc1234def',
+        ['PROJECT.md', 'tasks/results/task-1.1.json'],
+        ['src/broken.ts']
+      );
+      expect(result.attempts![1]!.strategy).toBe('reset');
+      const retryPrompt = adapter.executeStream.mock.calls[1]![0] as string;
+      expect(retryPrompt).toContain('has been reset');
+      expect(retryPrompt).toContain('New files: src/broken.ts');
+      expect(git.mock.getWorkingDiff).toHaveBeenCalledWith(['src/index.ts']);
+    });
+
+    it('should continue from the current tree when configured to', async () => {
+      const git = createGitWorkflow();
+      const adapter = createAdapter();
+      adapter.executeStream
+        .mockImplementationOnce(() => {
+          git.dirtyTree();
+          return Promise.resolve(failed);
+        })
+        .mockResolvedValueOnce(complete);
+      const executor = new TaskExecutor(context, {
+        validateResults: false,
+        maxRetries: 1,
+        retryStrategy: 'continue',
+        gitWorkflow: git.workflow,
+      });
+
+      const result = await executor.executeWithRetry(sampleTask);
+
+      expect(git.mock.resetToCommit).not.toHaveBeenCalled();
+      expect(result.attempts![1]!.strategy).toBe('continue');
+      const retryPrompt = adapter.executeStream.mock.calls[1]![0] as string;
+      expect(retryPrompt).toContain('still in the working tree');
+      expect(retryPrompt).toContain('+new');
+      // The commit covers what the first attempt left for the second to build on
+      expect(git.mock.commitTask).toHaveBeenCalledWith('1.1', result, [
+        'src/broken.ts',
+        'src/index.ts',
+      ]);
+    });
+  });
+
+  describe('attempt logs', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await createTestTempDir('task-executor-attempts-');
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('should save the prompt, transcripts and validation of every attempt', async () => {
+      const attemptLog = new TaskResultManager(workDir);
+      const executor = new TaskExecutor(context, {
+        maxRetries: 1,
+        attemptLog,
+        verification: { lint: 'echo "2 problems" && exit 1' },
+      });
+      const mockAdapter = vi.mocked(ClaudeAdapter).mock.results[0].value;
+      mockAdapter.executeStream
+        .mockResolvedValueOnce({
+          success: true,
+          output: '## Task Complete',
+          stdout: '{"type":"result","result":"## Task Complete"}',
+          stderr: 'warning: slow disk',
+          exitCode: 0,
+          duration: 1000,
+        })
+        .mockResolvedValueOnce({
+          success: false,
+          output: 'gave up',
+          exitCode: 2,
+          duration: 500,
+        });
+
+      await executor.executeWithRetry(sampleTask);
+
+      const attempts = await attemptLog.listAttempts('1.1');
+      expect(attempts).toHaveLength(2);
+      expect(attempts[0]).toMatchObject({
+        attempt: 1,
+        exit_code: 0,
+        status: 'failed',
+        failure_type: 'verification_failed',
+      });
+      expect(attempts[1]).toMatchObject({ attempt: 2, strategy: 'continue', exit_code: 2 });
+      expect(await attemptLog.readAttemptArtifact('1.1', 1, 'prompt')).toContain('Task 1.1');
+      expect(await attemptLog.readAttemptArtifact('1.1', 1, 'stdout')).toContain('"type":"result"');
+      expect(await attemptLog.readAttemptArtifact('1.1', 1, 'stderr')).toBe('warning: slow disk');
+      expect(await attemptLog.readAttemptArtifact('1.1', 1, 'validation')).toContain(
+        '$ echo "2 problems" && exit 1 (exit 1)\n2 problems'
+      );
+      // Backends without raw streams fall back to the parsed output
+      expect(await attemptLog.readAttemptArtifact('1.1', 2, 'stdout')).toBe('gave up');
+      expect(await attemptLog.readAttemptArtifact('1.1', 2, 'prompt')).toContain(
+        'Previous Attempt Failed'
+      );
+    });
+  });
+
   describe('validate', () => {
     it('should call validation prompt', async () => {
       const executor = new TaskExecutor(context);
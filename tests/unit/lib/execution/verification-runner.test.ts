@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import {
+  VerificationRunner,
+  applyVerificationReport,
+  describeFailures,
+  parseTestCounts,
+} from '../../../../src/lib/execution/verification-runner.js';
+import type { TaskResult } from '../../../../src/types/index.js';
+
+describe('VerificationRunner', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await createTestTempDir('verification-test-');
+  });
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should skip empty commands', () => {
+    const runner = new VerificationRunner({ cwd, commands: { test: 'npm test', lint: ' ' } });
+
+    expect(runner.hasCommands()).toBe(true);
+    expect(runner.getSteps()).toEqual([{ step: 'test', command: 'npm test' }]);
+    expect(new VerificationRunner({ cwd, commands: {} }).hasCommands()).toBe(false);
+  });
+
+  it('should run commands in the project directory and parse test counts', async () => {
+    await fs.writeFile(`${cwd}/marker.txt`, 'here');
+    const runner = new VerificationRunner({
+      cwd,
+      commands: {
+        typecheck: 'cat marker.txt',
+        test: 'echo " Test Files  2 passed (2)" && echo "      Tests  7 passed (7)"',
+      },
+    });
+
+    const report = await runner.run();
+
+    expect(report.passed).toBe(true);
+    expect(report.outcomes.map((o) => o.step)).toEqual(['typecheck', 'test']);
+    expect(report.outcomes[0]?.output).toBe('here');
+    expect(report.tests).toEqual({ passing: 7, failing: 0 });
+  });
+
+  it('should run every command and fail on a non-zero exit', async () => {
+    const runner = new VerificationRunner({
+      cwd,
+      commands: {
+        lint: 'echo "2 problems" >&2 && exit 3',
+        test: 'echo "Tests: 1 failed, 4 passed"',
+      },
+    });
+
+    const report = await runner.run();
+
+    expect(report.passed).toBe(false);
+    expect(report.outcomes[0]).toMatchObject({ step: 'lint', passed: false, exitCode: 3 });
+    expect(report.outcomes[0]?.output).toContain('2 problems');
+    expect(report.outcomes[1]?.passed).toBe(true);
+    expect(describeFailures(report)).toBe(
+      'lint (echo "2 problems" >&2 && exit 3) exited with code 3'
+    );
+  });
+
+  it('should stop commands that exceed the time limit', async () => {
+    const runner = new VerificationRunner({ cwd, commands: { test: 'sleep 5' }, timeoutMs: 200 });
+
+    const report = await runner.run();
+
+    expect(report.passed).toBe(false);
+    expect(report.outcomes[0]?.timedOut).toBe(true);
+    expect(describeFailures(report)).toBe('test (sleep 5) timed out');
+  });
+
+  it('should kill a timed-out command that ignores SIGTERM', async () => {
+    const runner = new VerificationRunner({
+      cwd,
+      commands: { test: `trap '' TERM; sleep 30` },
+      timeoutMs: 200,
+      killGraceMs: 200,
+    });
+
+    const report = await runner.run();
+
+    expect(report.outcomes[0]?.timedOut).toBe(true);
+    expect(report.outcomes[0]?.durationMs).toBeLessThan(5000);
+  });
+
+  it('should not wait for a leftover process that keeps the output open', async () => {
+    const runner = new VerificationRunner({ cwd, commands: { test: 'sleep 30 & echo done' } });
+
+    const report = await runner.run();
+
+    expect(report.passed).toBe(true);
+    expect(report.outcomes[0]?.output).toContain('done');
+    expect(report.outcomes[0]?.durationMs).toBeLessThan(5000);
+  });
+});
+
+describe('parseTestCounts', () => {
+  it('should read vitest summaries', () => {
+    const output = ' Test Files  1 failed | 3 passed (4)\n      Tests  2 failed | 40 passed (42)\n';
+    expect(parseTestCounts(output)).toEqual({ passing: 40, failing: 2 });
+  });
+
+  it('should read jest summaries', () => {
+    const output = 'Test Suites: 1 passed, 1 total\nTests:       1 failed, 5 passed, 6 total\n';
+    expect(parseTestCounts(output)).toEqual({ passing: 5, failing: 1 });
+  });
+
+  it('should read mocha summaries', () => {
+    expect(parseTestCounts('  12 passing (30ms)\n  3 failing\n')).toEqual({
+      passing: 12,
+      failing: 3,
+    });
+  });
+
+  it('should read pytest summaries', () => {
+    expect(parseTestCounts('===== 8 passed, 1 failed in 0.52s =====')).toEqual({
+      passing: 8,
+      failing: 1,
+    });
+  });
+
+  it('should ignore colour codes and return null without a summary', () => {
+    expect(parseTestCounts('\x1b[32m3 passed\x1b[39m')).toEqual({ passing: 3, failing: 0 });
+    expect(parseTestCounts('no tests here')).toBeNull();
+  });
+});
+
+describe('applyVerificationReport', () => {
+  it('should replace claimed test results and fail the task', () => {
+    const result: TaskResult = {
+      task_id: '1.1',
+      status: 'complete',
+      tests_passing: 99,
+      tests_failing: 0,
+    };
+
+    applyVerificationReport(result, {
+      passed: false,
+      outcomes: [
+        {
+          step: 'test',
+          command: 'npm test',
+          passed: false,
+          exitCode: 1,
+          timedOut: false,
+          durationMs: 10,
+          output: 'Tests  1 failed | 2 passed (3)',
+        },
+      ],
+      tests: { passing: 2, failing: 1 },
+    });
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      tests_passed: false,
+      tests_passing: 2,
+      tests_failing: 1,
+      test_output: 'Tests  1 failed | 2 passed (3)',
+      output_summary: 'Verification failed: test (npm test) exited with code 1',
+    });
+  });
+});
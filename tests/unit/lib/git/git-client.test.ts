@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { GitClient } from '../../../../src/lib/git/git-client.js';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
 
 // Mock simple-git
 vi.mock('simple-git', () => {
@@ -40,6 +43,8 @@ vi.mock('simple-git', () => {
       merge: vi.fn().mockResolvedValue(undefined),
       push: vi.fn().mockResolvedValue(undefined),
       pull: vi.fn().mockResolvedValue(undefined),
+      raw: vi.fn().mockResolvedValue(''),
+      checkIgnore: vi.fn().mockResolvedValue([]),
     }),
   };
 });
@@ -105,6 +110,26 @@ describe('GitClient', () => {
       expect(status.created).toContain('file2.ts');
       expect(status.staged).toContain('file1.ts');
     });
+
+    it('should report paths relative to a project below the repository root', async () => {
+      vi.mocked(mockGit.raw).mockResolvedValueOnce('app/\n');
+      mockGit.status.mockResolvedValueOnce({
+        isClean: () => false,
+        modified: ['app/src/index.ts'],
+        created: [],
+        deleted: [],
+        not_added: ['app/PROJECT.md'],
+        staged: [],
+        current: 'main',
+        tracking: null,
+      });
+
+      const status = await client.getStatus();
+
+      expect(mockGit.status).toHaveBeenCalledWith(['--untracked-files=all', '--', '.']);
+      expect(status.modified).toEqual(['src/index.ts']);
+      expect(status.untracked).toEqual(['PROJECT.md']);
+    });
   });
 
   describe('getCurrentBranch', () => {
@@ -166,7 +191,13 @@ describe('GitClient', () => {
       const hash = await client.commit('Test commit');
 
       expect(hash).toBe('abc123');
-      expect(mockGit.commit).toHaveBeenCalledWith('Test commit');
+      expect(mockGit.commit).toHaveBeenCalledWith('Test commit', undefined);
+    });
+
+    it('should commit only the given files', async () => {
+      await client.commit('Test commit', ['src/a.ts']);
+
+      expect(mockGit.commit).toHaveBeenCalledWith('Test commit', ['src/a.ts']);
     });
   });
 
@@ -187,6 +218,55 @@ describe('GitClient', () => {
       expect(diff).toBe('diff output');
       expect(mockGit.diff).toHaveBeenCalledWith();
     });
+
+    it('should diff the working tree against a commit, limited to paths', async () => {
+      await client.getDiff('HEAD', ['src/a.ts']);
+      expect(mockGit.diff).toHaveBeenCalledWith(['--relative', 'HEAD', '--', 'src/a.ts']);
+    });
+  });
+
+  describe('getHead', () => {
+    it('should return the commit HEAD points at', async () => {
+      vi.mocked(mockGit.revparse).mockResolvedValueOnce('abc123\n');
+      expect(await client.getHead()).toBe('abc123');
+      expect(mockGit.revparse).toHaveBeenCalledWith(['HEAD']);
+    });
+
+    it('should return null before the first commit', async () => {
+      vi.mocked(mockGit.revparse).mockRejectedValueOnce(new Error('unknown revision'));
+      expect(await client.getHead()).toBeNull();
+    });
+  });
+
+  describe('getDiffStats', () => {
+    it('should parse numstat output against HEAD', async () => {
+      mockGit.diff.mockResolvedValueOnce('3\t1\tsrc/a.ts\n-\t-\tlogo.png\n');
+
+      const stats = await client.getDiffStats();
+
+      expect(mockGit.diff).toHaveBeenCalledWith(['--numstat', '--relative', 'HEAD']);
+      expect(stats).toEqual([
+        { path: 'src/a.ts', added: 3, removed: 1 },
+        { path: 'logo.png', added: 0, removed: 0 },
+      ]);
+    });
+
+    it('should count lines of new files', async () => {
+      const dir = await createTestTempDir('git-client-test-');
+      await fs.writeFile(path.join(dir, 'new.ts'), 'one\ntwo\nthree\n');
+      const dirClient = new GitClient(dir);
+      const git = vi.mocked(simpleGit).mock.results.at(-1)!.value;
+      // No commits yet
+      git.diff.mockRejectedValueOnce(new Error("bad revision 'HEAD'"));
+
+      const stats = await dirClient.getDiffStats(['new.ts', 'missing.ts']);
+
+      expect(stats).toEqual([
+        { path: 'new.ts', added: 3, removed: 0 },
+        { path: 'missing.ts', added: 0, removed: 0 },
+      ]);
+      await fs.rm(dir, { recursive: true, force: true });
+    });
   });
 
   describe('getStagedDiff', () => {
@@ -237,6 +317,90 @@ describe('GitClient', () => {
       await client.merge('feature', { noFf: true });
       expect(mockGit.merge).toHaveBeenCalledWith(['--no-ff', 'feature']);
     });
+
+    it('should merge with a message', async () => {
+      await client.merge('feature', { noFf: true, message: 'merge: feature' });
+      expect(mockGit.merge).toHaveBeenCalledWith(['--no-ff', '-m', 'merge: feature', 'feature']);
+    });
+  });
+
+  describe('getConflictedFiles', () => {
+    it('should list unmerged paths', async () => {
+      vi.mocked(mockGit.raw).mockResolvedValueOnce('src/a.ts\nsrc/b.ts\n');
+
+      expect(await client.getConflictedFiles()).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(mockGit.raw).toHaveBeenCalledWith(['diff', '--name-only', '--diff-filter=U']);
+    });
+  });
+
+  describe('getGitDir', () => {
+    it('should resolve the common git directory against the working directory', async () => {
+      vi.mocked(mockGit.revparse).mockResolvedValueOnce('.git\n');
+
+      expect(await client.getGitDir()).toBe(path.resolve('/test/dir', '.git'));
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--git-common-dir']);
+    });
+  });
+
+  describe('worktrees', () => {
+    it('should add a worktree on a new branch', async () => {
+      await client.addWorktree('/tmp/wt', 'impl/task-1.1');
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'worktree',
+        'add',
+        '-b',
+        'impl/task-1.1',
+        '/tmp/wt',
+        'HEAD',
+      ]);
+    });
+
+    it('should force removal of a worktree', async () => {
+      await client.removeWorktree('/tmp/wt');
+      expect(mockGit.raw).toHaveBeenCalledWith(['worktree', 'remove', '--force', '/tmp/wt']);
+    });
+  });
+
+  describe('ignores', () => {
+    it('should list the given paths git ignores', async () => {
+      vi.mocked(mockGit.checkIgnore).mockResolvedValueOnce(['node_modules']);
+
+      expect(await client.getIgnored(['node_modules', 'src'])).toEqual(['node_modules']);
+      expect(mockGit.checkIgnore).toHaveBeenCalledWith(['node_modules', 'src']);
+      expect(await client.getIgnored([])).toEqual([]);
+    });
+
+    it('should add each exclude pattern once', async () => {
+      const dir = await createTestTempDir('git-client-test-');
+      await fs.mkdir(path.join(dir, '.git', 'info'), { recursive: true });
+      await fs.writeFile(path.join(dir, '.git', 'info', 'exclude'), '# patterns\n/.env');
+      const dirClient = new GitClient(dir);
+      const git = vi.mocked(simpleGit).mock.results.at(-1)!.value;
+      git.revparse.mockResolvedValueOnce('.git\n').mockResolvedValueOnce('.git\n');
+
+      await dirClient.addExcludes(['/node_modules', '/.env']);
+      await dirClient.addExcludes(['/node_modules']);
+
+      expect(await fs.readFile(path.join(dir, '.git', 'info', 'exclude'), 'utf-8')).toBe(
+        '# patterns\n/.env\n/node_modules\n'
+      );
+    });
+  });
+
+  describe('resetWorkDir', () => {
+    it('should move the branch back and restore only the working directory', async () => {
+      await client.resetWorkDir('abc123');
+
+      expect(mockGit.reset).toHaveBeenCalledWith(['--soft', 'abc123']);
+      expect(mockGit.raw).toHaveBeenCalledWith([
+        'restore',
+        '--source=abc123',
+        '--staged',
+        '--worktree',
+        '--',
+        '.',
+      ]);
+    });
   });
 
   describe('push', () => {
@@ -1,7 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { GitWorkflowManager } from '../../../../src/lib/git/workflow-manager.js';
 import type { GitClient } from '../../../../src/lib/git/git-client.js';
 import type { TaskResult } from '../../../../src/types/index.js';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
 
 describe('GitWorkflowManager', () => {
   let mockGitClient: {
@@ -12,6 +15,8 @@ describe('GitWorkflowManager', () => {
     add: ReturnType<typeof vi.fn>;
     commit: ReturnType<typeof vi.fn>;
     getCurrentBranch: ReturnType<typeof vi.fn>;
+    getStatus: ReturnType<typeof vi.fn>;
+    getDiffStats: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -25,6 +30,20 @@ describe('GitWorkflowManager', () => {
       add: vi.fn().mockResolvedValue(undefined),
       commit: vi.fn().mockResolvedValue('abc123'),
       getCurrentBranch: vi.fn().mockResolvedValue('main'),
+      getStatus: vi.fn().mockResolvedValue({
+        isClean: false,
+        modified: ['src/a.ts'],
+        created: ['src/b.ts'],
+        deleted: ['src/c.ts'],
+        untracked: ['src/b.ts', 'src/d.ts'],
+        staged: ['src/b.ts'],
+        currentBranch: 'main',
+        tracking: null,
+      }),
+      getDiffStats: vi.fn().mockResolvedValue([
+        { path: 'src/a.ts', added: 3, removed: 1 },
+        { path: 'src/b.ts', added: 10, removed: 0 },
+      ]),
     };
   });
 
@@ -165,6 +184,16 @@ describe('GitWorkflowManager', () => {
       status: 'complete',
       duration_ms: 5000,
       output_summary: 'Implemented the feature successfully',
+      verified_changes: {
+        files: [
+          { path: 'src/a.ts', change: 'created', lines_added: 3, lines_removed: 0 },
+          { path: 'src/old.ts', change: 'deleted', lines_added: 0, lines_removed: 5 },
+        ],
+        lines_added: 3,
+        lines_removed: 5,
+        unreported: [],
+        unchanged_claims: [],
+      },
     };
 
     it('should commit task changes', async () => {
@@ -177,24 +206,40 @@ describe('GitWorkflowManager', () => {
       const hash = await manager.commitTask('1.1', sampleResult);
 
       expect(hash).toBe('abc123');
-      expect(mockGitClient.add).toHaveBeenCalled();
+      expect(mockGitClient.add).toHaveBeenCalledWith(['src/a.ts', 'src/old.ts']);
       expect(mockGitClient.commit).toHaveBeenCalledWith(
-        'task-1.1: Implemented the feature successfully'
+        'task-1.1: Implemented the feature successfully',
+        ['src/a.ts', 'src/old.ts']
       );
     });
 
-    it('should return null when no changes', async () => {
-      mockGitClient.hasUncommittedChanges.mockResolvedValueOnce(false);
+    it('should commit the given files instead of the verified changes', async () => {
+      const manager = new GitWorkflowManager({
+        gitClient: mockGitClient as unknown as GitClient,
+        enabled: true,
+        autoCommit: true,
+      });
 
+      await manager.commitTask('1.1', sampleResult, ['src/a.ts', 'src/b.ts']);
+
+      expect(mockGitClient.commit).toHaveBeenCalledWith(expect.any(String), [
+        'src/a.ts',
+        'src/b.ts',
+      ]);
+    });
+
+    it('should return null when the task changed no files', async () => {
       const manager = new GitWorkflowManager({
         gitClient: mockGitClient as unknown as GitClient,
         enabled: true,
         autoCommit: true,
       });
 
-      const hash = await manager.commitTask('1.1', sampleResult);
+      const result = { ...sampleResult, verified_changes: undefined };
+      const hash = await manager.commitTask('1.1', result);
 
       expect(hash).toBeNull();
+      expect(mockGitClient.add).not.toHaveBeenCalled();
       expect(mockGitClient.commit).not.toHaveBeenCalled();
     });
 
@@ -237,10 +282,10 @@ describe('GitWorkflowManager', () => {
         duration_ms: 1000,
       };
 
-      const hash = await manager.commitTask('1.1', result);
+      const hash = await manager.commitTask('1.1', result, ['src/a.ts']);
 
       expect(hash).toBe('abc123');
-      expect(mockGitClient.commit).toHaveBeenCalledWith('task-1.1: Task completed');
+      expect(mockGitClient.commit).toHaveBeenCalledWith('task-1.1: Task completed', ['src/a.ts']);
     });
   });
 
@@ -439,4 +484,92 @@ describe('GitWorkflowManager', () => {
       expect(hash).toBeNull();
     });
   });
+
+  describe('getWorkingChanges', () => {
+    it('should report untracked files as created', async () => {
+      const manager = new GitWorkflowManager({
+        gitClient: mockGitClient as unknown as GitClient,
+        enabled: true,
+        autoCommit: true,
+      });
+
+      const changes = await manager.getWorkingChanges();
+
+      expect(changes).toEqual({
+        created: ['src/b.ts', 'src/d.ts'],
+        modified: ['src/a.ts'],
+        deleted: ['src/c.ts'],
+        lines: {
+          'src/a.ts': { added: 3, removed: 1 },
+          'src/b.ts': { added: 10, removed: 0 },
+        },
+      });
+      // New files are counted from disk
+      expect(mockGitClient.getDiffStats).toHaveBeenCalledWith(['src/b.ts', 'src/d.ts']);
+    });
+
+    it('should return null when disabled', async () => {
+      const manager = new GitWorkflowManager({
+        gitClient: mockGitClient as unknown as GitClient,
+        enabled: false,
+        autoCommit: true,
+      });
+
+      expect(await manager.getWorkingChanges()).toBeNull();
+      expect(mockGitClient.getStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetToCommit', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await createTestTempDir('workflow-reset-');
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('should reset, remove created files and keep the listed files as they were', async () => {
+      await fs.writeFile(path.join(workDir, 'PROJECT.md'), 'state in progress');
+      await fs.writeFile(path.join(workDir, 'broken.ts'), 'bad code');
+      const gitClient = {
+        getWorkDir: vi.fn().mockReturnValue(workDir),
+        // The reset puts the committed PROJECT.md back
+        resetWorkDir: vi.fn().mockImplementation(async () => {
+          await fs.writeFile(path.join(workDir, 'PROJECT.md'), 'committed state');
+          await fs.writeFile(path.join(workDir, 'removed.md'), 'restored');
+        }),
+      };
+      const manager = new GitWorkflowManager({
+        gitClient: gitClient as unknown as GitClient,
+        enabled: true,
+        autoCommit: true,
+      });
+
+      await manager.resetToCommit('abc123', ['PROJECT.md', 'removed.md'], ['broken.ts']);
+
+      expect(gitClient.resetWorkDir).toHaveBeenCalledWith('abc123');
+      expect(await fs.readFile(path.join(workDir, 'PROJECT.md'), 'utf-8')).toBe(
+        'state in progress'
+      );
+      // Kept files that did not exist stay absent
+      await expect(fs.access(path.join(workDir, 'removed.md'))).rejects.toThrow();
+      await expect(fs.access(path.join(workDir, 'broken.ts'))).rejects.toThrow();
+    });
+
+    it('should do nothing when disabled', async () => {
+      const gitClient = { resetWorkDir: vi.fn(), getWorkDir: vi.fn() };
+      const manager = new GitWorkflowManager({
+        gitClient: gitClient as unknown as GitClient,
+        enabled: false,
+        autoCommit: true,
+      });
+
+      await manager.resetToCommit('abc123', [], []);
+
+      expect(gitClient.resetWorkDir).not.toHaveBeenCalled();
+    });
+  });
 });
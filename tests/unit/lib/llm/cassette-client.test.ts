@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import {
+  CassetteClient,
+  diffCassetteRequest,
+  resolveCassetteOptions,
+} from '../../../../src/lib/llm/cassette-client.js';
+import type { LLMClient, StreamEvent } from '../../../../src/lib/llm/anthropic-client.js';
+import { LLMService } from '../../../../src/lib/llm/llm-service.js';
+import { LLMError } from '../../../../src/types/errors.js';
+
+function createInnerClient(): LLMClient {
+  return {
+    getModel: vi.fn().mockReturnValue('claude-sonnet-4-20250514'),
+    complete: vi.fn().mockResolvedValue({
+      content: 'completed',
+      model: 'claude-sonnet-4-20250514',
+      stopReason: 'end_turn',
+      inputTokens: 12,
+      outputTokens: 34,
+    }),
+    chat: vi.fn().mockResolvedValue({
+      content: 'chatted',
+      model: 'claude-sonnet-4-20250514',
+      stopReason: 'end_turn',
+      inputTokens: 56,
+      outputTokens: 78,
+    }),
+    stream: vi.fn(),
+    streamChat: vi.fn().mockImplementation(async function* () {
+      yield { type: 'message_start', inputTokens: 5 } as StreamEvent;
+      yield { type: 'content_block_delta', text: 'Hel' } as StreamEvent;
+      yield { type: 'content_block_delta', text: 'lo' } as StreamEvent;
+      yield { type: 'message_delta', outputTokens: 2 } as StreamEvent;
+    }),
+    calculateCost: vi.fn().mockReturnValue(0.5),
+  };
+}
+
+async function collect(stream: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('CassetteClient', () => {
+  let tempDir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTestTempDir('cassette-test-');
+    cassettePath = path.join(tempDir, 'session.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function recordSession(): Promise<{ inner: LLMClient; events: StreamEvent[] }> {
+    const inner = createInnerClient();
+    const recorder = new CassetteClient({ path: cassettePath, mode: 'record' }, inner);
+
+    await recorder.complete('Hello', { systemPrompt: 'sys' });
+    await recorder.chat([{ role: 'user', content: 'Hi' }], { systemPrompt: 'sys' });
+    const events = await collect(recorder.streamChat([{ role: 'user', content: 'Stream' }]));
+
+    return { inner, events };
+  }
+
+  it('should forward calls and write them to the cassette when recording', async () => {
+    const { inner } = await recordSession();
+
+    expect(inner.complete).toHaveBeenCalledWith('Hello', { systemPrompt: 'sys' });
+    const cassette = JSON.parse(await fs.readFile(cassettePath, 'utf-8'));
+    expect(cassette.version).toBe(1);
+    expect(cassette.interactions).toHaveLength(3);
+    expect(cassette.interactions[0].response.inputTokens).toBe(12);
+    expect(cassette.interactions[2].events).toHaveLength(4);
+  });
+
+  it('should replay responses, token counts and stream events verbatim', async () => {
+    const { events } = await recordSession();
+    const player = new CassetteClient({ path: cassettePath, mode: 'replay' });
+
+    const completed = await player.complete('Hello', { systemPrompt: 'sys' });
+    const chatted = await player.chat([{ role: 'user', content: 'Hi' }], { systemPrompt: 'sys' });
+    const replayed = await collect(player.streamChat([{ role: 'user', content: 'Stream' }]));
+
+    expect(completed).toMatchObject({ content: 'completed', inputTokens: 12, outputTokens: 34 });
+    expect(chatted).toMatchObject({ content: 'chatted', inputTokens: 56, outputTokens: 78 });
+    expect(replayed).toEqual(events);
+    expect(await player.getRemaining()).toBe(0);
+    expect(player.calculateCost(100, 100)).toBe(0);
+  });
+
+  it('should throw a mismatch error when the prompt drifts', async () => {
+    await recordSession();
+    const player = new CassetteClient({ path: cassettePath, mode: 'replay' });
+
+    const error = await player.complete('Hello there', { systemPrompt: 'sys' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.message).toMatch(/Cassette mismatch at interaction 1/);
+    expect(error.context).toMatchObject({ type: 'cassette_mismatch', index: 0 });
+  });
+
+  it('should throw when the cassette is exhausted', async () => {
+    await recordSession();
+    const player = new CassetteClient({ path: cassettePath, mode: 'replay' });
+    await player.complete('Hello', { systemPrompt: 'sys' });
+    await player.chat([{ role: 'user', content: 'Hi' }], { systemPrompt: 'sys' });
+    await collect(player.streamChat([{ role: 'user', content: 'Stream' }]));
+
+    await expect(player.complete('Again')).rejects.toThrow(/Cassette exhausted/);
+  });
+
+  it('should throw when the cassette file does not exist', async () => {
+    const player = new CassetteClient({ path: cassettePath, mode: 'replay' });
+    await expect(player.complete('Hello')).rejects.toThrow(/Cassette not found/);
+  });
+
+  it('should require a client to record from', () => {
+    expect(() => new CassetteClient({ path: cassettePath, mode: 'record' })).toThrow(LLMError);
+  });
+
+  describe('diffCassetteRequest', () => {
+    const base = {
+      method: 'chat' as const,
+      systemPrompt: 'sys',
+      messages: [{ role: 'user' as const, content: 'abcdef' }],
+    };
+
+    it('should return null for identical requests', () => {
+      expect(diffCassetteRequest(base, { ...base })).toBeNull();
+    });
+
+    it('should report the system prompt', () => {
+      expect(diffCassetteRequest(base, { ...base, systemPrompt: 'other' })).toBe('systemPrompt');
+    });
+
+    it('should report the first differing character of a message', () => {
+      const drifted = { ...base, messages: [{ role: 'user' as const, content: 'abcXef' }] };
+      expect(diffCassetteRequest(base, drifted)).toBe('messages[0].content at character 3');
+    });
+  });
+
+  describe('resolveCassetteOptions', () => {
+    it('should map flags to options', () => {
+      expect(resolveCassetteOptions('a.json')).toEqual({ path: 'a.json', mode: 'record' });
+      expect(resolveCassetteOptions(undefined, 'b.json')).toEqual({
+        path: 'b.json',
+        mode: 'replay',
+      });
+      expect(resolveCassetteOptions()).toBeUndefined();
+    });
+
+    it('should reject recording and replaying together', () => {
+      expect(() => resolveCassetteOptions('a.json', 'b.json')).toThrow(LLMError);
+    });
+  });
+
+  it('should let LLMService replay without an API key', () => {
+    const saved = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    try {
+      const service = new LLMService({ cassette: { path: cassettePath, mode: 'replay' } });
+      expect(service.getClient()).toBeInstanceOf(CassetteClient);
+    } finally {
+      if (saved !== undefined) {
+        process.env.ANTHROPIC_API_KEY = saved;
+      }
+    }
+  });
+});
@@ -163,6 +163,33 @@ describe('ConversationHandler', () => {
     });
   });
 
+  describe('beforeSend', () => {
+    it('should be called with the cost so far before each request', async () => {
+      const beforeSend = vi.fn();
+      vi.mocked(mockClient.calculateCost).mockReturnValue(0.25);
+      vi.mocked(mockClient.chat).mockResolvedValue(createMockResponse('Hi'));
+
+      const handler = new ConversationHandler(mockClient as unknown as AnthropicClient, {
+        beforeSend,
+      });
+      await handler.send('Hello');
+
+      expect(beforeSend).toHaveBeenCalledWith(0.25);
+    });
+
+    it('should block the request without touching history when it throws', async () => {
+      const handler = new ConversationHandler(mockClient as unknown as AnthropicClient, {
+        beforeSend: () => {
+          throw new Error('Over budget');
+        },
+      });
+
+      await expect(handler.send('Hello')).rejects.toThrow('Over budget');
+      expect(mockClient.chat).not.toHaveBeenCalled();
+      expect(handler.getHistory()).toEqual([]);
+    });
+  });
+
   describe('sendStreaming', () => {
     it('should yield text chunks', async () => {
       async function* mockStream(): AsyncGenerator<StreamEvent> {
@@ -89,6 +89,36 @@ describe('LLMService', () => {
     });
   });
 
+  describe('restorePhaseConversation', () => {
+    const snapshot = {
+      systemPrompt: 'Saved prompt',
+      history: [
+        { role: 'user' as const, content: 'Start', timestamp: '2024-01-01T00:00:00.000Z' },
+        { role: 'assistant' as const, content: 'Question?', timestamp: '2024-01-01T00:00:01.000Z' },
+      ],
+      tokenUsage: { totalInputTokens: 200, totalOutputTokens: 80, totalTokens: 280, turnCount: 1 },
+    };
+
+    it('should restore history and token usage', () => {
+      const conv = service.restorePhaseConversation('ideation', snapshot);
+
+      expect(conv.getLastResponse()).toBe('Question?');
+      expect(conv.getTokenUsage()).toEqual(snapshot.tokenUsage);
+    });
+
+    it('should leave recorded spend out of budget checks', async () => {
+      const beforeCall = vi.fn();
+      vi.mocked(mockClient.calculateCost).mockReturnValue(0.5);
+      vi.mocked(mockClient.chat).mockResolvedValue(createMockResponse('More?'));
+      service = new LLMService({ client: mockClient as unknown as AnthropicClient, beforeCall });
+
+      const conv = service.restorePhaseConversation('ideation', snapshot, 0.25);
+      await service.continueIdeation(conv, 'Answer');
+
+      expect(beforeCall).toHaveBeenCalledWith(0.25);
+    });
+  });
+
   describe('Ideation Phase', () => {
     describe('startIdeation', () => {
       it('should start ideation conversation', async () => {
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   PLANNING_SYSTEM_PROMPT,
   buildPlanningStartPrompt,
+  formatPlanForRevision,
   buildPlanningFollowUpPrompt,
   buildPlanningSummaryPrompt,
   parsePlanningResponse,
@@ -65,6 +66,55 @@ describe('Planning Prompts', () => {
       expect(prompt).toContain('<proposed_phases>');
       expect(prompt).toContain('<rationale>');
     });
+
+    it('should revise a rejected plan with the reviewer feedback', () => {
+      const prompt = buildPlanningStartPrompt('Project', sampleIdeation, sampleSpec, {
+        previous: 'Phase 1: Everything - One big phase',
+        feedback: 'Split the work into smaller phases',
+      });
+
+      expect(prompt).toContain('## Previous Implementation plan');
+      expect(prompt).toContain('Phase 1: Everything - One big phase');
+      expect(prompt).toContain('## Reviewer Feedback\n\nSplit the work into smaller phases');
+      expect(prompt).toContain('A reviewer rejected the previous implementation plan');
+      expect(prompt).toContain('<proposed_phases>');
+      expect(prompt).not.toContain('Start by proposing a high-level phase breakdown');
+    });
+  });
+
+  describe('formatPlanForRevision', () => {
+    it('should list phases with their tasks and dependencies', () => {
+      const phases: ImplementationPhase[] = [
+        {
+          phase_number: 1,
+          name: 'Setup',
+          description: 'Project scaffolding',
+          status: 'pending',
+          tasks: [
+            {
+              id: '1.1',
+              description: 'Create package',
+              status: 'pending',
+              depends_on: [],
+              acceptance_criteria: [],
+            },
+            {
+              id: '1.2',
+              description: 'Add CLI entry',
+              status: 'pending',
+              depends_on: ['1.1'],
+              acceptance_criteria: [],
+            },
+          ],
+        },
+      ];
+
+      expect(formatPlanForRevision(phases)).toBe(
+        'Phase 1: Setup - Project scaffolding\n' +
+          '- 1.1: Create package\n' +
+          '- 1.2: Add CLI entry (depends on 1.1)'
+      );
+    });
   });
 
   describe('buildPlanningFollowUpPrompt', () => {
@@ -402,5 +452,23 @@ Phase 3: Polish - Testing and documentation
       const issues = getPlanningIssues(phases);
       expect(issues.some((i) => i.includes('non-existent task'))).toBe(true);
     });
+
+    it('should report dependencies on later phases', () => {
+      const task = (id: string, depends_on: string[] = []) => ({
+        id,
+        description: 'Task',
+        status: 'pending' as const,
+        depends_on,
+        acceptance_criteria: ['Done'],
+      });
+      const phases: ImplementationPhase[] = [
+        { phase_number: 1, name: 'Setup', description: '', tasks: [task('1.1', ['2.1'])] },
+        { phase_number: 2, name: 'Core', description: '', tasks: [task('2.1', ['1.1'])] },
+      ];
+
+      expect(getPlanningIssues(phases)).toEqual([
+        'Task 1.1 depends on task 2.1 from later phase 2',
+      ]);
+    });
   });
 });
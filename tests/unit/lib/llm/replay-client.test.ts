@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import { ReplayLLMClient } from '../../../../src/lib/llm/replay-client.js';
+import { LLMService } from '../../../../src/lib/llm/llm-service.js';
+import { IDEATION_SYSTEM_PROMPT } from '../../../../src/lib/llm/prompts/ideation.js';
+import { PLANNING_SYSTEM_PROMPT } from '../../../../src/lib/llm/prompts/planning.js';
+import { LLMError } from '../../../../src/types/errors.js';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../fixtures/offline-project');
+
+describe('ReplayLLMClient', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTestTempDir('replay-client-test-');
+    await fs.mkdir(path.join(tempDir, 'llm', 'ideation'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'llm', 'ideation', '01.md'), 'first');
+    await fs.writeFile(path.join(tempDir, 'llm', 'ideation', '02.md'), 'second');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replay responses in filename order and repeat the last', async () => {
+    const client = new ReplayLLMClient({ fixturesDir: tempDir });
+    const options = { systemPrompt: IDEATION_SYSTEM_PROMPT };
+
+    const replies = [];
+    for (let i = 0; i < 3; i++) {
+      replies.push((await client.chat([{ role: 'user', content: 'hi' }], options)).content);
+    }
+
+    expect(replies).toEqual(['first', 'second', 'second']);
+  });
+
+  it('should estimate token usage and report zero cost', async () => {
+    const client = new ReplayLLMClient({ fixturesDir: tempDir });
+    const response = await client.complete('12345678', { systemPrompt: IDEATION_SYSTEM_PROMPT });
+
+    expect(response.inputTokens).toBe(2);
+    expect(response.outputTokens).toBe(2);
+    expect(client.calculateCost(response.inputTokens, response.outputTokens)).toBe(0);
+  });
+
+  it('should stream the reply as a single delta', async () => {
+    const client = new ReplayLLMClient({ fixturesDir: tempDir });
+    const text: string[] = [];
+
+    for await (const event of client.streamChat([{ role: 'user', content: 'hi' }], {
+      systemPrompt: IDEATION_SYSTEM_PROMPT,
+    })) {
+      if (event.type === 'content_block_delta' && event.text) {
+        text.push(event.text);
+      }
+    }
+
+    expect(text).toEqual(['first']);
+  });
+
+  it('should throw LLMError when a conversation has no fixtures', async () => {
+    const client = new ReplayLLMClient({ fixturesDir: tempDir });
+
+    await expect(
+      client.complete('plan', { systemPrompt: PLANNING_SYSTEM_PROMPT })
+    ).rejects.toThrow(LLMError);
+    await expect(client.complete('plan')).rejects.toThrow(/No replay fixture/);
+  });
+
+  it('should drive LLMService through a complete planning conversation', async () => {
+    const service = new LLMService({ client: new ReplayLLMClient({ fixturesDir: FIXTURES_DIR }) });
+    const { conversation } = await service.startIdeation('greeter', 'A greeter CLI');
+    const result = await service.completeIdeation(conversation);
+
+    expect(result.content.use_cases).toHaveLength(3);
+    expect(result.costUsd).toBe(0);
+  });
+});
@@ -32,7 +32,7 @@ describe('Project Parser', () => {
       expect(doc.meta.gates.ideation_complete).toBe(true);
       expect(doc.meta.gates.planning_approved).toBe(false);
       expect(doc.meta.cost.total_tokens).toBe(15000);
-      expect(doc.meta.agent.primary).toBe('claude-code');
+      expect(doc.meta.agent?.primary).toBe('claude-code');
     });
 
     it('should parse ideation content', () => {
@@ -160,6 +160,25 @@ Content here`;
       expect(tasks[1]?.depends_on).toContain('1.1');
     });
 
+    it('should read columns by header name, including Timeout', () => {
+      const content = `
+| ID | Description | Timeout | Status | Depends On | Acceptance Criteria |
+|----|-------------|---------|--------|------------|---------------------|
+| 1.1 | First task | 15m | pending | - | Builds |
+| 1.2 | Second task | - | complete | 1.1 | Runs |
+| 1.3 | Third task | 30 min | pending | 1.1 | - |
+`;
+
+      const tasks = parseTaskTable(content);
+
+      expect(tasks[0]?.timeout_minutes).toBe(15);
+      expect(tasks[0]?.status).toBe('pending');
+      expect(tasks[0]?.acceptance_criteria).toEqual(['Builds']);
+      expect(tasks[1]?.timeout_minutes).toBeUndefined();
+      expect(tasks[1]?.depends_on).toEqual(['1.1']);
+      expect(tasks[2]?.timeout_minutes).toBe(30);
+    });
+
     it('should handle various status formats', () => {
       const content = `
 | ID | Description | Status | Depends On |
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffIdeation,
+  diffPlan,
+  diffSnapshots,
+  diffSpecification,
+  renderPhaseDiff,
+} from '../../../src/lib/phase-diff.js';
+import type { PhaseSnapshot } from '../../../src/lib/phase-history.js';
+import type {
+  IdeationContent,
+  SpecificationContent,
+  ImplementationPhase,
+} from '../../../src/types/index.js';
+
+const ideation: IdeationContent = {
+  problem_statement: 'Greeting people is tedious',
+  target_users: 'Developers',
+  use_cases: ['Greet by name', 'Greet in bulk'],
+  success_criteria: ['Runs in under 100ms'],
+  constraints: { must_have: ['CLI'], nice_to_have: [], out_of_scope: ['GUI'] },
+  raw_content: 'original response',
+};
+
+const spec: SpecificationContent = {
+  architecture: 'Single CLI process\nReads names from stdin',
+  tech_stack: [
+    { layer: 'Runtime', choice: 'Node.js', rationale: 'Team knows it' },
+    { layer: 'Database', choice: 'PostgreSQL', rationale: 'Scales' },
+  ],
+  data_models: 'Greeting',
+  api_contracts: 'None',
+  ui_requirements: 'Terminal only',
+  raw_content: '',
+};
+
+const plan: ImplementationPhase[] = [
+  {
+    phase_number: 1,
+    name: 'Setup',
+    description: 'Scaffolding',
+    status: 'pending',
+    tasks: [
+      {
+        id: '1.1',
+        description: 'Create package',
+        status: 'pending',
+        depends_on: [],
+        acceptance_criteria: ['npm install works'],
+      },
+      {
+        id: '1.2',
+        description: 'Add CLI entry',
+        status: 'pending',
+        depends_on: ['1.1'],
+        acceptance_criteria: [],
+      },
+    ],
+  },
+];
+
+describe('Phase Diff', () => {
+  describe('diffIdeation', () => {
+    it('should report changed fields and added or removed list items', () => {
+      const changes = diffIdeation(ideation, {
+        ...ideation,
+        target_users: 'Developers and support staff',
+        use_cases: ['Greet by name', 'Greet in any language'],
+        raw_content: 'revised response',
+      });
+
+      expect(changes).toEqual([
+        {
+          section: 'Target Users',
+          kind: 'changed',
+          before: 'Developers',
+          after: 'Developers and support staff',
+        },
+        { section: 'Use Cases', kind: 'removed', before: 'Greet in bulk' },
+        { section: 'Use Cases', kind: 'added', after: 'Greet in any language' },
+      ]);
+    });
+
+    it('should report nothing for identical content', () => {
+      expect(diffIdeation(ideation, { ...ideation })).toEqual([]);
+    });
+  });
+
+  describe('diffSpecification', () => {
+    it('should match tech stack rows by layer', () => {
+      const changes = diffSpecification(spec, {
+        ...spec,
+        tech_stack: [
+          { layer: 'Runtime', choice: 'Node.js', rationale: 'Team knows it' },
+          { layer: 'Database', choice: 'SQLite', rationale: 'Runs on one machine' },
+          { layer: 'Testing', choice: 'Vitest', rationale: '' },
+        ],
+      });
+
+      expect(changes).toEqual([
+        {
+          section: 'Tech Stack',
+          kind: 'changed',
+          item: 'Database',
+          before: 'PostgreSQL - Scales',
+          after: 'SQLite - Runs on one machine',
+        },
+        { section: 'Tech Stack', kind: 'added', item: 'Testing', after: 'Vitest' },
+      ]);
+    });
+  });
+
+  describe('diffPlan', () => {
+    it('should match phases by number and tasks by id', () => {
+      const [setup] = plan;
+      const revised: ImplementationPhase[] = [
+        {
+          ...setup!,
+          name: 'Foundation',
+          tasks: [
+            { ...setup!.tasks[0]!, acceptance_criteria: ['npm install works', 'Lint passes'] },
+          ],
+        },
+        {
+          phase_number: 2,
+          name: 'Tests',
+          description: 'Test suite',
+          status: 'pending',
+          tasks: [
+            {
+              id: '2.1',
+              description: 'Add tests',
+              status: 'pending',
+              depends_on: ['1.1'],
+              acceptance_criteria: [],
+            },
+          ],
+        },
+      ];
+
+      const changes = diffPlan(plan, revised);
+
+      expect(changes.map((c) => [c.section, c.kind, c.item])).toEqual([
+        ['Phases', 'changed', 'Phase 1'],
+        ['Phases', 'added', 'Phase 2'],
+        ['Tasks', 'removed', '1.2'],
+        ['Tasks', 'changed', '1.1'],
+        ['Tasks', 'added', '2.1'],
+      ]);
+      expect(changes[4]?.after).toBe('Add tests (depends on 1.1)');
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    const snapshot = (revision: number, content: SpecificationContent): PhaseSnapshot => ({
+      phase: 2,
+      revision,
+      saved_at: '2024-01-01T00:00:00.000Z',
+      content,
+    });
+
+    it('should compare two revisions of a phase', () => {
+      const diff = diffSnapshots(snapshot(1, spec), snapshot(3, { ...spec, data_models: 'None' }));
+
+      expect(diff).toMatchObject({ phase: 2, from: 1, to: 3 });
+      expect(diff.changes).toHaveLength(1);
+    });
+
+    it('should refuse revisions of different phases', () => {
+      const planSnapshot: PhaseSnapshot = {
+        phase: 3,
+        revision: 1,
+        saved_at: '2024-01-01T00:00:00.000Z',
+        content: plan,
+      };
+
+      expect(() => diffSnapshots(snapshot(1, spec), planSnapshot)).toThrow(
+        'Cannot compare phase 2 with phase 3'
+      );
+    });
+  });
+
+  describe('renderPhaseDiff', () => {
+    it('should group changes by section and show only the lines that changed', () => {
+      const output = renderPhaseDiff({
+        phase: 2,
+        from: 1,
+        to: 2,
+        changes: diffSpecification(spec, {
+          ...spec,
+          architecture: 'Single CLI process\nReads names from a file',
+          tech_stack: spec.tech_stack.slice(0, 1),
+        }),
+      });
+
+      expect(output).toBe(
+        [
+          'Phase 2 (Specification): revision 1 → 2',
+          '',
+          'Architecture',
+          '  ~ changed',
+          '      - Reads names from stdin',
+          '      + Reads names from a file',
+          '',
+          'Tech Stack',
+          '  - Database: PostgreSQL - Scales',
+        ].join('\n')
+      );
+    });
+
+    it('should say when nothing changed', () => {
+      expect(renderPhaseDiff({ phase: 1, from: 1, to: 2, changes: [] })).toContain('No changes.');
+    });
+  });
+});
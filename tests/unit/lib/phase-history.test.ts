@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createTestTempDir } from '../../helpers/temp-dir.js';
+import { PhaseHistoryManager, isValidSnapshot } from '../../../src/lib/phase-history.js';
+import type { SpecificationContent } from '../../../src/types/index.js';
+
+describe('Phase History Manager', () => {
+  let tempDir: string;
+  let manager: PhaseHistoryManager;
+
+  const spec: SpecificationContent = {
+    architecture: 'Single CLI process',
+    tech_stack: [{ layer: 'Runtime', choice: 'Node.js', rationale: 'Team knows it' }],
+    data_models: 'None',
+    api_contracts: 'None',
+    ui_requirements: 'Terminal only',
+    raw_content: '',
+  };
+
+  beforeEach(async () => {
+    tempDir = await createTestTempDir('phase-history-test-');
+    manager = new PhaseHistoryManager(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store revisions under .orchestrator/history', async () => {
+    await manager.record(2, spec);
+
+    const filePath = path.join(tempDir, '.orchestrator', 'history', 'phase-2', '1.json');
+    expect(manager.getSnapshotPath(2, 1)).toBe(filePath);
+    await expect(fs.access(filePath)).resolves.toBeUndefined();
+  });
+
+  it('should number revisions per phase and read them back', async () => {
+    const first = await manager.record(2, spec);
+    const second = await manager.record(2, { ...spec, architecture: 'Client and server' });
+    await manager.record(1, {
+      problem_statement: 'Greeting people',
+      target_users: 'Everyone',
+      use_cases: [],
+      success_criteria: [],
+      constraints: { must_have: [], nice_to_have: [], out_of_scope: [] },
+      raw_content: '',
+    });
+
+    expect(first.revision).toBe(1);
+    expect(second.revision).toBe(2);
+    expect(await manager.list(2)).toEqual([1, 2]);
+    expect(await manager.list(1)).toEqual([1]);
+
+    const read = await manager.read(2, 2);
+    expect(read?.content).toMatchObject({ architecture: 'Client and server' });
+  });
+
+  it('should not add a revision when the content is unchanged', async () => {
+    await manager.record(2, spec);
+    const again = await manager.record(2, { ...spec });
+
+    expect(again.revision).toBe(1);
+    expect(await manager.list(2)).toEqual([1]);
+  });
+
+  it('should return no revisions and null for a phase without history', async () => {
+    expect(await manager.list(3)).toEqual([]);
+    expect(await manager.read(3, 1)).toBeNull();
+  });
+
+  it('should reject a snapshot file with the wrong structure', async () => {
+    const filePath = manager.getSnapshotPath(3, 1);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({ phase: 3, revision: 1, content: {} }));
+
+    await expect(manager.read(3, 1)).rejects.toThrow('Invalid phase snapshot structure');
+  });
+
+  describe('isValidSnapshot', () => {
+    it('should check the content shape of each phase', () => {
+      const base = { revision: 1, saved_at: '2024-01-01T00:00:00.000Z' };
+
+      expect(isValidSnapshot({ ...base, phase: 2, content: spec })).toBe(true);
+      expect(isValidSnapshot({ ...base, phase: 3, content: [] })).toBe(true);
+      expect(isValidSnapshot({ ...base, phase: 3, content: spec })).toBe(false);
+      expect(isValidSnapshot({ ...base, phase: 4, content: spec })).toBe(false);
+      expect(isValidSnapshot(null)).toBe(false);
+    });
+  });
+});
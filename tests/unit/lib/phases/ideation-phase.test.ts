@@ -4,6 +4,7 @@ import {
   type IdeationInput,
 } from '../../../../src/lib/phases/ideation-phase.js';
 import type { PhaseRunnerConfig } from '../../../../src/lib/phases/phase-runner.js';
+import { parseAnswers } from '../../../../src/lib/answers.js';
 import type { IdeationContent } from '../../../../src/types/index.js';
 
 // Mock the terminal module
@@ -16,6 +17,7 @@ vi.mock('../../../../src/lib/ui/terminal.js', () => ({
   printAssistantMessage: vi.fn(),
   printUserPrompt: vi.fn(() => '> '),
   prompt: vi.fn(),
+  confirm: vi.fn(),
   endStream: vi.fn(),
 }));
 
@@ -105,7 +107,11 @@ describe('IdeationPhase', () => {
         addCost: vi.fn(),
         save: vi.fn().mockResolvedValue(undefined),
       } as unknown as PhaseRunnerConfig['stateManager'],
-      documentManager: {} as PhaseRunnerConfig['documentManager'],
+      documentManager: {
+        getConversationCheckpoint: vi.fn().mockResolvedValue(null),
+        saveConversationCheckpoint: vi.fn().mockResolvedValue(undefined),
+        deleteConversationCheckpoint: vi.fn().mockResolvedValue(false),
+      } as unknown as PhaseRunnerConfig['documentManager'],
     };
 
     consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -180,7 +186,8 @@ describe('IdeationPhase', () => {
 
       expect(mockConfig.llmService.startIdeation).toHaveBeenCalledWith(
         'my-todo',
-        'Build a todo app'
+        'Build a todo app',
+        undefined
       );
     });
 
@@ -193,7 +200,8 @@ describe('IdeationPhase', () => {
 
       expect(mockConfig.llmService.startIdeation).toHaveBeenCalledWith(
         'project',
-        'Build a todo app'
+        'Build a todo app',
+        undefined
       );
     });
 
@@ -248,6 +256,186 @@ describe('IdeationPhase', () => {
     });
   });
 
+  describe('conversation checkpoints', () => {
+    const savedConversation = {
+      systemPrompt: 'system',
+      history: [
+        { role: 'user', content: 'start', timestamp: '2024-01-01T00:00:00.000Z' },
+        {
+          role: 'assistant',
+          content: 'What problem does it solve?',
+          timestamp: '2024-01-01T00:00:01.000Z',
+        },
+      ],
+      tokenUsage: { totalInputTokens: 100, totalOutputTokens: 50, totalTokens: 150, turnCount: 1 },
+    };
+    let restoredConversation: {
+      getLastResponse: ReturnType<typeof vi.fn>;
+      export: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      restoredConversation = {
+        getLastResponse: vi.fn(() => 'What problem does it solve?'),
+        export: vi.fn(() => savedConversation),
+      };
+      Object.assign(mockConfig.llmService, {
+        restorePhaseConversation: vi.fn(() => restoredConversation),
+      });
+      vi.mocked(mockConfig.documentManager.getConversationCheckpoint).mockResolvedValue({
+        phase: 1,
+        saved_at: '2024-01-01T00:00:01.000Z',
+        conversation: savedConversation as any,
+        recorded_cost_usd: 0.2,
+      });
+    });
+
+    it('should save the conversation after every turn', async () => {
+      vi.mocked(mockConfig.documentManager.getConversationCheckpoint).mockResolvedValue(null);
+      Object.assign(mockConversation, { export: vi.fn(() => savedConversation) });
+      vi.mocked(terminal.prompt)
+        .mockResolvedValueOnce('Keep it simple')
+        .mockResolvedValueOnce('/complete');
+
+      await new IdeationPhase(mockConfig).run({ idea: 'test' });
+
+      // After the opening turn and after the user's message
+      expect(mockConfig.documentManager.saveConversationCheckpoint).toHaveBeenCalledTimes(2);
+      expect(mockConfig.documentManager.saveConversationCheckpoint).toHaveBeenCalledWith({
+        phase: 1,
+        saved_at: expect.any(String),
+        conversation: savedConversation,
+        recorded_cost_usd: undefined,
+      });
+      expect(mockConfig.documentManager.deleteConversationCheckpoint).toHaveBeenCalledWith(1);
+    });
+
+    it('should continue a saved conversation where it left off', async () => {
+      vi.mocked(terminal.confirm).mockResolvedValueOnce(true);
+      vi.mocked(terminal.prompt).mockResolvedValueOnce('/complete');
+
+      const result = await new IdeationPhase(mockConfig).run({ idea: 'test' });
+
+      expect(mockConfig.llmService.startIdeation).not.toHaveBeenCalled();
+      expect(mockConfig.llmService.restorePhaseConversation).toHaveBeenCalledWith(
+        'ideation',
+        savedConversation,
+        0.2
+      );
+      expect(terminal.printAssistantMessage).toHaveBeenCalledWith('What problem does it solve?');
+      expect(mockConfig.llmService.completeIdeation).toHaveBeenCalledWith(restoredConversation);
+      // Spend recorded when the phase was paused is not counted again
+      expect(result.cost).toBeCloseTo(0.3);
+    });
+
+    it('should start over when the user declines', async () => {
+      vi.mocked(terminal.confirm).mockResolvedValueOnce(false);
+      vi.mocked(terminal.prompt).mockResolvedValueOnce('/complete');
+
+      await new IdeationPhase(mockConfig).run({ idea: 'test' });
+
+      expect(mockConfig.documentManager.deleteConversationCheckpoint).toHaveBeenCalledWith(1);
+      expect(mockConfig.llmService.startIdeation).toHaveBeenCalled();
+      expect(mockConfig.llmService.restorePhaseConversation).not.toHaveBeenCalled();
+    });
+
+    it('should only send the auto-complete responses that were not sent yet', async () => {
+      vi.mocked(mockConfig.documentManager.getConversationCheckpoint).mockResolvedValue({
+        phase: 1,
+        saved_at: '2024-01-01T00:00:01.000Z',
+        conversation: {
+          ...savedConversation,
+          tokenUsage: { ...savedConversation.tokenUsage, turnCount: 3 },
+        } as any,
+      });
+
+      await new IdeationPhase({ ...mockConfig, autoComplete: true }).run({ idea: 'test' });
+
+      expect(terminal.confirm).not.toHaveBeenCalled();
+      expect(mockConfig.llmService.continueIdeation).toHaveBeenCalledTimes(1);
+      expect(mockConfig.llmService.continueIdeation).toHaveBeenCalledWith(
+        restoredConversation,
+        'That sounds good. Please finalize the ideation summary.'
+      );
+    });
+  });
+
+  describe('answers file', () => {
+    it('should resume with the ordered answers a rule-matched turn left unused', async () => {
+      const restoredConversation = {
+        getLastResponse: vi.fn(() => 'Anything else?'),
+        export: vi.fn(() => ({})),
+      };
+      Object.assign(mockConfig.llmService, {
+        restorePhaseConversation: vi.fn(() => restoredConversation),
+      });
+      // Turn 1 was answered by a questions rule, so no ordered answer was used
+      vi.mocked(mockConfig.documentManager.getConversationCheckpoint).mockResolvedValue({
+        phase: 1,
+        saved_at: '2024-01-01T00:00:01.000Z',
+        conversation: {
+          systemPrompt: 'system',
+          history: [],
+          tokenUsage: { totalInputTokens: 0, totalOutputTokens: 0, totalTokens: 0, turnCount: 2 },
+        } as any,
+      });
+      const answers = parseAnswers({
+        fallback: 'complete',
+        ideation: {
+          answers: ['First', 'Second'],
+          questions: [{ match: 'target users', answer: 'Small teams' }],
+        },
+      });
+
+      await new IdeationPhase({ ...mockConfig, autoComplete: true, answers }).run({
+        idea: 'test',
+      });
+
+      const replies = vi.mocked(mockConfig.llmService.continueIdeation).mock.calls.map((c) => c[1]);
+      expect(replies).toEqual(['First', 'Second']);
+      expect(mockConfig.documentManager.saveConversationCheckpoint).toHaveBeenLastCalledWith(
+        expect.objectContaining({ answers_used: 2 })
+      );
+    });
+
+    it('should reply to the questions the answers file covers', async () => {
+      Object.assign(mockConversation, { export: vi.fn() });
+      vi.mocked(mockConfig.llmService.startIdeation).mockResolvedValue({
+        response: '<questions>\n1. Who are the target users?\n</questions>',
+        conversation: mockConversation as any,
+      });
+      const answers = parseAnswers({
+        fallback: 'complete',
+        ideation: { questions: [{ match: 'target users', answer: 'Small teams' }] },
+      });
+
+      await new IdeationPhase({ ...mockConfig, autoComplete: true, answers }).run({
+        idea: 'test',
+      });
+
+      // The follow-up has no questions, so the complete fallback finishes the conversation
+      expect(mockConfig.llmService.continueIdeation).toHaveBeenCalledTimes(1);
+      expect(mockConfig.llmService.continueIdeation).toHaveBeenCalledWith(
+        mockConversation,
+        'Small teams'
+      );
+      expect(mockConfig.llmService.completeIdeation).toHaveBeenCalled();
+    });
+
+    it('should fail the phase when the fail fallback has no answer', async () => {
+      Object.assign(mockConversation, { export: vi.fn() });
+      const answers = parseAnswers({ fallback: 'fail' });
+
+      const result = await new IdeationPhase({ ...mockConfig, autoComplete: true, answers }).run({
+        idea: 'test',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('The answers file has no reply for turn 1');
+      expect(mockConfig.llmService.continueIdeation).not.toHaveBeenCalled();
+    });
+  });
+
   describe('persistence', () => {
     it('should set ideation content on state manager', async () => {
       const phase = new IdeationPhase(mockConfig);
@@ -268,7 +456,7 @@ describe('IdeationPhase', () => {
 
       await phase.run({ idea: 'test' });
 
-      expect(mockConfig.stateManager.addCost).toHaveBeenCalledWith(0, 0.5);
+      expect(mockConfig.stateManager.addCost).toHaveBeenCalledWith(0, 0.5, 'phase-1');
     });
 
     it('should save state after completion', async () => {
@@ -4,6 +4,7 @@ import {
   type PhaseRunnerConfig,
   type PhaseResult,
 } from '../../../../src/lib/phases/phase-runner.js';
+import { BudgetExceededError } from '../../../../src/types/errors.js';
 
 // Concrete implementation for testing
 class TestPhaseRunner extends PhaseRunner<string, { value: string }> {
@@ -12,6 +13,7 @@ class TestPhaseRunner extends PhaseRunner<string, { value: string }> {
   public executeCalled = false;
   public persistCalled = false;
   public shouldFail = false;
+  public failWith: Error | null = null;
   public executeResult = { value: 'test-result' };
 
   protected getPhaseNumber(): number {
@@ -28,6 +30,9 @@ class TestPhaseRunner extends PhaseRunner<string, { value: string }> {
 
   protected async execute(_input: string): Promise<{ value: string }> {
     this.executeCalled = true;
+    if (this.failWith) {
+      throw this.failWith;
+    }
     if (this.shouldFail) {
       throw new Error('Test execution failed');
     }
@@ -53,7 +58,11 @@ describe('PhaseRunner', () => {
     mockConfig = {
       llmService: {} as PhaseRunnerConfig['llmService'],
       stateManager: {} as PhaseRunnerConfig['stateManager'],
-      documentManager: {} as PhaseRunnerConfig['documentManager'],
+      documentManager: {
+        getConversationCheckpoint: vi.fn().mockResolvedValue(null),
+        saveConversationCheckpoint: vi.fn().mockResolvedValue(undefined),
+        deleteConversationCheckpoint: vi.fn().mockResolvedValue(false),
+      } as unknown as PhaseRunnerConfig['documentManager'],
     };
 
     runner = new TestPhaseRunner(mockConfig);
@@ -144,6 +153,66 @@ describe('PhaseRunner', () => {
     });
   });
 
+  describe('budget pause', () => {
+    it('should record interrupted spend, save and rethrow', async () => {
+      const stateManager = { addCost: vi.fn(), save: vi.fn().mockResolvedValue(undefined) };
+      runner = new TestPhaseRunner({
+        ...mockConfig,
+        stateManager: stateManager as unknown as PhaseRunnerConfig['stateManager'],
+      });
+      runner.failWith = BudgetExceededError.phase('phase-1', 1, 1.1, 0.4);
+
+      await expect(runner.run('test-input')).rejects.toThrow(BudgetExceededError);
+      expect(stateManager.addCost).toHaveBeenCalledWith(0, 0.4, 'phase-1');
+      expect(stateManager.save).toHaveBeenCalled();
+      expect(runner.persistCalled).toBe(false);
+    });
+
+    it('should mark the interrupted spend as recorded in the saved conversation', async () => {
+      const checkpoint = {
+        phase: 1,
+        saved_at: '2024-01-01T00:00:00.000Z',
+        conversation: { systemPrompt: undefined, history: [], tokenUsage: {} },
+        recorded_cost_usd: 0.1,
+      };
+      vi.mocked(mockConfig.documentManager.getConversationCheckpoint).mockResolvedValue(
+        checkpoint as any
+      );
+      runner = new TestPhaseRunner({
+        ...mockConfig,
+        stateManager: {
+          addCost: vi.fn(),
+          save: vi.fn().mockResolvedValue(undefined),
+        } as unknown as PhaseRunnerConfig['stateManager'],
+      });
+      runner.failWith = BudgetExceededError.phase('phase-1', 1, 1.1, 0.4);
+
+      await expect(runner.run('test-input')).rejects.toThrow(BudgetExceededError);
+
+      expect(mockConfig.documentManager.saveConversationCheckpoint).toHaveBeenCalledWith({
+        ...checkpoint,
+        recorded_cost_usd: 0.5,
+      });
+      expect(mockConfig.documentManager.deleteConversationCheckpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conversation checkpoints', () => {
+    it('should delete the checkpoint once the phase completes', async () => {
+      await runner.run('test-input');
+
+      expect(mockConfig.documentManager.deleteConversationCheckpoint).toHaveBeenCalledWith(1);
+    });
+
+    it('should keep the checkpoint when the phase fails', async () => {
+      runner.shouldFail = true;
+
+      await runner.run('test-input');
+
+      expect(mockConfig.documentManager.deleteConversationCheckpoint).not.toHaveBeenCalled();
+    });
+  });
+
   describe('custom execute result', () => {
     it('should use custom execute result', async () => {
       runner.executeResult = { value: 'custom-value' };
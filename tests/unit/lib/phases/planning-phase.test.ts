@@ -119,7 +119,7 @@ describe('PlanningPhase', () => {
         }),
       } as unknown as PhaseRunnerConfig['llmService'],
       stateManager: {
-        addImplementationPhases: vi.fn(),
+        setImplementationPhases: vi.fn(),
         getMeta: vi.fn(() => ({
           current_phase: 3,
           phase_status: 'in_progress',
@@ -135,7 +135,11 @@ describe('PlanningPhase', () => {
         addCost: vi.fn(),
         save: vi.fn().mockResolvedValue(undefined),
       } as unknown as PhaseRunnerConfig['stateManager'],
-      documentManager: {} as PhaseRunnerConfig['documentManager'],
+      documentManager: {
+        getConversationCheckpoint: vi.fn().mockResolvedValue(null),
+        saveConversationCheckpoint: vi.fn().mockResolvedValue(undefined),
+        deleteConversationCheckpoint: vi.fn().mockResolvedValue(false),
+      } as unknown as PhaseRunnerConfig['documentManager'],
     };
 
     consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -196,7 +200,8 @@ describe('PlanningPhase', () => {
       expect(mockConfig.llmService.startPlanning).toHaveBeenCalledWith(
         'test-project',
         sampleIdeationContent,
-        sampleSpecContent
+        sampleSpecContent,
+        undefined
       );
     });
 
@@ -281,7 +286,7 @@ describe('PlanningPhase', () => {
 
       await phase.run({ specification: sampleSpecContent });
 
-      expect(mockConfig.stateManager.addImplementationPhases).toHaveBeenCalledWith(
+      expect(mockConfig.stateManager.setImplementationPhases).toHaveBeenCalledWith(
         samplePhases
       );
     });
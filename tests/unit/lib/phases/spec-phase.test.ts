@@ -101,7 +101,11 @@ describe('SpecPhase', () => {
         addCost: vi.fn(),
         save: vi.fn().mockResolvedValue(undefined),
       } as unknown as PhaseRunnerConfig['stateManager'],
-      documentManager: {} as PhaseRunnerConfig['documentManager'],
+      documentManager: {
+        getConversationCheckpoint: vi.fn().mockResolvedValue(null),
+        saveConversationCheckpoint: vi.fn().mockResolvedValue(undefined),
+        deleteConversationCheckpoint: vi.fn().mockResolvedValue(false),
+      } as unknown as PhaseRunnerConfig['documentManager'],
     };
 
     consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -161,8 +165,28 @@ describe('SpecPhase', () => {
 
       expect(mockConfig.llmService.startSpecification).toHaveBeenCalledWith(
         'test-project',
-        sampleIdeationContent
+        sampleIdeationContent,
+        undefined
+      );
+    });
+
+    it('should revise a rejected specification with the reviewer feedback', async () => {
+      const phase = new SpecPhase(mockConfig);
+      vi.mocked(terminal.prompt).mockResolvedValueOnce('/complete');
+      const revision = { previous: 'Old specification', feedback: 'Use SQLite' };
+
+      await phase.run({
+        ideation: sampleIdeationContent,
+        projectName: 'test-project',
+        revision,
+      });
+
+      expect(mockConfig.llmService.startSpecification).toHaveBeenCalledWith(
+        'test-project',
+        sampleIdeationContent,
+        revision
       );
+      expect(terminal.printSection).toHaveBeenCalledWith('Reviewer Feedback', 'Use SQLite');
     });
 
     it('should continue with user input', async () => {
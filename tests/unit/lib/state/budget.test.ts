@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkBudget,
+  getPhaseSpend,
+  formatBudgetPause,
+} from '../../../../src/lib/state/budget.js';
+import { BudgetExceededError, type ProjectMeta } from '../../../../src/types/index.js';
+
+function createMeta(overrides: Partial<ProjectMeta> = {}): ProjectMeta {
+  return {
+    version: 1,
+    project_id: 'test',
+    project_name: 'test',
+    created: '2024-01-01T00:00:00Z',
+    updated: '2024-01-01T00:00:00Z',
+    current_phase: 'implementation',
+    current_phase_name: 'Implementation',
+    phase_status: 'in_progress',
+    gates: {
+      ideation_complete: true,
+      ideation_approved: true,
+      spec_complete: true,
+      spec_approved: true,
+      planning_complete: true,
+      planning_approved: true,
+    },
+    cost: { total_tokens: 0, total_cost_usd: 2, by_phase: { 'impl-1': 1.5 } },
+    agent: { primary: 'claude-code', timeout_minutes: 10 },
+    ...overrides,
+  };
+}
+
+describe('Budget', () => {
+  describe('getPhaseSpend', () => {
+    it('should return recorded spend for a phase', () => {
+      expect(getPhaseSpend(createMeta(), 'impl-1')).toBe(1.5);
+    });
+
+    it('should return 0 for phases without spend', () => {
+      expect(getPhaseSpend(createMeta(), 'impl-2')).toBe(0);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('should not throw without a budget', () => {
+      expect(() => checkBudget(createMeta(), { phase: 'impl-1' })).not.toThrow();
+    });
+
+    it('should ignore non-positive limits', () => {
+      const meta = createMeta({ budget: { project_usd: 0, phase_usd: -1 } });
+      expect(() => checkBudget(meta, { phase: 'impl-1' })).not.toThrow();
+    });
+
+    it('should throw when the project cap is reached', () => {
+      const meta = createMeta({ budget: { project_usd: 2 } });
+
+      expect(() => checkBudget(meta, { phase: 'impl-1' })).toThrow(BudgetExceededError);
+    });
+
+    it('should include pending spend', () => {
+      const meta = createMeta({ budget: { project_usd: 3 } });
+
+      expect(() => checkBudget(meta, { phase: 'impl-1', pendingUsd: 0.5 })).not.toThrow();
+      expect(() => checkBudget(meta, { phase: 'impl-1', pendingUsd: 1 })).toThrow(
+        /Project budget/
+      );
+    });
+
+    it('should throw when the phase cap is reached', () => {
+      const meta = createMeta({ budget: { phase_usd: 1.5 } });
+
+      expect(() => checkBudget(meta, { phase: 'impl-2' })).not.toThrow();
+      try {
+        checkBudget(meta, { phase: 'impl-1' });
+        expect.fail('expected BudgetExceededError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect((error as BudgetExceededError).context).toMatchObject({
+          type: 'phase',
+          phase: 'impl-1',
+          limitUsd: 1.5,
+        });
+      }
+    });
+
+    it('should throw when the task cap is reached', () => {
+      const meta = createMeta({ budget: { task_usd: 0.25 } });
+
+      expect(() =>
+        checkBudget(meta, { phase: 'impl-1', taskId: '1.1', taskSpentUsd: 0.1 })
+      ).not.toThrow();
+      expect(() =>
+        checkBudget(meta, { phase: 'impl-1', taskId: '1.1', taskSpentUsd: 0.25 })
+      ).toThrow(/task 1\.1/);
+    });
+  });
+
+  describe('formatBudgetPause', () => {
+    it('should name the config key to raise', () => {
+      const lines = formatBudgetPause(BudgetExceededError.task('1.1', 1, 1.2));
+
+      expect(lines.join('\n')).toContain('budget.task_usd');
+      expect(lines.join('\n')).toContain('orchestrator resume');
+    });
+  });
+});
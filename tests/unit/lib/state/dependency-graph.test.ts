@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDependencyGraph,
+  renderDependencyGraph,
+  renderDot,
+  renderMermaid,
+} from '../../../../src/lib/state/dependency-graph.js';
+import type { ImplementationPhase, Task } from '../../../../src/types/index.js';
+
+const createTask = (id: string, depends_on: string[] = [], status: Task['status'] = 'pending'): Task => ({
+  id,
+  description: `Task ${id}`,
+  status,
+  depends_on,
+  acceptance_criteria: [],
+});
+
+const createPhase = (phase_number: number, tasks: Task[]): ImplementationPhase => ({
+  phase_number,
+  name: `Phase ${phase_number}`,
+  description: '',
+  status: 'pending',
+  tasks,
+});
+
+describe('dependency graph', () => {
+  // 1.1 → 1.2 → 2.1, with 1.3 on its own
+  const phases = [
+    createPhase(1, [
+      createTask('1.1', [], 'complete'),
+      createTask('1.2', ['1.1'], 'failed'),
+      createTask('1.3'),
+    ]),
+    createPhase(2, [createTask('2.1', ['1.2'])]),
+  ];
+
+  describe('buildDependencyGraph', () => {
+    it('should include every task and mark the critical path', () => {
+      const graph = buildDependencyGraph(phases);
+
+      expect(graph.nodes.map((n) => n.id)).toEqual(['1.1', '1.2', '1.3', '2.1']);
+      expect(graph.criticalPath).toEqual(['1.1', '1.2', '2.1']);
+      expect(graph.nodes.filter((n) => n.critical).map((n) => n.id)).toEqual([
+        '1.1',
+        '1.2',
+        '2.1',
+      ]);
+      expect(graph.edges).toEqual([
+        { from: '1.1', to: '1.2', critical: true },
+        { from: '1.2', to: '2.1', critical: true },
+      ]);
+      expect(graph.issues).toEqual([]);
+    });
+
+    it('should show one phase with its dependencies from other phases', () => {
+      const graph = buildDependencyGraph(phases, { phase: 2 });
+
+      expect(graph.phases).toEqual([{ number: 2, name: 'Phase 2' }]);
+      expect(graph.nodes.map((n) => [n.id, n.external])).toEqual([
+        ['1.2', true],
+        ['2.1', false],
+      ]);
+      expect(graph.edges).toHaveLength(1);
+    });
+
+    it('should report dependency issues and skip the critical path on cycles', () => {
+      const graph = buildDependencyGraph([
+        createPhase(1, [createTask('1.1', ['1.2']), createTask('1.2', ['1.1', '9.9'])]),
+      ]);
+
+      expect(graph.criticalPath).toEqual([]);
+      expect(graph.issues).toContain('Task 1.2 depends on non-existent task 9.9');
+      expect(graph.issues.some((i) => i.startsWith('Circular dependency'))).toBe(true);
+      // The unknown task has no node, so no edge points at it
+      expect(graph.edges.map((e) => e.from)).toEqual(['1.2', '1.1']);
+    });
+  });
+
+  describe('renderMermaid', () => {
+    it('should group tasks by phase and color them by status', () => {
+      const output = renderMermaid(buildDependencyGraph(phases));
+
+      expect(output.split('\n')[0]).toBe('flowchart TD');
+      expect(output).toContain('subgraph phase_1["Phase 1: Phase 1"]');
+      expect(output).toContain('t1_1["1.1 Task 1.1"]');
+      expect(output).toContain('t1_1 --> t1_2');
+      expect(output).toContain('class t1_1 complete');
+      expect(output).toContain('class t1_2 failed');
+      expect(output).toContain('class t1_3,t2_1 pending');
+      expect(output).toContain('class t1_1,t1_2,t2_1 critical');
+      expect(output).toContain('linkStyle 0,1 stroke:#d81b60,stroke-width:3px');
+    });
+
+    it('should escape quotes in labels', () => {
+      const task = { ...createTask('1.1'), description: 'Add "quoted" names' };
+      const output = renderMermaid(buildDependencyGraph([createPhase(1, [task])]));
+
+      expect(output).toContain('t1_1["1.1 Add #quot;quoted#quot; names"]');
+    });
+  });
+
+  describe('renderDot', () => {
+    it('should cluster phases and highlight critical edges', () => {
+      const output = renderDot(buildDependencyGraph(phases, { phase: 2 }));
+
+      expect(output).toContain('subgraph cluster_2 {');
+      expect(output).toContain('"1.2" -> "2.1" [color="#d81b60", penwidth=3];');
+      expect(output).toMatch(/"1\.2" \[label="1\.2\\nTask 1\.2", .*style="rounded,filled,dashed"\];/);
+      expect(output.trimEnd().endsWith('}')).toBe(true);
+    });
+  });
+
+  describe('renderDependencyGraph', () => {
+    it('should render JSON', () => {
+      const graph = buildDependencyGraph(phases);
+
+      expect(JSON.parse(renderDependencyGraph(graph, 'json'))).toEqual(graph);
+    });
+  });
+});
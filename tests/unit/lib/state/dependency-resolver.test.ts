@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { DependencyResolver } from '../../../../src/lib/state/dependency-resolver.js';
-import { Task } from '../../../../src/types/index.js';
+import { ImplementationPhase, Task } from '../../../../src/types/index.js';
 
 const createTask = (id: string, depends_on: string[] = [], status: Task['status'] = 'pending'): Task => ({
   id,
@@ -102,6 +102,50 @@ describe('DependencyResolver', () => {
 
       expect(result.valid).toBe(true);
     });
+
+    describe('across phases', () => {
+      const createPhase = (phase_number: number, tasks: Task[]): ImplementationPhase => ({
+        phase_number,
+        name: `Phase ${phase_number}`,
+        description: '',
+        tasks,
+      });
+
+      it('should accept dependencies on earlier phases', () => {
+        const resolver = DependencyResolver.fromPhases([
+          createPhase(1, [createTask('1.1')]),
+          createPhase(2, [createTask('2.1', ['1.1'])]),
+        ]);
+
+        expect(resolver.validate().valid).toBe(true);
+      });
+
+      it('should report dependencies on later phases', () => {
+        const resolver = DependencyResolver.fromPhases([
+          createPhase(1, [createTask('1.1', ['2.1'])]),
+          createPhase(2, [createTask('2.1')]),
+        ]);
+        const result = resolver.validate();
+
+        expect(result.issues).toEqual([
+          {
+            type: 'forward_reference',
+            taskId: '1.1',
+            details: 'Task 1.1 (phase 1) depends on task 2.1 from later phase 2',
+          },
+        ]);
+      });
+
+      it('should resolve blocking dependencies against earlier phases', () => {
+        const resolver = DependencyResolver.fromPhases([
+          createPhase(1, [createTask('1.1', [], 'complete'), createTask('1.2', [], 'failed')]),
+          createPhase(2, [createTask('2.1', ['1.1', '1.2'])]),
+        ]);
+
+        expect(resolver.getBlockingDeps('2.1')).toEqual(['1.2']);
+        expect(resolver.canRun('2.1')).toBe(false);
+      });
+    });
   });
 
   describe('canRun', () => {
@@ -317,6 +361,64 @@ describe('DependencyResolver', () => {
     });
   });
 
+  describe('getCriticalPathLengths', () => {
+    it('should count the longest chain of tasks starting at each task', () => {
+      const tasks = [
+        createTask('1.1'),
+        createTask('1.2', ['1.1']),
+        createTask('1.3', ['1.2']),
+        createTask('1.4', ['1.1']),
+        createTask('1.5'),
+      ];
+      const resolver = new DependencyResolver(tasks);
+
+      const lengths = resolver.getCriticalPathLengths();
+
+      expect(Object.fromEntries(lengths)).toEqual({
+        '1.1': 3,
+        '1.2': 2,
+        '1.3': 1,
+        '1.4': 1,
+        '1.5': 1,
+      });
+    });
+
+    it('should throw for cycles', () => {
+      const resolver = new DependencyResolver([
+        createTask('1.1', ['1.2']),
+        createTask('1.2', ['1.1']),
+      ]);
+
+      expect(() => resolver.getCriticalPathLengths()).toThrow('circular');
+    });
+  });
+
+  describe('getCriticalPath', () => {
+    it('should follow the longest chain through a diamond', () => {
+      const tasks = [
+        createTask('1.1'),
+        createTask('1.2', ['1.1']),
+        createTask('1.3', ['1.1']),
+        createTask('1.4', ['1.3']),
+        createTask('1.5', ['1.2', '1.4']),
+        createTask('1.6'),
+      ];
+      const resolver = new DependencyResolver(tasks);
+
+      expect(resolver.getCriticalPath().map((t) => t.id)).toEqual(['1.1', '1.3', '1.4', '1.5']);
+    });
+
+    it('should break ties by task ID', () => {
+      const resolver = new DependencyResolver([createTask('1.2'), createTask('1.1')]);
+
+      expect(resolver.getCriticalPath().map((t) => t.id)).toEqual(['1.1']);
+    });
+
+    it('should return an empty path for no tasks', () => {
+      expect(new DependencyResolver([]).getCriticalPath()).toEqual([]);
+    });
+  });
+
   describe('findCycles', () => {
     it('should find simple cycle', () => {
       const tasks = [
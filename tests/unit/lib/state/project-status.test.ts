@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import { createTestTempDir } from '../../../helpers/temp-dir.js';
+import { getProjectStatus } from '../../../../src/lib/state/project-status.js';
+import { StateManager } from '../../../../src/lib/state/state-manager.js';
+import { DocumentManager } from '../../../../src/lib/documents.js';
+import type { ImplementationPhase } from '../../../../src/types/index.js';
+import { createTaskResult } from '../../../../src/lib/task-results.js';
+
+describe('getProjectStatus', () => {
+  let tempDir: string;
+  let docManager: DocumentManager;
+  let stateManager: StateManager;
+
+  beforeEach(async () => {
+    tempDir = await createTestTempDir('project-status-test-');
+    docManager = new DocumentManager(tempDir);
+    await docManager.initialize('Test Project', 'A test project');
+    stateManager = new StateManager(docManager, tempDir);
+    await stateManager.load();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report phase 1 for a new project', () => {
+    const status = getProjectStatus(stateManager);
+
+    expect(status.projectName).toBe('Test Project');
+    expect(status.currentPhase.phase).toBe(1);
+    expect(status.phases.map((p) => p.phase)).toEqual([1, 2, 3, 'implementation']);
+    expect(status.phases.every((p) => p.status === 'not_started')).toBe(true);
+    expect(status.implementationPhases).toEqual([]);
+    expect(status.totals.tasks).toBe(0);
+  });
+
+  describe('with implementation phases', () => {
+    beforeEach(async () => {
+      const phases: ImplementationPhase[] = [
+        {
+          phase_number: 1,
+          name: 'Foundation',
+          description: 'Setup',
+          status: 'pending',
+          tasks: [
+            {
+              id: '1.1',
+              description: 'Scaffold',
+              status: 'pending',
+              depends_on: [],
+              acceptance_criteria: [],
+            },
+            {
+              id: '1.2',
+              description: 'Models',
+              status: 'pending',
+              depends_on: ['1.1'],
+              acceptance_criteria: [],
+            },
+            {
+              id: '1.3',
+              description: 'Routes',
+              status: 'pending',
+              depends_on: ['1.2'],
+              acceptance_criteria: [],
+            },
+          ],
+        },
+        {
+          phase_number: 2,
+          name: 'Features',
+          description: 'Build',
+          status: 'pending',
+          tasks: [
+            {
+              id: '2.1',
+              description: 'Search',
+              status: 'pending',
+              depends_on: [],
+              acceptance_criteria: [],
+            },
+          ],
+        },
+      ];
+      for (const phase of phases) {
+        await docManager.addImplementationPhase(phase);
+      }
+      await docManager.updateProjectMeta({
+        current_phase: 'implementation',
+        current_phase_name: 'Implementation',
+        implementation: {
+          total_phases: 2,
+          completed_phases: 0,
+          current_impl_phase: 1,
+          current_impl_phase_name: 'Foundation',
+        },
+      });
+      await stateManager.load();
+    });
+
+    it('should list tasks per implementation phase', () => {
+      const status = getProjectStatus(stateManager);
+
+      expect(status.currentPhase.phase).toBe('implementation');
+      expect(status.implementationPhases.map((p) => p.name)).toEqual(['Foundation', 'Features']);
+      expect(status.implementationPhases[0]?.tasks.map((t) => t.id)).toEqual(['1.1', '1.2', '1.3']);
+      expect(status.implementationPhases[0]?.status).toBe('not_started');
+    });
+
+    it('should report tasks blocked by incomplete dependencies', () => {
+      const status = getProjectStatus(stateManager);
+
+      expect(status.blockedTasks.map((t) => [t.id, t.blockedBy])).toEqual([
+        ['1.2', ['1.1']],
+        ['1.3', ['1.2']],
+      ]);
+    });
+
+    it('should include failure reasons and totals', () => {
+      const done = createTaskResult('1.1', 'Scaffold');
+      done.status = 'success';
+      done.duration_ms = 90000;
+      done.cost_usd = 0.5;
+      done.tokens_used = 1000;
+      stateManager.startTask('1.1');
+      stateManager.completeTask('1.1', done);
+
+      const failed = createTaskResult('1.2', 'Models');
+      failed.duration_ms = 30000;
+      failed.output_summary = 'Agent stopped';
+      failed.failure_type = 'timeout';
+      failed.failure_reason = 'Timed out after 5 minutes';
+      stateManager.startTask('1.2');
+      stateManager.failTask('1.2', failed);
+
+      const status = getProjectStatus(stateManager);
+
+      expect(status.implementationPhases[0]?.status).toBe('in_progress');
+      expect(status.failedTasks).toHaveLength(1);
+      expect(status.failedTasks[0]).toMatchObject({
+        id: '1.2',
+        failureType: 'timeout',
+        failureReason: 'Timed out after 5 minutes',
+      });
+      // 1.3 still waits on the failed task; 1.2 is no longer pending
+      expect(status.blockedTasks.map((t) => t.id)).toEqual(['1.3']);
+      expect(status.totals.byStatus).toMatchObject({ complete: 1, failed: 1, pending: 2 });
+      expect(status.totals.durationSeconds).toBe(120);
+      expect(status.totals.costUsd).toBeCloseTo(0.5);
+      expect(status.totals.tokens).toBe(1000);
+    });
+
+    it('should mark an implementation phase approved', () => {
+      for (const id of ['1.1', '1.2', '1.3']) {
+        const result = createTaskResult(id, id);
+        result.status = 'success';
+        stateManager.startTask(id);
+        stateManager.completeTask(id, result);
+      }
+      expect(getProjectStatus(stateManager).implementationPhases[0]?.status).toBe('complete');
+
+      stateManager.approvePhase('impl-1');
+
+      expect(getProjectStatus(stateManager).implementationPhases[0]?.status).toBe('approved');
+    });
+  });
+});
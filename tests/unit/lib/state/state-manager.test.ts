@@ -6,6 +6,7 @@ import { StateManager, StateEvent, StateEventType } from '../../../../src/lib/st
 import { DocumentManager } from '../../../../src/lib/documents.js';
 import { ImplementationPhase, Task } from '../../../../src/types/index.js';
 import { createTaskResult } from '../../../../src/lib/task-results.js';
+import { BudgetExceededError } from '../../../../src/types/errors.js';
 
 describe('StateManager', () => {
   let tempDir: string;
@@ -108,6 +109,40 @@ describe('StateManager', () => {
       await stateManager.save(); // No changes made
       expect(spy).not.toHaveBeenCalled();
     });
+
+    it('should persist phase content set since the last save', async () => {
+      stateManager.setSpecificationContent({
+        architecture: 'Single CLI module',
+        tech_stack: [{ layer: 'Language', choice: 'TypeScript', rationale: '' }],
+        data_models: 'None',
+        api_contracts: '',
+        ui_requirements: '',
+        raw_content: '',
+      });
+      stateManager.addImplementationPhases([
+        {
+          phase_number: 2,
+          name: 'Polish',
+          description: 'Finish up',
+          status: 'pending',
+          tasks: [
+            {
+              id: '2.1',
+              description: 'Write docs',
+              status: 'pending',
+              depends_on: [],
+              acceptance_criteria: ['Docs exist'],
+            },
+          ],
+        },
+      ]);
+      await stateManager.save();
+
+      const newManager = new StateManager(docManager, tempDir);
+      await newManager.load();
+      expect(newManager.getProject().specification?.architecture).toBe('Single CLI module');
+      expect(newManager.getTask('2.1')?.description).toBe('Write docs');
+    });
   });
 
   describe('getProject', () => {
@@ -470,6 +505,81 @@ describe('StateManager', () => {
       stateManager.approvePhase('Phase 1');
       expect(handler).toHaveBeenCalledTimes(1);
     });
+
+    it('should write the approval to the Approvals table on save', async () => {
+      stateManager.approvePhase('phase-1', 'Looks good');
+      await stateManager.save();
+
+      const saved = await docManager.readProject();
+      const approvals = saved.approvals.filter((a) => a.phase === 'Phase 1');
+      expect(approvals).toHaveLength(1);
+      expect(approvals[0]?.status).toBe('approved');
+      expect(approvals[0]?.notes).toBe('Looks good');
+    });
+  });
+
+  describe('rejectPhase', () => {
+    beforeEach(() => {
+      const gates = stateManager.getMeta().gates;
+      Object.assign(gates, {
+        ideation_complete: true,
+        spec_complete: true,
+        planning_complete: true,
+      });
+      stateManager.approvePhase('phase-1');
+      stateManager.approvePhase('phase-2');
+      stateManager.approvePhase('phase-3');
+    });
+
+    it('should record the rejection and reset the gates from that phase on', async () => {
+      stateManager.rejectPhase(2, 'Use SQLite |\n not Postgres');
+      await stateManager.save();
+
+      const saved = await docManager.readProject();
+      const approval = saved.approvals.find((a) => a.phase === 'Phase 2');
+      expect(approval?.status).toBe('rejected');
+      expect(approval?.rejected_at).toBeDefined();
+      expect(approval?.notes).toBe('Use SQLite / not Postgres');
+      expect(saved.approvals.find((a) => a.phase === 'Phase 1')?.status).toBe('approved');
+      expect(saved.approvals.find((a) => a.phase === 'Phase 3')?.status).toBe('pending');
+
+      expect(saved.meta.gates.ideation_approved).toBe(true);
+      expect(saved.meta.gates.spec_complete).toBe(false);
+      expect(saved.meta.gates.spec_approved).toBe(false);
+      expect(saved.meta.gates.planning_complete).toBe(false);
+      expect(saved.meta.current_phase).toBe(2);
+      expect(saved.meta.phase_status).toBe('pending');
+    });
+
+    it('should clear the rejection feedback once the phase is approved again', () => {
+      stateManager.rejectPhase(3, 'Smaller phases');
+      stateManager.getMeta().gates.planning_complete = true;
+      stateManager.approvePhase('phase-3');
+
+      const approval = stateManager.getProject().approvals.find((a) => a.phase === 'Phase 3');
+      expect(approval?.status).toBe('approved');
+      expect(approval?.notes).toBeUndefined();
+      expect(approval?.rejected_at).toBeUndefined();
+    });
+
+    it('should refuse a phase that is not complete', () => {
+      stateManager.getMeta().gates.planning_complete = false;
+
+      expect(() => stateManager.rejectPhase(3, 'Redo')).toThrow('Phase 3 is not complete');
+    });
+
+    it('should refuse once implementation has started', () => {
+      stateManager.startTask('1.1');
+
+      expect(() => stateManager.rejectPhase(3, 'Redo')).toThrow('Implementation has started');
+    });
+
+    it('should emit approval_rejected event', () => {
+      const handler = vi.fn();
+      stateManager.on('approval_rejected', handler);
+      stateManager.rejectPhase(1, 'Narrower scope');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('setIdeationContent', () => {
@@ -487,6 +597,26 @@ describe('StateManager', () => {
       expect(project.ideation?.problem_statement).toBe('Problem');
       expect(project.meta.gates.ideation_complete).toBe(true);
     });
+
+    it('should keep each saved version as a revision in the phase history', async () => {
+      const ideation = {
+        problem_statement: 'Problem',
+        target_users: 'Users',
+        use_cases: ['UC1'],
+        success_criteria: ['SC1'],
+        constraints: { must_have: [], nice_to_have: [], out_of_scope: [] },
+        raw_content: '',
+      };
+
+      stateManager.setIdeationContent(ideation);
+      await stateManager.save();
+      stateManager.setIdeationContent({ ...ideation, use_cases: ['UC1', 'UC2'] });
+      await stateManager.save();
+
+      expect(await docManager.getPhaseRevisions(1)).toEqual([1, 2]);
+      const first = await docManager.getPhaseSnapshot(1, 1);
+      expect(first?.content).toMatchObject({ use_cases: ['UC1'] });
+    });
   });
 
   describe('addImplementationPhases', () => {
@@ -509,6 +639,36 @@ describe('StateManager', () => {
     });
   });
 
+  describe('setImplementationPhases', () => {
+    it('should replace the plan in memory and in PROJECT.md', async () => {
+      const phases: ImplementationPhase[] = [
+        {
+          phase_number: 1,
+          name: 'Revised',
+          description: 'Reworked plan',
+          status: 'pending',
+          tasks: [
+            {
+              id: '1.1',
+              description: 'Start over',
+              status: 'pending',
+              depends_on: [],
+              acceptance_criteria: ['Done'],
+            },
+          ],
+        },
+      ];
+
+      stateManager.setImplementationPhases(phases);
+      await stateManager.save();
+
+      const saved = await docManager.readProject();
+      expect(saved.implementation_phases).toHaveLength(1);
+      expect(saved.implementation_phases[0]?.name).toBe('Revised');
+      expect(saved.meta.implementation?.current_impl_phase_name).toBe('Revised');
+    });
+  });
+
   describe('cost tracking', () => {
     it('should accumulate cost', () => {
       stateManager.addCost(1000, 0.05);
@@ -525,6 +685,64 @@ describe('StateManager', () => {
       stateManager.addCost(1000, 0.05);
       expect(handler).toHaveBeenCalledTimes(1);
     });
+
+    it('should attribute cost to phases', () => {
+      stateManager.addCost(0, 0.2, 'phase-2');
+      stateManager.recordTaskResult({ ...createTaskResult('1.1', 'Initialize project'), cost_usd: 0.3 });
+
+      expect(stateManager.getMeta().cost.by_phase).toEqual({ 'phase-2': 0.2, 'impl-1': 0.3 });
+    });
+
+    it('should persist per-phase cost to PROJECT.md', async () => {
+      stateManager.addCost(100, 0.4, 'phase-1');
+      await stateManager.save();
+
+      const doc = await docManager.readProject();
+      expect(doc.meta.cost.by_phase?.['phase-1']).toBeCloseTo(0.4);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('should pass when no budget is set', () => {
+      stateManager.addCost(0, 100, 'impl-1');
+      expect(() => stateManager.checkBudget({ phase: 'impl-1' })).not.toThrow();
+    });
+
+    it('should throw BudgetExceededError once the project cap is reached', () => {
+      stateManager.getMeta().budget = { project_usd: 1 };
+      stateManager.addCost(0, 0.6, 'impl-1');
+
+      expect(() => stateManager.checkBudget({ phase: 'impl-1' })).not.toThrow();
+      expect(() => stateManager.checkBudget({ phase: 'impl-1', pendingUsd: 0.4 })).toThrow(
+        BudgetExceededError
+      );
+    });
+
+    it('should default to the active phase', () => {
+      stateManager.getMeta().budget = { phase_usd: 0.5 };
+      stateManager.addCost(0, 0.5, 'phase-1');
+
+      expect(stateManager.getActivePhaseKey()).toBe('phase-1');
+      expect(() => stateManager.checkBudget()).toThrow(/phase-1/);
+    });
+
+    it('should apply budgets from config layers outside PROJECT.md', () => {
+      stateManager.setConfigLayers({ env: { 'budget.project_usd': 0.5 } });
+      stateManager.addCost(0, 0.5, 'phase-1');
+
+      expect(() => stateManager.checkBudget()).toThrow(BudgetExceededError);
+    });
+  });
+
+  describe('getConfig', () => {
+    it('should layer env and flag values over PROJECT.md', () => {
+      stateManager.getMeta().llm = { model: 'project-model', max_tokens: 1024 };
+      stateManager.setConfigLayers({ flags: { 'llm.model': 'flag-model' } });
+
+      const config = stateManager.getConfig();
+      expect(config.llm.model).toBe('flag-model');
+      expect(config.llm.max_tokens).toBe(1024);
+    });
   });
 
   describe('events', () => {
@@ -51,6 +51,37 @@ describe('Task Result Manager', () => {
       expect(isValidTaskResult(result)).toBe(false);
     });
 
+    it('should return false for unknown failure types', () => {
+      const result = createTaskResult('1.1', 'Test');
+      result.failure_type = 'timeout';
+      expect(isValidTaskResult(result)).toBe(true);
+      (result as Record<string, unknown>).failure_type = 'bored';
+      expect(isValidTaskResult(result)).toBe(false);
+    });
+
+    it('should return false for unknown result sources', () => {
+      const result = createTaskResult('1.1', 'Test');
+      result.result_source = 'agent_json';
+      expect(isValidTaskResult(result)).toBe(true);
+      (result as Record<string, unknown>).result_source = 'guess';
+      expect(isValidTaskResult(result)).toBe(false);
+    });
+
+    it('should check the structure of verified changes', () => {
+      const result = createTaskResult('1.1', 'Test');
+      result.verified_changes = {
+        files: [],
+        lines_added: 0,
+        lines_removed: 0,
+        unreported: [],
+        unchanged_claims: [],
+        no_changes: true,
+      };
+      expect(isValidTaskResult(result)).toBe(true);
+      (result as Record<string, unknown>).verified_changes = { files: 'src/a.ts' };
+      expect(isValidTaskResult(result)).toBe(false);
+    });
+
     it('should return false for wrong type number fields', () => {
       const result = createTaskResult('1.1', 'Test');
       (result as Record<string, unknown>).duration_ms = 'not a number';
@@ -313,6 +344,60 @@ describe('Task Result Manager', () => {
     });
   });
 
+  describe('attempt logs', () => {
+    const entry = {
+      task_id: '1.1',
+      started_at: '2024-01-01T00:00:00.000Z',
+      duration_ms: 1500,
+      exit_code: 1,
+      timed_out: false,
+      status: 'failed' as const,
+      failure_type: 'agent_error' as const,
+      failure_reason: 'crashed',
+    };
+
+    it('should write the outcome and each non-empty artifact', async () => {
+      const written = await manager.writeAttempt(entry, {
+        prompt: 'Do the task',
+        stdout: 'partial output',
+        stderr: '',
+      });
+
+      expect(written.attempt).toBe(1);
+      expect(written.files).toEqual(['attempt-1.prompt.md', 'attempt-1.stdout.log']);
+      const dir = path.join(tempDir, '.orchestrator', 'attempts', '1.1');
+      expect(await fs.readFile(path.join(dir, 'attempt-1.prompt.md'), 'utf-8')).toBe('Do the task');
+      await expect(fs.access(path.join(dir, 'attempt-1.stderr.log'))).rejects.toThrow();
+      expect(JSON.parse(await fs.readFile(path.join(dir, 'attempt-1.json'), 'utf-8'))).toEqual(
+        written
+      );
+    });
+
+    it('should number attempts after the ones already logged', async () => {
+      await manager.writeAttempt(entry, { stdout: 'first' });
+      await manager.writeAttempt(entry, { stdout: 'second' });
+      // A later run of the same task, e.g. after orchestrator retry
+      const third = await manager.writeAttempt({ ...entry, status: 'complete' }, {});
+
+      expect(third.attempt).toBe(3);
+      const attempts = await manager.listAttempts('1.1');
+      expect(attempts.map((a) => a.attempt)).toEqual([1, 2, 3]);
+      expect(await manager.readAttemptArtifact('1.1', 2, 'stdout')).toBe('second');
+    });
+
+    it('should return nothing for tasks without logs', async () => {
+      expect(await manager.listAttempts('9.9')).toEqual([]);
+      expect(await manager.readAttemptArtifact('9.9', 1, 'prompt')).toBeNull();
+    });
+
+    it('should not be mistaken for result files', async () => {
+      await manager.writeResult(createTaskResult('1.1', 'Task'));
+      await manager.writeAttempt(entry, { stdout: 'output' });
+
+      expect(await manager.readAllResults()).toHaveLength(1);
+    });
+  });
+
   describe('getTotalCost', () => {
     it('should sum costs from all results', async () => {
       const result1 = createTaskResult('1.1', 'Task 1');
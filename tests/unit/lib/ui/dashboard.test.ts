@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { Dashboard } from '../../../../src/lib/ui/dashboard.js';
+import * as terminal from '../../../../src/lib/ui/terminal.js';
+import { stripAnsi } from '../../../../src/utils/ansi.js';
+import type { OrchestratorEvent } from '../../../../src/lib/execution/orchestrator.js';
+import type { TaskExecutionEvent } from '../../../../src/lib/execution/task-executor.js';
+import type { ImplementationPhase } from '../../../../src/types/index.js';
+
+const phases: ImplementationPhase[] = [
+  {
+    phase_number: 1,
+    name: 'Foundation',
+    description: 'Setup',
+    status: 'pending',
+    tasks: [
+      {
+        id: '1.1',
+        description: 'Scaffold',
+        status: 'complete',
+        depends_on: [],
+        acceptance_criteria: [],
+      },
+      {
+        id: '1.2',
+        description: 'Models',
+        status: 'pending',
+        depends_on: [],
+        acceptance_criteria: [],
+      },
+      {
+        id: '1.3',
+        description: 'Routes',
+        status: 'pending',
+        depends_on: [],
+        acceptance_criteria: [],
+      },
+    ],
+  },
+  {
+    phase_number: 2,
+    name: 'Features',
+    description: 'Build',
+    status: 'pending',
+    tasks: [
+      {
+        id: '2.1',
+        description: 'Search',
+        status: 'pending',
+        depends_on: [],
+        acceptance_criteria: [],
+      },
+    ],
+  },
+];
+
+function phaseEvent(
+  type: 'phase_start' | 'phase_complete' | 'phase_fail',
+  phaseNumber = 1
+): OrchestratorEvent {
+  return {
+    type: 'phase_event',
+    phaseEvent: { type, phaseNumber, phaseName: `Phase ${phaseNumber}` },
+  };
+}
+
+function taskEvent(
+  type: TaskExecutionEvent['type'],
+  taskId: string,
+  message?: string
+): OrchestratorEvent {
+  return {
+    type: 'phase_event',
+    phaseEvent: {
+      type: 'task_event',
+      phaseNumber: Number(taskId.split('.')[0]),
+      phaseName: 'Phase',
+      taskEvent: { type, taskId, message },
+    },
+  };
+}
+
+const plain = (lines: string[]): string => stripAnsi(lines.join('\n'));
+
+function createOutput(): NodeJS.WriteStream & { write: ReturnType<typeof vi.fn> } {
+  return {
+    isTTY: true,
+    columns: 80,
+    rows: 30,
+    write: vi.fn(() => true),
+  } as unknown as NodeJS.WriteStream & { write: ReturnType<typeof vi.fn> };
+}
+
+describe('Dashboard', () => {
+  afterEach(() => {
+    terminal.setOutputHandler(null);
+    vi.restoreAllMocks();
+  });
+
+  describe('isSupported', () => {
+    it('should require a TTY', () => {
+      expect(Dashboard.isSupported({ isTTY: true } as NodeJS.WriteStream)).toBe(true);
+      expect(Dashboard.isSupported({ isTTY: false } as NodeJS.WriteStream)).toBe(false);
+    });
+  });
+
+  describe('render', () => {
+    it('should show the phase tree with task progress', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(phaseEvent('phase_start'));
+
+      const frame = plain(dashboard.render());
+
+      expect(frame).toContain('1/4 tasks done');
+      expect(frame).toContain('▶ 1. Foundation (1/3)');
+      expect(frame).toContain('✔ 1.1 Scaffold');
+      expect(frame).toContain('○ 2. Features (0/1)');
+      // Pending phases stay collapsed
+      expect(frame).not.toContain('2.1 Search');
+    });
+
+    it('should list every running task when tasks run in parallel', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(phaseEvent('phase_start'));
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(taskEvent('start', '1.3'));
+
+      const frame = plain(dashboard.render());
+      const running = frame.slice(frame.indexOf('Running'));
+
+      expect(frame).toContain('2 running');
+      expect(running).toContain('› ▶ 1.2 Models');
+      expect(running).toContain('▶ 1.3 Routes');
+    });
+
+    it('should show retries and a tail of task output', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(taskEvent('progress', '1.2', 'line one\nline '));
+      dashboard.handleEvent(taskEvent('progress', '1.2', 'two\n'));
+      dashboard.handleEvent(taskEvent('retry', '1.2'));
+
+      const frame = plain(dashboard.render());
+
+      expect(frame).toContain('Output · 1.2');
+      expect(frame).toContain('line one');
+      expect(frame).toContain('line two');
+      expect(frame).toContain('--- attempt 2 ---');
+      expect(frame).toContain('attempt 2');
+    });
+
+    it('should fit the frame to the screen', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(phaseEvent('phase_start'));
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(
+        taskEvent('progress', '1.2', Array.from({ length: 100 }, (_, i) => `out ${i}`).join('\n'))
+      );
+
+      const lines = dashboard.render(40, 20);
+
+      expect(lines.length).toBeLessThanOrEqual(20);
+      for (const line of lines) {
+        expect(plain([line]).length).toBeLessThanOrEqual(40);
+      }
+      expect(plain(lines)).toContain('out 99');
+    });
+  });
+
+  describe('task selection and scrolling', () => {
+    it('should scroll back through output and return to the tail', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(
+        taskEvent('progress', '1.2', Array.from({ length: 50 }, (_, i) => `out ${i}`).join('\n'))
+      );
+
+      dashboard.scroll(30);
+      let frame = plain(dashboard.render(80, 24));
+      expect(frame).not.toContain('out 49');
+      expect(frame).toContain('out 19');
+      expect(frame).toContain('of 50');
+
+      dashboard.scroll(-30);
+      frame = plain(dashboard.render(80, 24));
+      expect(frame).toContain('out 49');
+    });
+
+    it('should cycle through running tasks', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(taskEvent('start', '1.3'));
+
+      expect(dashboard.getSelectedTaskId()).toBe('1.2');
+      dashboard.selectNextTask();
+      expect(dashboard.getSelectedTaskId()).toBe('1.3');
+      dashboard.selectNextTask();
+      expect(dashboard.getSelectedTaskId()).toBe('1.2');
+    });
+
+    it('should follow the next running task when the selected one finishes', () => {
+      const dashboard = new Dashboard(phases);
+      dashboard.handleEvent(taskEvent('start', '1.2'));
+      dashboard.handleEvent(taskEvent('start', '1.3'));
+      dashboard.handleEvent(taskEvent('complete', '1.2'));
+
+      expect(dashboard.getSelectedTaskId()).toBe('1.3');
+      expect(plain(dashboard.render())).toContain('1 running');
+    });
+  });
+
+  describe('start and stop', () => {
+    it('should collect terminal messages while active and replay them on stop', () => {
+      const output = createOutput();
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const dashboard = new Dashboard(phases, { output });
+
+      dashboard.start();
+      terminal.printInfo('Created branch: impl/phase-1');
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(plain(dashboard.render())).toContain('Created branch: impl/phase-1');
+
+      dashboard.stop();
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Created branch'));
+
+      // Normal output is restored
+      terminal.printInfo('after');
+      expect(consoleSpy).toHaveBeenLastCalledWith(expect.stringContaining('after'));
+    });
+
+    it('should use the alternate screen and restore it', () => {
+      const output = createOutput();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const dashboard = new Dashboard(phases, { output });
+
+      dashboard.start();
+      dashboard.stop();
+
+      const written = output.write.mock.calls.map((call) => String(call[0])).join('');
+      expect(written).toContain('\x1b[?1049h');
+      expect(written).toContain('\x1b[?1049l');
+    });
+
+    it('should redraw when attached orchestrator events arrive', () => {
+      const output = createOutput();
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const orchestrator = new EventEmitter();
+      const dashboard = new Dashboard(phases, { output });
+      dashboard.attach(orchestrator);
+
+      dashboard.start();
+      output.write.mockClear();
+      orchestrator.emit('event', taskEvent('start', '1.2'));
+      dashboard.stop();
+
+      const frame = String(output.write.mock.calls[0]?.[0]);
+      expect(plain([frame])).toContain('1.2 Models');
+    });
+  });
+});
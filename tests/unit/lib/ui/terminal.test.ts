@@ -232,6 +232,32 @@ describe('Terminal UI utilities', () => {
     });
   });
 
+  describe('setOutputHandler', () => {
+    afterEach(() => {
+      terminal.setOutputHandler(null);
+    });
+
+    it('should route printed lines to the handler', () => {
+      const lines: string[] = [];
+      terminal.setOutputHandler((line) => lines.push(line));
+
+      terminal.printSuccess('Done');
+      terminal.printSection('Title', 'Content');
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(lines[0]).toContain('Done');
+      expect(lines.some((line) => line.includes('Content'))).toBe(true);
+    });
+
+    it('should restore console output when cleared', () => {
+      terminal.setOutputHandler(() => {});
+      terminal.setOutputHandler(null);
+
+      terminal.printInfo('FYI');
+      expect(consoleLogSpy).toHaveBeenCalled();
+    });
+  });
+
   describe('printUserPrompt', () => {
     it('should return user prompt string', () => {
       const prompt = terminal.printUserPrompt();
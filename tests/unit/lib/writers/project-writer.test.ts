@@ -169,6 +169,17 @@ describe('Project Writer', () => {
       expect(task?.status).toBe('in_progress');
     });
 
+    it('should round-trip a per-task timeout in a Timeout column', () => {
+      const updated = updateProjectTask(sampleContent, '1.3', { timeout_minutes: 20 });
+
+      expect(updated).toContain('| Timeout |');
+      const doc = parseProjectMd(updated);
+      const tasks = doc.implementation_phases[0]?.tasks ?? [];
+      expect(tasks.find((t) => t.id === '1.3')?.timeout_minutes).toBe(20);
+      expect(tasks.find((t) => t.id === '1.1')?.timeout_minutes).toBeUndefined();
+      expect(doc.implementation_phases[1]?.tasks.length).toBeGreaterThan(0);
+    });
+
     it('should preserve other tasks', () => {
       const updated = updateProjectTask(sampleContent, '1.1', {
         status: 'failed',
@@ -212,6 +223,23 @@ describe('Project Writer', () => {
       expect(approval).toBeTruthy();
       expect(approval?.status).toBe('approved');
     });
+
+    it('should round-trip a rejection with its date and feedback', () => {
+      const updated = updateProjectApproval(
+        sampleContent,
+        'Phase 3',
+        'rejected',
+        'Split phase 2 into smaller tasks'
+      );
+
+      const doc = parseProjectMd(updated);
+      const approval = doc.approvals.find((a) => a.phase === 'Phase 3');
+
+      expect(approval?.status).toBe('rejected');
+      expect(approval?.rejected_at).toBeTruthy();
+      expect(approval?.approved_at).toBeUndefined();
+      expect(approval?.notes).toBe('Split phase 2 into smaller tasks');
+    });
   });
 
   describe('addImplementationPhase', () => {
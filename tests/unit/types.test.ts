@@ -16,6 +16,8 @@ import {
   ValidationError,
   GitError,
   LLMError,
+  BudgetExceededError,
+  ConfigError,
 } from '../../src/types/index.js';
 
 describe('Type Definitions', () => {
@@ -28,12 +30,16 @@ describe('Type Definitions', () => {
       expect(DEFAULT_CONFIG.git).toBeDefined();
       expect(DEFAULT_CONFIG.git.enabled).toBe(true);
       expect(DEFAULT_CONFIG.git.auto_commit).toBe(true);
-      expect(DEFAULT_CONFIG.git.branch_prefix).toBe('phase-');
+      expect(DEFAULT_CONFIG.git.branch_prefix).toBe('impl');
 
       expect(DEFAULT_CONFIG.llm).toBeDefined();
       expect(DEFAULT_CONFIG.llm.provider).toBe('anthropic');
       expect(DEFAULT_CONFIG.llm.model).toBe('claude-sonnet-4-20250514');
       expect(DEFAULT_CONFIG.llm.max_tokens).toBe(8192);
+
+      expect(DEFAULT_CONFIG.execution.max_retries).toBe(2);
+      expect(DEFAULT_CONFIG.execution.parallel).toBe(false);
+      expect(DEFAULT_CONFIG.execution.validate_results).toBe(true);
     });
   });
 
@@ -370,4 +376,39 @@ describe('Error Classes', () => {
       expect(error.context?.retryAfter).toBe(60);
     });
   });
+
+  describe('BudgetExceededError', () => {
+    it('should extend OrchestratorError', () => {
+      const error = BudgetExceededError.project(5, 5.5);
+
+      expect(error).toBeInstanceOf(OrchestratorError);
+      expect(error.name).toBe('BudgetExceededError');
+      expect(error.code).toBe('BUDGET_EXCEEDED');
+      expect(error.message).toContain('$5.00');
+    });
+
+    it('should record pending spend in context', () => {
+      const error = BudgetExceededError.phase('impl-1', 1, 1.2, 0.2);
+
+      expect(error.context?.phase).toBe('impl-1');
+      expect(error.context?.pendingUsd).toBe(0.2);
+    });
+  });
+
+  describe('ConfigError', () => {
+    it('should list available keys for unknown keys', () => {
+      const error = ConfigError.unknownKey('foo.bar', ['git.enabled']);
+
+      expect(error).toBeInstanceOf(OrchestratorError);
+      expect(error.code).toBe('CONFIG_ERROR');
+      expect(error.context?.available).toEqual(['git.enabled']);
+    });
+
+    it('should describe the expected value', () => {
+      const error = ConfigError.invalidValue('git.enabled', 'yes', 'true or false');
+
+      expect(error.message).toContain('git.enabled');
+      expect(error.message).toContain('true or false');
+    });
+  });
 });
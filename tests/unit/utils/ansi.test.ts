@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { stripAnsi } from '../../../src/utils/ansi.js';
+
+const ESC = String.fromCharCode(27);
+
+describe('stripAnsi', () => {
+  it('should remove colour and style escapes', () => {
+    expect(stripAnsi(`${ESC}[1m${ESC}[32m5 passed${ESC}[39m${ESC}[22m`)).toBe('5 passed');
+  });
+
+  it('should leave plain text and other escapes alone', () => {
+    expect(stripAnsi('Tests  3 failed')).toBe('Tests  3 failed');
+    expect(stripAnsi(`${ESC}[K`)).toBe(`${ESC}[K`);
+  });
+});
@@ -158,6 +158,14 @@ describe('Project Utilities', () => {
       expect(content).toContain('phase_status: "pending"');
     });
 
+    it('should store the idea, escaped for YAML', async () => {
+      await initProjectDir(tempDir, 'Test', 'A "quoted" idea: with colons');
+
+      const content = await fs.readFile(path.join(tempDir, 'PROJECT.md'), 'utf-8');
+
+      expect(content).toContain('idea: "A \\"quoted\\" idea: with colons"');
+    });
+
     it('should throw DocumentParseError if PROJECT.md already exists', async () => {
       // Create existing PROJECT.md
       await fs.writeFile(path.join(tempDir, 'PROJECT.md'), '# Existing');